@@ -1,4 +1,11 @@
-import { PrismaClient, ItemStatus, PackStatus, AdminRole } from "@prisma/client";
+import {
+  PrismaClient,
+  ItemStatus,
+  PackStatus,
+  AdminRole,
+  LedgerAccount,
+  LedgerEntryType,
+} from "@prisma/client";
 import bcrypt from "bcryptjs";
 
 /**
@@ -46,6 +53,8 @@ async function main() {
 
   // Clean existing data (order matters for foreign keys)
   console.log("Cleaning existing data...");
+  await prisma.userActivityLog.deleteMany();
+  await prisma.ledgerEntry.deleteMany();
   await prisma.listing.deleteMany();
   await prisma.shipmentRequest.deleteMany();
   await prisma.vaultHolding.deleteMany();
@@ -56,8 +65,13 @@ async function main() {
   await prisma.packGuarantee.deleteMany();
   await prisma.packConfig.deleteMany();
   await prisma.packProduct.deleteMany();
+  await prisma.itemValuation.deleteMany();
   await prisma.item.deleteMany();
   await prisma.itemTier.deleteMany();
+  await prisma.auditVerification.deleteMany();
+  await prisma.adminInvite.deleteMany();
+  await prisma.adminRecoveryCode.deleteMany();
+  await prisma.adminAuthSession.deleteMany();
   await prisma.auditLog.deleteMany();
 
   // ============================================
@@ -236,6 +250,15 @@ async function main() {
 
   const allItems = await prisma.item.findMany();
 
+  // Starting point of each item's price history
+  await prisma.itemValuation.createMany({
+    data: allItems.map((item) => ({
+      itemId: item.id,
+      valueInCents: item.estimatedValue,
+      source: "initial",
+    })),
+  });
+
   // ============================================
   // Create Pack Products with 100% RTP
   // ============================================
@@ -394,7 +417,7 @@ async function main() {
   });
 
   const userPassword = await bcrypt.hash("test123", 12);
-  await prisma.user.upsert({
+  const testUser = await prisma.user.upsert({
     where: { email: "test@example.com" },
     update: { balanceCents: 100000 },
     create: {
@@ -405,6 +428,29 @@ async function main() {
     },
   });
 
+  // Opening deposit so the balance reconciles against the ledger
+  const depositTransactionId = crypto.randomUUID();
+  await prisma.ledgerEntry.createMany({
+    data: [
+      {
+        transactionId: depositTransactionId,
+        type: LedgerEntryType.DEPOSIT,
+        account: LedgerAccount.USER_BALANCE,
+        userId: testUser.id,
+        amountCents: 100000,
+        balanceAfter: 100000,
+        description: "Seed balance",
+      },
+      {
+        transactionId: depositTransactionId,
+        type: LedgerEntryType.DEPOSIT,
+        account: LedgerAccount.DEPOSITS,
+        amountCents: -100000,
+        description: "Seed balance",
+      },
+    ],
+  });
+
   console.log("Created admin: admin@courtyard.io / admin123");
   console.log("Created user: test@example.com / test123 ($1000 balance)");
 
@@ -0,0 +1,31 @@
+import { backfillAuditChain } from "../src/lib/audit-log";
+import prisma from "../src/lib/prisma";
+
+/**
+ * Audit Chain Backfill Script
+ *
+ * Chains audit entries written before the hash chain existed, in a
+ * legacy chain of their own, then verifies the log. Refuses to run while
+ * the existing chain fails verification. Run once after deploying the
+ * hash chain: npm run audit:backfill
+ */
+
+async function main() {
+  const { entriesChained, report } = await backfillAuditChain();
+  console.log(`Chained ${entriesChained} older audit entr${entriesChained === 1 ? "y" : "ies"}`);
+  console.log(
+    report.valid
+      ? `Audit log verified: ${report.entriesChecked} entries`
+      : `Audit log verification failed: ${report.problems.join("; ")}`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("Audit chain backfill failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+    process.exit();
+  });
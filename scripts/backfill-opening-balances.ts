@@ -0,0 +1,30 @@
+import { backfillOpeningBalances } from "../src/lib/ledger";
+import prisma from "../src/lib/prisma";
+
+/**
+ * Opening Balance Backfill Script
+ *
+ * Posts an opening ledger deposit for every user balance written before
+ * the ledger existed. Run once after deploying the ledger, before the
+ * first reconciliation: npm run ledger:backfill
+ */
+
+async function main() {
+  const result = await backfillOpeningBalances();
+  console.log(
+    `Checked ${result.checkedUsers} user(s) without ledger history, backfilled ${result.backfilled.length}`
+  );
+  for (const { userId, amountCents } of result.backfilled) {
+    console.log(`  ${userId}: ${amountCents} cents`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Opening balance backfill failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+    process.exit();
+  });
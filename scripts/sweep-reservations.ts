@@ -0,0 +1,37 @@
+import { sweepExpiredReservations } from "../src/lib/reservation-sweeper";
+import { isSharedRedis } from "../src/lib/redis";
+import prisma from "../src/lib/prisma";
+
+/**
+ * Reservation Sweeper Script
+ *
+ * Releases RESERVED items whose checkout reservation has expired.
+ * Run from cron: npm run reservations:sweep
+ */
+
+async function main() {
+  // Without a shared Redis this process cannot see the app's
+  // reservations and would release every one of them
+  if (!isSharedRedis()) {
+    console.error("Set KV_BACKEND=redis and point REDIS_URL at the app's Redis to sweep reservations");
+    process.exit(1);
+  }
+
+  const result = await sweepExpiredReservations();
+  console.log(
+    `Checked ${result.checked} reserved item(s), released ${result.released.length}`
+  );
+  for (const itemId of result.released) {
+    console.log(`  released ${itemId}`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("Reservation sweep failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+    process.exit();
+  });
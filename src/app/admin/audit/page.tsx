@@ -0,0 +1,225 @@
+import Link from "next/link";
+import { prisma } from "@/lib/prisma";
+import { getLatestAuditVerification, listAuditLogs } from "@/lib/audit-log";
+import { Card, Button } from "@/components/ui";
+import { AlertTriangle, CheckCircle } from "lucide-react";
+import { VerifyAuditButton } from "../components/verify-audit-button";
+
+// Force dynamic rendering - database not accessible at build time
+export const dynamic = "force-dynamic";
+
+/**
+ * Admin Audit Log Page
+ *
+ * Browse admin actions and the state of the audit hash chain
+ */
+
+interface AuditFilters {
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  admin?: string;
+  page?: string;
+}
+
+interface AuditPageProps {
+  searchParams: Promise<AuditFilters>;
+}
+
+async function getAuditLog(filters: AuditFilters) {
+  const [entries, actions, admins, verification] = await Promise.all([
+    listAuditLogs({
+      page: Number(filters.page) || 1,
+      action: filters.action || undefined,
+      entityType: filters.entityType || undefined,
+      entityId: filters.entityId || undefined,
+      adminUserId: filters.admin || undefined,
+    }),
+    prisma.auditLog.findMany({
+      select: { action: true },
+      distinct: ["action"],
+      orderBy: { action: "asc" },
+    }),
+    prisma.adminUser.findMany({
+      select: { id: true, email: true },
+      orderBy: { email: "asc" },
+    }),
+    getLatestAuditVerification(),
+  ]);
+
+  return { entries, actions, admins, verification };
+}
+
+export default async function AuditPage({ searchParams }: AuditPageProps) {
+  const filters = await searchParams;
+  const { entries, actions, admins, verification } = await getAuditLog(filters);
+
+  const pageHref = (page: number) => {
+    const params = new URLSearchParams(
+      Object.entries({ ...filters, page: String(page) }).filter(
+        (entry): entry is [string, string] => !!entry[1]
+      )
+    );
+    return `/admin/audit?${params}`;
+  };
+
+  const problems = (verification?.problems ?? []) as string[];
+
+  return (
+    <div className="p-8">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Audit Log</h1>
+          <p className="text-text-secondary">
+            {entries.total} entries
+          </p>
+        </div>
+        <VerifyAuditButton />
+      </div>
+
+      {/* Chain verification */}
+      <Card className={`p-4 mb-6 ${verification && !verification.valid ? "border-error" : ""}`}>
+        {!verification ? (
+          <p className="text-sm text-text-muted">The audit chain has not been verified yet</p>
+        ) : verification.valid ? (
+          <p className="flex items-center gap-2 text-sm text-success">
+            <CheckCircle className="h-4 w-4 shrink-0" />
+            Chain intact - {verification.entriesChecked} entries verified{" "}
+            {verification.createdAt.toLocaleString()}
+          </p>
+        ) : (
+          <>
+            <p className="flex items-center gap-2 text-sm text-error mb-2">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              Chain verification failed {verification.createdAt.toLocaleString()}
+            </p>
+            <ul className="space-y-1">
+              {problems.map((problem) => (
+                <li key={problem} className="text-xs text-error">{problem}</li>
+              ))}
+            </ul>
+          </>
+        )}
+      </Card>
+
+      {/* Filters */}
+      <Card className="p-4 mb-6">
+        <form method="get" className="flex gap-4">
+          <select
+            name="action"
+            defaultValue={filters.action ?? ""}
+            className="px-4 py-2 rounded-lg bg-surface-elevated border border-border text-foreground"
+          >
+            <option value="">All Actions</option>
+            {actions.map(({ action }) => (
+              <option key={action} value={action}>{action}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            name="entityType"
+            defaultValue={filters.entityType}
+            placeholder="Entity type"
+            className="px-4 py-2 rounded-lg bg-surface-elevated border border-border text-foreground placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-accent"
+          />
+          <input
+            type="text"
+            name="entityId"
+            defaultValue={filters.entityId}
+            placeholder="Entity ID"
+            className="flex-1 px-4 py-2 rounded-lg bg-surface-elevated border border-border text-foreground placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-accent"
+          />
+          <select
+            name="admin"
+            defaultValue={filters.admin ?? ""}
+            className="px-4 py-2 rounded-lg bg-surface-elevated border border-border text-foreground"
+          >
+            <option value="">All Admins</option>
+            {admins.map((admin) => (
+              <option key={admin.id} value={admin.id}>{admin.email}</option>
+            ))}
+          </select>
+          <Button type="submit" variant="secondary">Filter</Button>
+        </form>
+      </Card>
+
+      {/* Entries */}
+      <Card className="overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-surface-elevated border-b border-border">
+              <tr>
+                <th className="text-left p-4 text-sm font-medium text-text-secondary">#</th>
+                <th className="text-left p-4 text-sm font-medium text-text-secondary">Time</th>
+                <th className="text-left p-4 text-sm font-medium text-text-secondary">Admin</th>
+                <th className="text-left p-4 text-sm font-medium text-text-secondary">Action</th>
+                <th className="text-left p-4 text-sm font-medium text-text-secondary">Entity</th>
+                <th className="text-left p-4 text-sm font-medium text-text-secondary">IP</th>
+                <th className="text-left p-4 text-sm font-medium text-text-secondary">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.items.map((entry) => (
+                <tr key={entry.id} className="border-b border-border align-top hover:bg-surface-elevated/50">
+                  <td className="p-4 text-sm text-text-muted">
+                    {entry.epoch === 0 ? `legacy ${entry.sequence}` : entry.sequence ?? "-"}
+                  </td>
+                  <td className="p-4 text-sm text-text-secondary whitespace-nowrap">
+                    {entry.createdAt.toLocaleString()}
+                  </td>
+                  <td className="p-4 text-sm text-foreground">{entry.adminUser?.email ?? "System"}</td>
+                  <td className="p-4 text-sm font-mono text-foreground">{entry.action}</td>
+                  <td className="p-4 text-sm text-text-secondary">
+                    {entry.entityType}
+                    {entry.entityId && (
+                      <p className="text-xs font-mono text-text-muted">{entry.entityId}</p>
+                    )}
+                  </td>
+                  <td className="p-4 text-sm text-text-muted">{entry.ipAddress ?? "-"}</td>
+                  <td className="p-4 text-xs">
+                    {entry.details ? (
+                      <details>
+                        <summary className="cursor-pointer text-text-secondary">View</summary>
+                        <pre className="mt-2 max-w-md overflow-x-auto text-text-muted">
+                          {JSON.stringify(entry.details, null, 2)}
+                        </pre>
+                      </details>
+                    ) : (
+                      <span className="text-text-muted">-</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {entries.items.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="p-8 text-center text-text-muted">No entries</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+
+      {/* Pagination */}
+      {entries.totalPages > 1 && (
+        <div className="flex items-center justify-between mt-6">
+          <p className="text-sm text-text-secondary">
+            Page {entries.page} of {entries.totalPages}
+          </p>
+          <div className="flex gap-2">
+            {entries.page > 1 && (
+              <Link href={pageHref(entries.page - 1)}>
+                <Button variant="secondary" size="sm">Previous</Button>
+              </Link>
+            )}
+            {entries.page < entries.totalPages && (
+              <Link href={pageHref(entries.page + 1)}>
+                <Button variant="secondary" size="sm">Next</Button>
+              </Link>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button, Card, Input } from "@/components/ui";
+import type { CreateItemInput } from "@/types";
+import { AlertCircle } from "lucide-react";
+
+/**
+ * Item Form
+ *
+ * Creates or edits an inventory item
+ */
+
+interface ItemFormProps {
+  itemId?: string;
+  initial?: CreateItemInput;
+  tiers: {
+    id: string;
+    name: string;
+  }[];
+  // Packs a new item can be added to
+  packs?: {
+    id: string;
+    name: string;
+    status: string;
+  }[];
+}
+
+const TEXT_FIELDS = [
+  { key: "collection", label: "Collection" },
+  { key: "category", label: "Category" },
+  { key: "condition", label: "Condition" },
+  { key: "gradeInfo", label: "Grade Info" },
+  { key: "serialNumber", label: "Serial Number" },
+] as const;
+
+type TextField = (typeof TEXT_FIELDS)[number]["key"];
+
+export function ItemForm({ itemId, initial, tiers, packs = [] }: ItemFormProps) {
+  const router = useRouter();
+  const [sku, setSku] = useState(initial?.sku ?? "");
+  const [name, setName] = useState(initial?.name ?? "");
+  const [description, setDescription] = useState(initial?.description ?? "");
+  const [images, setImages] = useState((initial?.images ?? []).join("\n"));
+  // Empty means derive the tier from the value bands
+  const [tierId, setTierId] = useState(initial?.tierId ?? "");
+  const [value, setValue] = useState(
+    initial ? (initial.estimatedValue / 100).toFixed(2) : ""
+  );
+  const [details, setDetails] = useState<Record<TextField, string>>({
+    collection: initial?.collection ?? "",
+    category: initial?.category ?? "",
+    condition: initial?.condition ?? "",
+    gradeInfo: initial?.gradeInfo ?? "",
+    serialNumber: initial?.serialNumber ?? "",
+  });
+  const [packProductIds, setPackProductIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setSaving(true);
+
+    const input: CreateItemInput = {
+      sku: sku.trim(),
+      name: name.trim(),
+      description: description.trim() || undefined,
+      images: images.split("\n").map((url) => url.trim()).filter(Boolean),
+      tierId: tierId || undefined,
+      estimatedValue: Math.round(Number(value) * 100),
+      ...Object.fromEntries(
+        Object.entries(details).map(([key, v]) => [key, v.trim() || undefined])
+      ),
+    };
+
+    try {
+      const res = await fetch(itemId ? `/api/admin/items/${itemId}` : "/api/admin/items", {
+        method: itemId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(itemId ? input : { ...input, packProductIds }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to save item");
+        return;
+      }
+
+      router.push("/admin/inventory");
+      router.refresh();
+    } catch {
+      setError("An error occurred. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-2xl">
+      <Card className="p-6 space-y-4">
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-error-muted text-error text-sm">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label htmlFor="sku" className="text-sm font-medium text-foreground">SKU</label>
+            <Input id="sku" value={sku} onChange={(e) => setSku(e.target.value)} required />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="name" className="text-sm font-medium text-foreground">Name</label>
+            <Input id="name" value={name} onChange={(e) => setName(e.target.value)} required />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="description" className="text-sm font-medium text-foreground">Description</label>
+          <textarea
+            id="description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={3}
+            className="w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-foreground placeholder:text-text-muted hover:border-text-muted focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="images" className="text-sm font-medium text-foreground">Image URLs</label>
+          <textarea
+            id="images"
+            value={images}
+            onChange={(e) => setImages(e.target.value)}
+            rows={2}
+            placeholder="One URL per line"
+            className="w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-foreground placeholder:text-text-muted hover:border-text-muted focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label htmlFor="tier" className="text-sm font-medium text-foreground">Tier</label>
+            <select
+              id="tier"
+              value={tierId}
+              onChange={(e) => setTierId(e.target.value)}
+              className="h-10 w-full rounded-lg border border-border bg-surface px-3 text-sm text-foreground"
+            >
+              <option value="">Auto (from value)</option>
+              {tiers.map((tier) => (
+                <option key={tier.id} value={tier.id}>{tier.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="value" className="text-sm font-medium text-foreground">Estimated Value ($)</label>
+            <Input
+              id="value"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              required
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          {TEXT_FIELDS.map((field) => (
+            <div key={field.key} className="space-y-2">
+              <label htmlFor={field.key} className="text-sm font-medium text-foreground">
+                {field.label}
+              </label>
+              <Input
+                id={field.key}
+                value={details[field.key]}
+                onChange={(e) => setDetails({ ...details, [field.key]: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+
+        {!itemId && packs.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-foreground">Add to Pack Pools</p>
+            {packs.map((pack) => (
+              <label key={pack.id} className="flex items-center gap-2 text-sm text-text-secondary">
+                <input
+                  type="checkbox"
+                  checked={packProductIds.includes(pack.id)}
+                  onChange={(e) =>
+                    setPackProductIds(
+                      e.target.checked
+                        ? [...packProductIds, pack.id]
+                        : packProductIds.filter((id) => id !== pack.id)
+                    )
+                  }
+                />
+                {pack.name}
+                <span className="text-xs text-text-muted">{pack.status}</span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        <Button type="submit" className="w-full" loading={saving}>
+          {itemId ? "Save Changes" : "Create Item"}
+        </Button>
+      </Card>
+    </form>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button, Card } from "@/components/ui";
+import { AlertCircle, CheckCircle } from "lucide-react";
+
+/**
+ * Item Import Form
+ *
+ * Uploads a CSV batch, validates it with a dry run, then imports it
+ */
+
+interface ItemImportFormProps {
+  packs: {
+    id: string;
+    name: string;
+    status: string;
+  }[];
+}
+
+interface ImportResponse {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  errors: { row: number; sku?: string; error: string }[];
+}
+
+const SAMPLE_HEADER =
+  "sku,name,tier,estimatedValue,collection,category,condition,gradeInfo,serialNumber,images,packs";
+
+export function ItemImportForm({ packs }: ItemImportFormProps) {
+  const router = useRouter();
+  const [csv, setCsv] = useState("");
+  const [packProductIds, setPackProductIds] = useState<string[]>([]);
+  const [result, setResult] = useState<ImportResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setCsv(await file.text());
+      setResult(null);
+    }
+  };
+
+  const submit = async (dryRun: boolean) => {
+    setError("");
+    setLoading(true);
+
+    try {
+      const res = await fetch("/api/admin/items/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv, packProductIds, dryRun }),
+      });
+
+      const data = await res.json();
+
+      // 422 carries row-level errors in the normal response shape
+      if (!res.ok && res.status !== 422) {
+        setError(data.error || "Failed to import items");
+        setResult(null);
+        return;
+      }
+
+      setResult(data);
+      if (!dryRun && data.created > 0) {
+        router.refresh();
+      }
+    } catch {
+      setError("An error occurred. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 max-w-4xl">
+      <Card className="p-6 space-y-4">
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-error-muted text-error text-sm">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <label htmlFor="file" className="text-sm font-medium text-foreground">CSV File</label>
+          <input id="file" type="file" accept=".csv,text/csv" onChange={handleFile} className="block text-sm text-text-secondary" />
+          <p className="text-xs text-text-muted">
+            Columns: <code>{SAMPLE_HEADER}</code>. Values are in cents; tier is a name or id, or blank to derive it from the value;
+            separate multiple images or pack ids with &quot;|&quot;.
+          </p>
+        </div>
+
+        <textarea
+          value={csv}
+          onChange={(e) => {
+            setCsv(e.target.value);
+            setResult(null);
+          }}
+          rows={10}
+          placeholder={SAMPLE_HEADER}
+          className="w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm font-mono text-foreground placeholder:text-text-muted hover:border-text-muted focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent"
+        />
+
+        {packs.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-foreground">Add every row to</p>
+            <div className="flex flex-wrap gap-4">
+              {packs.map((pack) => (
+                <label key={pack.id} className="flex items-center gap-2 text-sm text-text-secondary">
+                  <input
+                    type="checkbox"
+                    checked={packProductIds.includes(pack.id)}
+                    onChange={(e) =>
+                      setPackProductIds(
+                        e.target.checked
+                          ? [...packProductIds, pack.id]
+                          : packProductIds.filter((id) => id !== pack.id)
+                      )
+                    }
+                  />
+                  {pack.name}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={() => submit(true)} loading={loading} disabled={!csv.trim()}>
+            Validate
+          </Button>
+          <Button
+            onClick={() => submit(false)}
+            loading={loading}
+            disabled={!csv.trim() || !result?.dryRun || result.errors.length > 0}
+          >
+            Import
+          </Button>
+        </div>
+      </Card>
+
+      {result && (
+        <Card className="p-6">
+          {result.errors.length === 0 ? (
+            <div className="flex items-center gap-2 text-success">
+              <CheckCircle className="h-5 w-5" />
+              {result.dryRun
+                ? `${result.total} rows are valid and ready to import`
+                : `Imported ${result.created} items`}
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center gap-2 text-error mb-4">
+                <AlertCircle className="h-5 w-5" />
+                {result.errors.length} of {result.total} rows have errors - nothing was imported
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-text-secondary">
+                    <th className="py-2">Row</th>
+                    <th className="py-2">SKU</th>
+                    <th className="py-2">Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.errors.map((rowError) => (
+                    <tr key={`${rowError.row}-${rowError.error}`} className="border-t border-border">
+                      <td className="py-2 text-text-muted">{rowError.row}</td>
+                      <td className="py-2 font-mono text-text-secondary">{rowError.sku ?? "-"}</td>
+                      <td className="py-2 text-error">{rowError.error}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,422 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from "react";
+import { useRouter } from "next/navigation";
+import { Button, Card, Input, Badge } from "@/components/ui";
+import { formatCurrency } from "@/lib/utils";
+import type { CreatePackInput, PackEconomics, PackHealth } from "@/types";
+import { AlertCircle, AlertTriangle, CheckCircle } from "lucide-react";
+
+/**
+ * Pack Builder Form
+ *
+ * Creates or edits a pack with its odds and pool, showing pack health
+ * for the unsaved configuration as it changes
+ */
+
+interface PackBuilderFormProps {
+  packId?: string;
+  initial?: CreatePackInput;
+  tiers: {
+    id: string;
+    name: string;
+    color: string;
+  }[];
+  items: {
+    id: string;
+    name: string;
+    sku: string;
+    tierId: string;
+    estimatedValue: number;
+    status: string;
+  }[];
+}
+
+const PREVIEW_DEBOUNCE_MS = 400;
+
+export function PackBuilderForm({ packId, initial, tiers, items }: PackBuilderFormProps) {
+  const router = useRouter();
+  const [name, setName] = useState(initial?.name ?? "");
+  const [description, setDescription] = useState(initial?.description ?? "");
+  const [images, setImages] = useState((initial?.images ?? []).join("\n"));
+  const [price, setPrice] = useState(
+    initial ? (initial.priceInCents / 100).toFixed(2) : ""
+  );
+  const [maxSupply, setMaxSupply] = useState(initial?.maxSupply?.toString() ?? "");
+  const [itemsPerPack, setItemsPerPack] = useState(initial?.itemsPerPack?.toString() ?? "1");
+  const [guarantees, setGuarantees] = useState<Record<string, string>>(() =>
+    Object.fromEntries((initial?.guarantees ?? []).map((g) => [g.tierId, String(g.minCount)]))
+  );
+  const [weights, setWeights] = useState<Record<string, string>>(() =>
+    Object.fromEntries((initial?.tierWeights ?? []).map((w) => [w.tierId, String(w.weight)]))
+  );
+  const [poolItemIds, setPoolItemIds] = useState<Set<string>>(
+    () => new Set(initial?.poolItemIds ?? [])
+  );
+  const [tierFilter, setTierFilter] = useState<string>("");
+  const [health, setHealth] = useState<PackHealth | null>(null);
+  const [economics, setEconomics] = useState<PackEconomics | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const input: CreatePackInput = useMemo(() => ({
+    name: name.trim(),
+    description: description.trim() || undefined,
+    images: images.split("\n").map((url) => url.trim()).filter(Boolean),
+    priceInCents: Math.round(Number(price) * 100) || 0,
+    maxSupply: maxSupply ? Number(maxSupply) : undefined,
+    itemsPerPack: Number(itemsPerPack) || 1,
+    guarantees: Object.entries(guarantees)
+      .filter(([, count]) => Number(count) > 0)
+      .map(([tierId, count]) => ({ tierId, minCount: Number(count) })),
+    tierWeights: Object.entries(weights)
+      .filter(([, weight]) => Number(weight) > 0)
+      .map(([tierId, weight]) => ({ tierId, weight: Number(weight) })),
+    poolItemIds: [...poolItemIds],
+  }), [name, description, images, price, maxSupply, itemsPerPack, guarantees, weights, poolItemIds]);
+
+  // Recompute health for the unsaved config once typing settles
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      fetch("/api/admin/packs/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...input, packProductId: packId }),
+      })
+        .then((res) => res.json())
+        .then((data) => {
+          setHealth(data.health ?? null);
+          setEconomics(data.economics ?? null);
+        })
+        .catch(() => {
+          setHealth(null);
+          setEconomics(null);
+        });
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [input, packId]);
+
+  const tierMap = new Map(tiers.map((t) => [t.id, t]));
+  const visibleItems = tierFilter
+    ? items.filter((item) => item.tierId === tierFilter)
+    : items;
+  const totalWeight = input.tierWeights.reduce((sum, w) => sum + w.weight, 0);
+
+  const toggleItem = (itemId: string) => {
+    setPoolItemIds((current) => {
+      const next = new Set(current);
+      if (next.has(itemId)) {
+        next.delete(itemId);
+      } else {
+        next.add(itemId);
+      }
+      return next;
+    });
+  };
+
+  const toggleVisible = (selected: boolean) => {
+    setPoolItemIds((current) => {
+      const next = new Set(current);
+      for (const item of visibleItems) {
+        if (selected) {
+          next.add(item.id);
+        } else {
+          next.delete(item.id);
+        }
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setSaving(true);
+
+    try {
+      const res = await fetch(packId ? `/api/admin/packs/${packId}` : "/api/admin/packs", {
+        method: packId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to save pack");
+        return;
+      }
+
+      router.push("/admin/packs");
+      router.refresh();
+    } catch {
+      setError("An error occurred. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-6">
+        {error && (
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-error-muted text-error text-sm">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {/* Details */}
+        <Card className="p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-foreground">Details</h2>
+
+          <div className="space-y-2">
+            <label htmlFor="name" className="text-sm font-medium text-foreground">Name</label>
+            <Input id="name" value={name} onChange={(e) => setName(e.target.value)} required />
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="description" className="text-sm font-medium text-foreground">Description</label>
+            <textarea
+              id="description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              className="w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-foreground placeholder:text-text-muted hover:border-text-muted focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="images" className="text-sm font-medium text-foreground">Image URLs</label>
+            <textarea
+              id="images"
+              value={images}
+              onChange={(e) => setImages(e.target.value)}
+              rows={2}
+              placeholder="One URL per line"
+              className="w-full rounded-lg border border-border bg-surface px-3 py-2 text-sm text-foreground placeholder:text-text-muted hover:border-text-muted focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-accent"
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <label htmlFor="price" className="text-sm font-medium text-foreground">Price ($)</label>
+              <Input
+                id="price"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="maxSupply" className="text-sm font-medium text-foreground">Max Supply</label>
+              <Input
+                id="maxSupply"
+                type="number"
+                min="1"
+                placeholder="Unlimited"
+                value={maxSupply}
+                onChange={(e) => setMaxSupply(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="itemsPerPack" className="text-sm font-medium text-foreground">Items per Pack</label>
+              <Input
+                id="itemsPerPack"
+                type="number"
+                min="1"
+                max="20"
+                value={itemsPerPack}
+                onChange={(e) => setItemsPerPack(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+        </Card>
+
+        {/* Odds */}
+        <Card className="p-6">
+          <h2 className="text-lg font-semibold text-foreground mb-4">Guarantees &amp; Drop Rates</h2>
+          <div className="space-y-3">
+            <div className="grid grid-cols-4 gap-4 text-xs text-text-muted">
+              <span>Tier</span>
+              <span>Guaranteed</span>
+              <span>Weight</span>
+              <span className="text-right">Drop Rate</span>
+            </div>
+            {tiers.map((tier) => {
+              const weight = Number(weights[tier.id]) || 0;
+              const pct = totalWeight > 0 ? Math.round((weight / totalWeight) * 100) : 0;
+              return (
+                <div key={tier.id} className="grid grid-cols-4 gap-4 items-center">
+                  <span className="text-sm font-medium" style={{ color: tier.color }}>
+                    {tier.name}
+                  </span>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={guarantees[tier.id] ?? ""}
+                    placeholder="0"
+                    onChange={(e) => setGuarantees({ ...guarantees, [tier.id]: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    value={weights[tier.id] ?? ""}
+                    placeholder="0"
+                    onChange={(e) => setWeights({ ...weights, [tier.id]: e.target.value })}
+                  />
+                  <span className="text-sm text-text-secondary text-right">{pct}%</span>
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+
+        {/* Pool */}
+        <Card className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-foreground">
+              Pool <span className="text-text-muted text-sm font-normal">({poolItemIds.size} selected)</span>
+            </h2>
+            <div className="flex items-center gap-2">
+              <select
+                value={tierFilter}
+                onChange={(e) => setTierFilter(e.target.value)}
+                className="h-8 rounded-lg border border-border bg-surface px-2 text-sm text-foreground"
+              >
+                <option value="">All tiers</option>
+                {tiers.map((tier) => (
+                  <option key={tier.id} value={tier.id}>{tier.name}</option>
+                ))}
+              </select>
+              <Button type="button" variant="ghost" size="sm" onClick={() => toggleVisible(true)}>
+                Select all
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => toggleVisible(false)}>
+                Clear
+              </Button>
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto divide-y divide-border">
+            {visibleItems.map((item) => {
+              const tier = tierMap.get(item.tierId);
+              return (
+                <label key={item.id} className="flex items-center gap-3 py-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={poolItemIds.has(item.id)}
+                    onChange={() => toggleItem(item.id)}
+                  />
+                  <span className="flex-1 text-sm text-foreground truncate">{item.name}</span>
+                  <span className="text-xs text-text-muted font-mono">{item.sku}</span>
+                  <span className="text-xs" style={{ color: tier?.color }}>{tier?.name}</span>
+                  {item.status !== "AVAILABLE" && (
+                    <Badge variant="secondary">{item.status}</Badge>
+                  )}
+                  <span className="text-sm text-text-secondary w-24 text-right">
+                    {formatCurrency(item.estimatedValue)}
+                  </span>
+                </label>
+              );
+            })}
+            {visibleItems.length === 0 && (
+              <p className="py-4 text-sm text-text-muted text-center">No items</p>
+            )}
+          </div>
+        </Card>
+      </div>
+
+      {/* Health preview */}
+      <div className="space-y-4">
+        <Card className="p-6 lg:sticky lg:top-8">
+          <p className="text-xs text-text-muted mb-2">Pack Health Preview</p>
+          {health ? (
+            <>
+              <div className={`inline-flex items-center gap-2 px-3 py-2 rounded-lg ${
+                health.status === "SELLABLE"
+                  ? "bg-success-muted text-success"
+                  : health.status === "LOW_STOCK"
+                  ? "bg-warning-muted text-warning"
+                  : "bg-error-muted text-error"
+              }`}>
+                {health.status === "SELLABLE" ? (
+                  <CheckCircle className="h-4 w-4" />
+                ) : (
+                  <AlertTriangle className="h-4 w-4" />
+                )}
+                <span className="text-sm font-medium">{health.status}</span>
+              </div>
+
+              {health.tierHealth.length > 0 && (
+                <div className="mt-4 space-y-1">
+                  {health.tierHealth.map((th) => (
+                    <div key={th.tierId} className="text-xs flex justify-between gap-4">
+                      <span className="text-text-muted">{th.tierName}</span>
+                      <span className={th.healthy ? "text-success" : "text-error"}>
+                        {th.available}/{th.required}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {health.warnings.length > 0 && (
+                <ul className="mt-4 space-y-1">
+                  {health.warnings.map((warning) => (
+                    <li key={warning} className="text-xs text-warning">{warning}</li>
+                  ))}
+                </ul>
+              )}
+            </>
+          ) : (
+            <span className="text-text-muted">-</span>
+          )}
+
+          {economics && economics.expectedValue > 0 && (
+            <div className="mt-6 pt-4 border-t border-border space-y-1">
+              <p className="text-xs text-text-muted mb-2">Economics Preview</p>
+              <EconomicsRow label="Expected value" value={formatCurrency(economics.expectedValue)} />
+              <EconomicsRow
+                label="RTP"
+                value={`${(economics.rtp * 100).toFixed(1)}%`}
+                className={economics.withinLimits ? "text-foreground" : "text-error"}
+              />
+              <EconomicsRow label="Std. deviation" value={formatCurrency(economics.standardDeviation)} />
+              <EconomicsRow
+                label={economics.profitProbabilityMethod === "exact" ? "P(profit)" : "P(profit) ≈"}
+                value={`${(economics.profitProbability * 100).toFixed(1)}%`}
+              />
+            </div>
+          )}
+
+          <Button type="submit" className="w-full mt-6" loading={saving}>
+            {packId ? "Save Changes" : "Create Draft"}
+          </Button>
+        </Card>
+      </div>
+    </form>
+  );
+}
+
+function EconomicsRow({
+  label,
+  value,
+  className = "text-foreground",
+}: {
+  label: string;
+  value: string;
+  className?: string;
+}) {
+  return (
+    <div className="text-xs flex justify-between gap-4">
+      <span className="text-text-muted">{label}</span>
+      <span className={className}>{value}</span>
+    </div>
+  );
+}
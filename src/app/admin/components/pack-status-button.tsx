@@ -0,0 +1,62 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui";
+
+/**
+ * Pack Status Button
+ *
+ * Publishes a DRAFT/PAUSED pack or pauses a live one
+ */
+
+interface PackStatusButtonProps {
+  packId: string;
+  status: string;
+}
+
+export function PackStatusButton({ packId, status }: PackStatusButtonProps) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const isLive = status === "ACTIVE" || status === "OUT_OF_STOCK";
+
+  if (status === "RETIRED") {
+    return null;
+  }
+
+  const handleClick = async () => {
+    setError("");
+    setLoading(true);
+
+    try {
+      const res = await fetch(`/api/admin/packs/${packId}/${isLive ? "pause" : "publish"}`, {
+        method: "POST",
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Failed to update pack");
+        return;
+      }
+
+      router.refresh();
+    } catch {
+      setError("An error occurred. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      <Button variant="ghost" size="sm" onClick={handleClick} loading={loading}>
+        {isLive ? "Pause" : "Publish"}
+      </Button>
+      {error && (
+        <p className="text-xs text-error max-w-48">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui";
+
+/**
+ * Re-tier Button
+ *
+ * Previews how many AVAILABLE items would move to the tier their value
+ * falls in, then applies the moves after confirmation
+ */
+
+export function RetierButton() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+
+  const retier = async (dryRun: boolean) => {
+    const res = await fetch("/api/admin/tiers/retier", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ dryRun }),
+    });
+    const data = await res.json();
+
+    if (!res.ok) {
+      throw new Error(data.error || "Failed to re-tier items");
+    }
+    return data as { changes: unknown[]; unclassified: string[] };
+  };
+
+  const handleClick = async () => {
+    setLoading(true);
+
+    try {
+      const preview = await retier(true);
+
+      if (preview.changes.length === 0) {
+        window.alert("Every available item is already in its value band's tier.");
+        return;
+      }
+
+      const unclassified = preview.unclassified.length > 0
+        ? ` ${preview.unclassified.length} items fall outside every band and will be left alone.`
+        : "";
+
+      if (!window.confirm(`Move ${preview.changes.length} items to the tier their value falls in?${unclassified}`)) {
+        return;
+      }
+
+      const applied = await retier(false);
+      window.alert(`Moved ${applied.changes.length} items.`);
+      router.refresh();
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : "An error occurred. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Button variant="secondary" onClick={handleClick} loading={loading}>
+      Re-tier
+    </Button>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui";
+
+/**
+ * Retire Item Button
+ *
+ * Withdraws an AVAILABLE item from inventory and its pack pools
+ */
+
+interface RetireItemButtonProps {
+  itemId: string;
+}
+
+export function RetireItemButton({ itemId }: RetireItemButtonProps) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+
+  const handleClick = async () => {
+    if (!window.confirm("Retire this item? It will be removed from every pack pool.")) {
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const res = await fetch(`/api/admin/items/${itemId}/retire`, { method: "POST" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        window.alert(data.error || "Failed to retire item");
+        return;
+      }
+
+      router.refresh();
+    } catch {
+      window.alert("An error occurred. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Button variant="ghost" size="sm" onClick={handleClick} loading={loading}>
+      Retire
+    </Button>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui";
+
+/**
+ * Session Buttons
+ *
+ * Sign out one session, or every session of the signed-in admin
+ */
+
+async function send(url: string, method: string): Promise<boolean> {
+  try {
+    const res = await fetch(url, { method });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      window.alert(data.error || "Request failed");
+      return false;
+    }
+    return true;
+  } catch {
+    window.alert("An error occurred. Please try again.");
+    return false;
+  }
+}
+
+export function RevokeSessionButton({ sessionId }: { sessionId: string }) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+
+  const handleClick = async () => {
+    setLoading(true);
+    if (await send(`/api/admin/sessions/${sessionId}`, "DELETE")) {
+      router.refresh();
+    }
+    setLoading(false);
+  };
+
+  return (
+    <Button variant="secondary" size="sm" onClick={handleClick} loading={loading}>
+      Sign Out
+    </Button>
+  );
+}
+
+export function SignOutEverywhereButton() {
+  const [loading, setLoading] = useState(false);
+
+  const handleClick = async () => {
+    if (!window.confirm("Sign out of every session, including this one?")) {
+      return;
+    }
+
+    setLoading(true);
+    if (await send("/api/admin/sessions/revoke-all", "POST")) {
+      window.location.href = "/admin/login";
+      return;
+    }
+    setLoading(false);
+  };
+
+  return (
+    <Button variant="secondary" onClick={handleClick} loading={loading}>
+      Sign Out Everywhere
+    </Button>
+  );
+}
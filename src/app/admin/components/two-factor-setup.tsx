@@ -0,0 +1,147 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button, Input } from "@/components/ui";
+import { AlertCircle } from "lucide-react";
+
+/**
+ * Two-Factor Setup
+ *
+ * Walks the signed-in admin through enrollment: issue a secret, confirm
+ * it with a code from the app, then show the recovery codes once.
+ * Enrolled admins can replace their recovery codes from here.
+ */
+
+interface TwoFactorSetupProps {
+  enabled: boolean;
+}
+
+export function TwoFactorSetup({ enabled }: TwoFactorSetupProps) {
+  const router = useRouter();
+  const [enrollment, setEnrollment] = useState<{ secret: string; uri: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const post = async (url: string, body?: Record<string, string>) => {
+    setError("");
+    setLoading(true);
+
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body ?? {}),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "Request failed");
+        return null;
+      }
+
+      return data;
+    } catch {
+      setError("An error occurred. Please try again.");
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStart = async () => {
+    const data = await post("/api/admin/2fa/setup");
+    if (data) {
+      setEnrollment({ secret: data.secret, uri: data.uri });
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await post(
+      enabled ? "/api/admin/2fa/recovery-codes" : "/api/admin/2fa/enable",
+      { code }
+    );
+    if (data) {
+      setRecoveryCodes(data.recoveryCodes);
+      setEnrollment(null);
+      setCode("");
+      router.refresh();
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-foreground">
+          Save these recovery codes somewhere safe. Each works once if you lose
+          your authenticator, and they will not be shown again.
+        </p>
+        <ul className="grid grid-cols-2 gap-2 p-4 rounded-lg bg-surface-elevated font-mono text-sm text-foreground">
+          {recoveryCodes.map((recoveryCode) => (
+            <li key={recoveryCode}>{recoveryCode}</li>
+          ))}
+        </ul>
+        <Button variant="secondary" onClick={() => setRecoveryCodes(null)}>
+          Done
+        </Button>
+      </div>
+    );
+  }
+
+  const codeForm = (label: string) => (
+    <form onSubmit={handleConfirm} className="flex gap-2">
+      <Input
+        type="text"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        placeholder="123456"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        required
+      />
+      <Button type="submit" loading={loading}>{label}</Button>
+    </form>
+  );
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-error-muted text-error text-sm">
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {enabled ? (
+        <>
+          <p className="text-sm text-text-secondary">
+            Enter a current code to replace your recovery codes. The old ones
+            stop working.
+          </p>
+          {codeForm("New Recovery Codes")}
+        </>
+      ) : enrollment ? (
+        <>
+          <p className="text-sm text-text-secondary">
+            Add this account to your authenticator app with the setup link or
+            the key below, then enter the code it shows.
+          </p>
+          <div className="p-4 rounded-lg bg-surface-elevated space-y-2">
+            <p className="text-xs text-text-muted">Setup key</p>
+            <p className="font-mono text-sm text-foreground break-all">{enrollment.secret}</p>
+            <p className="text-xs text-text-muted">Setup link (QR code content)</p>
+            <p className="font-mono text-xs text-text-secondary break-all">{enrollment.uri}</p>
+          </div>
+          {codeForm("Enable")}
+        </>
+      ) : (
+        <Button onClick={handleStart} loading={loading}>
+          Set Up Two-Factor
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui";
+
+/**
+ * Verify Audit Button
+ *
+ * Runs the audit hash chain verification now instead of waiting for the
+ * scheduled job
+ */
+
+export function VerifyAuditButton() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+
+  const handleClick = async () => {
+    setLoading(true);
+
+    try {
+      const res = await fetch("/api/admin/audit/verify", { method: "POST" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        window.alert(data.error || "Failed to verify audit log");
+        return;
+      }
+
+      router.refresh();
+    } catch {
+      window.alert("An error occurred. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Button variant="secondary" onClick={handleClick} loading={loading}>
+      Verify Now
+    </Button>
+  );
+}
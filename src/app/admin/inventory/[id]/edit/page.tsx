@@ -0,0 +1,98 @@
+import { notFound } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { Card } from "@/components/ui";
+import { formatCurrency } from "@/lib/utils";
+import { ItemForm } from "../../../components/item-form";
+import type { CreateItemInput } from "@/types";
+
+// Force dynamic rendering - database not accessible at build time
+export const dynamic = "force-dynamic";
+
+/**
+ * Admin Edit Item Page
+ */
+
+interface EditItemPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function EditItemPage({ params }: EditItemPageProps) {
+  const { id } = await params;
+
+  const [item, tiers] = await Promise.all([
+    prisma.item.findUnique({
+      where: { id },
+      include: {
+        valuations: {
+          include: { adminUser: { select: { email: true } } },
+          orderBy: { createdAt: "desc" },
+          take: 20,
+        },
+      },
+    }),
+    prisma.itemTier.findMany({
+      select: { id: true, name: true },
+      orderBy: { displayOrder: "asc" },
+    }),
+  ]);
+
+  if (!item) {
+    notFound();
+  }
+
+  const initial: CreateItemInput = {
+    sku: item.sku,
+    name: item.name,
+    description: item.description ?? undefined,
+    images: item.images,
+    tierId: item.tierId,
+    collection: item.collection ?? undefined,
+    category: item.category ?? undefined,
+    condition: item.condition ?? undefined,
+    gradeInfo: item.gradeInfo ?? undefined,
+    serialNumber: item.serialNumber ?? undefined,
+    estimatedValue: item.estimatedValue,
+  };
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-foreground">Edit {item.name}</h1>
+        <p className="text-text-secondary">{item.status}</p>
+      </div>
+
+      <ItemForm itemId={item.id} initial={initial} tiers={tiers} />
+
+      {/* Price history */}
+      <Card className="p-6 mt-6 max-w-2xl">
+        <h2 className="text-lg font-semibold text-foreground mb-4">Price History</h2>
+        {item.valuations.length === 0 ? (
+          <p className="text-sm text-text-muted">No recorded values</p>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody>
+              {item.valuations.map((valuation) => (
+                <tr key={valuation.id} className="border-t border-border first:border-t-0">
+                  <td className="py-2 text-text-muted">
+                    {valuation.createdAt.toLocaleDateString()}
+                  </td>
+                  <td className="py-2 text-foreground">
+                    {formatCurrency(valuation.valueInCents)}
+                    {valuation.previousValue !== null && (
+                      <span className="text-text-muted"> from {formatCurrency(valuation.previousValue)}</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-text-secondary">{valuation.source}</td>
+                  <td className="py-2 text-text-muted">
+                    {valuation.adminUser?.email ?? ""}
+                    {valuation.note && ` - ${valuation.note}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { prisma } from "@/lib/prisma";
+import { PackStatus } from "@prisma/client";
+import { MAX_IMPORT_ROWS } from "@/lib/inventory";
+import { ItemImportForm } from "../../components/item-import-form";
+
+// Force dynamic rendering - database not accessible at build time
+export const dynamic = "force-dynamic";
+
+/**
+ * Admin Item Import Page
+ * 
+ * Bulk-load a batch of items from CSV
+ */
+
+export default async function ImportItemsPage() {
+  const packs = await prisma.packProduct.findMany({
+    where: { status: { not: PackStatus.RETIRED } },
+    select: { id: true, name: true, status: true },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-foreground">Import Items</h1>
+        <p className="text-text-secondary">
+          Up to {MAX_IMPORT_ROWS} rows per file - nothing is imported unless every row is valid
+        </p>
+      </div>
+
+      <ItemImportForm packs={packs} />
+    </div>
+  );
+}
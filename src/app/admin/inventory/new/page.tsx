@@ -0,0 +1,43 @@
+import { prisma } from "@/lib/prisma";
+import { PackStatus } from "@prisma/client";
+import { ItemForm } from "../../components/item-form";
+
+// Force dynamic rendering - database not accessible at build time
+export const dynamic = "force-dynamic";
+
+/**
+ * Admin New Item Page
+ */
+
+async function getFormData() {
+  const [tiers, packs] = await Promise.all([
+    prisma.itemTier.findMany({
+      select: { id: true, name: true },
+      orderBy: { displayOrder: "asc" },
+    }),
+    prisma.packProduct.findMany({
+      where: { status: { not: PackStatus.RETIRED } },
+      select: { id: true, name: true, status: true },
+      orderBy: { createdAt: "desc" },
+    }),
+  ]);
+
+  return { tiers, packs };
+}
+
+export default async function NewItemPage() {
+  const { tiers, packs } = await getFormData();
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-foreground">Add Item</h1>
+        <p className="text-text-secondary">
+          New items are AVAILABLE immediately
+        </p>
+      </div>
+
+      <ItemForm tiers={tiers} packs={packs} />
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
+import Link from "next/link";
 import { prisma } from "@/lib/prisma";
 import { Card, Badge, Button } from "@/components/ui";
-import { Package, Plus, Search } from "lucide-react";
+import { Package, Plus, Search, Upload, AlertTriangle } from "lucide-react";
 import { formatCurrency } from "@/lib/utils";
+import { ItemStatus, Prisma } from "@prisma/client";
+import { RetireItemButton } from "../components/retire-item-button";
+import { RetierButton } from "../components/retier-button";
+import { classifyValue, validateTierBands } from "@/lib/tiering";
 
 // Force dynamic rendering - database not accessible at build time
 export const dynamic = "force-dynamic";
@@ -12,8 +17,29 @@ export const dynamic = "force-dynamic";
  * Manage items in the vault
  */
 
-async function getInventory() {
+interface InventoryPageProps {
+  searchParams: Promise<{ q?: string; tier?: string; status?: string }>;
+}
+
+async function getInventory(filters: { q?: string; tier?: string; status?: string }) {
+  const where: Prisma.ItemWhereInput = {};
+
+  if (filters.q) {
+    where.OR = [
+      { name: { contains: filters.q, mode: "insensitive" } },
+      { sku: { contains: filters.q, mode: "insensitive" } },
+      { collection: { contains: filters.q, mode: "insensitive" } },
+    ];
+  }
+  if (filters.tier) {
+    where.tierId = filters.tier;
+  }
+  if (filters.status && filters.status in ItemStatus) {
+    where.status = filters.status as ItemStatus;
+  }
+
   const items = await prisma.item.findMany({
+    where,
     include: { tier: true },
     orderBy: { createdAt: "desc" },
     take: 100,
@@ -31,10 +57,17 @@ async function getInventory() {
   return { items, tiers, stats };
 }
 
-export default async function InventoryPage() {
-  const { items, tiers, stats } = await getInventory();
+export default async function InventoryPage({ searchParams }: InventoryPageProps) {
+  const filters = await searchParams;
+  const { items, tiers, stats } = await getInventory(filters);
 
   const totalItems = stats.reduce((sum, s) => sum + s._count, 0);
+  const bandValidation = validateTierBands(tiers);
+
+  // Tier each item's value says it should be in, for flagging mismatches
+  const expectedTiers = new Map(
+    items.map((item) => [item.id, classifyValue(item.estimatedValue, tiers)])
+  );
 
   return (
     <div className="p-8">
@@ -45,12 +78,35 @@ export default async function InventoryPage() {
             {totalItems} items in vault
           </p>
         </div>
-        <Button>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Item
-        </Button>
+        <div className="flex gap-2">
+          <RetierButton />
+          <Link href="/admin/inventory/import">
+            <Button variant="secondary">
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+          </Link>
+          <Link href="/admin/inventory/new">
+            <Button>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Item
+            </Button>
+          </Link>
+        </div>
       </div>
 
+      {/* Tier band problems */}
+      {(bandValidation.overlaps.length > 0 || bandValidation.gaps.length > 0) && (
+        <Card className="p-4 mb-6 border-warning">
+          {[...bandValidation.overlaps, ...bandValidation.gaps].map((message) => (
+            <p key={message} className="flex items-center gap-2 text-sm text-warning">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              {message}
+            </p>
+          ))}
+        </Card>
+      )}
+
       {/* Stats by status */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
         {stats.map((stat) => (
@@ -63,29 +119,41 @@ export default async function InventoryPage() {
 
       {/* Search and filters */}
       <Card className="p-4 mb-6">
-        <div className="flex gap-4">
+        <form method="get" className="flex gap-4">
           <div className="flex-1 relative">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-text-muted" />
             <input
               type="text"
+              name="q"
+              defaultValue={filters.q}
               placeholder="Search items..."
               className="w-full pl-10 pr-4 py-2 rounded-lg bg-surface-elevated border border-border text-foreground placeholder:text-text-muted focus:outline-none focus:ring-2 focus:ring-accent"
             />
           </div>
-          <select className="px-4 py-2 rounded-lg bg-surface-elevated border border-border text-foreground">
+          <select
+            name="tier"
+            defaultValue={filters.tier ?? ""}
+            className="px-4 py-2 rounded-lg bg-surface-elevated border border-border text-foreground"
+          >
             <option value="">All Tiers</option>
             {tiers.map((tier) => (
               <option key={tier.id} value={tier.id}>{tier.name}</option>
             ))}
           </select>
-          <select className="px-4 py-2 rounded-lg bg-surface-elevated border border-border text-foreground">
+          <select
+            name="status"
+            defaultValue={filters.status ?? ""}
+            className="px-4 py-2 rounded-lg bg-surface-elevated border border-border text-foreground"
+          >
             <option value="">All Status</option>
             <option value="AVAILABLE">Available</option>
             <option value="RESERVED">Reserved</option>
             <option value="ASSIGNED">Assigned</option>
             <option value="SHIPPED">Shipped</option>
+            <option value="RETIRED">Retired</option>
           </select>
-        </div>
+          <Button type="submit" variant="secondary">Filter</Button>
+        </form>
       </Card>
 
       {/* Items table */}
@@ -126,6 +194,14 @@ export default async function InventoryPage() {
                     >
                       {item.tier.name}
                     </Badge>
+                    {expectedTiers.get(item.id)?.id !== item.tierId && (
+                      <p className="mt-1 flex items-center gap-1 text-xs text-warning">
+                        <AlertTriangle className="h-3 w-3" />
+                        {expectedTiers.get(item.id)
+                          ? `Value is in ${expectedTiers.get(item.id)!.name} band`
+                          : "Value outside every band"}
+                      </p>
+                    )}
                   </td>
                   <td className="p-4 text-sm text-foreground">
                     {formatCurrency(item.estimatedValue)}
@@ -143,7 +219,14 @@ export default async function InventoryPage() {
                     </Badge>
                   </td>
                   <td className="p-4">
-                    <Button variant="ghost" size="sm">Edit</Button>
+                    <div className="flex gap-2">
+                      <Link href={`/admin/inventory/${item.id}/edit`}>
+                        <Button variant="ghost" size="sm">Edit</Button>
+                      </Link>
+                      {item.status === "AVAILABLE" && (
+                        <RetireItemButton itemId={item.id} />
+                      )}
+                    </div>
                   </td>
                 </tr>
               ))}
@@ -3,35 +3,58 @@
 import React, { useState } from "react";
 import { useRouter } from "next/navigation";
 import { Button, Card, CardHeader, CardTitle, CardDescription, CardContent, Input } from "@/components/ui";
-import { Package, Mail, Lock, AlertCircle } from "lucide-react";
+import { Package, Mail, Lock, AlertCircle, KeyRound, ShieldAlert } from "lucide-react";
 
 /**
  * Admin Login Page
+ *
+ * Email and password, then an authenticator or recovery code for admins
+ * with two-factor enabled. Too many failed attempts lock the login out
+ * for a while; the notice says until when.
  */
 
 export default function AdminLoginPage() {
   const router = useRouter();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [twoFactorStep, setTwoFactorStep] = useState(false);
   const [error, setError] = useState("");
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
   const [loading, setLoading] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
+    setLockedUntil(null);
     setLoading(true);
 
     try {
-      const res = await fetch("/api/admin/login", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email, password }),
-      });
+      const res = twoFactorStep
+        ? await fetch("/api/admin/login/verify", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(useRecoveryCode ? { recoveryCode: code } : { code }),
+          })
+        : await fetch("/api/admin/login", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ email, password }),
+          });
 
       const data = await res.json();
 
-      if (!res.ok) {
+      if (data.lockedUntil) {
+        // A locked login has to start over once the lockout ends
+        setLockedUntil(new Date(data.lockedUntil));
+        setTwoFactorStep(false);
+        setCode("");
+      } else if (!res.ok) {
         setError(data.error || "Login failed");
+      } else if (data.requiresTwoFactor) {
+        setTwoFactorStep(true);
+        setCode("");
       } else {
         router.push("/admin");
         router.refresh();
@@ -68,6 +91,20 @@ export default function AdminLoginPage() {
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-4">
+              {lockedUntil && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-warning-muted text-warning text-sm">
+                  <ShieldAlert className="h-4 w-4 shrink-0 mt-0.5" />
+                  <div>
+                    <p className="font-medium">Sign-in temporarily locked</p>
+                    <p>
+                      Too many failed attempts. Try again after{" "}
+                      {lockedUntil.toLocaleTimeString()}, or ask a super admin to
+                      unlock your account.
+                    </p>
+                  </div>
+                </div>
+              )}
+
               {error && (
                 <div className="flex items-center gap-2 p-3 rounded-lg bg-error-muted text-error text-sm">
                   <AlertCircle className="h-4 w-4 shrink-0" />
@@ -75,44 +112,81 @@ export default function AdminLoginPage() {
                 </div>
               )}
 
-              <div className="space-y-2">
-                <label htmlFor="email" className="text-sm font-medium text-foreground">
-                  Email
-                </label>
-                <div className="relative">
-                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-text-muted" />
-                  <Input
-                    id="email"
-                    type="email"
-                    placeholder="admin@courtyard.io"
-                    value={email}
-                    onChange={(e) => setEmail(e.target.value)}
-                    className="pl-10"
-                    required
-                  />
+              {twoFactorStep ? (
+                <div className="space-y-2">
+                  <label htmlFor="code" className="text-sm font-medium text-foreground">
+                    {useRecoveryCode ? "Recovery code" : "Authentication code"}
+                  </label>
+                  <div className="relative">
+                    <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-text-muted" />
+                    <Input
+                      id="code"
+                      type="text"
+                      inputMode={useRecoveryCode ? "text" : "numeric"}
+                      autoComplete="one-time-code"
+                      placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      className="pl-10"
+                      autoFocus
+                      required
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setCode("");
+                    }}
+                    className="text-xs text-text-secondary hover:text-foreground"
+                  >
+                    {useRecoveryCode
+                      ? "Use your authenticator app instead"
+                      : "Lost your authenticator? Use a recovery code"}
+                  </button>
                 </div>
-              </div>
-
-              <div className="space-y-2">
-                <label htmlFor="password" className="text-sm font-medium text-foreground">
-                  Password
-                </label>
-                <div className="relative">
-                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-text-muted" />
-                  <Input
-                    id="password"
-                    type="password"
-                    placeholder="••••••••"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    className="pl-10"
-                    required
-                  />
-                </div>
-              </div>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <label htmlFor="email" className="text-sm font-medium text-foreground">
+                      Email
+                    </label>
+                    <div className="relative">
+                      <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-text-muted" />
+                      <Input
+                        id="email"
+                        type="email"
+                        placeholder="admin@courtyard.io"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        className="pl-10"
+                        required
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <label htmlFor="password" className="text-sm font-medium text-foreground">
+                      Password
+                    </label>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-text-muted" />
+                      <Input
+                        id="password"
+                        type="password"
+                        placeholder="••••••••"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        className="pl-10"
+                        required
+                      />
+                    </div>
+                  </div>
+                </>
+              )}
 
               <Button type="submit" className="w-full" loading={loading}>
-                Sign In
+                {twoFactorStep ? "Verify" : "Sign In"}
               </Button>
             </form>
           </CardContent>
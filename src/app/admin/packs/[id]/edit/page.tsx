@@ -0,0 +1,110 @@
+import { notFound } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { ItemStatus, PackStatus } from "@prisma/client";
+import { PackBuilderForm } from "../../../components/pack-builder-form";
+import type { CreatePackInput } from "@/types";
+
+// Force dynamic rendering - database not accessible at build time
+export const dynamic = "force-dynamic";
+
+/**
+ * Admin Edit Pack Page
+ * 
+ * Edit a pack's details, odds and pool
+ */
+
+interface EditPackPageProps {
+  params: Promise<{ id: string }>;
+}
+
+async function getBuilderData(packId: string) {
+  const pack = await prisma.packProduct.findUnique({
+    where: { id: packId },
+    include: {
+      config: {
+        include: {
+          guarantees: true,
+          tierWeights: true,
+        },
+      },
+      poolItems: { select: { itemId: true } },
+    },
+  });
+
+  if (!pack) {
+    return null;
+  }
+
+  const [tiers, items] = await Promise.all([
+    prisma.itemTier.findMany({
+      select: { id: true, name: true, color: true },
+      orderBy: { displayOrder: "asc" },
+    }),
+    // Available inventory plus whatever is already in this pool
+    prisma.item.findMany({
+      where: {
+        OR: [
+          { status: ItemStatus.AVAILABLE },
+          { packPoolItems: { some: { packProductId: packId } } },
+        ],
+      },
+      select: {
+        id: true,
+        name: true,
+        sku: true,
+        tierId: true,
+        estimatedValue: true,
+        status: true,
+      },
+      orderBy: [{ tierId: "asc" }, { estimatedValue: "desc" }],
+    }),
+  ]);
+
+  return { pack, tiers, items };
+}
+
+export default async function EditPackPage({ params }: EditPackPageProps) {
+  const { id } = await params;
+  const data = await getBuilderData(id);
+
+  if (!data) {
+    notFound();
+  }
+
+  const { pack, tiers, items } = data;
+
+  const initial: CreatePackInput = {
+    name: pack.name,
+    description: pack.description ?? undefined,
+    images: pack.images,
+    priceInCents: pack.priceInCents,
+    maxSupply: pack.maxSupply ?? undefined,
+    itemsPerPack: pack.config?.itemsPerPack ?? 1,
+    guarantees: pack.config?.guarantees.map((g) => ({
+      tierId: g.tierId,
+      minCount: g.minCount,
+    })) ?? [],
+    tierWeights: pack.config?.tierWeights.map((w) => ({
+      tierId: w.tierId,
+      weight: w.weight,
+    })) ?? [],
+    poolItemIds: pack.poolItems.map((pi) => pi.itemId),
+  };
+
+  const editable = pack.status === PackStatus.DRAFT || pack.status === PackStatus.PAUSED;
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-foreground">Edit {pack.name}</h1>
+        <p className="text-text-secondary">
+          {editable
+            ? `${pack.status} - changes apply when saved`
+            : `${pack.status} - pause the pack before saving changes`}
+        </p>
+      </div>
+
+      <PackBuilderForm packId={pack.id} initial={initial} tiers={tiers} items={items} />
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { prisma } from "@/lib/prisma";
+import { ItemStatus } from "@prisma/client";
+import { PackBuilderForm } from "../../components/pack-builder-form";
+
+// Force dynamic rendering - database not accessible at build time
+export const dynamic = "force-dynamic";
+
+/**
+ * Admin New Pack Page
+ * 
+ * Build a DRAFT pack from available inventory
+ */
+
+async function getBuilderData() {
+  const [tiers, items] = await Promise.all([
+    prisma.itemTier.findMany({
+      select: { id: true, name: true, color: true },
+      orderBy: { displayOrder: "asc" },
+    }),
+    prisma.item.findMany({
+      where: { status: ItemStatus.AVAILABLE },
+      select: {
+        id: true,
+        name: true,
+        sku: true,
+        tierId: true,
+        estimatedValue: true,
+        status: true,
+      },
+      orderBy: [{ tierId: "asc" }, { estimatedValue: "desc" }],
+    }),
+  ]);
+
+  return { tiers, items };
+}
+
+export default async function NewPackPage() {
+  const { tiers, items } = await getBuilderData();
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-foreground">Create Pack</h1>
+        <p className="text-text-secondary">
+          New packs start as drafts - publish once the health check passes
+        </p>
+      </div>
+
+      <PackBuilderForm tiers={tiers} items={items} />
+    </div>
+  );
+}
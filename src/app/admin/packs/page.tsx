@@ -1,8 +1,11 @@
+import Link from "next/link";
 import { prisma } from "@/lib/prisma";
 import { getAllPacksHealth } from "@/lib/pack-health";
+import { calculatePackEconomics } from "@/lib/pack-economics";
 import { Card, Badge, Button } from "@/components/ui";
 import { Gift, Plus, AlertTriangle, CheckCircle } from "lucide-react";
 import { formatCurrency } from "@/lib/utils";
+import { PackStatusButton } from "../components/pack-status-button";
 
 // Force dynamic rendering - database not accessible at build time
 export const dynamic = "force-dynamic";
@@ -32,15 +35,19 @@ async function getPacks() {
     orderBy: { createdAt: "desc" },
   });
 
-  const health = await getAllPacksHealth();
+  const [health, economics] = await Promise.all([
+    getAllPacksHealth(),
+    Promise.all(packs.map((pack) => calculatePackEconomics(pack.id))),
+  ]);
 
-  return { packs, health };
+  return { packs, health, economics };
 }
 
 export default async function PacksPage() {
-  const { packs, health } = await getPacks();
+  const { packs, health, economics } = await getPacks();
 
   const healthMap = new Map(health.map(h => [h.packProductId, h]));
+  const economicsMap = new Map(economics.map(e => [e.packProductId, e]));
 
   return (
     <div className="p-8">
@@ -51,15 +58,18 @@ export default async function PacksPage() {
             Manage pack products and configurations
           </p>
         </div>
-        <Button>
-          <Plus className="h-4 w-4 mr-2" />
-          Create Pack
-        </Button>
+        <Link href="/admin/packs/new">
+          <Button>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Pack
+          </Button>
+        </Link>
       </div>
 
       <div className="space-y-4">
         {packs.map((pack) => {
           const packHealth = healthMap.get(pack.id);
+          const packEconomics = economicsMap.get(pack.id);
           
           return (
             <Card key={pack.id} className="p-6">
@@ -159,10 +169,10 @@ export default async function PacksPage() {
 
                 {/* Actions */}
                 <div className="flex flex-col gap-2 shrink-0">
-                  <Button variant="secondary" size="sm">Edit</Button>
-                  <Button variant="ghost" size="sm">
-                    {pack.status === "ACTIVE" ? "Pause" : "Activate"}
-                  </Button>
+                  <Link href={`/admin/packs/${pack.id}/edit`}>
+                    <Button variant="secondary" size="sm" className="w-full">Edit</Button>
+                  </Link>
+                  <PackStatusButton packId={pack.id} status={pack.status} />
                 </div>
               </div>
 
@@ -207,6 +217,31 @@ export default async function PacksPage() {
                       </div>
                     </div>
                   )}
+                  {packEconomics && packEconomics.expectedValue > 0 && (
+                    <div className="ml-auto text-right">
+                      <p className="text-xs text-text-muted mb-2">Economics</p>
+                      <div className="flex gap-4 text-xs">
+                        <span className="text-text-secondary">
+                          EV {formatCurrency(packEconomics.expectedValue)}
+                        </span>
+                        <span className={packEconomics.withinLimits ? "text-text-secondary" : "text-error"}>
+                          RTP {(packEconomics.rtp * 100).toFixed(1)}%
+                        </span>
+                        <span className="text-text-secondary">
+                          σ {formatCurrency(packEconomics.standardDeviation)}
+                        </span>
+                        <span className="text-text-secondary">
+                          P(profit) {packEconomics.profitProbabilityMethod === "normal" && "≈"}
+                          {(packEconomics.profitProbability * 100).toFixed(1)}%
+                        </span>
+                      </div>
+                      {!packEconomics.withinLimits && (
+                        <p className="text-xs text-error mt-1">
+                          {packEconomics.warnings.join("; ")}
+                        </p>
+                      )}
+                    </div>
+                  )}
                 </div>
               )}
             </Card>
@@ -50,8 +50,9 @@ async function getStats() {
       include: {
         user: { select: { email: true, name: true } },
         packProduct: { select: { name: true } },
-        assignment: {
+        assignments: {
           include: { item: { include: { tier: true } } },
+          orderBy: { valueAtAssignment: "desc" },
         },
       },
       orderBy: { createdAt: "desc" },
@@ -234,15 +235,16 @@ export default async function AdminDashboard() {
                       {opening.packProduct.name}
                     </p>
                   </div>
-                  {opening.assignment?.item && (
+                  {opening.assignments[0] && (
                     <div 
                       className="px-2 py-1 rounded text-xs font-medium"
                       style={{
-                        backgroundColor: `${opening.assignment.item.tier.color}30`,
-                        color: opening.assignment.item.tier.color,
+                        backgroundColor: `${opening.assignments[0].item.tier.color}30`,
+                        color: opening.assignments[0].item.tier.color,
                       }}
                     >
-                      {opening.assignment.item.tier.name}
+                      {opening.assignments[0].item.tier.name}
+                      {opening.assignments.length > 1 && ` +${opening.assignments.length - 1}`}
                     </div>
                   )}
                 </div>
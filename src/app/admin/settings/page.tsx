@@ -0,0 +1,97 @@
+import { redirect } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { getAdminSession } from "@/lib/admin-auth";
+import { listAdminAuthSessions } from "@/lib/admin-sessions";
+import { Card } from "@/components/ui";
+import { ShieldCheck, ShieldAlert, Monitor } from "lucide-react";
+import { TwoFactorSetup } from "../components/two-factor-setup";
+import { RevokeSessionButton, SignOutEverywhereButton } from "../components/session-buttons";
+
+// Force dynamic rendering - database not accessible at build time
+export const dynamic = "force-dynamic";
+
+/**
+ * Admin Settings Page
+ *
+ * The signed-in admin's own account: two-factor authentication and
+ * active sessions
+ */
+
+export default async function SettingsPage() {
+  const session = await getAdminSession();
+  if (!session) {
+    redirect("/admin/login");
+  }
+
+  const [admin, unusedRecoveryCodes, sessions] = await Promise.all([
+    prisma.adminUser.findUnique({
+      where: { id: session.id },
+      select: { totpEnabledAt: true },
+    }),
+    prisma.adminRecoveryCode.count({
+      where: { adminUserId: session.id, usedAt: null },
+    }),
+    listAdminAuthSessions(session.id),
+  ]);
+
+  const enabledAt = admin?.totpEnabledAt ?? null;
+  const enabled = enabledAt !== null;
+
+  return (
+    <div className="p-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-foreground">Settings</h1>
+        <p className="text-text-secondary">{session.email}</p>
+      </div>
+
+      <Card className="p-6 max-w-2xl">
+        <div className="flex items-center gap-2 mb-4">
+          {enabled ? (
+            <ShieldCheck className="h-5 w-5 text-success" />
+          ) : (
+            <ShieldAlert className="h-5 w-5 text-warning" />
+          )}
+          <h2 className="text-lg font-semibold text-foreground">Two-Factor Authentication</h2>
+        </div>
+
+        <p className="text-sm text-text-secondary mb-4">
+          {enabledAt
+            ? `Enabled ${enabledAt.toLocaleDateString()} - ${unusedRecoveryCodes} recovery codes left`
+            : "Not enabled. Sign-in needs only your password."}
+        </p>
+
+        <TwoFactorSetup enabled={enabled} />
+      </Card>
+
+      <Card className="p-6 max-w-2xl mt-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Monitor className="h-5 w-5 text-text-secondary" />
+            <h2 className="text-lg font-semibold text-foreground">Active Sessions</h2>
+          </div>
+          <SignOutEverywhereButton />
+        </div>
+
+        <ul className="divide-y divide-border">
+          {sessions.map((s) => (
+            <li key={s.id} className="flex items-center justify-between py-3">
+              <div>
+                <p className="text-sm text-foreground">
+                  {s.userAgent ?? "Unknown device"}
+                  {s.id === session.sessionId && (
+                    <span className="ml-2 text-xs text-success">This session</span>
+                  )}
+                </p>
+                <p className="text-xs text-text-muted">
+                  {s.ipAddress ?? "Unknown IP"} - signed in {s.createdAt.toLocaleString()},
+                  last active {s.lastUsedAt.toLocaleString()}
+                </p>
+              </div>
+              {s.id !== session.sessionId && <RevokeSessionButton sessionId={s.id} />}
+            </li>
+          ))}
+        </ul>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AdminSession } from "@/lib/admin-auth";
+import { adminRoute } from "@/lib/admin-route";
+import { confirmTotpEnrollment } from "@/lib/admin-two-factor";
+import { z } from "zod";
+
+/**
+ * Two-Factor Enable API
+ *
+ * POST /api/admin/2fa/enable
+ * Confirms enrollment with a code from the authenticator app and returns
+ * the recovery codes, which are shown this once
+ */
+
+const enableSchema = z.object({
+  code: z.string().trim().min(1, "Code is required"),
+});
+
+async function handlePost(
+  request: NextRequest,
+  _context: unknown,
+  admin: AdminSession
+) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const parsed = enableSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result = await confirmTotpEnrollment(admin.id, parsed.data.code);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      recoveryCodes: result.data?.recoveryCodes,
+    });
+  } catch (error) {
+    console.error("Two-factor enable error:", error);
+    return NextResponse.json(
+      { error: "Failed to enable two-factor authentication" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute(
+  { audit: { action: "ADMIN_2FA_ENABLE", entityType: "AdminUser" } },
+  handlePost
+);
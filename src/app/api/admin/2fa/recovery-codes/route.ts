@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AdminSession } from "@/lib/admin-auth";
+import { adminRoute } from "@/lib/admin-route";
+import { regenerateRecoveryCodes } from "@/lib/admin-two-factor";
+import { z } from "zod";
+
+/**
+ * Recovery Codes API
+ *
+ * POST /api/admin/2fa/recovery-codes
+ * Replaces the signed-in admin's recovery codes. Needs a current code
+ * from the authenticator app.
+ */
+
+const regenerateSchema = z.object({
+  code: z.string().trim().min(1, "Code is required"),
+});
+
+async function handlePost(
+  request: NextRequest,
+  _context: unknown,
+  admin: AdminSession
+) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const parsed = regenerateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result = await regenerateRecoveryCodes(admin.id, parsed.data.code);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      recoveryCodes: result.data?.recoveryCodes,
+    });
+  } catch (error) {
+    console.error("Recovery code error:", error);
+    return NextResponse.json(
+      { error: "Failed to regenerate recovery codes" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute(
+  { audit: { action: "ADMIN_2FA_RECOVERY_REGENERATE", entityType: "AdminUser" } },
+  handlePost
+);
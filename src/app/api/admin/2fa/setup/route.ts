@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AdminSession } from "@/lib/admin-auth";
+import { adminRoute } from "@/lib/admin-route";
+import { beginTotpEnrollment } from "@/lib/admin-two-factor";
+
+/**
+ * Two-Factor Setup API
+ *
+ * POST /api/admin/2fa/setup
+ * Issues a TOTP secret and provisioning URI for the signed-in admin.
+ * Nothing changes at login until the secret is confirmed at
+ * POST /api/admin/2fa/enable.
+ */
+
+async function handlePost(
+  _request: NextRequest,
+  _context: unknown,
+  admin: AdminSession
+) {
+  try {
+    const result = await beginTotpEnrollment(admin.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...result.data,
+    });
+  } catch (error) {
+    console.error("Two-factor setup error:", error);
+    return NextResponse.json(
+      { error: "Failed to start two-factor setup" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute({}, handlePost);
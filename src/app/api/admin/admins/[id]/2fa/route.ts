@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { resetTwoFactor } from "@/lib/admin-two-factor";
+
+/**
+ * Admin Two-Factor Reset API
+ *
+ * DELETE /api/admin/admins/[id]/2fa
+ * Removes an admin's two-factor enrollment and recovery codes, for a lost
+ * authenticator. They sign in with their password and enroll again.
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function handleDelete(
+  _request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { id } = await context.params;
+
+    const result = await resetTwoFactor(id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === "Admin not found" ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Two-factor reset error:", error);
+    return NextResponse.json(
+      { error: "Failed to reset two-factor authentication" },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = adminRoute(
+  {
+    permission: "admins:manage",
+    audit: { action: "ADMIN_2FA_RESET", entityType: "AdminUser" },
+  },
+  handleDelete
+);
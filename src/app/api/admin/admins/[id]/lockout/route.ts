@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { unlockAdminUser } from "@/lib/admin-users";
+
+/**
+ * Admin Unlock API
+ *
+ * DELETE /api/admin/admins/[id]/lockout
+ * Lifts a login lockout from too many failed attempts, so the admin can
+ * sign in again without waiting it out
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function handleDelete(
+  _request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { id } = await context.params;
+
+    const result = await unlockAdminUser(id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === "Admin not found" ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Admin unlock error:", error);
+    return NextResponse.json(
+      { error: "Failed to unlock admin" },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = adminRoute(
+  {
+    permission: "admins:manage",
+    audit: { action: "ADMIN_UNLOCK", entityType: "AdminUser" },
+  },
+  handleDelete
+);
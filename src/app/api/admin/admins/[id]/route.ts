@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AdminSession } from "@/lib/admin-auth";
+import { adminRoute } from "@/lib/admin-route";
+import { updateAdminSchema, updateAdminUser } from "@/lib/admin-users";
+
+/**
+ * Admin User API
+ *
+ * PATCH /api/admin/admins/[id]
+ * Changes an admin's role or deactivates / reactivates them
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function handlePatch(
+  request: NextRequest,
+  context: RouteContext,
+  admin: AdminSession
+) {
+  try {
+    const { id } = await context.params;
+    const body = await request.json();
+
+    // Validate input
+    const parsed = updateAdminSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateAdminUser(admin.id, id, parsed.data);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === "Admin not found" ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      admin: result.data,
+    });
+  } catch (error) {
+    console.error("Update admin error:", error);
+    return NextResponse.json(
+      { error: "Failed to update admin" },
+      { status: 500 }
+    );
+  }
+}
+
+export const PATCH = adminRoute(
+  {
+    permission: "admins:manage",
+    audit: { action: "ADMIN_UPDATE", entityType: "AdminUser" },
+  },
+  handlePatch
+);
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { revokeAllAdminAuthSessions } from "@/lib/admin-sessions";
+
+/**
+ * Admin Session Revocation API
+ *
+ * DELETE /api/admin/admins/[id]/sessions
+ * Signs another admin out of every session, e.g. for a lost device
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function handleDelete(
+  _request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { id } = await context.params;
+
+    const revoked = await revokeAllAdminAuthSessions(id);
+
+    return NextResponse.json({ success: true, revoked });
+  } catch (error) {
+    console.error("Revoke admin sessions error:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke sessions" },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = adminRoute(
+  {
+    permission: "admins:manage",
+    audit: { action: "ADMIN_SESSIONS_REVOKE", entityType: "AdminUser" },
+  },
+  handleDelete
+);
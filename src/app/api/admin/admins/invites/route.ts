@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AdminSession } from "@/lib/admin-auth";
+import { adminRoute } from "@/lib/admin-route";
+import { inviteAdmin, inviteAdminSchema } from "@/lib/admin-users";
+
+/**
+ * Admin Invite API
+ *
+ * POST /api/admin/admins/invites
+ * Invites a new admin. The response carries the invite token, which is
+ * not stored and cannot be retrieved again - pass it on to the invitee.
+ */
+
+async function handlePost(
+  request: NextRequest,
+  _context: unknown,
+  admin: AdminSession
+) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const parsed = inviteAdminSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result = await inviteAdmin(admin.id, parsed.data);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      invite: result.data,
+    });
+  } catch (error) {
+    console.error("Invite admin error:", error);
+    return NextResponse.json(
+      { error: "Failed to invite admin" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute(
+  {
+    permission: "admins:manage",
+    audit: {
+      action: "ADMIN_INVITE",
+      entityType: "AdminInvite",
+      getEntityId: (body) => (body.invite as { inviteId?: string } | undefined)?.inviteId,
+    },
+  },
+  handlePost
+);
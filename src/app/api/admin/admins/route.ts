@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { listAdminUsers } from "@/lib/admin-users";
+
+/**
+ * Admin Users API
+ *
+ * GET /api/admin/admins
+ * Lists admins and pending invites
+ */
+
+async function handleGet() {
+  try {
+    const { admins, invites } = await listAdminUsers();
+
+    return NextResponse.json({ admins, invites });
+  } catch (error) {
+    console.error("List admins error:", error);
+    return NextResponse.json(
+      { error: "Failed to list admins" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = adminRoute({ permission: "admins:manage" }, handleGet);
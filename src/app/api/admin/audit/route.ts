@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { listAuditLogs } from "@/lib/audit-log";
+
+/**
+ * Admin Audit Log API
+ * 
+ * GET /api/admin/audit
+ * Lists audit entries, newest first. Filters: action, entityType,
+ * entityId, adminUserId, from, to (ISO dates); paged with page, pageSize.
+ */
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const from = parseDate(searchParams.get("from"));
+    const to = parseDate(searchParams.get("to"));
+
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { error: "from and to must be ISO dates" },
+        { status: 400 }
+      );
+    }
+
+    const entries = await listAuditLogs({
+      page: Number(searchParams.get("page")) || 1,
+      pageSize: Number(searchParams.get("pageSize")) || undefined,
+      action: searchParams.get("action") || undefined,
+      entityType: searchParams.get("entityType") || undefined,
+      entityId: searchParams.get("entityId") || undefined,
+      adminUserId: searchParams.get("adminUserId") || undefined,
+      from,
+      to,
+    });
+
+    return NextResponse.json(entries);
+  } catch (error) {
+    console.error("Get audit log error:", error);
+    return NextResponse.json(
+      { error: "Failed to get audit log" },
+      { status: 500 }
+    );
+  }
+}
+
+// undefined when absent, null when invalid
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export const GET = adminRoute({ permission: "audit:read" }, handleGet);
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { verifyAuditLog } from "@/lib/audit-log";
+
+/**
+ * Admin Audit Verification API
+ * 
+ * POST /api/admin/audit/verify
+ * Verifies the audit hash chain now and records the result
+ */
+
+async function handlePost() {
+  try {
+    const report = await verifyAuditLog();
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Audit verification error:", error);
+    return NextResponse.json(
+      { error: "Failed to verify audit log" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute({ permission: "audit:verify" }, handlePost);
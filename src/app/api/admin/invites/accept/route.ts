@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { acceptAdminInvite, acceptInviteSchema } from "@/lib/admin-users";
+import { createAuditLog } from "@/lib/audit-log";
+import { getClientIp } from "@/lib/client-ip";
+
+/**
+ * Admin Invite Acceptance API
+ *
+ * POST /api/admin/invites/accept
+ * Creates the invited admin's account. Public - the invite token is the
+ * credential. The new admin signs in through /api/admin/login afterwards.
+ */
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const parsed = acceptInviteSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result = await acceptAdminInvite(parsed.data);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    const admin = result.data;
+
+    try {
+      await createAuditLog({
+        adminId: admin.id,
+        action: "ADMIN_INVITE_ACCEPT",
+        entityType: "AdminUser",
+        entityId: admin.id,
+        details: { email: admin.email, role: admin.role },
+        ipAddress: getClientIp(request) ?? undefined,
+        userAgent: request.headers.get("user-agent") || undefined,
+      });
+    } catch (error) {
+      // The account exists already - report the gap, keep the response
+      console.error("Audit log error:", error);
+    }
+
+    return NextResponse.json({
+      success: true,
+      admin,
+    });
+  } catch (error) {
+    console.error("Accept invite error:", error);
+    return NextResponse.json(
+      { error: "Failed to accept invite" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { retireItem } from "@/lib/inventory";
+
+/**
+ * Admin Item Retire API
+ * 
+ * POST /api/admin/items/[id]/retire
+ * Withdraws an AVAILABLE item from inventory and its pack pools
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function handlePost(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { id } = await context.params;
+    const result = await retireItem(id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === "Item not found" ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Retire item error:", error);
+    return NextResponse.json(
+      { error: "Failed to retire item" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute(
+  {
+    permission: "inventory:write",
+    audit: { action: "ITEM_RETIRE", entityType: "Item" },
+  },
+  handlePost
+);
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AdminSession } from "@/lib/admin-auth";
+import { adminRoute } from "@/lib/admin-route";
+import { revalueItem } from "@/lib/valuation";
+import { z } from "zod";
+
+/**
+ * Admin Item Revalue API
+ * 
+ * POST /api/admin/items/[id]/revalue
+ * Sets an item's value and records it in the price history
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const revalueSchema = z.object({
+  valueInCents: z.number().int().positive("Value must be positive"),
+  note: z.string().trim().max(500).optional(),
+});
+
+async function handlePost(
+  request: NextRequest,
+  context: RouteContext,
+  admin: AdminSession
+) {
+  try {
+    const { id } = await context.params;
+    const body = await request.json();
+
+    // Validate input
+    const parsed = revalueSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result = await revalueItem({
+      itemId: id,
+      ...parsed.data,
+      adminUserId: admin.id,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === "Item not found" ? 404 : 409 }
+      );
+    }
+
+    return NextResponse.json({ change: result.data });
+  } catch (error) {
+    console.error("Revalue item error:", error);
+    return NextResponse.json(
+      { error: "Failed to revalue item" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute(
+  {
+    permission: "inventory:revalue",
+    audit: { action: "ITEM_REVALUE", entityType: "Item" },
+  },
+  handlePost
+);
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AdminSession } from "@/lib/admin-auth";
+import { adminRoute } from "@/lib/admin-route";
+import { itemInputSchema, updateItem } from "@/lib/inventory";
+
+/**
+ * Admin Item API
+ * 
+ * PUT /api/admin/items/[id]
+ * Replaces an item's details
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function handlePut(
+  request: NextRequest,
+  context: RouteContext,
+  admin: AdminSession
+) {
+  try {
+    const { id } = await context.params;
+    const body = await request.json();
+
+    // Validate input
+    const parsed = itemInputSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateItem(id, parsed.data, { adminUserId: admin.id });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        {
+          status:
+            result.error === "Item not found" ? 404 :
+            result.error === "SKU already exists" ? 409 :
+            400,
+        }
+      );
+    }
+
+    return NextResponse.json({ item: result.data });
+  } catch (error) {
+    console.error("Update item error:", error);
+    return NextResponse.json(
+      { error: "Failed to update item" },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = adminRoute(
+  {
+    permission: "inventory:write",
+    audit: { action: "ITEM_UPDATE", entityType: "Item" },
+  },
+  handlePut
+);
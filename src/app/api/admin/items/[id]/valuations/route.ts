@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Admin Item Price History API
+ * 
+ * GET /api/admin/items/[id]/valuations
+ * Lists every value the item has had, newest first
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function handleGet(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { id } = await context.params;
+
+    const item = await prisma.item.findUnique({
+      where: { id },
+      select: { id: true, sku: true, estimatedValue: true },
+    });
+
+    if (!item) {
+      return NextResponse.json(
+        { error: "Item not found" },
+        { status: 404 }
+      );
+    }
+
+    const valuations = await prisma.itemValuation.findMany({
+      where: { itemId: id },
+      include: { adminUser: { select: { email: true } } },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ item, valuations });
+  } catch (error) {
+    console.error("Get valuations error:", error);
+    return NextResponse.json(
+      { error: "Failed to get price history" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = adminRoute({ permission: "inventory:read" }, handleGet);
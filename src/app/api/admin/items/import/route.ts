@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { importItems, type RawImportRow } from "@/lib/inventory";
+import { parseCsv } from "@/lib/csv";
+import { z } from "zod";
+
+/**
+ * Admin Item Import API
+ * 
+ * POST /api/admin/items/import
+ * Bulk-creates items from CSV text or a JSON array of rows
+ * 
+ * Nothing is written unless every row is valid; the response lists
+ * row-level errors. Use dryRun to validate a file without importing it.
+ */
+
+const importSchema = z
+  .object({
+    csv: z.string().optional(),
+    rows: z.array(z.record(z.string(), z.unknown())).optional(),
+    packProductIds: z.array(z.string().min(1)).default([]),
+    dryRun: z.boolean().default(false),
+  })
+  .refine((data) => (data.csv === undefined) !== (data.rows === undefined), {
+    message: "Provide either csv or rows",
+  });
+
+async function handlePost(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const parsed = importSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { csv, packProductIds, dryRun } = parsed.data;
+    let rows: RawImportRow[];
+
+    if (csv !== undefined) {
+      try {
+        rows = parseCsv(csv);
+      } catch (error) {
+        return NextResponse.json(
+          { error: `Invalid CSV: ${error instanceof Error ? error.message : error}` },
+          { status: 400 }
+        );
+      }
+    } else {
+      // Match the CSV path - keys are case-insensitive, rows count from 1
+      rows = parsed.data.rows!.map((values, index) => ({
+        row: index + 1,
+        values: Object.fromEntries(
+          Object.entries(values).map(([key, value]) => [key.toLowerCase(), value])
+        ),
+      }));
+    }
+
+    const result = await importItems({ rows, packProductIds, dryRun });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    const { errors } = result.data!;
+    return NextResponse.json(result.data, {
+      status: errors.length > 0 ? 422 : dryRun ? 200 : 201,
+    });
+  } catch (error) {
+    console.error("Import items error:", error);
+    return NextResponse.json(
+      { error: "Failed to import items" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute(
+  {
+    permission: "inventory:write",
+    audit: { action: "ITEM_IMPORT", entityType: "Item" },
+  },
+  handlePost
+);
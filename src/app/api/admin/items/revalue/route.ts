@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AdminSession } from "@/lib/admin-auth";
+import { adminRoute } from "@/lib/admin-route";
+import { parseCsv } from "@/lib/csv";
+import { getPriceSource, listPriceSources } from "@/lib/price-sources";
+import { parsePriceSheet, revalueFromSource, revalueItems } from "@/lib/valuation";
+import { z } from "zod";
+
+/**
+ * Admin Bulk Revalue API
+ * 
+ * POST /api/admin/items/revalue
+ * Revalues items from a CSV price sheet (columns: sku, estimatedValue in
+ * cents) or from a named price source. Nothing is written unless every
+ * row is valid; use dryRun to preview the changes.
+ */
+
+const revalueSchema = z
+  .object({
+    csv: z.string().optional(),
+    source: z.string().optional(),
+    note: z.string().trim().max(500).optional(),
+    dryRun: z.boolean().default(false),
+  })
+  .refine((data) => (data.csv === undefined) !== (data.source === undefined), {
+    message: "Provide either csv or source",
+  });
+
+async function handlePost(
+  request: NextRequest,
+  _context: unknown,
+  admin: AdminSession
+) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const parsed = revalueSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { csv, source: sourceName, note, dryRun } = parsed.data;
+    let result;
+
+    if (sourceName !== undefined) {
+      const source = getPriceSource(sourceName);
+      if (!source) {
+        return NextResponse.json(
+          { error: `Unknown price source. Available: ${listPriceSources().join(", ")}` },
+          { status: 400 }
+        );
+      }
+
+      result = await revalueFromSource(source, { adminUserId: admin.id, dryRun });
+    } else {
+      let rows;
+      try {
+        rows = parseCsv(csv!);
+      } catch (error) {
+        return NextResponse.json(
+          { error: `Invalid CSV: ${error instanceof Error ? error.message : error}` },
+          { status: 400 }
+        );
+      }
+
+      result = await revalueItems({
+        ...parsePriceSheet(rows),
+        source: "price_sheet",
+        note,
+        adminUserId: admin.id,
+        dryRun,
+      });
+    }
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    const { errors } = result.data!;
+    return NextResponse.json(result.data, {
+      status: errors.length > 0 ? 422 : 200,
+    });
+  } catch (error) {
+    console.error("Bulk revalue error:", error);
+    return NextResponse.json(
+      { error: "Failed to revalue items" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute(
+  {
+    permission: "inventory:revalue",
+    audit: { action: "ITEM_BULK_REVALUE", entityType: "Item" },
+  },
+  handlePost
+);
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { createItem, itemInputSchema } from "@/lib/inventory";
+import { z } from "zod";
+
+/**
+ * Admin Items API
+ * 
+ * POST /api/admin/items
+ * Creates an AVAILABLE item, optionally adding it to pack pools
+ */
+
+const createItemSchema = itemInputSchema.extend({
+  packProductIds: z.array(z.string().min(1)).default([]),
+});
+
+async function handlePost(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const parsed = createItemSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { packProductIds, ...input } = parsed.data;
+    const result = await createItem(input, packProductIds);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === "SKU already exists" ? 409 : 400 }
+      );
+    }
+
+    return NextResponse.json({ item: result.data }, { status: 201 });
+  } catch (error) {
+    console.error("Create item error:", error);
+    return NextResponse.json(
+      { error: "Failed to create item" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute(
+  {
+    permission: "inventory:write",
+    audit: {
+      action: "ITEM_CREATE",
+      entityType: "Item",
+      getEntityId: (body) => (body.item as { id?: string } | undefined)?.id,
+    },
+  },
+  handlePost
+);
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { reconcileBalances } from "@/lib/ledger";
+
+/**
+ * Ledger Reconciliation API
+ * 
+ * GET /api/admin/ledger/reconcile
+ * Checks every user balance against the sum of their ledger entries
+ */
+
+async function handleGet() {
+  try {
+    const report = await reconcileBalances();
+
+    return NextResponse.json({
+      healthy:
+        report.mismatches.length === 0 &&
+        report.unbalancedTransactions.length === 0,
+      ...report,
+    });
+  } catch (error) {
+    console.error("Ledger reconciliation error:", error);
+    return NextResponse.json(
+      { error: "Failed to reconcile ledger" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = adminRoute({ permission: "ledger:read" }, handleGet);
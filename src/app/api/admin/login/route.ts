@@ -1,13 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import { adminLogin } from "@/lib/admin-auth";
+import { withRateLimit } from "@/lib/rate-limit";
 
 /**
  * Admin Login API
  * 
  * POST /api/admin/login
+ * Admins with two-factor enabled get requiresTwoFactor back and finish
+ * at POST /api/admin/login/verify
+ * Repeated failures lock the email or IP out: 429 with lockedUntil
  */
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
     const { email, password } = await request.json();
 
@@ -20,6 +24,20 @@ export async function POST(request: NextRequest) {
 
     const result = await adminLogin(email, password);
 
+    if (result.lockedUntil) {
+      return NextResponse.json(
+        { error: result.error, lockedUntil: result.lockedUntil.toISOString() },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(
+              Math.max(1, Math.ceil((result.lockedUntil.getTime() - Date.now()) / 1000))
+            ),
+          },
+        }
+      );
+    }
+
     if (!result.success) {
       return NextResponse.json(
         { error: result.error },
@@ -27,7 +45,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({
+      success: true,
+      requiresTwoFactor: result.requiresTwoFactor ?? false,
+    });
   } catch (error) {
     console.error("Admin login error:", error);
     return NextResponse.json(
@@ -37,6 +58,4 @@ export async function POST(request: NextRequest) {
   }
 }
 
-
-
-
+export const POST = withRateLimit("admin-login", handlePost);
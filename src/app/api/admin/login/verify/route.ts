@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { completeAdminTwoFactor } from "@/lib/admin-auth";
+import { withRateLimit } from "@/lib/rate-limit";
+import { z } from "zod";
+
+/**
+ * Admin Login Verification API
+ *
+ * POST /api/admin/login/verify
+ * Second login step for admins with two-factor enabled: a code from the
+ * authenticator app or one of their recovery codes
+ */
+
+const verifySchema = z
+  .object({
+    code: z.string().trim().min(1).optional(),
+    recoveryCode: z.string().trim().min(1).optional(),
+  })
+  .refine((data) => !!data.code !== !!data.recoveryCode, {
+    message: "Provide either code or recoveryCode",
+  });
+
+async function handlePost(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const parsed = verifySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result = await completeAdminTwoFactor(parsed.data);
+
+    if (result.lockedUntil) {
+      return NextResponse.json(
+        { error: result.error, lockedUntil: result.lockedUntil.toISOString() },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(
+              Math.max(1, Math.ceil((result.lockedUntil.getTime() - Date.now()) / 1000))
+            ),
+          },
+        }
+      );
+    }
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Admin login verify error:", error);
+    return NextResponse.json(
+      { error: "Login failed" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withRateLimit("admin-login-verify", handlePost);
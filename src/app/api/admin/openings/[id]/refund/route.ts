@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { refundOpeningWithRetry } from "@/lib/refunds";
+import { z } from "zod";
+
+/**
+ * Admin Opening Refund API
+ * 
+ * POST /api/admin/openings/[id]/refund
+ * Refunds a FAILED opening - safe to repeat
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const refundSchema = z.object({
+  reason: z.string().trim().min(1, "Reason is required"),
+});
+
+async function handlePost(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { id } = await context.params;
+    const body = await request.json();
+
+    // Validate input
+    const parsed = refundSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result = await refundOpeningWithRetry(id, parsed.data.reason);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === "Opening not found" ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      alreadyRefunded: result.alreadyRefunded ?? false,
+    });
+  } catch (error) {
+    console.error("Opening refund error:", error);
+    return NextResponse.json(
+      { error: "Failed to refund opening" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute(
+  {
+    permission: "refunds:write",
+    audit: { action: "OPENING_REFUND", entityType: "PackOpening" },
+  },
+  handlePost
+);
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { pausePack } from "@/lib/pack-builder";
+
+/**
+ * Admin Pack Pause API
+ * 
+ * POST /api/admin/packs/[id]/pause
+ * Takes an ACTIVE or OUT_OF_STOCK pack off sale so it can be edited
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function handlePost(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { id } = await context.params;
+    const result = await pausePack(id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === "Pack not found" ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Pause pack error:", error);
+    return NextResponse.json(
+      { error: "Failed to pause pack" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute(
+  {
+    permission: "packs:publish",
+    audit: { action: "PACK_PAUSE", entityType: "PackProduct" },
+  },
+  handlePost
+);
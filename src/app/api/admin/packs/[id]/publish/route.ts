@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { publishPack } from "@/lib/pack-builder";
+
+/**
+ * Admin Pack Publish API
+ * 
+ * POST /api/admin/packs/[id]/publish
+ * Puts a DRAFT or PAUSED pack on sale if its health allows one sale and
+ * its RTP is within the configured limits
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function handlePost(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { id } = await context.params;
+    const result = await publishPack(id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, health: result.data },
+        { status: result.error === "Pack not found" ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, health: result.data });
+  } catch (error) {
+    console.error("Publish pack error:", error);
+    return NextResponse.json(
+      { error: "Failed to publish pack" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute(
+  {
+    permission: "packs:publish",
+    audit: { action: "PACK_PUBLISH", entityType: "PackProduct" },
+  },
+  handlePost
+);
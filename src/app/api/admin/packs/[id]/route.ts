@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { prisma } from "@/lib/prisma";
+import { packInputSchema, updatePack } from "@/lib/pack-builder";
+
+/**
+ * Admin Pack API
+ * 
+ * GET /api/admin/packs/[id]
+ * Returns a pack with its config and pool item ids
+ * 
+ * PUT /api/admin/packs/[id]
+ * Replaces a DRAFT or PAUSED pack's details, config and pool
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function handleGet(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { id } = await context.params;
+
+    const pack = await prisma.packProduct.findUnique({
+      where: { id },
+      include: {
+        config: {
+          include: {
+            guarantees: true,
+            tierWeights: true,
+          },
+        },
+        poolItems: { select: { itemId: true } },
+      },
+    });
+
+    if (!pack) {
+      return NextResponse.json(
+        { error: "Pack not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ pack });
+  } catch (error) {
+    console.error("Get pack error:", error);
+    return NextResponse.json(
+      { error: "Failed to get pack" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = adminRoute({ permission: "packs:read" }, handleGet);
+
+async function handlePut(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { id } = await context.params;
+    const body = await request.json();
+
+    // Validate input
+    const parsed = packInputSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result = await updatePack(id, parsed.data);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === "Pack not found" ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ pack: result.data });
+  } catch (error) {
+    console.error("Update pack error:", error);
+    return NextResponse.json(
+      { error: "Failed to update pack" },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = adminRoute(
+  {
+    permission: "packs:write",
+    audit: { action: "PACK_UPDATE", entityType: "PackProduct" },
+  },
+  handlePut
+);
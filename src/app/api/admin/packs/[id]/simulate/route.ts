@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { DEFAULT_SIMULATIONS, simulatePackOpenings } from "@/lib/pack-simulation";
+import { z } from "zod";
+
+/**
+ * Admin Pack Simulation API
+ * 
+ * POST /api/admin/packs/[id]/simulate
+ * Opens simulated packs against the current pool - nothing is assigned.
+ * "independent" opens count packs from the pool as it is; "deplete" opens
+ * the remaining supply from a shrinking pool.
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const simulateSchema = z.object({
+  mode: z.enum(["independent", "deplete"]).default("independent"),
+  count: z.number().int().min(1).max(100000).default(DEFAULT_SIMULATIONS),
+});
+
+async function handlePost(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    // Validate input
+    const parsed = simulateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await context.params;
+
+    const simulation = await simulatePackOpenings(id, parsed.data);
+
+    if (!simulation) {
+      return NextResponse.json(
+        { error: "Pack not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ simulation });
+  } catch (error) {
+    console.error("Pack simulation error:", error);
+    return NextResponse.json(
+      { error: "Failed to simulate pack openings" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute({ permission: "packs:read" }, handlePost);
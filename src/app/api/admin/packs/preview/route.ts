@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { packInputSchema, previewPackEconomics, previewPackHealth } from "@/lib/pack-builder";
+import { z } from "zod";
+
+/**
+ * Admin Pack Health Preview API
+ * 
+ * POST /api/admin/packs/preview
+ * Computes pack health and economics for an unsaved configuration -
+ * nothing is written
+ */
+
+const previewSchema = packInputSchema.extend({
+  // Relaxed so a half-filled form still gets a preview
+  name: z.string().default(""),
+  priceInCents: z.number().int().min(0).default(0),
+  packProductId: z.string().optional(),
+});
+
+async function handlePost(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const parsed = previewSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { packProductId, ...input } = parsed.data;
+    const [health, economics] = await Promise.all([
+      previewPackHealth(input, packProductId),
+      previewPackEconomics(input, packProductId),
+    ]);
+
+    return NextResponse.json({ health, economics });
+  } catch (error) {
+    console.error("Pack preview error:", error);
+    return NextResponse.json(
+      { error: "Failed to preview pack health" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute({ permission: "packs:read" }, handlePost);
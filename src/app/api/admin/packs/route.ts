@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { createPack, packInputSchema } from "@/lib/pack-builder";
+
+/**
+ * Admin Packs API
+ * 
+ * POST /api/admin/packs
+ * Creates a DRAFT pack with its config, odds and pool
+ */
+
+async function handlePost(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    // Validate input
+    const parsed = packInputSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result = await createPack(parsed.data);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ pack: result.data }, { status: 201 });
+  } catch (error) {
+    console.error("Create pack error:", error);
+    return NextResponse.json(
+      { error: "Failed to create pack" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute(
+  {
+    permission: "packs:write",
+    audit: {
+      action: "PACK_CREATE",
+      entityType: "PackProduct",
+      getEntityId: (body) => (body.pack as { id?: string } | undefined)?.id,
+    },
+  },
+  handlePost
+);
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { retryFailedRefunds } from "@/lib/refunds";
+
+/**
+ * Refund Retry API
+ * 
+ * POST /api/admin/refunds/retry
+ * Retries every paid opening that failed without being refunded
+ */
+
+async function handlePost() {
+  try {
+    const summary = await retryFailedRefunds();
+
+    return NextResponse.json({
+      success: summary.failed.length === 0,
+      ...summary,
+    });
+  } catch (error) {
+    console.error("Refund retry error:", error);
+    return NextResponse.json(
+      { error: "Failed to retry refunds" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute(
+  {
+    permission: "refunds:write",
+    audit: { action: "REFUND_RETRY", entityType: "PackOpening" },
+  },
+  handlePost
+);
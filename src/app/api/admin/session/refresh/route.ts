@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { refreshAdminSession } from "@/lib/admin-auth";
+
+/**
+ * Admin Session Refresh API
+ *
+ * POST /api/admin/session/refresh
+ * Renews the access token and rotates the refresh token cookie
+ *
+ * GET /api/admin/session/refresh?next=/admin/...
+ * Same, then redirects back - the middleware sends page requests here
+ * when their access token has expired
+ */
+
+export async function POST() {
+  try {
+    const session = await refreshAdminSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Session expired" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Admin refresh error:", error);
+    return NextResponse.json(
+      { error: "Failed to refresh session" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const next = request.nextUrl.searchParams.get("next");
+  // Only local admin paths - never an open redirect
+  const target = next?.startsWith("/admin") ? next : "/admin";
+
+  try {
+    const session = await refreshAdminSession();
+    return NextResponse.redirect(new URL(session ? target : "/admin/login", request.url));
+  } catch (error) {
+    console.error("Admin refresh error:", error);
+    return NextResponse.redirect(new URL("/admin/login", request.url));
+  }
+}
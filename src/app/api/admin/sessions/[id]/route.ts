@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AdminSession } from "@/lib/admin-auth";
+import { adminRoute } from "@/lib/admin-route";
+import { revokeAdminAuthSession } from "@/lib/admin-sessions";
+
+/**
+ * Admin Session API
+ *
+ * DELETE /api/admin/sessions/[id]
+ * Signs one of the admin's own sessions out
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function handleDelete(
+  _request: NextRequest,
+  context: RouteContext,
+  admin: AdminSession
+) {
+  try {
+    const { id } = await context.params;
+
+    const revoked = await revokeAdminAuthSession(id, admin.id);
+
+    if (!revoked) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Revoke session error:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke session" },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = adminRoute(
+  { audit: { action: "ADMIN_SESSION_REVOKE", entityType: "AdminAuthSession" } },
+  handleDelete
+);
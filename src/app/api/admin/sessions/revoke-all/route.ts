@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminLogoutEverywhere, type AdminSession } from "@/lib/admin-auth";
+import { adminRoute } from "@/lib/admin-route";
+
+/**
+ * Sign Out Everywhere API
+ *
+ * POST /api/admin/sessions/revoke-all
+ * Ends every session of the signed-in admin, this one included
+ */
+
+async function handlePost(
+  _request: NextRequest,
+  _context: unknown,
+  admin: AdminSession
+) {
+  try {
+    const revoked = await adminLogoutEverywhere(admin.id);
+
+    return NextResponse.json({ success: true, revoked });
+  } catch (error) {
+    console.error("Sign out everywhere error:", error);
+    return NextResponse.json(
+      { error: "Failed to sign out everywhere" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute(
+  { audit: { action: "ADMIN_SIGN_OUT_EVERYWHERE", entityType: "AdminUser" } },
+  handlePost
+);
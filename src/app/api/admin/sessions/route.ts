@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AdminSession } from "@/lib/admin-auth";
+import { adminRoute } from "@/lib/admin-route";
+import { listAdminAuthSessions } from "@/lib/admin-sessions";
+
+/**
+ * Admin Sessions API
+ *
+ * GET /api/admin/sessions
+ * Lists the signed-in admin's active sessions; current marks this one
+ */
+
+async function handleGet(
+  _request: NextRequest,
+  _context: unknown,
+  admin: AdminSession
+) {
+  try {
+    const sessions = await listAdminAuthSessions(admin.id);
+
+    return NextResponse.json({
+      sessions: sessions.map((session) => ({
+        ...session,
+        current: session.id === admin.sessionId,
+      })),
+    });
+  } catch (error) {
+    console.error("List sessions error:", error);
+    return NextResponse.json(
+      { error: "Failed to list sessions" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = adminRoute({}, handleGet);
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { updateShipmentStatus } from "@/lib/shipping";
+import { ShipmentStatus } from "@prisma/client";
+import { z } from "zod";
+
+/**
+ * Update Shipment Status API
+ * 
+ * POST /api/admin/shipments/[id]/status
+ * Advances a shipment: PROCESSING, SHIPPED, DELIVERED or FAILED
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const statusSchema = z.object({
+  status: z.enum([
+    ShipmentStatus.PROCESSING,
+    ShipmentStatus.SHIPPED,
+    ShipmentStatus.DELIVERED,
+    ShipmentStatus.FAILED,
+  ]),
+  carrier: z.string().trim().min(1).optional(),
+  trackingNumber: z.string().trim().min(1).optional(),
+});
+
+async function handlePost(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { id } = await context.params;
+    const body = await request.json();
+
+    // Validate input
+    const parsed = statusSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateShipmentStatus({
+      shipmentId: id,
+      ...parsed.data,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      shipment: result.data,
+    });
+  } catch (error) {
+    console.error("Update shipment error:", error);
+    return NextResponse.json(
+      { error: "Failed to update shipment" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute(
+  {
+    permission: "shipments:fulfil",
+    audit: { action: "SHIPMENT_STATUS_UPDATE", entityType: "ShipmentRequest" },
+  },
+  handlePost
+);
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { prisma } from "@/lib/prisma";
+import { ShipmentStatus } from "@prisma/client";
+
+/**
+ * Admin Shipments API
+ * 
+ * GET /api/admin/shipments?status=PENDING&page=1
+ * Lists shipment requests for fulfilment
+ */
+
+const PAGE_SIZE = 50;
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const statusParam = searchParams.get("status");
+    const page = Math.max(1, Number(searchParams.get("page")) || 1);
+
+    if (statusParam && !(statusParam in ShipmentStatus)) {
+      return NextResponse.json(
+        { error: "Invalid status" },
+        { status: 400 }
+      );
+    }
+
+    const where = statusParam
+      ? { status: statusParam as ShipmentStatus }
+      : {};
+
+    const [shipments, total] = await Promise.all([
+      prisma.shipmentRequest.findMany({
+        where,
+        include: {
+          user: { select: { id: true, email: true, name: true } },
+          vaultHolding: {
+            include: {
+              item: { select: { id: true, sku: true, name: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: "asc" },
+        skip: (page - 1) * PAGE_SIZE,
+        take: PAGE_SIZE,
+      }),
+      prisma.shipmentRequest.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      items: shipments,
+      total,
+      page,
+      pageSize: PAGE_SIZE,
+      totalPages: Math.ceil(total / PAGE_SIZE),
+    });
+  } catch (error) {
+    console.error("Get shipments error:", error);
+    return NextResponse.json(
+      { error: "Failed to get shipments" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = adminRoute({ permission: "shipments:read" }, handleGet);
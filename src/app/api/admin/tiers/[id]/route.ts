@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { updateTierBand } from "@/lib/tiering";
+import { z } from "zod";
+
+/**
+ * Admin Tier API
+ * 
+ * PUT /api/admin/tiers/[id]
+ * Changes a tier's value band - refused if it would overlap another tier.
+ * Items are not moved; run a re-tier afterwards.
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const bandSchema = z
+  .object({
+    minValue: z.number().int().min(0, "minValue cannot be negative"),
+    maxValue: z.number().int().nullable(),
+  })
+  .refine((band) => band.maxValue === null || band.maxValue >= band.minValue, {
+    message: "maxValue must be at least minValue",
+  });
+
+async function handlePut(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { id } = await context.params;
+    const body = await request.json();
+
+    // Validate input
+    const parsed = bandSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateTierBand(id, parsed.data);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, validation: result.validation },
+        { status: result.error === "Tier not found" ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, validation: result.validation });
+  } catch (error) {
+    console.error("Update tier error:", error);
+    return NextResponse.json(
+      { error: "Failed to update tier" },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = adminRoute(
+  {
+    permission: "inventory:write",
+    audit: { action: "TIER_BAND_UPDATE", entityType: "ItemTier" },
+  },
+  handlePut
+);
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { retierItems } from "@/lib/tiering";
+import { z } from "zod";
+
+/**
+ * Admin Re-tier API
+ * 
+ * POST /api/admin/tiers/retier
+ * Moves AVAILABLE items into the tier their value falls in.
+ * Use dryRun to list the moves without applying them.
+ */
+
+const retierSchema = z.object({
+  dryRun: z.boolean().default(false),
+});
+
+async function handlePost(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    // Validate input
+    const parsed = retierSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result = await retierItems(parsed.data);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(result.data);
+  } catch (error) {
+    console.error("Retier items error:", error);
+    return NextResponse.json(
+      { error: "Failed to re-tier items" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute(
+  {
+    permission: "inventory:write",
+    audit: { action: "TIER_RETIER", entityType: "Item" },
+  },
+  handlePost
+);
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { getTierBands, validateTierBands } from "@/lib/tiering";
+
+/**
+ * Admin Tiers API
+ * 
+ * GET /api/admin/tiers
+ * Lists tier value bands with overlap and gap checks
+ */
+
+async function handleGet() {
+  try {
+    const tiers = await getTierBands();
+
+    return NextResponse.json({
+      tiers,
+      validation: validateTierBands(tiers),
+    });
+  } catch (error) {
+    console.error("Get tiers error:", error);
+    return NextResponse.json(
+      { error: "Failed to get tiers" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = adminRoute({ permission: "inventory:read" }, handleGet);
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { AdminSession } from "@/lib/admin-auth";
+import { adminRoute } from "@/lib/admin-route";
+import { prisma } from "@/lib/prisma";
+import { postBalanceChange, InsufficientBalanceError } from "@/lib/ledger";
+import { z } from "zod";
+
+/**
+ * Admin Balance Adjustment API
+ * 
+ * POST /api/admin/users/[id]/balance-adjustment
+ * Credits (positive) or debits (negative) a user balance with a reason
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const adjustmentSchema = z.object({
+  amountCents: z
+    .number()
+    .int()
+    .refine((n) => n !== 0, "Amount cannot be zero"),
+  reason: z.string().trim().min(1, "Reason is required"),
+});
+
+async function handlePost(
+  request: NextRequest,
+  context: RouteContext,
+  admin: AdminSession
+) {
+  try {
+    const { id } = await context.params;
+    const body = await request.json();
+
+    // Validate input
+    const parsed = adjustmentSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const newBalance = await prisma.$transaction((tx) =>
+      postBalanceChange(tx, {
+        userId: user.id,
+        amountCents: parsed.data.amountCents,
+        type: "ADMIN_ADJUSTMENT",
+        referenceType: "AdminUser",
+        referenceId: admin.id,
+        description: parsed.data.reason,
+      })
+    );
+
+    return NextResponse.json({
+      success: true,
+      newBalance,
+    });
+  } catch (error) {
+    if (error instanceof InsufficientBalanceError) {
+      return NextResponse.json(
+        { error: "Adjustment would make the balance negative" },
+        { status: 400 }
+      );
+    }
+    console.error("Balance adjustment error:", error);
+    return NextResponse.json(
+      { error: "Failed to adjust balance" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute(
+  {
+    permission: "balances:adjust",
+    audit: { action: "USER_BALANCE_ADJUST", entityType: "User" },
+  },
+  handlePost
+);
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { replayWebhookEvent } from "@/lib/stripe-webhooks";
+
+/**
+ * Admin Webhook Replay API
+ * 
+ * POST /api/admin/webhooks/[id]/replay
+ * Re-runs a FAILED (or stuck) Stripe event from its stored payload
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+async function handlePost(
+  _request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { id } = await context.params;
+    const result = await replayWebhookEvent(id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.error === "Webhook event not found" ? 404 : 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Webhook replay error:", error);
+    return NextResponse.json(
+      { error: "Failed to replay webhook event" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = adminRoute(
+  {
+    permission: "webhooks:replay",
+    audit: { action: "WEBHOOK_REPLAY", entityType: "WebhookEvent" },
+  },
+  handlePost
+);
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { adminRoute } from "@/lib/admin-route";
+import { prisma } from "@/lib/prisma";
+import { WebhookEventStatus } from "@prisma/client";
+
+/**
+ * Admin Webhook Events API
+ * 
+ * GET /api/admin/webhooks?status=FAILED&page=1
+ * Lists stored Stripe events, newest first
+ */
+
+const PAGE_SIZE = 50;
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const statusParam = searchParams.get("status");
+    const page = Math.max(1, Number(searchParams.get("page")) || 1);
+
+    if (statusParam && !(statusParam in WebhookEventStatus)) {
+      return NextResponse.json(
+        { error: "Invalid status" },
+        { status: 400 }
+      );
+    }
+
+    const where = statusParam
+      ? { status: statusParam as WebhookEventStatus }
+      : {};
+
+    const [events, total] = await Promise.all([
+      prisma.webhookEvent.findMany({
+        where,
+        // Payloads can be large - fetch one event to inspect it
+        select: {
+          id: true,
+          type: true,
+          status: true,
+          attempts: true,
+          error: true,
+          receivedAt: true,
+          processedAt: true,
+        },
+        orderBy: { receivedAt: "desc" },
+        skip: (page - 1) * PAGE_SIZE,
+        take: PAGE_SIZE,
+      }),
+      prisma.webhookEvent.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      items: events,
+      total,
+      page,
+      pageSize: PAGE_SIZE,
+      totalPages: Math.ceil(total / PAGE_SIZE),
+    });
+  } catch (error) {
+    console.error("Get webhook events error:", error);
+    return NextResponse.json(
+      { error: "Failed to get webhook events" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = adminRoute({ permission: "webhooks:read" }, handleGet);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { hashPassword } from "@/lib/auth";
+import { withRateLimit } from "@/lib/rate-limit";
 import { z } from "zod";
 
 /**
@@ -15,7 +16,7 @@ const registerSchema = z.object({
   password: z.string().min(8, "Password must be at least 8 characters"),
 });
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
     const body = await request.json();
     
@@ -73,4 +74,4 @@ export async function POST(request: NextRequest) {
   }
 }
 
-
+export const POST = withRateLimit("register", handlePost);
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { postBalanceChange } from "@/lib/ledger";
+import { withRateLimit } from "@/lib/rate-limit";
 
 /**
  * Add Test Balance API
@@ -11,7 +13,7 @@ import { prisma } from "@/lib/prisma";
  * For testing purposes - adds balance to user account
  */
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
     
@@ -25,23 +27,26 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const amountCents = body.amount || 10000; // Default $100
 
+    if (!Number.isInteger(amountCents) || amountCents <= 0) {
+      return NextResponse.json(
+        { error: "Amount must be a positive number of cents" },
+        { status: 400 }
+      );
+    }
+
     // Update user balance
-    const user = await prisma.user.update({
-      where: { id: session.user.id },
-      data: {
-        balanceCents: {
-          increment: amountCents,
-        },
-      },
-      select: {
-        id: true,
-        balanceCents: true,
-      },
-    });
+    const newBalance = await prisma.$transaction((tx) =>
+      postBalanceChange(tx, {
+        userId: session.user.id,
+        amountCents,
+        type: "DEPOSIT",
+        description: "Test balance top-up",
+      })
+    );
 
     return NextResponse.json({
       success: true,
-      newBalance: user.balanceCents,
+      newBalance,
       added: amountCents,
     });
   } catch (error) {
@@ -53,3 +58,4 @@ export async function POST(request: NextRequest) {
   }
 }
 
+export const POST = withRateLimit("add-balance", handlePost);
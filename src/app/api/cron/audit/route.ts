@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyAuditLog } from "@/lib/audit-log";
+
+/**
+ * Audit Verification Cron
+ * 
+ * GET /api/cron/audit
+ * Verifies the audit hash chain and records the result; failures are
+ * logged and shown in the admin audit viewer
+ * 
+ * Requires `Authorization: Bearer <CRON_SECRET>`
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      return NextResponse.json(
+        { error: "CRON_SECRET not configured" },
+        { status: 503 }
+      );
+    }
+
+    if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const report = await verifyAuditLog();
+
+    return NextResponse.json({
+      success: report.valid,
+      ...report,
+    });
+  } catch (error) {
+    console.error("Audit verification error:", error);
+    return NextResponse.json(
+      { error: "Failed to verify audit log" },
+      { status: 500 }
+    );
+  }
+}
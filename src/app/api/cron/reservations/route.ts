@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sweepExpiredReservations } from "@/lib/reservation-sweeper";
+import { getLockMetrics } from "@/lib/redis";
+
+/**
+ * Reservation Sweeper Cron
+ * 
+ * GET /api/cron/reservations
+ * Releases RESERVED items whose checkout reservation has expired, and
+ * reports this process's lock counters
+ * 
+ * Requires `Authorization: Bearer <CRON_SECRET>`
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      return NextResponse.json(
+        { error: "CRON_SECRET not configured" },
+        { status: 503 }
+      );
+    }
+
+    if (request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const result = await sweepExpiredReservations();
+
+    return NextResponse.json({
+      success: true,
+      checked: result.checked,
+      released: result.released.length,
+      itemIds: result.released,
+      sweptAt: result.sweptAt,
+      locks: getLockMetrics(),
+    });
+  } catch (error) {
+    console.error("Reservation sweep error:", error);
+    return NextResponse.json(
+      { error: "Failed to sweep reservations" },
+      { status: 500 }
+    );
+  }
+}
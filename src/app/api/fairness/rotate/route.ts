@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { rotateSeed } from "@/lib/provably-fair";
+import { z } from "zod";
+
+/**
+ * Rotate Seed API
+ * 
+ * POST /api/fairness/rotate
+ * Reveals the current server seed and starts a new pair,
+ * optionally with a client seed chosen by the user
+ */
+
+const rotateSchema = z.object({
+  clientSeed: z
+    .string()
+    .trim()
+    .min(1, "Client seed cannot be empty")
+    .max(64, "Client seed must be at most 64 characters")
+    .optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    // Validate input
+    const parsed = rotateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result = await rotateSeed(session.user.id, parsed.data.clientSeed);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      revealed: result.revealed,
+      next: result.next,
+    });
+  } catch (error) {
+    console.error("Rotate seed error:", error);
+    return NextResponse.json(
+      { error: "Failed to rotate seed" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getActiveCommitment } from "@/lib/provably-fair";
+
+/**
+ * Fairness Commitment API
+ * 
+ * GET /api/fairness
+ * Returns the server seed hash, client seed and next nonce that the
+ * user's next opening will be drawn with
+ */
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const commitment = await getActiveCommitment(session.user.id);
+
+    return NextResponse.json(commitment);
+  } catch (error) {
+    console.error("Get fairness commitment error:", error);
+    return NextResponse.json(
+      { error: "Failed to get fairness commitment" },
+      { status: 500 }
+    );
+  }
+}
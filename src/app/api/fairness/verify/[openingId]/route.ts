@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyOpening } from "@/lib/provably-fair";
+
+/**
+ * Fairness Verification API
+ * 
+ * GET /api/fairness/verify/[openingId]
+ * 
+ * Public - replays the rolls of an opening once its server seed has
+ * been revealed. Before that, only the commitment is returned.
+ */
+
+interface RouteContext {
+  params: Promise<{ openingId: string }>;
+}
+
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const { openingId } = await context.params;
+
+    const verification = await verifyOpening(openingId);
+
+    if (!verification) {
+      return NextResponse.json(
+        { error: "Opening not found or not provably fair" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(verification);
+  } catch (error) {
+    console.error("Fairness verification error:", error);
+    return NextResponse.json(
+      { error: "Failed to verify opening" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { purchaseListing } from "@/lib/marketplace";
+
+/**
+ * Buy Listing API
+ *
+ * POST /api/marketplace/listings/[id]/buy
+ * Purchases a listing with internal balance
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await context.params;
+
+    const result = await purchaseListing(session.user.id, id);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      listingId: result.data.id,
+      holdingId: result.data.vaultHoldingId,
+      price: result.data.askingPrice,
+    });
+  } catch (error) {
+    console.error("Buy listing error:", error);
+    return NextResponse.json(
+      { error: "Failed to buy listing" },
+      { status: 500 }
+    );
+  }
+}
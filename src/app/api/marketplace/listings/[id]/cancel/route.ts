@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { cancelListing } from "@/lib/marketplace";
+
+/**
+ * Cancel Listing API
+ *
+ * POST /api/marketplace/listings/[id]/cancel
+ * Returns the holding to the seller's vault
+ */
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await context.params;
+
+    const result = await cancelListing(session.user.id, id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Cancel listing error:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel listing" },
+      { status: 500 }
+    );
+  }
+}
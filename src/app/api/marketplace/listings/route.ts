@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { createListing, getActiveListings } from "@/lib/marketplace";
+import { z } from "zod";
+
+/**
+ * Marketplace Listings API
+ *
+ * GET /api/marketplace/listings - Browse active listings
+ * POST /api/marketplace/listings - List a vault holding for sale
+ */
+
+const MAX_LISTING_DAYS = 30;
+
+const createListingSchema = z.object({
+  holdingId: z.string().min(1, "Holding ID required"),
+  askingPrice: z.number().int().positive("Asking price must be greater than zero"),
+  expiresInDays: z.number().int().min(1).max(MAX_LISTING_DAYS).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+
+    const listings = await getActiveListings({
+      page: Number(searchParams.get("page")) || 1,
+      pageSize: Number(searchParams.get("pageSize")) || undefined,
+      tierId: searchParams.get("tierId") || undefined,
+      sellerId: searchParams.get("sellerId") || undefined,
+    });
+
+    return NextResponse.json(listings);
+  } catch (error) {
+    console.error("Get listings error:", error);
+    return NextResponse.json(
+      { error: "Failed to get listings" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const parsed = createListingSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const { holdingId, askingPrice, expiresInDays } = parsed.data;
+
+    const result = await createListing({
+      sellerId: session.user.id,
+      holdingId,
+      askingPrice,
+      expiresAt: expiresInDays
+        ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+        : undefined,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      listing: result.data,
+    });
+  } catch (error) {
+    console.error("Create listing error:", error);
+    return NextResponse.json(
+      { error: "Failed to create listing" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { getUserActivity } from "@/lib/user-activity";
+import { UserActivityType } from "@prisma/client";
+
+/**
+ * User Activity API
+ * 
+ * GET /api/me/activity
+ * The signed-in user's own activity, newest first. Optional type filter;
+ * paged with page, pageSize.
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const type = searchParams.get("type");
+
+    if (type && !(type in UserActivityType)) {
+      return NextResponse.json(
+        { error: "Unknown activity type" },
+        { status: 400 }
+      );
+    }
+
+    const activity = await getUserActivity(session.user.id, {
+      page: Number(searchParams.get("page")) || 1,
+      pageSize: Number(searchParams.get("pageSize")) || undefined,
+      type: (type as UserActivityType) || undefined,
+    });
+
+    return NextResponse.json(activity);
+  } catch (error) {
+    console.error("Get activity error:", error);
+    return NextResponse.json(
+      { error: "Failed to get activity" },
+      { status: 500 }
+    );
+  }
+}
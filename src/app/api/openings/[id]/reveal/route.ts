@@ -28,7 +28,14 @@ export async function POST(
 
     const { id } = await context.params;
     
-    await markOpeningRevealed(id);
+    const revealed = await markOpeningRevealed(id, session.user.id);
+
+    if (!revealed) {
+      return NextResponse.json(
+        { error: "Opening not found" },
+        { status: 404 }
+      );
+    }
 
     return NextResponse.json({ success: true });
   } catch (error) {
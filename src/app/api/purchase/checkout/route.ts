@@ -3,20 +3,41 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { canSellPack } from "@/lib/pack-health";
-import { assignItemToOpening } from "@/lib/assignment-engine";
-import { PackStatus, OpeningStatus } from "@prisma/client";
+import {
+  assignItemToOpening,
+  handlePaymentFailed,
+  reserveItemForCheckout,
+} from "@/lib/assignment-engine";
+import { postBalanceChange, InsufficientBalanceError } from "@/lib/ledger";
+import { recordUserActivity } from "@/lib/user-activity";
+import { failAndRefundOpening } from "@/lib/refunds";
+import { claimNonce } from "@/lib/provably-fair";
+import {
+  createPackCheckoutSession,
+  expireCheckoutSession,
+  CHECKOUT_SESSION_TTL_SECONDS,
+} from "@/lib/stripe";
+import { withRateLimit } from "@/lib/rate-limit";
+import { PackStatus, OpeningStatus, type PackProduct } from "@prisma/client";
 
 /**
  * Checkout API
  * 
  * POST /api/purchase/checkout
- * Handles pack purchase using internal balance
- * Supports opening 1-3 packs at once
+ * Handles pack purchase
+ * - paymentMethod "balance" (default): pays from internal balance,
+ *   supports opening 1-3 packs at once
+ * - paymentMethod "card": reserves inventory for one pack and returns a
+ *   Stripe Checkout URL; the webhook assigns items once paid
  */
 
 const MAX_QUANTITY = 3;
 
-export async function POST(request: NextRequest) {
+// Reservation outlives the Checkout Session so the expiry webhook can
+// release it
+const RESERVATION_GRACE_SECONDS = 5 * 60;
+
+async function handlePost(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
     if (!session?.user?.id) {
@@ -27,7 +48,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { packProductId, quantity = 1 } = body;
+    const { packProductId, quantity = 1, paymentMethod = "balance" } = body;
 
     if (!packProductId) {
       return NextResponse.json(
@@ -36,6 +57,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (paymentMethod !== "balance" && paymentMethod !== "card") {
+      return NextResponse.json(
+        { error: "Payment method must be balance or card" },
+        { status: 400 }
+      );
+    }
+
     // Validate quantity (1-3)
     const qty = Math.min(Math.max(1, Math.floor(quantity)), MAX_QUANTITY);
 
@@ -46,7 +74,7 @@ export async function POST(request: NextRequest) {
       }),
       prisma.user.findUnique({
         where: { id: session.user.id },
-        select: { id: true, balanceCents: true },
+        select: { id: true, email: true, balanceCents: true },
       }),
     ]);
 
@@ -72,6 +100,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (paymentMethod === "card") {
+      return startCardCheckout(request, pack, user);
+    }
+
     // Calculate total cost
     const totalCost = pack.priceInCents * qty;
 
@@ -99,32 +131,65 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Create openings and assign items
-    const openings = await prisma.$transaction(async (tx) => {
-      // Deduct balance
-      await tx.user.update({
-        where: { id: user.id },
-        data: { balanceCents: { decrement: totalCost } },
-      });
+    // Create openings and deduct balance for each one
+    let openings;
+    try {
+      openings = await prisma.$transaction(async (tx) => {
+        // Create pack opening records
+        const createdOpenings = [];
+        for (let i = 0; i < qty; i++) {
+          // Commit the opening to the user's seed pair before any draw
+          const fairness = await claimNonce(tx, session.user.id);
 
-      // Create pack opening records
-      const createdOpenings = [];
-      for (let i = 0; i < qty; i++) {
-        const opening = await tx.packOpening.create({
-          data: {
-            userId: session.user.id,
-            packProductId,
-            amountPaid: pack.priceInCents,
-            status: OpeningStatus.PROCESSING,
-          },
-        });
-        createdOpenings.push(opening);
-      }
+          const opening = await tx.packOpening.create({
+            data: {
+              userId: session.user.id,
+              packProductId,
+              amountPaid: pack.priceInCents,
+              status: OpeningStatus.PROCESSING,
+              ...fairness,
+            },
+          });
 
-      return createdOpenings;
-    });
+          await postBalanceChange(tx, {
+            userId: user.id,
+            amountCents: -pack.priceInCents,
+            type: "PACK_PURCHASE",
+            referenceType: "PackOpening",
+            referenceId: opening.id,
+            description: `Purchased ${pack.name}`,
+          });
+
+          await recordUserActivity(tx, {
+            userId: user.id,
+            type: "PACK_PURCHASE",
+            entityType: "PackOpening",
+            entityId: opening.id,
+            details: {
+              packProductId,
+              packName: pack.name,
+              amountPaid: pack.priceInCents,
+              paymentMethod: "balance",
+            },
+          });
+
+          createdOpenings.push(opening);
+        }
 
-    // Assign items to each opening (outside transaction for lock handling)
+        return createdOpenings;
+      });
+    } catch (error) {
+      // Balance was spent between the check above and the transaction
+      if (error instanceof InsufficientBalanceError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    // Assign items to each opening (outside transaction - each draw claims its own)
     const results = [];
     for (const opening of openings) {
       try {
@@ -132,19 +197,26 @@ export async function POST(request: NextRequest) {
         results.push({
           openingId: opening.id,
           success: true,
-          item: {
-            id: result.item.id,
-            name: result.item.name,
-            tierName: result.tier.name,
-            estimatedValue: result.estimatedValue,
-          },
+          items: result.items.map((i) => ({
+            id: i.item.id,
+            name: i.item.name,
+            tierName: i.tier.name,
+            estimatedValue: i.estimatedValue,
+          })),
+          totalValue: result.totalValue,
         });
       } catch (error) {
         console.error(`Failed to assign item to opening ${opening.id}:`, error);
+
+        // Return the pack price to the user's balance
+        const refund = await failAndRefundOpening(opening.id, "Assignment failed");
         results.push({
           openingId: opening.id,
           success: false,
-          error: "Assignment failed",
+          error: refund.success
+            ? "Assignment failed - pack price refunded to your balance"
+            : "Assignment failed",
+          refunded: refund.success,
         });
       }
     }
@@ -175,3 +247,99 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Start a Stripe Checkout for a single pack
+ *
+ * The opening is created PENDING with its nonce claimed up front, so the
+ * draw is committed before the user pays
+ */
+async function startCardCheckout(
+  request: NextRequest,
+  pack: PackProduct,
+  user: { id: string; email: string }
+) {
+  const canSell = await canSellPack(pack.id);
+  if (!canSell) {
+    return NextResponse.json(
+      { error: "This pack is sold out" },
+      { status: 400 }
+    );
+  }
+
+  const opening = await prisma.$transaction(async (tx) => {
+    const fairness = await claimNonce(tx, user.id);
+
+    return tx.packOpening.create({
+      data: {
+        userId: user.id,
+        packProductId: pack.id,
+        amountPaid: pack.priceInCents,
+        status: OpeningStatus.PENDING,
+        ...fairness,
+      },
+    });
+  });
+
+  // Hold inventory until the session completes or expires
+  const reserved = await reserveItemForCheckout(
+    pack.id,
+    opening.id,
+    CHECKOUT_SESSION_TTL_SECONDS + RESERVATION_GRACE_SECONDS
+  );
+
+  if (!reserved) {
+    await handlePaymentFailed(opening.id);
+    return NextResponse.json(
+      { error: "This pack is sold out" },
+      { status: 400 }
+    );
+  }
+
+  let checkoutSessionId: string | null = null;
+
+  try {
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+
+    const checkoutSession = await createPackCheckoutSession({
+      openingId: opening.id,
+      packProductId: pack.id,
+      packName: pack.name,
+      priceInCents: pack.priceInCents,
+      userId: user.id,
+      userEmail: user.email,
+      successUrl: `${appUrl}/open/${opening.id}?session_id={CHECKOUT_SESSION_ID}`,
+      cancelUrl: `${appUrl}/packs/${pack.id}`,
+    });
+
+    checkoutSessionId = checkoutSession.id;
+
+    await prisma.packOpening.update({
+      where: { id: opening.id },
+      data: { stripeSessionId: checkoutSession.id },
+    });
+
+    return NextResponse.json({
+      success: true,
+      openingId: opening.id,
+      checkoutUrl: checkoutSession.url,
+    });
+  } catch (error) {
+    if (checkoutSessionId) {
+      try {
+        await expireCheckoutSession(checkoutSessionId);
+      } catch (expireError) {
+        // It may have been paid already - leave the opening PENDING for
+        // the webhook, which finds it by the session's openingId metadata
+        console.error("Failed to expire checkout session:", expireError);
+        throw error;
+      }
+    }
+
+    // No payable session means no payment can arrive - free the inventory
+    await handlePaymentFailed(opening.id);
+    throw error;
+  }
+}
+
+export const POST = withRateLimit("checkout", handlePost);
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { postBalanceChange } from "@/lib/ledger";
+import { withRateLimit } from "@/lib/rate-limit";
 
 /**
  * Add Test Balance API
@@ -10,7 +12,7 @@ import { prisma } from "@/lib/prisma";
  * Adds test balance to the user's account
  */
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
     if (!session?.user?.id) {
@@ -24,23 +26,28 @@ export async function POST(request: NextRequest) {
     const { amount } = body;
 
     // Default to $100 if no amount specified
-    const amountCents = amount ? Math.abs(amount) * 100 : 10000;
+    const amountCents = amount ? Math.round(Math.abs(amount) * 100) : 10000;
+
+    if (!Number.isInteger(amountCents) || amountCents <= 0) {
+      return NextResponse.json(
+        { error: "Invalid amount" },
+        { status: 400 }
+      );
+    }
 
     // Update user balance
-    const user = await prisma.user.update({
-      where: { id: session.user.id },
-      data: { 
-        balanceCents: { increment: amountCents } 
-      },
-      select: { 
-        id: true, 
-        balanceCents: true 
-      },
-    });
+    const newBalance = await prisma.$transaction((tx) =>
+      postBalanceChange(tx, {
+        userId: session.user.id,
+        amountCents,
+        type: "DEPOSIT",
+        description: "Test balance top-up",
+      })
+    );
 
     return NextResponse.json({
       success: true,
-      newBalance: user.balanceCents,
+      newBalance,
       added: amountCents,
     });
   } catch (error) {
@@ -83,3 +90,4 @@ export async function GET() {
   }
 }
 
+export const POST = withRateLimit("add-balance", handlePost);
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { postBalanceChange } from "@/lib/ledger";
+import { recordUserActivity } from "@/lib/user-activity";
 import { HoldingStatus, ItemStatus } from "@prisma/client";
 
 /**
@@ -58,12 +60,17 @@ export async function POST(request: NextRequest) {
 
     // Execute buyback in transaction
     const result = await prisma.$transaction(async (tx) => {
-      // Update holding status to SOLD
-      await tx.vaultHolding.update({
-        where: { id: holdingId },
+      // Update holding status to SOLD - conditional so a repeated
+      // request cannot pay out twice
+      const sold = await tx.vaultHolding.updateMany({
+        where: { id: holdingId, status: HoldingStatus.HOLDING },
         data: { status: HoldingStatus.SOLD },
       });
 
+      if (sold.count === 0) {
+        return null;
+      }
+
       // Update item status back to AVAILABLE for resale
       await tx.item.update({
         where: { id: holding.item.id },
@@ -71,37 +78,42 @@ export async function POST(request: NextRequest) {
       });
 
       // Credit user's balance
-      const updatedUser = await tx.user.update({
-        where: { id: session.user.id },
-        data: {
-          balanceCents: { increment: buybackAmount },
-        },
-        select: { balanceCents: true },
+      const newBalance = await postBalanceChange(tx, {
+        userId: session.user.id,
+        amountCents: buybackAmount,
+        type: "BUYBACK_CREDIT",
+        referenceType: "VaultHolding",
+        referenceId: holdingId,
+        description: `Buyback of ${holding.item.name}`,
       });
 
-      // Create audit log
-      await tx.auditLog.create({
-        data: {
-          action: "BUYBACK",
-          entityType: "VaultHolding",
-          entityId: holdingId,
-          details: {
-            itemId: holding.item.id,
-            itemName: holding.item.name,
-            estimatedValue: holding.item.estimatedValue,
-            buybackRate: BUYBACK_RATE,
-            buybackAmount,
-            userId: session.user.id,
-          },
+      await recordUserActivity(tx, {
+        userId: session.user.id,
+        type: "BUYBACK",
+        entityType: "VaultHolding",
+        entityId: holdingId,
+        details: {
+          itemId: holding.item.id,
+          itemName: holding.item.name,
+          estimatedValue: holding.item.estimatedValue,
+          buybackRate: BUYBACK_RATE,
+          buybackAmount,
         },
       });
 
       return {
         buybackAmount,
-        newBalance: updatedUser.balanceCents,
+        newBalance,
       };
     });
 
+    if (!result) {
+      return NextResponse.json(
+        { error: "Holding not found or not available for buyback" },
+        { status: 404 }
+      );
+    }
+
     return NextResponse.json({
       success: true,
       itemName: holding.item.name,
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { requestShipment, shippingAddressSchema } from "@/lib/shipping";
+import { z } from "zod";
+
+/**
+ * Request Shipment API
+ * 
+ * POST /api/vault/ship
+ * 
+ * Requests physical delivery of a vault holding
+ */
+
+const shipSchema = z.object({
+  holdingId: z.string().min(1, "Holding ID required"),
+  address: shippingAddressSchema,
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+
+    // Validate input
+    const parsed = shipSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0].message },
+        { status: 400 }
+      );
+    }
+
+    const result = await requestShipment({
+      userId: session.user.id,
+      holdingId: parsed.data.holdingId,
+      address: parsed.data.address,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      shipment: result.data,
+    });
+  } catch (error) {
+    console.error("Shipment request error:", error);
+    return NextResponse.json(
+      { error: "Failed to request shipment" },
+      { status: 500 }
+    );
+  }
+}
@@ -33,18 +33,21 @@ interface OpeningClientProps {
   status: string;
   isComplete: boolean;
   isFailed: boolean;
+  isRefunded: boolean;
   isPending: boolean;
+  items: OpeningItem[];
+}
+
+interface OpeningItem {
+  id: string;
+  name: string;
+  description: string | null;
+  images: string[];
+  tierName: string;
+  tierColor: string;
+  estimatedValue: number;
+  condition: string | null;
   holdingId: string | null;
-  item: {
-    id: string;
-    name: string;
-    description: string | null;
-    images: string[];
-    tierName: string;
-    tierColor: string;
-    estimatedValue: number;
-    condition: string | null;
-  } | null;
 }
 
 type RevealPhase = "intro" | "revealing" | "revealed";
@@ -57,19 +60,18 @@ export function OpeningClient({
   status,
   isComplete,
   isFailed,
+  isRefunded,
   isPending,
-  holdingId,
-  item,
+  items,
 }: OpeningClientProps) {
   const router = useRouter();
   const [phase, setPhase] = useState<RevealPhase>("intro");
   const [hasMarkedRevealed, setHasMarkedRevealed] = useState(false);
-  const [buybackLoading, setBuybackLoading] = useState(false);
-  const [buybackComplete, setBuybackComplete] = useState(false);
-  const [buybackAmount, setBuybackAmount] = useState<number | null>(null);
 
-  // Calculate buyback value
-  const buybackValue = item ? Math.floor(item.estimatedValue * BUYBACK_RATE) : 0;
+  // The most valuable pull sets the tone of the reveal
+  const item = items.length > 0
+    ? items.reduce((best, i) => (i.estimatedValue > best.estimatedValue ? i : best))
+    : null;
 
   // Trigger confetti for rare items
   const triggerConfetti = useCallback(() => {
@@ -133,38 +135,6 @@ export function OpeningClient({
     }
   }, [openingId, hasMarkedRevealed]);
 
-  // Handle instant buyback
-  const handleBuyback = async () => {
-    if (!holdingId || buybackComplete) return;
-    
-    setBuybackLoading(true);
-    try {
-      const res = await fetch("/api/vault/buyback", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ holdingId }),
-      });
-
-      const data = await res.json();
-
-      if (res.ok) {
-        setBuybackComplete(true);
-        setBuybackAmount(data.buybackAmount);
-        // Trigger green confetti for successful sale
-        confetti({
-          particleCount: 50,
-          spread: 60,
-          origin: { y: 0.6 },
-          colors: ["#61ec7d", "#4fd969", "#ffffff"],
-        });
-      }
-    } catch (error) {
-      console.error("Buyback failed:", error);
-    } finally {
-      setBuybackLoading(false);
-    }
-  };
-
   // Auto-advance through phases
   useEffect(() => {
     if (isComplete && item && phase === "intro") {
@@ -207,6 +177,31 @@ export function OpeningClient({
     );
   }
 
+  // Refunded state
+  if (isRefunded) {
+    return (
+      <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center p-4">
+        <Card className="max-w-md w-full p-8 text-center">
+          <div className="w-16 h-16 rounded-full bg-warning-muted flex items-center justify-center mx-auto mb-6">
+            <RefreshCw className="h-8 w-8 text-warning" />
+          </div>
+          <h2 className="text-xl font-semibold text-foreground mb-2">
+            Purchase Refunded
+          </h2>
+          <p className="text-text-secondary mb-6">
+            We couldn&apos;t open this pack, so your payment has been refunded.
+          </p>
+          <Link href="/">
+            <Button className="w-full">
+              <Home className="h-4 w-4 mr-2" />
+              Return Home
+            </Button>
+          </Link>
+        </Card>
+      </div>
+    );
+  }
+
   // Failed state
   if (isFailed) {
     return (
@@ -343,118 +338,12 @@ export function OpeningClient({
               </Badge>
             </motion.div>
 
-            {/* Item Card */}
-            <Card className={`overflow-hidden ${glowClass}`}>
-              <div className="relative aspect-[3/4] bg-surface-elevated">
-                {item.images[0] ? (
-                  <img
-                    src={item.images[0]}
-                    alt={item.name}
-                    className="absolute inset-0 w-full h-full object-cover"
-                  />
-                ) : (
-                  <div className="flex h-full items-center justify-center">
-                    <Package className="h-24 w-24 text-text-muted" />
-                  </div>
-                )}
-              </div>
-              
-              <div className="p-6">
-                <h2 className="text-2xl font-bold text-foreground mb-2">
-                  {item.name}
-                </h2>
-                {item.description && (
-                  <p className="text-text-secondary mb-4 line-clamp-2">
-                    {item.description}
-                  </p>
-                )}
-                
-                <div className="flex items-center justify-between mb-6">
-                  <div>
-                    <p className="text-sm text-text-muted">Estimated Value</p>
-                    <p className="text-2xl font-bold text-accent">
-                      {formatCurrency(item.estimatedValue)}
-                    </p>
-                  </div>
-                  {item.condition && (
-                    <div className="text-right">
-                      <p className="text-sm text-text-muted">Condition</p>
-                      <p className="font-medium text-foreground">{item.condition}</p>
-                    </div>
-                  )}
-                </div>
-
-                {/* Buyback Complete Message */}
-                {buybackComplete && buybackAmount !== null ? (
-                  <div className="flex items-center gap-2 p-4 rounded-lg bg-success-muted mb-6">
-                    <CheckCircle className="h-5 w-5 text-success" />
-                    <div>
-                      <p className="font-medium text-success">Sold for {formatCurrency(buybackAmount)}!</p>
-                      <p className="text-sm text-success/80">Balance updated</p>
-                    </div>
-                  </div>
-                ) : (
-                  <>
-                    {/* Success message */}
-                    <div className="flex items-center gap-2 p-3 rounded-lg bg-success-muted mb-4">
-                      <CheckCircle className="h-5 w-5 text-success" />
-                      <span className="text-sm text-success">
-                        Added to your vault!
-                      </span>
-                    </div>
-
-                    {/* Instant Buyback Option */}
-                    {holdingId && (
-                      <div className="p-4 rounded-lg bg-warning-muted mb-6">
-                        <div className="flex items-center justify-between">
-                          <div>
-                            <p className="font-medium text-warning">Instant Buyback</p>
-                            <p className="text-sm text-warning/80">
-                              Sell now for 90% value
-                            </p>
-                          </div>
-                          <div className="text-right">
-                            <p className="text-xl font-bold text-warning">
-                              {formatCurrency(buybackValue)}
-                            </p>
-                          </div>
-                        </div>
-                        <Button
-                          variant="warning"
-                          className="w-full mt-3"
-                          onClick={handleBuyback}
-                          loading={buybackLoading}
-                          disabled={buybackLoading}
-                        >
-                          <DollarSign className="h-4 w-4 mr-2" />
-                          Sell for {formatCurrency(buybackValue)}
-                        </Button>
-                      </div>
-                    )}
-                  </>
-                )}
-
-                {/* Actions */}
-                {!buybackComplete && (
-                  <div className="grid grid-cols-3 gap-3">
-                    <Link href="/vault" className="col-span-3 sm:col-span-1">
-                      <Button variant="default" className="w-full">
-                        <Wallet className="h-4 w-4 mr-2" />
-                        Vault
-                      </Button>
-                    </Link>
-                    <Button variant="secondary" className="col-span-3 sm:col-span-1">
-                      <Truck className="h-4 w-4 mr-2" />
-                      Ship
-                    </Button>
-                    <Button variant="secondary" className="col-span-3 sm:col-span-1">
-                      <Tag className="h-4 w-4 mr-2" />
-                      List
-                    </Button>
-                  </div>
-                )}
-              </div>
-            </Card>
+            {/* Item Cards */}
+            <div className="space-y-6">
+              {items.map((i) => (
+                <RevealedItemCard key={i.id} item={i} />
+              ))}
+            </div>
 
             {/* Open another */}
             <motion.div
@@ -476,3 +365,164 @@ export function OpeningClient({
     </div>
   );
 }
+
+/**
+ * One revealed item with its own instant buyback
+ */
+function RevealedItemCard({ item }: { item: OpeningItem }) {
+  const [buybackLoading, setBuybackLoading] = useState(false);
+  const [buybackComplete, setBuybackComplete] = useState(false);
+  const [buybackAmount, setBuybackAmount] = useState<number | null>(null);
+
+  const holdingId = item.holdingId;
+  const glowClass = getTierGlowClass(item.tierName);
+
+  // Calculate buyback value
+  const buybackValue = Math.floor(item.estimatedValue * BUYBACK_RATE);
+
+  // Handle instant buyback
+  const handleBuyback = async () => {
+    if (!holdingId || buybackComplete) return;
+    
+    setBuybackLoading(true);
+    try {
+      const res = await fetch("/api/vault/buyback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ holdingId }),
+      });
+
+      const data = await res.json();
+
+      if (res.ok) {
+        setBuybackComplete(true);
+        setBuybackAmount(data.buybackAmount);
+        // Trigger green confetti for successful sale
+        confetti({
+          particleCount: 50,
+          spread: 60,
+          origin: { y: 0.6 },
+          colors: ["#61ec7d", "#4fd969", "#ffffff"],
+        });
+      }
+    } catch (error) {
+      console.error("Buyback failed:", error);
+    } finally {
+      setBuybackLoading(false);
+    }
+  };
+
+  return (
+    <Card className={`overflow-hidden ${glowClass}`}>
+      <div className="relative aspect-[3/4] bg-surface-elevated">
+        {item.images[0] ? (
+          <img
+            src={item.images[0]}
+            alt={item.name}
+            className="absolute inset-0 w-full h-full object-cover"
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center">
+            <Package className="h-24 w-24 text-text-muted" />
+          </div>
+        )}
+      </div>
+      
+      <div className="p-6">
+        <h2 className="text-2xl font-bold text-foreground mb-2">
+          {item.name}
+        </h2>
+        {item.description && (
+          <p className="text-text-secondary mb-4 line-clamp-2">
+            {item.description}
+          </p>
+        )}
+        
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <p className="text-sm text-text-muted">Estimated Value</p>
+            <p className="text-2xl font-bold text-accent">
+              {formatCurrency(item.estimatedValue)}
+            </p>
+          </div>
+          {item.condition && (
+            <div className="text-right">
+              <p className="text-sm text-text-muted">Condition</p>
+              <p className="font-medium text-foreground">{item.condition}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Buyback Complete Message */}
+        {buybackComplete && buybackAmount !== null ? (
+          <div className="flex items-center gap-2 p-4 rounded-lg bg-success-muted mb-6">
+            <CheckCircle className="h-5 w-5 text-success" />
+            <div>
+              <p className="font-medium text-success">Sold for {formatCurrency(buybackAmount)}!</p>
+              <p className="text-sm text-success/80">Balance updated</p>
+            </div>
+          </div>
+        ) : (
+          <>
+            {/* Success message */}
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-success-muted mb-4">
+              <CheckCircle className="h-5 w-5 text-success" />
+              <span className="text-sm text-success">
+                Added to your vault!
+              </span>
+            </div>
+
+            {/* Instant Buyback Option */}
+            {holdingId && (
+              <div className="p-4 rounded-lg bg-warning-muted mb-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-warning">Instant Buyback</p>
+                    <p className="text-sm text-warning/80">
+                      Sell now for 90% value
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-xl font-bold text-warning">
+                      {formatCurrency(buybackValue)}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="warning"
+                  className="w-full mt-3"
+                  onClick={handleBuyback}
+                  loading={buybackLoading}
+                  disabled={buybackLoading}
+                >
+                  <DollarSign className="h-4 w-4 mr-2" />
+                  Sell for {formatCurrency(buybackValue)}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Actions */}
+        {!buybackComplete && (
+          <div className="grid grid-cols-3 gap-3">
+            <Link href="/vault" className="col-span-3 sm:col-span-1">
+              <Button variant="default" className="w-full">
+                <Wallet className="h-4 w-4 mr-2" />
+                Vault
+              </Button>
+            </Link>
+            <Button variant="secondary" className="col-span-3 sm:col-span-1">
+              <Truck className="h-4 w-4 mr-2" />
+              Ship
+            </Button>
+            <Button variant="secondary" className="col-span-3 sm:col-span-1">
+              <Tag className="h-4 w-4 mr-2" />
+              List
+            </Button>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -24,13 +24,14 @@ async function getOpening(id: string, userId: string) {
     },
     include: {
       packProduct: true,
-      assignment: {
+      assignments: {
         include: {
           item: {
             include: { tier: true },
           },
           vaultHolding: true, // Include vault holding for buyback
         },
+        orderBy: { slot: "asc" },
       },
     },
   });
@@ -67,11 +68,9 @@ export default async function OpeningPage({ params, searchParams }: Props) {
   // Check if opening is complete
   const isComplete = opening.status === OpeningStatus.COMPLETED || opening.status === OpeningStatus.REVEALED;
   const isFailed = opening.status === OpeningStatus.FAILED;
+  const isRefunded = opening.status === OpeningStatus.REFUNDED;
   const isPending = opening.status === OpeningStatus.PENDING || opening.status === OpeningStatus.PROCESSING;
 
-  // Get holding ID for buyback
-  const holdingId = opening.assignment?.vaultHolding?.id || null;
-
   return (
     <OpeningClient
       openingId={opening.id}
@@ -79,18 +78,19 @@ export default async function OpeningPage({ params, searchParams }: Props) {
       status={opening.status}
       isComplete={isComplete}
       isFailed={isFailed}
+      isRefunded={isRefunded}
       isPending={isPending}
-      holdingId={holdingId}
-      item={opening.assignment?.item ? {
-        id: opening.assignment.item.id,
-        name: opening.assignment.item.name,
-        description: opening.assignment.item.description,
-        images: opening.assignment.item.images,
-        tierName: opening.assignment.item.tier.name,
-        tierColor: opening.assignment.item.tier.color,
-        estimatedValue: opening.assignment.item.estimatedValue,
-        condition: opening.assignment.item.condition,
-      } : null}
+      items={opening.assignments.map((a) => ({
+        id: a.item.id,
+        name: a.item.name,
+        description: a.item.description,
+        images: a.item.images,
+        tierName: a.item.tier.name,
+        tierColor: a.item.tier.color,
+        estimatedValue: a.item.estimatedValue,
+        condition: a.item.condition,
+        holdingId: a.vaultHolding?.id || null, // Holding ID for buyback
+      }))}
     />
   );
 }
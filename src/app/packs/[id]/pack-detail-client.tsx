@@ -17,7 +17,8 @@ import {
   Info,
   Wallet,
   Plus,
-  Minus
+  Minus,
+  CreditCard
 } from "lucide-react";
 
 /**
@@ -35,6 +36,7 @@ interface PackDetailClientProps {
     soldCount: number;
     status: string;
     totalItems: number;
+    itemsPerPack: number;
   };
   tierDistribution: {
     tierId: string;
@@ -68,10 +70,12 @@ export function PackDetailClient({
   const router = useRouter();
   const { data: session, status: authStatus } = useSession();
   const [purchasing, setPurchasing] = useState(false);
+  const [cardCheckout, setCardCheckout] = useState(false);
   const [addingBalance, setAddingBalance] = useState(false);
   const [error, setError] = useState("");
   const [balance, setBalance] = useState<number | null>(null);
   const [quantity, setQuantity] = useState(1);
+  const [serverSeedHash, setServerSeedHash] = useState<string | null>(null);
 
   const remaining = pack.maxSupply ? pack.maxSupply - pack.soldCount : null;
   const isLowStock = remaining !== null && remaining <= 10 && remaining > 0;
@@ -86,6 +90,12 @@ export function PackDetailClient({
         .then((res) => res.json())
         .then((data) => setBalance(data.balance))
         .catch(() => setBalance(0));
+
+      // Commitment for the next opening, published before purchase
+      fetch("/api/fairness")
+        .then((res) => res.json())
+        .then((data) => setServerSeedHash(data.serverSeedHash ?? null))
+        .catch(() => setServerSeedHash(null));
     }
   }, [session]);
 
@@ -149,6 +159,39 @@ export function PackDetailClient({
     }
   };
 
+  // Card payments open one pack per Stripe Checkout
+  const handleCardPurchase = async () => {
+    if (!session) {
+      router.push(`/login?redirect=/packs/${pack.id}`);
+      return;
+    }
+
+    setError("");
+    setCardCheckout(true);
+
+    try {
+      const res = await fetch("/api/purchase/checkout", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ packProductId: pack.id, quantity: 1, paymentMethod: "card" }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok || !data.checkoutUrl) {
+        setError(data.error || "Failed to start card checkout");
+        setCardCheckout(false);
+        return;
+      }
+
+      // Leave the app for Stripe - keep the button busy until we do
+      window.location.href = data.checkoutUrl;
+    } catch {
+      setError("An error occurred. Please try again.");
+      setCardCheckout(false);
+    }
+  };
+
   return (
     <div className="min-h-screen py-8">
       <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
@@ -219,6 +262,11 @@ export function PackDetailClient({
                   <p className="text-2xl font-bold text-accent">
                     {formatCurrency(pack.priceInCents)}
                   </p>
+                  {pack.itemsPerPack > 1 && (
+                    <p className="text-sm text-text-secondary">
+                      {pack.itemsPerPack} items per pack
+                    </p>
+                  )}
                 </div>
                 {pack.maxSupply && (
                   <div className="text-right">
@@ -362,6 +410,14 @@ export function PackDetailClient({
               </div>
             </div>
 
+            {/* Provably fair commitment */}
+            {serverSeedHash && (
+              <div className="text-xs text-text-muted break-all">
+                <span className="font-medium text-text-secondary">Server seed hash:</span>{" "}
+                {serverSeedHash}
+              </div>
+            )}
+
             {/* Error message */}
             {error && (
               <div className="flex items-center gap-2 p-3 rounded-lg bg-error-muted text-error text-sm">
@@ -375,7 +431,7 @@ export function PackDetailClient({
               size="xl"
               className="w-full"
               onClick={handlePurchase}
-              disabled={!isAvailable || purchasing}
+              disabled={!isAvailable || purchasing || cardCheckout}
               loading={purchasing}
             >
               {!isAvailable
@@ -386,6 +442,21 @@ export function PackDetailClient({
                 ? `Open ${quantity} Pack${quantity > 1 ? "s" : ""} - ${formatCurrency(totalPrice)}`
                 : "Sign in to Purchase"}
             </Button>
+
+            {/* Card payment */}
+            {session && isAvailable && (
+              <Button
+                variant="outline"
+                size="lg"
+                className="w-full"
+                onClick={handleCardPurchase}
+                disabled={cardCheckout || purchasing}
+                loading={cardCheckout}
+              >
+                <CreditCard className="h-4 w-4 mr-2" />
+                Pay with Card - {formatCurrency(pack.priceInCents)}
+              </Button>
+            )}
           </motion.div>
         </div>
 
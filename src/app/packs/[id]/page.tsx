@@ -97,6 +97,7 @@ export default async function PackDetailPage({ params }: Props) {
         soldCount: pack.soldCount,
         status: pack.status,
         totalItems: pack._count.poolItems,
+        itemsPerPack: pack.config?.itemsPerPack ?? 1,
       }}
       tierDistribution={tierDistribution}
       guarantees={guarantees}
@@ -2,6 +2,9 @@ import { redirect } from "next/navigation";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { getTrackingUrl } from "@/lib/shipping";
+import { expireListings } from "@/lib/marketplace";
+import { ListingStatus } from "@prisma/client";
 import { VaultClient } from "./vault-client";
 
 /**
@@ -11,14 +14,27 @@ import { VaultClient } from "./vault-client";
  */
 
 async function getVaultHoldings(userId: string) {
+  // Return holdings whose listings ran out before showing them as listed
+  await expireListings({ sellerId: userId });
+
   const holdings = await prisma.vaultHolding.findMany({
     where: { userId },
     include: {
       item: {
         include: { tier: true },
       },
-      listing: true,
-      shipmentRequest: true,
+      // Baseline for value change since acquisition
+      assignment: {
+        select: { valueAtAssignment: true },
+      },
+      listings: {
+        where: { status: ListingStatus.ACTIVE },
+        take: 1,
+      },
+      shipmentRequests: {
+        orderBy: { createdAt: "desc" },
+        take: 1,
+      },
     },
     orderBy: { acquiredAt: "desc" },
   });
@@ -31,12 +47,14 @@ async function getOpeningHistory(userId: string) {
     where: { userId },
     include: {
       packProduct: true,
-      assignment: {
+      // Best pull first
+      assignments: {
         include: {
           item: {
             include: { tier: true },
           },
         },
+        orderBy: { valueAtAssignment: "desc" },
       },
     },
     orderBy: { createdAt: "desc" },
@@ -64,6 +82,10 @@ export default async function VaultPage() {
     (sum, h) => sum + h.item.estimatedValue,
     0
   );
+  const totalValueAtAcquisition = holdings.reduce(
+    (sum, h) => sum + h.assignment.valueAtAssignment,
+    0
+  );
   const listedItems = holdings.filter((h) => h.status === "LISTED").length;
   const shippingItems = holdings.filter(
     (h) => h.status === "SHIPPING"
@@ -82,17 +104,25 @@ export default async function VaultPage() {
           tierName: h.item.tier.name,
           tierColor: h.item.tier.color,
           estimatedValue: h.item.estimatedValue,
+          valueAtAcquisition: h.assignment.valueAtAssignment,
           condition: h.item.condition,
         },
-        listing: h.listing ? {
-          id: h.listing.id,
-          askingPrice: h.listing.askingPrice,
-          status: h.listing.status,
+        listing: h.listings[0] ? {
+          id: h.listings[0].id,
+          askingPrice: h.listings[0].askingPrice,
+          status: h.listings[0].status,
         } : null,
-        shipmentRequest: h.shipmentRequest ? {
-          id: h.shipmentRequest.id,
-          status: h.shipmentRequest.status,
-          trackingNumber: h.shipmentRequest.trackingNumber,
+        shipmentRequest: h.shipmentRequests[0] ? {
+          id: h.shipmentRequests[0].id,
+          status: h.shipmentRequests[0].status,
+          carrier: h.shipmentRequests[0].carrier,
+          trackingNumber: h.shipmentRequests[0].trackingNumber,
+          trackingUrl: getTrackingUrl(
+            h.shipmentRequests[0].carrier,
+            h.shipmentRequests[0].trackingNumber
+          ),
+          shippedAt: h.shipmentRequests[0].shippedAt?.toISOString() ?? null,
+          deliveredAt: h.shipmentRequests[0].deliveredAt?.toISOString() ?? null,
         } : null,
       }))}
       openings={openings.map((o) => ({
@@ -100,15 +130,17 @@ export default async function VaultPage() {
         packName: o.packProduct.name,
         status: o.status,
         createdAt: o.createdAt.toISOString(),
-        item: o.assignment?.item ? {
-          name: o.assignment.item.name,
-          tierName: o.assignment.item.tier.name,
-          tierColor: o.assignment.item.tier.color,
+        item: o.assignments[0] ? {
+          name: o.assignments[0].item.name,
+          tierName: o.assignments[0].item.tier.name,
+          tierColor: o.assignments[0].item.tier.color,
         } : null,
+        itemCount: o.assignments.length,
       }))}
       stats={{
         totalItems,
         totalValue,
+        totalValueAtAcquisition,
         listedItems,
         shippingItems,
       }}
@@ -3,7 +3,7 @@
 import React, { useState } from "react";
 import { motion } from "framer-motion";
 import { useRouter } from "next/navigation";
-import { Card, Badge, Button } from "@/components/ui";
+import { Card, Badge, Button, Input } from "@/components/ui";
 import { formatCurrency, formatDate, getTierGlowClass } from "@/lib/utils";
 import { 
   Package, 
@@ -32,6 +32,7 @@ interface VaultClientProps {
       tierName: string;
       tierColor: string;
       estimatedValue: number;
+      valueAtAcquisition: number;
       condition: string | null;
     };
     listing: {
@@ -42,7 +43,11 @@ interface VaultClientProps {
     shipmentRequest: {
       id: string;
       status: string;
+      carrier: string | null;
       trackingNumber: string | null;
+      trackingUrl: string | null;
+      shippedAt: string | null;
+      deliveredAt: string | null;
     } | null;
   }[];
   openings: {
@@ -55,10 +60,12 @@ interface VaultClientProps {
       tierName: string;
       tierColor: string;
     } | null;
+    itemCount: number;
   }[];
   stats: {
     totalItems: number;
     totalValue: number;
+    totalValueAtAcquisition: number;
     listedItems: number;
     shippingItems: number;
   };
@@ -66,10 +73,31 @@ interface VaultClientProps {
 
 const BUYBACK_RATE = 0.90;
 
+/**
+ * Value change since acquisition, e.g. "+$12.00 (+8%)"
+ */
+function ValueChange({ current, baseline }: { current: number; baseline: number }) {
+  const change = current - baseline;
+  if (change === 0 || baseline === 0) {
+    return null;
+  }
+
+  const pct = Math.round((change / baseline) * 100);
+  return (
+    <span className={change > 0 ? "text-success" : "text-error"}>
+      {change > 0 ? "+" : "-"}{formatCurrency(Math.abs(change))} ({change > 0 ? "+" : ""}{pct}%)
+    </span>
+  );
+}
+
 export function VaultClient({ holdings, openings, stats }: VaultClientProps) {
   const router = useRouter();
   const [activeTab, setActiveTab] = useState<"holdings" | "history">("holdings");
   const [buybackLoading, setBuybackLoading] = useState<string | null>(null);
+  const [listingHoldingId, setListingHoldingId] = useState<string | null>(null);
+  const [listingPrice, setListingPrice] = useState("");
+  const [listingLoading, setListingLoading] = useState<string | null>(null);
+  const [listingError, setListingError] = useState("");
 
   const handleBuyback = async (holdingId: string) => {
     setBuybackLoading(holdingId);
@@ -90,6 +118,60 @@ export function VaultClient({ holdings, openings, stats }: VaultClientProps) {
     }
   };
 
+  const handleStartListing = (holdingId: string, estimatedValue: number) => {
+    setListingHoldingId(holdingId);
+    setListingPrice((estimatedValue / 100).toFixed(2));
+    setListingError("");
+  };
+
+  const handleCreateListing = async (holdingId: string) => {
+    const askingPrice = Math.round(parseFloat(listingPrice) * 100);
+    if (!askingPrice || askingPrice <= 0) {
+      setListingError("Enter a valid price");
+      return;
+    }
+
+    setListingLoading(holdingId);
+    try {
+      const res = await fetch("/api/marketplace/listings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ holdingId, askingPrice }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        setListingError(data.error || "Failed to create listing");
+        return;
+      }
+
+      setListingHoldingId(null);
+      router.refresh();
+    } catch (error) {
+      console.error("Create listing failed:", error);
+    } finally {
+      setListingLoading(null);
+    }
+  };
+
+  const handleCancelListing = async (holdingId: string, listingId: string) => {
+    setListingLoading(holdingId);
+    try {
+      const res = await fetch(`/api/marketplace/listings/${listingId}/cancel`, {
+        method: "POST",
+      });
+
+      if (res.ok) {
+        router.refresh();
+      }
+    } catch (error) {
+      console.error("Cancel listing failed:", error);
+    } finally {
+      setListingLoading(null);
+    }
+  };
+
   return (
     <div className="min-h-screen py-8">
       <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
@@ -123,7 +205,10 @@ export function VaultClient({ holdings, openings, stats }: VaultClientProps) {
                 <p className="text-2xl font-bold text-foreground">
                   {formatCurrency(stats.totalValue)}
                 </p>
-                <p className="text-sm text-text-secondary">Total Value</p>
+                <p className="text-sm text-text-secondary">
+                  Total Value{" "}
+                  <ValueChange current={stats.totalValue} baseline={stats.totalValueAtAcquisition} />
+                </p>
               </div>
             </div>
           </Card>
@@ -267,6 +352,12 @@ export function VaultClient({ holdings, openings, stats }: VaultClientProps) {
                           </h3>
                           <p className="text-sm text-accent font-medium mb-3">
                             {formatCurrency(holding.item.estimatedValue)}
+                            <span className="ml-2 text-xs font-normal">
+                              <ValueChange
+                                current={holding.item.estimatedValue}
+                                baseline={holding.item.valueAtAcquisition}
+                              />
+                            </span>
                           </p>
                           
                           {holding.status === "HOLDING" && (
@@ -289,30 +380,101 @@ export function VaultClient({ holdings, openings, stats }: VaultClientProps) {
                                   <Truck className="h-3 w-3 mr-1" />
                                   Ship
                                 </Button>
-                                <Button size="sm" variant="secondary" className="flex-1">
+                                <Button
+                                  size="sm"
+                                  variant="secondary"
+                                  className="flex-1"
+                                  onClick={() => handleStartListing(holding.id, holding.item.estimatedValue)}
+                                >
                                   <Tag className="h-3 w-3 mr-1" />
                                   List
                                 </Button>
                               </div>
+
+                              {/* Listing form */}
+                              {listingHoldingId === holding.id && (
+                                <div className="space-y-2 pt-2">
+                                  <Input
+                                    type="number"
+                                    min="0.01"
+                                    step="0.01"
+                                    value={listingPrice}
+                                    onChange={(e) => setListingPrice(e.target.value)}
+                                    error={listingError || undefined}
+                                  />
+                                  <div className="flex gap-2">
+                                    <Button
+                                      size="sm"
+                                      className="flex-1"
+                                      onClick={() => handleCreateListing(holding.id)}
+                                      loading={listingLoading === holding.id}
+                                      disabled={listingLoading === holding.id}
+                                    >
+                                      Confirm
+                                    </Button>
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      className="flex-1"
+                                      onClick={() => setListingHoldingId(null)}
+                                    >
+                                      Cancel
+                                    </Button>
+                                  </div>
+                                </div>
+                              )}
                             </div>
                           )}
                           
                           {holding.listing && (
-                            <div className="text-sm text-text-secondary">
-                              Listed for {formatCurrency(holding.listing.askingPrice)}
+                            <div className="flex items-center justify-between text-sm text-text-secondary">
+                              <span>Listed for {formatCurrency(holding.listing.askingPrice)}</span>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => handleCancelListing(holding.id, holding.listing!.id)}
+                                loading={listingLoading === holding.id}
+                                disabled={listingLoading === holding.id}
+                              >
+                                Unlist
+                              </Button>
                             </div>
                           )}
                           
                           {holding.shipmentRequest && (
-                            <div className="text-sm">
-                              <span className="text-text-secondary">Status: </span>
-                              <span className="text-foreground">
-                                {holding.shipmentRequest.status}
-                              </span>
+                            <div className="text-sm space-y-1">
+                              <div>
+                                <span className="text-text-secondary">Status: </span>
+                                <span className="text-foreground">
+                                  {holding.shipmentRequest.status}
+                                </span>
+                              </div>
                               {holding.shipmentRequest.trackingNumber && (
-                                <Button size="sm" variant="ghost" className="ml-2 p-0 h-auto">
-                                  <ExternalLink className="h-3 w-3" />
-                                </Button>
+                                <div className="flex items-center gap-1 text-text-secondary">
+                                  <span>
+                                    {holding.shipmentRequest.carrier}{" "}
+                                    {holding.shipmentRequest.trackingNumber}
+                                  </span>
+                                  {holding.shipmentRequest.trackingUrl && (
+                                    <a
+                                      href={holding.shipmentRequest.trackingUrl}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="text-accent hover:text-accent-hover"
+                                    >
+                                      <ExternalLink className="h-3 w-3" />
+                                    </a>
+                                  )}
+                                </div>
+                              )}
+                              {holding.shipmentRequest.deliveredAt ? (
+                                <p className="text-xs text-text-muted">
+                                  Delivered {formatDate(holding.shipmentRequest.deliveredAt)}
+                                </p>
+                              ) : holding.shipmentRequest.shippedAt && (
+                                <p className="text-xs text-text-muted">
+                                  Shipped {formatDate(holding.shipmentRequest.shippedAt)}
+                                </p>
                               )}
                             </div>
                           )}
@@ -362,6 +524,9 @@ export function VaultClient({ holdings, openings, stats }: VaultClientProps) {
                           <div className="text-right">
                             <p className="text-sm text-foreground">
                               {opening.item.name}
+                              {opening.itemCount > 1 && (
+                                <span className="text-text-secondary"> +{opening.itemCount - 1} more</span>
+                              )}
                             </p>
                             <Badge
                               style={{
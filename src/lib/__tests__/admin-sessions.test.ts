@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { AdminAuthSession } from "@prisma/client";
+
+/**
+ * Admin Session Tests
+ *
+ * Refresh tokens rotate on every use; a replaced token is tolerated only
+ * briefly, and revocation is seen by the next access token check
+ */
+
+// Ids never repeat - the revocation list outlives each test
+const { sessions, nextId } = vi.hoisted(() => {
+  let id = 0;
+  return {
+    sessions: new Map<string, AdminAuthSession>(),
+    nextId: () => `session-${++id}`,
+  };
+});
+
+vi.mock("@/lib/prisma", () => {
+  const matches = (session: AdminAuthSession, where: Record<string, unknown>) =>
+    Object.entries(where).every(([key, value]) =>
+      value === null
+        ? session[key as keyof AdminAuthSession] === null
+        : session[key as keyof AdminAuthSession] === value
+    );
+
+  const adminAuthSession = {
+    create: async ({ data }: { data: Partial<AdminAuthSession> }) => {
+      const session = {
+        id: nextId(),
+        previousTokenHash: null,
+        ipAddress: null,
+        userAgent: null,
+        lastUsedAt: new Date(),
+        revokedAt: null,
+        createdAt: new Date(),
+        ...data,
+      } as AdminAuthSession;
+      sessions.set(session.id, session);
+      return session;
+    },
+    findUnique: async ({ where }: { where: { id: string } }) => sessions.get(where.id) ?? null,
+    updateMany: async ({
+      where,
+      data,
+    }: {
+      where: Record<string, unknown>;
+      data: Partial<AdminAuthSession>;
+    }) => {
+      let count = 0;
+      for (const session of sessions.values()) {
+        if (matches(session, where)) {
+          Object.assign(session, data);
+          count++;
+        }
+      }
+      return { count };
+    },
+  };
+
+  return { default: { adminAuthSession }, prisma: { adminAuthSession } };
+});
+
+import {
+  createAdminAuthSession,
+  isAdminAuthSessionRevoked,
+  revokeAdminAuthSession,
+  rotateRefreshToken,
+} from "../admin-sessions";
+
+beforeEach(() => {
+  sessions.clear();
+});
+
+describe("Refresh Token Rotation", () => {
+  it("should issue a new token and retire the old one", async () => {
+    const { refreshToken } = await createAdminAuthSession("admin-1", {});
+
+    const first = await rotateRefreshToken(refreshToken);
+    expect(first.status).toBe("rotated");
+    if (first.status !== "rotated") return;
+
+    expect(first.refreshToken).not.toBe(refreshToken);
+    expect((await rotateRefreshToken(first.refreshToken)).status).toBe("rotated");
+  });
+
+  it("should tolerate the replaced token right after rotation", async () => {
+    const { refreshToken } = await createAdminAuthSession("admin-1", {});
+
+    await rotateRefreshToken(refreshToken);
+
+    expect((await rotateRefreshToken(refreshToken)).status).toBe("superseded");
+  });
+
+  it("should revoke the session when a replaced token comes back later", async () => {
+    const { session, refreshToken } = await createAdminAuthSession("admin-1", {});
+
+    const rotated = await rotateRefreshToken(refreshToken);
+    if (rotated.status !== "rotated") throw new Error("expected rotation");
+    sessions.get(session.id)!.lastUsedAt = new Date(Date.now() - 60_000);
+
+    expect((await rotateRefreshToken(refreshToken)).status).toBe("invalid");
+    expect(sessions.get(session.id)!.revokedAt).not.toBeNull();
+    expect((await rotateRefreshToken(rotated.refreshToken)).status).toBe("invalid");
+  });
+
+  it("should reject unknown and malformed tokens without revoking", async () => {
+    const { session } = await createAdminAuthSession("admin-1", {});
+
+    expect((await rotateRefreshToken(`${session.id}.not-the-token`)).status).toBe("invalid");
+    expect((await rotateRefreshToken("garbage")).status).toBe("invalid");
+    expect(sessions.get(session.id)!.revokedAt).toBeNull();
+  });
+});
+
+describe("Revocation", () => {
+  it("should deny access tokens for a revoked session", async () => {
+    const { session, refreshToken } = await createAdminAuthSession("admin-1", {});
+
+    expect(await isAdminAuthSessionRevoked(session.id)).toBe(false);
+    expect(await revokeAdminAuthSession(session.id)).toBe(true);
+    expect(await isAdminAuthSessionRevoked(session.id)).toBe(true);
+    expect((await rotateRefreshToken(refreshToken)).status).toBe("invalid");
+  });
+
+  it("should only revoke an admin's own session when scoped", async () => {
+    const { session } = await createAdminAuthSession("admin-1", {});
+
+    expect(await revokeAdminAuthSession(session.id, "admin-2")).toBe(false);
+    expect(sessions.get(session.id)!.revokedAt).toBeNull();
+  });
+});
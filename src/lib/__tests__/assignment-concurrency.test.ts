@@ -0,0 +1,317 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+/**
+ * Concurrent Assignment Tests
+ *
+ * A drop: many buyers of one pack draw at the same moment. Every draw
+ * must either complete or be refused as out of stock - never fail on
+ * contention, never share an item, never break supply or guarantees.
+ *
+ * The fake store applies writes at once and undoes them on rollback, so
+ * concurrent transactions see each other's claims like row locks would.
+ */
+
+interface FakeItem {
+  id: string;
+  name: string;
+  tierId: string;
+  estimatedValue: number;
+  status: string;
+}
+
+const { store } = vi.hoisted(() => ({
+  store: {
+    items: new Map<string, FakeItem>(),
+    openings: new Map<string, { id: string; userId: string; status: string }>(),
+    assignments: [] as Array<{ id: string; openingId: string; itemId: string; tierAtAssignment: string }>,
+    // Draw claims (item updates to ASSIGNED), and those that lost an item
+    claims: { attempts: 0, conflicts: 0 },
+    pack: {
+      id: "pack-1",
+      status: "ACTIVE",
+      maxSupply: null as number | null,
+      soldCount: 0,
+    },
+  },
+}));
+
+vi.mock("@/lib/prisma", () => {
+  const tiers: Record<string, { id: string; name: string }> = {
+    common: { id: "common", name: "Common" },
+    rare: { id: "rare", name: "Rare" },
+  };
+
+  const config = {
+    itemsPerPack: 3,
+    guarantees: [{ tierId: "rare", minCount: 1, tier: tiers.rare }],
+    // Weighted slots only draw commons, so rares go to guarantees alone
+    tierWeights: [
+      { tierId: "common", weight: 100, tier: tiers.common },
+      { tierId: "rare", weight: 0, tier: tiers.rare },
+    ],
+  };
+
+  // Undo log of the transaction a write belongs to, if any
+  type Undo = Array<() => void>;
+
+  const matchesValue = (actual: unknown, filter: unknown): boolean => {
+    if (filter !== null && typeof filter === "object") {
+      const f = filter as { in?: unknown[]; notIn?: unknown[]; lt?: number };
+      if (f.in) return f.in.includes(actual);
+      if (f.notIn) return !f.notIn.includes(actual);
+      if (f.lt !== undefined) return (actual as number) < f.lt;
+    }
+    return actual === filter;
+  };
+
+  const matches = (row: Record<string, unknown>, where: Record<string, unknown>): boolean =>
+    Object.entries(where).every(([key, filter]) => {
+      if (key === "packPoolItems") return true; // Every item is in the pack's pool
+      if (key === "OR") {
+        return (filter as Record<string, unknown>[]).some((branch) => matches(row, branch));
+      }
+      return matchesValue(row[key], filter);
+    });
+
+  const withTier = (item: FakeItem) => ({ ...item, tier: tiers[item.tierId] });
+
+  const makeClient = (undo: Undo | null) => {
+    const write = <T extends object>(row: T, data: Partial<T>) => {
+      const before = { ...row };
+      Object.assign(row, data);
+      undo?.push(() => Object.assign(row, before));
+    };
+
+    const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+    return {
+      item: {
+        findMany: async ({ where, include }: { where: Record<string, unknown>; include?: unknown }) => {
+          await tick();
+          const found = [...store.items.values()].filter((item) =>
+            matches(item as unknown as Record<string, unknown>, where)
+          );
+          return include ? found.map(withTier) : found.map((item) => ({ ...item }));
+        },
+        updateMany: async ({ where, data }: { where: Record<string, unknown>; data: Partial<FakeItem> }) => {
+          await tick();
+          let count = 0;
+          for (const item of store.items.values()) {
+            if (matches(item as unknown as Record<string, unknown>, where)) {
+              write(item, data);
+              count++;
+            }
+          }
+          if (data.status === "ASSIGNED") {
+            const requested = (where.id as { in: string[] }).in.length;
+            store.claims.attempts++;
+            if (count < requested) store.claims.conflicts++;
+          }
+          return { count };
+        },
+        groupBy: async ({ where }: { where: Record<string, unknown> }) => {
+          await tick();
+          const counts = new Map<string, number>();
+          for (const item of store.items.values()) {
+            if (matches(item as unknown as Record<string, unknown>, where)) {
+              counts.set(item.tierId, (counts.get(item.tierId) ?? 0) + 1);
+            }
+          }
+          return [...counts].map(([tierId, id]) => ({ tierId, _count: { id } }));
+        },
+      },
+      packPoolItem: {
+        findMany: async () => [{ packProductId: store.pack.id }],
+      },
+      packProduct: {
+        findUnique: async () => ({ ...store.pack, config }),
+        update: async ({ data }: { data: { status: string } }) => {
+          write(store.pack, data);
+          return store.pack;
+        },
+        updateMany: async ({
+          where,
+          data,
+        }: {
+          where: Record<string, unknown>;
+          data: { soldCount: { increment: number } };
+        }) => {
+          await tick();
+          if (!matches(store.pack, where)) return { count: 0 };
+          write(store.pack, { soldCount: store.pack.soldCount + data.soldCount.increment });
+          return { count: 1 };
+        },
+      },
+      packOpening: {
+        findUnique: async ({ where }: { where: { id: string } }) => {
+          const opening = store.openings.get(where.id);
+          return opening
+            ? {
+                ...opening,
+                nonce: null,
+                fairnessSeed: null,
+                assignments: store.assignments.filter((a) => a.openingId === opening.id),
+                packProduct: { ...store.pack, config },
+              }
+            : null;
+        },
+        update: async ({ where, data }: { where: { id: string }; data: { status: string } }) => {
+          write(store.openings.get(where.id)!, { status: data.status });
+        },
+        updateMany: async ({ where, data }: { where: Record<string, unknown>; data: { status: string } }) => {
+          const opening = store.openings.get(where.id as string);
+          if (!opening || !matches(opening, where)) return { count: 0 };
+          write(opening, { status: data.status });
+          return { count: 1 };
+        },
+      },
+      assignment: {
+        create: async ({ data }: { data: { openingId: string; itemId: string; tierAtAssignment: string } }) => {
+          const assignment = { id: `assignment-${store.assignments.length + 1}`, ...data };
+          store.assignments.push(assignment);
+          undo?.push(() => store.assignments.splice(store.assignments.indexOf(assignment), 1));
+          return assignment;
+        },
+      },
+      vaultHolding: {
+        create: async () => ({}),
+      },
+    };
+  };
+
+  const client = {
+    ...makeClient(null),
+    $transaction: async <T,>(fn: (tx: ReturnType<typeof makeClient>) => Promise<T>) => {
+      const undo: Undo = [];
+      try {
+        return await fn(makeClient(undo));
+      } catch (error) {
+        undo.reverse().forEach((revert) => revert());
+        throw error;
+      }
+    },
+  };
+
+  return { default: client, prisma: client };
+});
+
+import { assignItemToOpening, handlePaymentFailed } from "../assignment-engine";
+import { invalidatePackHealth } from "../pack-health";
+
+function stockPool(commons: number, rares: number) {
+  store.items.clear();
+  for (let i = 0; i < commons; i++) {
+    const id = `item-common-${String(i).padStart(3, "0")}`;
+    store.items.set(id, { id, name: id, tierId: "common", estimatedValue: 100, status: "AVAILABLE" });
+  }
+  for (let i = 0; i < rares; i++) {
+    const id = `item-rare-${String(i).padStart(3, "0")}`;
+    store.items.set(id, { id, name: id, tierId: "rare", estimatedValue: 1000, status: "AVAILABLE" });
+  }
+}
+
+function openPacks(count: number): string[] {
+  const ids: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const id = `opening-${i}`;
+    store.openings.set(id, { id, userId: `user-${i}`, status: "PROCESSING" });
+    ids.push(id);
+  }
+  return ids;
+}
+
+async function drop(buyers: number) {
+  const outcomes = await Promise.allSettled(openPacks(buyers).map((id) => assignItemToOpening(id)));
+  const failures = outcomes.flatMap((outcome) =>
+    outcome.status === "rejected" ? [(outcome.reason as Error).message] : []
+  );
+  return { sold: outcomes.length - failures.length, failures };
+}
+
+beforeEach(async () => {
+  await invalidatePackHealth(store.pack.id);
+  store.openings.clear();
+  store.assignments.length = 0;
+  Object.assign(store.claims, { attempts: 0, conflicts: 0 });
+  Object.assign(store.pack, { status: "ACTIVE", maxSupply: null, soldCount: 0 });
+});
+
+describe("Concurrent Assignment", () => {
+  it("should serve a drop of concurrent buyers without contention failures", async () => {
+    stockPool(120, 40);
+
+    const { sold, failures } = await drop(30);
+
+    expect(failures).toEqual([]);
+    expect(sold).toBe(30);
+    expect(store.pack.soldCount).toBe(30);
+
+    // Every item went to exactly one slot
+    const itemIds = store.assignments.map((a) => a.itemId);
+    expect(new Set(itemIds).size).toBe(90);
+    expect([...store.items.values()].filter((i) => i.status === "ASSIGNED")).toHaveLength(90);
+
+    // Every opening got its guaranteed rare
+    for (const openingId of store.openings.keys()) {
+      const rares = store.assignments.filter(
+        (a) => a.openingId === openingId && a.tierAtAssignment === "Rare"
+      );
+      expect(rares).toHaveLength(1);
+    }
+
+    // Each draw committed one claim, and lost at most MAX_CLAIM_ATTEMPTS - 1
+    // before it
+    expect(store.claims.attempts).toBe(sold + store.claims.conflicts);
+    expect(store.claims.conflicts).toBeLessThanOrEqual(sold * 4);
+  });
+
+  it("should stop at maxSupply however many buyers race for the last packs", async () => {
+    stockPool(120, 40);
+    store.pack.maxSupply = 5;
+
+    const { sold, failures } = await drop(12);
+
+    expect(sold).toBe(5);
+    expect(store.pack.soldCount).toBe(5);
+    expect(failures.every((message) => message === "Pack is out of stock")).toBe(true);
+
+    // Refused draws hand back every item they claimed
+    const itemIds = store.assignments.map((a) => a.itemId);
+    expect(new Set(itemIds).size).toBe(15);
+    expect([...store.items.values()].filter((i) => i.status === "ASSIGNED")).toHaveLength(15);
+  });
+
+  it("should refuse buyers once the guaranteed tier runs out", async () => {
+    stockPool(120, 4);
+
+    const { sold, failures } = await drop(10);
+
+    expect(sold).toBe(4);
+    expect(failures).toHaveLength(6);
+    expect(failures.every((message) => message === "Pack is out of stock")).toBe(true);
+    expect(store.pack.soldCount).toBe(4);
+
+    const rareItemIds = store.assignments
+      .filter((a) => a.tierAtAssignment === "Rare")
+      .map((a) => a.itemId);
+    expect(new Set(rareItemIds).size).toBe(4);
+
+    // Refused draws leave nothing claimed behind
+    expect([...store.items.values()].filter((i) => i.status === "ASSIGNED")).toHaveLength(12);
+  });
+
+  it("should ignore a payment failure once the opening has completed", async () => {
+    stockPool(120, 40);
+    const { sold } = await drop(1);
+    expect(sold).toBe(1);
+
+    await handlePaymentFailed("opening-0");
+
+    expect(store.openings.get("opening-0")!.status).toBe("COMPLETED");
+    expect(store.assignments).toHaveLength(3);
+
+    store.openings.set("opening-1", { id: "opening-1", userId: "user-1", status: "PENDING" });
+    await handlePaymentFailed("opening-1");
+    expect(store.openings.get("opening-1")!.status).toBe("FAILED");
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  backfillAuditChain,
+  checkAuditChain,
+  computeAuditHash,
+  summarizeForLog,
+  type AuditChainEntry,
+} from "../audit-log";
+
+interface StoredEntry extends Omit<AuditChainEntry, "sequence" | "hash"> {
+  id: string;
+  epoch: number;
+  sequence: number | null;
+  hash: string | null;
+}
+
+const { store } = vi.hoisted(() => ({
+  store: {
+    entries: [] as StoredEntry[],
+    verifications: [] as Array<{ headSequence: number | null; headHash: string | null }>,
+  },
+}));
+
+vi.mock("@/lib/prisma", () => {
+  const matchesValue = (actual: unknown, filter: unknown): boolean => {
+    if (filter !== null && typeof filter === "object" && !(filter instanceof Date)) {
+      const f = filter as { not?: null; gt?: number; gte?: Date };
+      if ("not" in f) return actual !== f.not;
+      if (f.gt !== undefined) return (actual as number) > f.gt;
+      if (f.gte !== undefined) return (actual as Date) >= f.gte;
+    }
+    return actual === filter;
+  };
+
+  const matches = (entry: StoredEntry, where: Record<string, unknown>): boolean =>
+    Object.entries(where).every(([key, filter]) =>
+      key === "epoch_sequence"
+        ? matches(entry, filter as Record<string, unknown>)
+        : matchesValue(entry[key as keyof StoredEntry], filter)
+    );
+
+  // Ascending on every key - all the chain walks need
+  const sorted = (entries: StoredEntry[], orderBy: object | object[]) => {
+    const keys = [orderBy].flat().flatMap((order) => Object.keys(order)) as Array<keyof StoredEntry>;
+    return [...entries].sort((a, b) => {
+      for (const key of keys) {
+        const [x, y] = [a[key], b[key]] as [number, number];
+        if (x !== y) return x < y ? -1 : 1;
+      }
+      return 0;
+    });
+  };
+
+  const base = {
+    auditLog: {
+      findMany: async ({ where, orderBy, take }: { where: Record<string, unknown>; orderBy: object; take: number }) =>
+        sorted(store.entries.filter((entry) => matches(entry, where)), orderBy)
+          .slice(0, take)
+          .map((entry) => ({ ...entry })),
+      findUnique: async ({ where }: { where: Record<string, unknown> }) =>
+        store.entries.find((entry) => matches(entry, where)) ?? null,
+      count: async ({ where }: { where: Record<string, unknown> }) =>
+        store.entries.filter((entry) => matches(entry, where)).length,
+      update: async ({ where, data }: { where: { id: string }; data: Partial<StoredEntry> }) =>
+        Object.assign(store.entries.find((entry) => entry.id === where.id)!, data),
+    },
+    auditVerification: {
+      findFirst: async () => store.verifications[store.verifications.length - 1] ?? null,
+      create: async ({ data }: { data: { headSequence: number | null; headHash: string | null } }) => {
+        store.verifications.push(data);
+        return data;
+      },
+    },
+    $executeRaw: async () => 0,
+  };
+  const client = {
+    ...base,
+    $transaction: async <T,>(fn: (tx: typeof base) => Promise<T>) => fn(base),
+  };
+
+  return { default: client, prisma: client };
+});
+
+/**
+ * Audit Log Tests
+ */
+
+function buildChain(length: number): AuditChainEntry[] {
+  const entries: AuditChainEntry[] = [];
+
+  for (let sequence = 1; sequence <= length; sequence++) {
+    const fields = {
+      sequence,
+      adminUserId: "admin-1",
+      action: "PACK_UPDATE",
+      entityType: "PackProduct",
+      entityId: `pack-${sequence}`,
+      details: { request: { priceInCents: 1000 * sequence, name: "Pack" } },
+      ipAddress: "127.0.0.1",
+      userAgent: null,
+      prevHash: entries[sequence - 2]?.hash ?? null,
+      createdAt: new Date(Date.UTC(2026, 0, 1, 0, 0, sequence)),
+    };
+    entries.push({ ...fields, hash: computeAuditHash(fields) });
+  }
+
+  return entries;
+}
+
+describe("Audit Hash Chain", () => {
+  it("should accept an intact chain", () => {
+    expect(checkAuditChain(buildChain(5), null)).toEqual([]);
+  });
+
+  it("should verify a chain checked in batches", () => {
+    const chain = buildChain(5);
+    const first = chain.slice(0, 2);
+    const last = first[first.length - 1];
+
+    expect(checkAuditChain(first, null)).toEqual([]);
+    expect(checkAuditChain(chain.slice(2), { sequence: last.sequence, hash: last.hash })).toEqual([]);
+  });
+
+  it("should hash details the same regardless of key order", () => {
+    const [entry] = buildChain(1);
+    const reordered = { ...entry, details: { request: { name: "Pack", priceInCents: 1000 } } };
+
+    expect(computeAuditHash(reordered)).toBe(entry.hash);
+  });
+
+  it("should detect an edited entry", () => {
+    const chain = buildChain(3);
+    chain[1] = { ...chain[1], details: { request: { priceInCents: 1, name: "Pack" } } };
+
+    expect(checkAuditChain(chain, null)).toEqual(["Entry 2 has been modified"]);
+  });
+
+  it("should detect deleted entries", () => {
+    const chain = buildChain(5);
+
+    expect(checkAuditChain([chain[0], chain[3], chain[4]], null)).toEqual([
+      "Entries 2-3 are missing",
+    ]);
+    expect(checkAuditChain(chain.slice(1), null)).toEqual(["Entry 1 is missing"]);
+  });
+
+  it("should detect an entry rewritten with a fresh hash but the wrong link", () => {
+    const chain = buildChain(3);
+    const forged = { ...chain[2], prevHash: "0".repeat(64) };
+    chain[2] = { ...forged, hash: computeAuditHash(forged) };
+
+    expect(checkAuditChain(chain, null)).toEqual(["Entry 3 does not link to entry 2"]);
+  });
+});
+
+describe("Audit Request Summaries", () => {
+  it("should redact secrets and cut down large values", () => {
+    expect(
+      summarizeForLog({
+        password: "hunter2",
+        csv: "x".repeat(600),
+        poolItemIds: Array.from({ length: 60 }, (_, i) => `item-${i}`),
+        guarantees: [{ tierId: "rare", minCount: 1 }],
+      })
+    ).toEqual({
+      password: "[redacted]",
+      csv: "[600 characters]",
+      poolItemIds: "[60 entries]",
+      guarantees: [{ tierId: "rare", minCount: 1 }],
+    });
+  });
+});
+
+describe("Audit Chain Backfill", () => {
+  // Two entries from before the chain, then a live chain of three
+  beforeEach(() => {
+    const legacy = (n: number): StoredEntry => ({
+      id: `legacy-${n}`,
+      epoch: 1,
+      sequence: null,
+      adminUserId: "admin-1",
+      action: "ITEM_CREATE",
+      entityType: "Item",
+      entityId: `item-${n}`,
+      details: null,
+      ipAddress: null,
+      userAgent: null,
+      prevHash: null,
+      hash: null,
+      createdAt: new Date(Date.UTC(2025, 11, n)),
+    });
+
+    store.entries = [
+      legacy(1),
+      legacy(2),
+      ...buildChain(3).map((entry) => ({ ...entry, id: `live-${entry.sequence}`, epoch: 1 })),
+    ];
+    store.verifications = [];
+  });
+
+  it("should chain legacy entries without touching the live chain", async () => {
+    const liveHashes = store.entries.filter((e) => e.epoch === 1 && e.hash).map((e) => e.hash);
+
+    const { entriesChained, report } = await backfillAuditChain();
+
+    expect(entriesChained).toBe(2);
+    expect(report.problems).toEqual([]);
+    expect(report.entriesChecked).toBe(5);
+    expect(store.entries.filter((e) => e.epoch === 1).map((e) => e.hash)).toEqual(liveHashes);
+    expect(store.entries.filter((e) => e.epoch === 0).map((e) => e.sequence)).toEqual([1, 2]);
+
+    // Nothing left to chain the second time
+    expect((await backfillAuditChain()).entriesChained).toBe(0);
+  });
+
+  it("should refuse while the existing chain fails verification", async () => {
+    // Edit a live entry and unchain it, hoping the backfill rehashes it
+    Object.assign(store.entries.find((e) => e.id === "live-2")!, {
+      details: { request: { priceInCents: 1 } },
+      sequence: null,
+    });
+
+    await expect(backfillAuditChain()).rejects.toThrow("Entry 2 is missing");
+    expect(store.entries.filter((e) => e.epoch === 0)).toEqual([]);
+  });
+
+  it("should refuse unchained entries newer than the live chain", async () => {
+    // The head leaves no gap behind, but it postdates the chain's start
+    Object.assign(store.entries.find((e) => e.id === "live-3")!, { sequence: null });
+
+    await expect(backfillAuditChain()).rejects.toThrow("newer than the hash chain");
+  });
+
+  it("should hash legacy entries apart from live ones", () => {
+    const [entry] = buildChain(1);
+
+    expect(computeAuditHash({ ...entry, epoch: 1 })).toBe(entry.hash);
+    expect(computeAuditHash({ ...entry, epoch: 0 })).not.toBe(entry.hash);
+  });
+});
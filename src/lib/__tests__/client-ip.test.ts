@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { resolveClientIp } from "../client-ip";
+
+/**
+ * Client IP Tests
+ *
+ * Only entries appended by our own proxies are trusted; whatever the
+ * client put in front of them is ignored
+ */
+
+const headers = (values: Record<string, string>) => new Headers(values);
+
+describe("Client IP", () => {
+  it("should take the entry appended by the trusted proxy", () => {
+    expect(resolveClientIp(headers({ "x-forwarded-for": "203.0.113.7" }), 1)).toBe("203.0.113.7");
+    // The client sent its own X-Forwarded-For; the proxy appended the real address
+    expect(
+      resolveClientIp(headers({ "x-forwarded-for": "1.2.3.4, 203.0.113.7" }), 1)
+    ).toBe("203.0.113.7");
+  });
+
+  it("should skip one entry per trusted proxy", () => {
+    const chain = headers({ "x-forwarded-for": "1.2.3.4, 203.0.113.7, 10.0.0.2" });
+    expect(resolveClientIp(chain, 2)).toBe("203.0.113.7");
+    expect(resolveClientIp(chain, 3)).toBe("1.2.3.4");
+  });
+
+  it("should ignore a header shorter than the proxy chain", () => {
+    expect(resolveClientIp(headers({ "x-forwarded-for": "1.2.3.4" }), 2)).toBeNull();
+  });
+
+  it("should fall back to X-Real-IP only without X-Forwarded-For", () => {
+    expect(resolveClientIp(headers({ "x-real-ip": "203.0.113.7" }), 1)).toBe("203.0.113.7");
+    expect(
+      resolveClientIp(headers({ "x-forwarded-for": "203.0.113.7", "x-real-ip": "1.2.3.4" }), 1)
+    ).toBe("203.0.113.7");
+    expect(resolveClientIp(headers({}), 1)).toBeNull();
+  });
+
+  it("should trust no headers without a proxy", () => {
+    expect(
+      resolveClientIp(headers({ "x-forwarded-for": "1.2.3.4", "x-real-ip": "1.2.3.4" }), 0)
+    ).toBeNull();
+  });
+});
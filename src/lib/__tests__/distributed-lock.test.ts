@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { DistributedLock, acceptFencingToken, getLockMetrics, withLock } from "../redis";
+import { MemoryBackend } from "../kv-backend";
+
+/**
+ * Distributed Lock Tests
+ *
+ * Run against the in-memory backend. A lease expires unless renewed,
+ * withLock renews it while its callback runs, and every acquire gets a
+ * higher fencing token so a holder that lost its lease can be refused.
+ *
+ * Lease expiry and renewal run on fake timers, which also drive Date.now
+ * for the backend's TTLs.
+ */
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("Distributed Lock", () => {
+  it("should be exclusive and issue increasing fencing tokens", async () => {
+    const first = new DistributedLock("test:exclusive");
+    const second = new DistributedLock("test:exclusive");
+
+    expect(await first.acquire()).toBe(true);
+    expect(await second.acquire()).toBe(false);
+
+    expect(await first.release()).toBe(true);
+    expect(await second.acquire()).toBe(true);
+    expect(second.fencingToken).toBeGreaterThan(first.fencingToken!);
+  });
+
+  it("should let a stale holder be fenced off after its lease expires", async () => {
+    const stale = new DistributedLock("test:fencing", 0.05);
+    expect(await stale.acquire()).toBe(true);
+    const lostBefore = getLockMetrics().lost;
+
+    await vi.advanceTimersByTimeAsync(80);
+
+    const current = new DistributedLock("test:fencing");
+    expect(await current.acquire()).toBe(true);
+    expect(await stale.extend()).toBe(false);
+    expect(getLockMetrics().lost).toBe(lostBefore + 1);
+
+    expect(await acceptFencingToken("test:resource", current.fencingToken!)).toBe(true);
+    expect(await acceptFencingToken("test:resource", stale.fencingToken!)).toBe(false);
+  });
+});
+
+describe("withLock", () => {
+  it("should renew the lease while the callback runs", async () => {
+    const competitor = new DistributedLock("test:renewal");
+
+    const result = await withLock(
+      "test:renewal",
+      async ({ fencingToken, signal }) => {
+        // Well past the TTL - only renewal keeps the lock
+        await vi.advanceTimersByTimeAsync(250);
+        expect(await competitor.acquire()).toBe(false);
+        expect(signal.aborted).toBe(false);
+        return fencingToken;
+      },
+      { ttlSeconds: 0.1 }
+    );
+
+    expect(result).toBeGreaterThan(0);
+    expect(await competitor.acquire()).toBe(true);
+  });
+
+  it("should abort the callback's signal when the lease is lost", async () => {
+    await withLock(
+      "test:lost",
+      async ({ signal }) => {
+        // Move the clock past expiry without running renewal, as a
+        // blocked event loop would
+        vi.setSystemTime(Date.now() + 100);
+        await vi.advanceTimersByTimeAsync(10);
+        expect(signal.aborted).toBe(true);
+      },
+      { ttlSeconds: 0.03 }
+    );
+  });
+
+  it("should give up after its retries and count the timeout", async () => {
+    const holder = new DistributedLock("test:timeout");
+    expect(await holder.acquire()).toBe(true);
+    const timedOutBefore = getLockMetrics().timedOut;
+
+    const outcome = expect(
+      withLock("test:timeout", async () => "never", { maxRetries: 2, retryDelayMs: 1 })
+    ).rejects.toThrow("Failed to acquire lock for key: test:timeout after 2 retries");
+    await vi.advanceTimersByTimeAsync(1);
+    await outcome;
+    expect(getLockMetrics().timedOut).toBe(timedOutBefore + 1);
+
+    await holder.release();
+  });
+
+  it("should keep the callback's outcome when release fails", async () => {
+    const release = vi
+      .spyOn(MemoryBackend.prototype, "releaseLock")
+      .mockRejectedValue(new Error("Connection reset"));
+    const log = vi.spyOn(console, "error").mockImplementation(() => {});
+    const failedBefore = getLockMetrics().releaseFailed;
+
+    try {
+      expect(await withLock("test:release-result", async () => "done")).toBe("done");
+      await expect(
+        withLock("test:release-error", async () => {
+          throw new Error("Callback failed");
+        })
+      ).rejects.toThrow("Callback failed");
+
+      expect(getLockMetrics().releaseFailed).toBe(failedBefore + 2);
+      expect(log).toHaveBeenCalledTimes(2);
+    } finally {
+      release.mockRestore();
+      log.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from "vitest";
+import { parseCsv } from "../csv";
+import { mapImportRow } from "../inventory";
+
+vi.mock("@/lib/prisma", () => ({ default: {}, prisma: {} }));
+
+/**
+ * Inventory Import Tests
+ *
+ * Row mapping must report bad rows precisely - ops fix files by row number
+ */
+
+const tiers = [
+  { id: "tier-rare", name: "Rare", minValue: 100, maxValue: 9999 },
+  { id: "tier-epic", name: "Epic", minValue: 10000, maxValue: null },
+];
+
+describe("CSV Parsing", () => {
+  it("should key rows by lower-cased header", () => {
+    const rows = parseCsv("SKU,Name\nA-1,Card One\n");
+    expect(rows).toEqual([{ row: 2, values: { sku: "A-1", name: "Card One" } }]);
+  });
+
+  it("should handle quoted fields with commas, quotes and newlines", () => {
+    const rows = parseCsv('sku,name\r\nA-1,"Charizard, ""Holo""\nShadowless"\r\n');
+    expect(rows[0].values.name).toBe('Charizard, "Holo"\nShadowless');
+  });
+
+  it("should skip blank lines and keep row numbers", () => {
+    const rows = parseCsv("sku\nA-1\n\nA-2");
+    expect(rows.map((r) => r.row)).toEqual([2, 4]);
+  });
+
+  it("should reject an unterminated quote", () => {
+    expect(() => parseCsv('sku\n"A-1')).toThrow();
+  });
+});
+
+describe("Import Row Mapping", () => {
+  it("should resolve tiers by name and split list columns", () => {
+    const result = mapImportRow(
+      {
+        row: 2,
+        values: {
+          sku: "PSA-1",
+          name: "Card",
+          tier: "rare",
+          estimatedvalue: "2500",
+          images: "https://img/1.jpg | https://img/2.jpg",
+          packs: "pack-1|pack-1",
+        },
+      },
+      tiers
+    );
+
+    expect(result).toEqual({
+      row: 2,
+      input: expect.objectContaining({
+        sku: "PSA-1",
+        tierId: "tier-rare",
+        estimatedValue: 2500,
+        images: ["https://img/1.jpg", "https://img/2.jpg"],
+      }),
+      packProductIds: ["pack-1"],
+    });
+  });
+
+  it("should report an unknown tier against its row", () => {
+    const result = mapImportRow(
+      { row: 7, values: { sku: "X", name: "Card", tier: "Mythic", estimatedvalue: "100" } },
+      tiers
+    );
+    expect(result).toEqual({ row: 7, sku: "X", error: "Unknown tier: Mythic" });
+  });
+
+  it("should name the field that failed validation", () => {
+    const result = mapImportRow(
+      { row: 3, values: { sku: "X", name: "Card", tier: "Epic", estimatedvalue: "12.5" } },
+      tiers
+    );
+    expect(result).toMatchObject({ row: 3, sku: "X" });
+    expect("error" in result && result.error).toMatch(/^estimatedValue:/);
+  });
+});
+
+describe("Import Tier Derivation", () => {
+  it("should derive a blank tier from the value bands", () => {
+    const result = mapImportRow(
+      { row: 2, values: { sku: "X", name: "Card", estimatedvalue: "25000" } },
+      tiers
+    );
+    expect(result).toMatchObject({ input: { tierId: "tier-epic" } });
+  });
+
+  it("should report values no band covers", () => {
+    const result = mapImportRow(
+      { row: 4, values: { sku: "X", name: "Card", estimatedvalue: "50" } },
+      tiers
+    );
+    expect(result).toEqual({ row: 4, sku: "X", error: "No tier band covers a value of 50 cents" });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { planSlots, selectPackItems } from "../item-selection";
+
+/**
+ * Multi-Item Pack Selection Tests
+ *
+ * Guarantees must be delivered by the draw itself, not just by health checks
+ */
+
+const pool = [
+  { id: "c1", tierId: "common", estimatedValue: 100 },
+  { id: "c2", tierId: "common", estimatedValue: 100 },
+  { id: "c3", tierId: "common", estimatedValue: 100 },
+  { id: "r1", tierId: "rare", estimatedValue: 1000 },
+  { id: "r2", tierId: "rare", estimatedValue: 1000 },
+  { id: "e1", tierId: "epic", estimatedValue: 5000 },
+];
+
+// Rolls that always land on the first tier and first item
+const lowRolls = () => ({ tierRoll: 0, itemRoll: 0 });
+
+describe("Slot Planning", () => {
+  it("should place guaranteed slots before weighted slots", () => {
+    expect(
+      planSlots(
+        [
+          { tierId: "rare", minCount: 2 },
+          { tierId: "epic", minCount: 1 },
+        ],
+        5
+      )
+    ).toEqual(["rare", "rare", "epic", null, null]);
+  });
+
+  it("should reject guarantees that do not fit in the pack", () => {
+    expect(() => planSlots([{ tierId: "rare", minCount: 3 }], 2)).toThrow();
+  });
+});
+
+describe("Pack Item Selection", () => {
+  it("should fill every guaranteed tier at its minCount", () => {
+    const selections = selectPackItems(
+      pool,
+      {
+        itemsPerPack: 4,
+        guarantees: [
+          { tierId: "rare", minCount: 2 },
+          { tierId: "epic", minCount: 1 },
+        ],
+        tierWeights: [{ tierId: "common", weight: 100 }],
+      },
+      lowRolls
+    );
+
+    expect(selections.map((s) => s.item.tierId)).toEqual([
+      "rare",
+      "rare",
+      "epic",
+      "common",
+    ]);
+    expect(selections.map((s) => s.guaranteed)).toEqual([true, true, true, false]);
+  });
+
+  it("should never draw the same item twice in one pack", () => {
+    const selections = selectPackItems(
+      pool,
+      {
+        itemsPerPack: 6,
+        guarantees: [],
+        tierWeights: [{ tierId: "common", weight: 1 }],
+      },
+      lowRolls
+    );
+
+    const ids = selections.map((s) => s.item.id);
+    expect(new Set(ids).size).toBe(6);
+  });
+
+  it("should fail when a guaranteed tier runs out", () => {
+    expect(() =>
+      selectPackItems(
+        pool,
+        {
+          itemsPerPack: 2,
+          guarantees: [{ tierId: "epic", minCount: 2 }],
+          tierWeights: [],
+        },
+        lowRolls
+      )
+    ).toThrow();
+  });
+
+  it("should pass each slot its own rolls", () => {
+    const requested: number[] = [];
+    selectPackItems(
+      pool,
+      {
+        itemsPerPack: 3,
+        guarantees: [{ tierId: "rare", minCount: 1 }],
+        tierWeights: [{ tierId: "common", weight: 1 }],
+      },
+      (slot) => {
+        requested.push(slot);
+        return lowRolls();
+      }
+    );
+
+    expect(requested).toEqual([0, 1, 2]);
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from "vitest";
+import {
+  MemoryBackend,
+  RedisBackend,
+  resolveKeyValueConfig,
+  type KeyValueBackend,
+} from "../kv-backend";
+
+/**
+ * Key-Value Backend Contract Tests
+ *
+ * Every backend must pass the same suite. The Redis backend always runs
+ * its Lua scripts against ioredis-mock, which interprets them; it also
+ * runs against a real Redis when TEST_REDIS_URL points at a disposable
+ * one. Keys are prefixed per run.
+ *
+ * In-process backends run TTLs on a fake clock; a real Redis expires keys
+ * on its own clock, so only that run waits in real time.
+ */
+
+const MOCK_REDIS_URL = "redis://ioredis-mock:6379";
+
+vi.mock("ioredis", async (importOriginal) => {
+  const [real, mock] = await Promise.all([
+    importOriginal<typeof import("ioredis")>(),
+    import("ioredis-mock"),
+  ]);
+  const RealRedis = real.default;
+  const MockRedis = mock.default;
+
+  // ioredis-mock has no generic call(); route it to the command method
+  const createMock = () => {
+    const client = new MockRedis();
+    const commands = client as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>;
+    return Object.assign(client, {
+      call: (command: string, ...args: unknown[]) => commands[command.toLowerCase()](...args),
+    });
+  };
+
+  return {
+    default: function Redis(url: string, options: object) {
+      return url === MOCK_REDIS_URL ? createMock() : new RealRedis(url, options);
+    },
+  };
+});
+
+const backends: Array<[string, () => KeyValueBackend, { fakeClock: boolean }]> = [
+  ["memory", () => new MemoryBackend(), { fakeClock: true }],
+  ["redis (Lua on ioredis-mock)", () => new RedisBackend(MOCK_REDIS_URL), { fakeClock: true }],
+];
+if (process.env.TEST_REDIS_URL) {
+  backends.push(["redis", () => new RedisBackend(process.env.TEST_REDIS_URL!), { fakeClock: false }]);
+}
+
+describe.each(backends)("%s backend", (_name, create, { fakeClock }) => {
+  const backend = create();
+  const prefix = `kv-contract:${Date.now()}:`;
+  const key = (name: string) => prefix + name;
+
+  const sleep = (ms: number) =>
+    fakeClock
+      ? vi.advanceTimersByTimeAsync(ms)
+      : new Promise((resolve) => setTimeout(resolve, ms));
+
+  beforeEach(() => {
+    // Only the clock - the backends' own async plumbing runs as usual
+    if (fakeClock) vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(() => backend.close());
+
+  it("should set, get and delete values", async () => {
+    expect(await backend.get(key("plain"))).toBeNull();
+    expect(await backend.set(key("plain"), "one")).toBe(true);
+    expect(await backend.get(key("plain"))).toBe("one");
+
+    expect(await backend.delete(key("plain"))).toBe(true);
+    expect(await backend.delete(key("plain"))).toBe(false);
+    expect(await backend.get(key("plain"))).toBeNull();
+  });
+
+  it("should expire keys after their TTL", async () => {
+    await backend.set(key("ttl"), "soon", { ttlMs: 50 });
+    expect(await backend.get(key("ttl"))).toBe("soon");
+
+    await sleep(80);
+    expect(await backend.get(key("ttl"))).toBeNull();
+    expect(await backend.delete(key("ttl"))).toBe(false);
+  });
+
+  it("should clear a TTL when set again without one", async () => {
+    await backend.set(key("persist"), "soon", { ttlMs: 50 });
+    await backend.set(key("persist"), "kept");
+
+    await sleep(80);
+    expect(await backend.get(key("persist"))).toBe("kept");
+  });
+
+  it("should only set NX keys that do not exist", async () => {
+    expect(await backend.set(key("nx"), "first", { nx: true, ttlMs: 50 })).toBe(true);
+    expect(await backend.set(key("nx"), "second", { nx: true })).toBe(false);
+    expect(await backend.get(key("nx"))).toBe("first");
+
+    // An expired key counts as missing
+    await sleep(80);
+    expect(await backend.set(key("nx"), "third", { nx: true })).toBe(true);
+    expect(await backend.get(key("nx"))).toBe("third");
+  });
+
+  it("should count up and down without going below zero", async () => {
+    expect(await backend.incrementCounter(key("counter"), 2, 1000)).toBe(2);
+    expect(await backend.incrementCounter(key("counter"), -1, 1000)).toBe(1);
+    expect(await backend.incrementCounter(key("counter"), -5, 1000)).toBe(0);
+
+    await backend.incrementCounter(key("counter-ttl"), 1, 50);
+    await sleep(80);
+    expect(await backend.incrementCounter(key("counter-ttl"), 1, 50)).toBe(1);
+  });
+
+  it("should refuse requests once a token bucket is empty", async () => {
+    expect((await backend.takeToken(key("bucket"), 2, 60_000)).allowed).toBe(true);
+    expect((await backend.takeToken(key("bucket"), 2, 60_000)).allowed).toBe(true);
+
+    const refused = await backend.takeToken(key("bucket"), 2, 60_000);
+    expect(refused.allowed).toBe(false);
+    expect(refused.remaining).toBe(0);
+    expect(refused.retryAfterMs).toBeGreaterThan(0);
+  });
+
+  it("should hold locks for their owner only", async () => {
+    const lock = key("lock");
+    const fence = key("lock:fence");
+
+    const first = await backend.acquireLock(lock, fence, "owner-a", 1000);
+    expect(first).not.toBeNull();
+    expect(await backend.acquireLock(lock, fence, "owner-b", 1000)).toBeNull();
+
+    expect(await backend.extendLock(lock, "owner-b", 1000)).toBe(false);
+    expect(await backend.extendLock(lock, "owner-a", 1000)).toBe(true);
+    expect(await backend.releaseLock(lock, "owner-b")).toBe(false);
+    expect(await backend.releaseLock(lock, "owner-a")).toBe(true);
+
+    const second = await backend.acquireLock(lock, fence, "owner-b", 1000);
+    expect(second).toBeGreaterThan(first!);
+  });
+
+  it("should free an expired lock for the next owner", async () => {
+    const lock = key("expiring-lock");
+    const fence = key("expiring-lock:fence");
+
+    await backend.acquireLock(lock, fence, "owner-a", 50);
+    await sleep(80);
+
+    expect(await backend.extendLock(lock, "owner-a", 1000)).toBe(false);
+    expect(await backend.acquireLock(lock, fence, "owner-b", 1000)).not.toBeNull();
+    expect(await backend.releaseLock(lock, "owner-a")).toBe(false);
+  });
+
+  it("should refuse fencing tokens lower than one already accepted", async () => {
+    expect(await backend.acceptFencingToken(key("fence"), 2)).toBe(true);
+    expect(await backend.acceptFencingToken(key("fence"), 1)).toBe(false);
+    expect(await backend.acceptFencingToken(key("fence"), 2)).toBe(true);
+    expect(await backend.acceptFencingToken(key("fence"), 3)).toBe(true);
+  });
+});
+
+describe("Backend Config", () => {
+  it("should default to Redis when a Redis URL is set", () => {
+    expect(resolveKeyValueConfig({ REDIS_URL: "redis://cache:6379" })).toEqual({
+      backend: "redis",
+      url: "redis://cache:6379",
+    });
+    expect(
+      resolveKeyValueConfig({ KV_BACKEND: "memory", REDIS_URL: "redis://cache:6379" })
+    ).toEqual({ backend: "memory" });
+  });
+
+  it("should default to the in-memory backend outside production only", () => {
+    expect(resolveKeyValueConfig({})).toEqual({ backend: "memory" });
+    expect(() => resolveKeyValueConfig({ NODE_ENV: "production" })).toThrow("Set REDIS_URL");
+    expect(resolveKeyValueConfig({ NODE_ENV: "production", KV_BACKEND: "memory" })).toEqual({
+      backend: "memory",
+    });
+  });
+
+  it("should require a URL for the Redis backend", () => {
+    expect(resolveKeyValueConfig({ KV_BACKEND: "redis", REDIS_URL: "redis://cache:6379" })).toEqual({
+      backend: "redis",
+      url: "redis://cache:6379",
+    });
+    expect(() => resolveKeyValueConfig({ KV_BACKEND: "redis" })).toThrow("requires REDIS_URL");
+    expect(() => resolveKeyValueConfig({ KV_BACKEND: "memcached" })).toThrow("Unknown KV_BACKEND");
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Prisma } from "@prisma/client";
+
+/**
+ * Balance Ledger Tests
+ *
+ * Every posting is a balanced set of legs, a debit never takes a balance
+ * below zero, the opening balance backfill runs once per user, and
+ * reconciliation catches a cached balance that drifted from its ledger.
+ */
+
+interface FakeUser {
+  id: string;
+  email: string;
+  balanceCents: number;
+}
+
+interface FakeLedgerEntry {
+  transactionId: string;
+  type: string;
+  account: string;
+  userId?: string;
+  amountCents: number;
+  balanceAfter?: number;
+}
+
+const { store } = vi.hoisted(() => ({
+  store: {
+    users: new Map<string, FakeUser>(),
+    entries: [] as FakeLedgerEntry[],
+  },
+}));
+
+vi.mock("@/lib/prisma", () => {
+  const findUser = (id: string) => {
+    const user = store.users.get(id);
+    if (!user) throw new Error(`No user ${id}`);
+    return user;
+  };
+
+  const base = {
+    user: {
+      findMany: async ({ where }: { where?: { ledgerEntries?: unknown } } = {}) =>
+        [...store.users.values()].filter(
+          (user) =>
+            !where ||
+            (user.balanceCents !== 0 &&
+              !store.entries.some(
+                (entry) => entry.userId === user.id && entry.account === "USER_BALANCE"
+              ))
+        ),
+      findUniqueOrThrow: async ({ where }: { where: { id: string } }) => ({ ...findUser(where.id) }),
+      update: async ({
+        where,
+        data,
+      }: {
+        where: { id: string };
+        data: { balanceCents: { increment: number } };
+      }) => {
+        const user = findUser(where.id);
+        user.balanceCents += data.balanceCents.increment;
+        return { ...user };
+      },
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { id: string; balanceCents: { gte: number } };
+        data: { balanceCents: { increment: number } };
+      }) => {
+        const user = store.users.get(where.id);
+        if (!user || user.balanceCents < where.balanceCents.gte) {
+          return { count: 0 };
+        }
+        user.balanceCents += data.balanceCents.increment;
+        return { count: 1 };
+      },
+    },
+    ledgerEntry: {
+      createMany: async ({ data }: { data: FakeLedgerEntry[] }) => {
+        store.entries.push(...data);
+        return { count: data.length };
+      },
+      count: async ({ where }: { where: { userId: string; account: string } }) =>
+        store.entries.filter(
+          (entry) => entry.userId === where.userId && entry.account === where.account
+        ).length,
+      groupBy: async ({ by, where }: { by: ["userId" | "transactionId"]; where?: { account: string } }) => {
+        const sums = new Map<string | undefined, number>();
+        for (const entry of store.entries) {
+          if (where && entry.account !== where.account) continue;
+          const key = entry[by[0]];
+          sums.set(key, (sums.get(key) ?? 0) + entry.amountCents);
+        }
+        return [...sums]
+          .filter(([, sum]) => by[0] === "userId" || sum !== 0)
+          .map(([key, sum]) => ({ [by[0]]: key, _sum: { amountCents: sum } }));
+      },
+    },
+    $queryRaw: async () => [],
+  };
+  const client = {
+    ...base,
+    $transaction: async <T>(fn: (tx: typeof base) => Promise<T>) => fn(base),
+  };
+  return { default: client, prisma: client };
+});
+
+import prisma from "@/lib/prisma";
+import {
+  postBalanceChange,
+  postTransfer,
+  backfillOpeningBalances,
+  reconcileBalances,
+  InsufficientBalanceError,
+} from "../ledger";
+
+const tx = prisma as unknown as Prisma.TransactionClient;
+
+function addUser(id: string, balanceCents: number) {
+  store.users.set(id, { id, email: `${id}@example.com`, balanceCents });
+}
+
+function transactionSums(): number[] {
+  const sums = new Map<string, number>();
+  for (const entry of store.entries) {
+    sums.set(entry.transactionId, (sums.get(entry.transactionId) ?? 0) + entry.amountCents);
+  }
+  return [...sums.values()];
+}
+
+beforeEach(() => {
+  store.users.clear();
+  store.entries.length = 0;
+});
+
+describe("Ledger Postings", () => {
+  it("should post balance changes as legs that sum to zero", async () => {
+    addUser("user-1", 0);
+
+    expect(await postBalanceChange(tx, { userId: "user-1", amountCents: 5000, type: "DEPOSIT" })).toBe(5000);
+    expect(await postBalanceChange(tx, { userId: "user-1", amountCents: -1500, type: "PACK_PURCHASE" })).toBe(3500);
+
+    expect(store.entries).toHaveLength(4);
+    expect(transactionSums()).toEqual([0, 0]);
+    expect(store.entries[2]).toMatchObject({
+      account: "USER_BALANCE",
+      userId: "user-1",
+      amountCents: -1500,
+      balanceAfter: 3500,
+    });
+    expect(store.entries[3]).toMatchObject({ account: "PACK_REVENUE", amountCents: 1500 });
+  });
+
+  it("should post transfers as legs that sum to zero", async () => {
+    addUser("buyer", 3000);
+    addUser("seller", 0);
+
+    await postTransfer(tx, { fromUserId: "buyer", toUserId: "seller", amountCents: 1200, type: "MARKETPLACE_SALE" });
+
+    expect(transactionSums()).toEqual([0]);
+    expect(store.users.get("buyer")!.balanceCents).toBe(1800);
+    expect(store.users.get("seller")!.balanceCents).toBe(1200);
+  });
+
+  it("should reject a debit that would go below zero", async () => {
+    addUser("user-1", 1000);
+    addUser("user-2", 0);
+
+    await expect(
+      postBalanceChange(tx, { userId: "user-1", amountCents: -1001, type: "PACK_PURCHASE" })
+    ).rejects.toBeInstanceOf(InsufficientBalanceError);
+    await expect(
+      postTransfer(tx, { fromUserId: "user-1", toUserId: "user-2", amountCents: 1001, type: "MARKETPLACE_SALE" })
+    ).rejects.toBeInstanceOf(InsufficientBalanceError);
+
+    expect(store.users.get("user-1")!.balanceCents).toBe(1000);
+    expect(store.users.get("user-2")!.balanceCents).toBe(0);
+    expect(store.entries).toHaveLength(0);
+  });
+
+  it("should reject zero and fractional amounts", async () => {
+    addUser("user-1", 1000);
+
+    await expect(
+      postBalanceChange(tx, { userId: "user-1", amountCents: 0, type: "ADMIN_ADJUSTMENT" })
+    ).rejects.toThrow("Invalid ledger amount: 0");
+    await expect(
+      postBalanceChange(tx, { userId: "user-1", amountCents: 10.5, type: "ADMIN_ADJUSTMENT" })
+    ).rejects.toThrow("Invalid ledger amount: 10.5");
+  });
+});
+
+describe("Opening Balance Backfill", () => {
+  it("should post one balanced deposit per legacy balance", async () => {
+    addUser("legacy", 4200);
+    addUser("empty", 0);
+
+    const result = await backfillOpeningBalances();
+
+    expect(result.backfilled).toEqual([{ userId: "legacy", amountCents: 4200 }]);
+    expect(transactionSums()).toEqual([0]);
+    expect((await reconcileBalances()).mismatches).toEqual([]);
+  });
+
+  it("should be safe to run again", async () => {
+    addUser("legacy", 4200);
+
+    await backfillOpeningBalances();
+    const second = await backfillOpeningBalances();
+
+    expect(second).toEqual({ checkedUsers: 0, backfilled: [] });
+    expect(store.entries).toHaveLength(2);
+  });
+
+  it("should leave users with ledger history alone", async () => {
+    addUser("user-1", 0);
+    await postBalanceChange(tx, { userId: "user-1", amountCents: 500, type: "DEPOSIT" });
+    store.users.get("user-1")!.balanceCents = 900;
+
+    expect((await backfillOpeningBalances()).backfilled).toEqual([]);
+  });
+});
+
+describe("Balance Reconciliation", () => {
+  it("should flag a cached balance that differs from the ledger", async () => {
+    addUser("user-1", 0);
+    addUser("user-2", 0);
+    await postBalanceChange(tx, { userId: "user-1", amountCents: 2000, type: "DEPOSIT" });
+    await postBalanceChange(tx, { userId: "user-2", amountCents: 700, type: "DEPOSIT" });
+
+    // Someone edits the balance without going through the ledger
+    store.users.get("user-1")!.balanceCents = 2500;
+
+    const report = await reconcileBalances();
+
+    expect(report.checkedUsers).toBe(2);
+    expect(report.mismatches).toEqual([
+      {
+        userId: "user-1",
+        email: "user-1@example.com",
+        balanceCents: 2500,
+        ledgerCents: 2000,
+        differenceCents: 500,
+      },
+    ]);
+    expect(report.unbalancedTransactions).toEqual([]);
+  });
+
+  it("should flag a transaction whose legs do not sum to zero", async () => {
+    addUser("user-1", 0);
+    await postBalanceChange(tx, { userId: "user-1", amountCents: 2000, type: "DEPOSIT" });
+    store.entries[1].amountCents = -1900;
+
+    const report = await reconcileBalances();
+
+    expect(report.unbalancedTransactions).toEqual([
+      { transactionId: store.entries[0].transactionId, sumCents: 100 },
+    ]);
+  });
+});
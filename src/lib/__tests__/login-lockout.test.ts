@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from "vitest";
+
+const { auditEntries } = vi.hoisted(() => ({
+  auditEntries: [] as Array<{ adminId: string | null; action: string; details?: unknown }>,
+}));
+
+vi.mock("@/lib/prisma", () => ({ default: {}, prisma: {} }));
+vi.mock("../audit-log", () => ({
+  createAuditLog: async (entry: (typeof auditEntries)[number]) => {
+    auditEntries.push(entry);
+  },
+}));
+
+import {
+  LOCKOUT_POLICIES,
+  applyLoginFailure,
+  clearLoginLockout,
+  getLoginLockout,
+  recordLoginFailure,
+  type LockoutState,
+} from "../login-lockout";
+
+/**
+ * Login Lockout Tests
+ *
+ * Failures inside the window lock the email out; each repeat lockout
+ * doubles up to the cap, and every lockout is audited
+ */
+
+const policy = LOCKOUT_POLICIES.email;
+const empty: LockoutState = { failures: 0, firstFailureAt: null, lockouts: 0, lockedUntil: null };
+
+function failRepeatedly(state: LockoutState, times: number, now: number) {
+  let lockedUntil: number | null = null;
+  for (let i = 0; i < times; i++) {
+    ({ state, lockedUntil } = applyLoginFailure(state, now, policy));
+  }
+  return { state, lockedUntil };
+}
+
+describe("Lockout Backoff", () => {
+  it("should lock on the threshold failure and not before", () => {
+    const below = failRepeatedly(empty, policy.threshold - 1, 0);
+    expect(below.lockedUntil).toBeNull();
+
+    const { lockedUntil } = applyLoginFailure(below.state, 0, policy);
+    expect(lockedUntil).toBe(policy.baseLockMs);
+  });
+
+  it("should forget failures outside the window", () => {
+    const { state } = failRepeatedly(empty, policy.threshold - 1, 0);
+    const later = applyLoginFailure(state, policy.windowMs, policy);
+
+    expect(later.lockedUntil).toBeNull();
+    expect(later.state.failures).toBe(1);
+  });
+
+  it("should double each repeat lockout up to the cap", () => {
+    let state = empty;
+    const durations: number[] = [];
+
+    for (let i = 0; i < 8; i++) {
+      const now = i * 10 * 60 * 60 * 1000;
+      const step = failRepeatedly(state, policy.threshold, now);
+      state = step.state;
+      durations.push(step.lockedUntil! - now);
+    }
+
+    expect(durations.slice(0, 4)).toEqual([1, 2, 4, 8].map((n) => n * policy.baseLockMs));
+    expect(Math.max(...durations)).toBe(policy.maxLockMs);
+  });
+});
+
+describe("Login Lockout", () => {
+  it("should lock the email, audit it, and unlock on clear", async () => {
+    const email = "Locked@Example.com";
+
+    for (let i = 0; i < policy.threshold; i++) {
+      await recordLoginFailure({ email, ip: "10.1.0.1", adminId: "admin-1" });
+    }
+
+    // Same account from another IP, with different casing
+    expect(await getLoginLockout("locked@example.com", "10.1.0.2")).not.toBeNull();
+    expect(auditEntries).toContainEqual(
+      expect.objectContaining({ adminId: "admin-1", action: "ADMIN_LOGIN_LOCKOUT" })
+    );
+
+    await clearLoginLockout(email);
+    expect(await getLoginLockout(email, "10.1.0.2")).toBeNull();
+  });
+
+  it("should lock an IP trying many emails", async () => {
+    for (let i = 0; i < LOCKOUT_POLICIES.ip.threshold; i++) {
+      await recordLoginFailure({ email: `user${i}@example.com`, ip: "10.2.0.1" });
+    }
+
+    expect(await getLoginLockout("someone@example.com", "10.2.0.1")).not.toBeNull();
+    expect(await getLoginLockout("someone@example.com", "10.2.0.2")).toBeNull();
+    expect(auditEntries).toContainEqual(
+      expect.objectContaining({ adminId: null, action: "ADMIN_LOGIN_LOCKOUT" })
+    );
+  });
+
+  it("should not lock out everyone when the client IP is unknown", async () => {
+    for (let i = 0; i < 25; i++) {
+      await recordLoginFailure({ email: `guess${i}@example.com`, ip: null });
+    }
+
+    expect(await getLoginLockout("admin@example.com", null)).toBeNull();
+  });
+});
@@ -0,0 +1,368 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+/**
+ * Marketplace Tests
+ *
+ * Listing, buying and cancelling move the holding, the item and the money
+ * together; racing buyers or a buyer racing a cancel settle exactly once;
+ * and listings past their expiry return the holding to the seller.
+ *
+ * The fake store applies writes at once and undoes them on rollback, so
+ * concurrent transactions see each other's claims like row locks would.
+ */
+
+interface FakeListing {
+  id: string;
+  vaultHoldingId: string;
+  sellerId: string;
+  askingPrice: number;
+  status: string;
+  buyerId: string | null;
+  soldAt: Date | null;
+  expiresAt: Date | null;
+  createdAt: Date;
+}
+
+const { store } = vi.hoisted(() => ({
+  store: {
+    users: new Map<string, { id: string; balanceCents: number }>(),
+    holdings: new Map<string, { id: string; userId: string; itemId: string; status: string }>(),
+    items: new Map<string, { id: string; status: string }>(),
+    listings: new Map<string, FakeListing>(),
+    ledgerEntries: [] as Array<{ userId?: string; amountCents: number }>,
+  },
+}));
+
+vi.mock("@/lib/prisma", () => {
+  type Undo = Array<() => void>;
+  type Row = Record<string, unknown>;
+
+  const matchesValue = (actual: unknown, filter: unknown): boolean => {
+    if (filter !== null && typeof filter === "object" && !(filter instanceof Date)) {
+      const f = filter as { gt?: Date; lte?: Date };
+      if (f.gt) return actual !== null && (actual as Date) > f.gt;
+      if (f.lte) return actual !== null && (actual as Date) <= f.lte;
+    }
+    return actual === filter;
+  };
+
+  const matches = (row: Row, where: Row): boolean =>
+    Object.entries(where).every(([key, filter]) =>
+      key === "OR"
+        ? (filter as Row[]).some((branch) => matches(row, branch))
+        : matchesValue(row[key], filter)
+    );
+
+  const withHolding = (listing: FakeListing) => ({
+    ...listing,
+    vaultHolding: { ...store.holdings.get(listing.vaultHoldingId)! },
+  });
+
+  const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+  const makeClient = (undo: Undo | null) => {
+    const write = <T extends object>(row: T, data: Partial<T>) => {
+      const before = { ...row };
+      Object.assign(row, data);
+      undo?.push(() => Object.assign(row, before));
+    };
+
+    return {
+      user: {
+        findUniqueOrThrow: async ({ where }: { where: { id: string } }) => ({ ...store.users.get(where.id)! }),
+        update: async ({ where, data }: { where: { id: string }; data: { balanceCents: { increment: number } } }) => {
+          const user = store.users.get(where.id)!;
+          write(user, { balanceCents: user.balanceCents + data.balanceCents.increment });
+          return { ...user };
+        },
+        updateMany: async ({
+          where,
+          data,
+        }: {
+          where: { id: string; balanceCents: { gte: number } };
+          data: { balanceCents: { increment: number } };
+        }) => {
+          await tick();
+          const user = store.users.get(where.id);
+          if (!user || user.balanceCents < where.balanceCents.gte) return { count: 0 };
+          write(user, { balanceCents: user.balanceCents + data.balanceCents.increment });
+          return { count: 1 };
+        },
+      },
+      ledgerEntry: {
+        createMany: async ({ data }: { data: Array<{ userId?: string; amountCents: number }> }) => {
+          store.ledgerEntries.push(...data);
+          undo?.push(() => store.ledgerEntries.splice(-data.length, data.length));
+          return { count: data.length };
+        },
+      },
+      vaultHolding: {
+        findFirst: async ({ where }: { where: Row }) => {
+          await tick();
+          const holding = [...store.holdings.values()].find((h) => matches(h, where));
+          return holding ? { ...holding } : null;
+        },
+        update: async ({ where, data }: { where: { id: string }; data: Row }) => {
+          write(store.holdings.get(where.id)!, data);
+        },
+        updateMany: async ({ where, data }: { where: Row; data: Row }) => {
+          await tick();
+          const holding = store.holdings.get(where.id as string);
+          if (!holding || !matches(holding, where)) return { count: 0 };
+          write(holding, data);
+          return { count: 1 };
+        },
+      },
+      item: {
+        update: async ({ where, data }: { where: { id: string }; data: { status: string } }) => {
+          write(store.items.get(where.id)!, data);
+        },
+      },
+      listing: {
+        create: async ({ data }: { data: Partial<FakeListing> }) => {
+          const listing: FakeListing = {
+            id: `listing-${store.listings.size + 1}`,
+            status: "ACTIVE",
+            buyerId: null,
+            soldAt: null,
+            createdAt: new Date(),
+            ...(data as Pick<FakeListing, "vaultHoldingId" | "sellerId" | "askingPrice">),
+            expiresAt: data.expiresAt ?? null,
+          };
+          store.listings.set(listing.id, listing);
+          undo?.push(() => store.listings.delete(listing.id));
+          return { ...listing };
+        },
+        findUnique: async ({ where }: { where: { id: string } }) => {
+          await tick();
+          const listing = store.listings.get(where.id);
+          return listing ? withHolding(listing) : null;
+        },
+        findUniqueOrThrow: async ({ where }: { where: { id: string } }) =>
+          withHolding(store.listings.get(where.id)!),
+        findMany: async ({ where }: { where: Row }) =>
+          [...store.listings.values()]
+            .filter((listing) => matches(listing as unknown as Row, where))
+            .map(withHolding),
+        count: async ({ where }: { where: Row }) =>
+          [...store.listings.values()].filter((listing) => matches(listing as unknown as Row, where)).length,
+        updateMany: async ({ where, data }: { where: Row; data: Partial<FakeListing> }) => {
+          await tick();
+          const listing = store.listings.get(where.id as string);
+          if (!listing || !matches(listing as unknown as Row, where)) return { count: 0 };
+          write(listing, data);
+          return { count: 1 };
+        },
+      },
+    };
+  };
+
+  const client = {
+    ...makeClient(null),
+    $transaction: async <T,>(fn: (tx: ReturnType<typeof makeClient>) => Promise<T>) => {
+      const undo: Undo = [];
+      try {
+        return await fn(makeClient(undo));
+      } catch (error) {
+        undo.reverse().forEach((revert) => revert());
+        throw error;
+      }
+    },
+  };
+
+  return { default: client, prisma: client };
+});
+
+vi.mock("../user-activity", () => ({ recordUserActivity: vi.fn() }));
+
+import {
+  createListing,
+  cancelListing,
+  purchaseListing,
+  getActiveListings,
+  expireListings,
+} from "../marketplace";
+
+const holding = () => store.holdings.get("holding-1")!;
+const item = () => store.items.get("item-1")!;
+const balance = (userId: string) => store.users.get(userId)!.balanceCents;
+
+async function listHolding(expiresAt?: Date) {
+  const result = await createListing({
+    sellerId: "seller",
+    holdingId: "holding-1",
+    askingPrice: 1500,
+    expiresAt,
+  });
+  return result.data!.id;
+}
+
+beforeEach(() => {
+  store.users.clear();
+  store.holdings.clear();
+  store.items.clear();
+  store.listings.clear();
+  store.ledgerEntries.length = 0;
+
+  for (const [id, balanceCents] of [["seller", 0], ["buyer-1", 5000], ["buyer-2", 5000], ["poor", 100]] as const) {
+    store.users.set(id, { id, balanceCents });
+  }
+  store.holdings.set("holding-1", { id: "holding-1", userId: "seller", itemId: "item-1", status: "HOLDING" });
+  store.items.set("item-1", { id: "item-1", status: "ASSIGNED" });
+});
+
+describe("Listing", () => {
+  it("should list a holding and lock it", async () => {
+    const listingId = await listHolding();
+
+    expect(holding().status).toBe("LISTED");
+    expect(item().status).toBe("LISTED");
+    expect((await getActiveListings()).items.map((listing) => listing.id)).toEqual([listingId]);
+  });
+
+  it("should not list a holding twice", async () => {
+    await listHolding();
+
+    expect(
+      await createListing({ sellerId: "seller", holdingId: "holding-1", askingPrice: 900 })
+    ).toEqual({ success: false, error: "Holding is not available for listing" });
+  });
+
+  it("should not list another user's holding", async () => {
+    expect(
+      await createListing({ sellerId: "buyer-1", holdingId: "holding-1", askingPrice: 900 })
+    ).toEqual({ success: false, error: "Holding not found" });
+  });
+});
+
+describe("Buying", () => {
+  it("should move the holding and the money to their new owners", async () => {
+    const listingId = await listHolding();
+
+    const result = await purchaseListing("buyer-1", listingId);
+
+    expect(result.data).toMatchObject({ status: "SOLD", buyerId: "buyer-1" });
+    expect(holding()).toMatchObject({ userId: "buyer-1", status: "HOLDING" });
+    expect(item().status).toBe("ASSIGNED");
+    expect(balance("buyer-1")).toBe(3500);
+    expect(balance("seller")).toBe(1500);
+  });
+
+  it("should roll back the claim when the buyer cannot pay", async () => {
+    const listingId = await listHolding();
+
+    expect((await purchaseListing("poor", listingId)).success).toBe(false);
+
+    expect(store.listings.get(listingId)!.status).toBe("ACTIVE");
+    expect(holding()).toMatchObject({ userId: "seller", status: "LISTED" });
+    expect(balance("poor")).toBe(100);
+  });
+
+  it("should refuse the seller's own listing", async () => {
+    const listingId = await listHolding();
+
+    expect(await purchaseListing("seller", listingId)).toEqual({
+      success: false,
+      error: "You cannot buy your own listing",
+    });
+  });
+});
+
+describe("Cancelling", () => {
+  it("should return the holding to the seller's vault", async () => {
+    const listingId = await listHolding();
+
+    expect((await cancelListing("seller", listingId)).success).toBe(true);
+
+    expect(store.listings.get(listingId)!.status).toBe("CANCELLED");
+    expect(holding().status).toBe("HOLDING");
+    expect(item().status).toBe("ASSIGNED");
+  });
+
+  it("should only let the seller cancel", async () => {
+    const listingId = await listHolding();
+
+    expect(await cancelListing("buyer-1", listingId)).toEqual({
+      success: false,
+      error: "Listing not found or no longer active",
+    });
+  });
+});
+
+describe("Conditional Claims", () => {
+  it("should sell to exactly one of two racing buyers", async () => {
+    const listingId = await listHolding();
+
+    const results = await Promise.all([
+      purchaseListing("buyer-1", listingId),
+      purchaseListing("buyer-2", listingId),
+    ]);
+
+    const winners = results.filter((result) => result.success);
+    expect(winners).toHaveLength(1);
+    expect(results.find((result) => !result.success)!.error).toBe("Listing is no longer available");
+
+    const winner = winners[0].data!.buyerId!;
+    expect(holding().userId).toBe(winner);
+    expect(balance("buyer-1") + balance("buyer-2")).toBe(10000 - 1500);
+    expect(balance("seller")).toBe(1500);
+  });
+
+  it("should let either a purchase or a cancel win, never both", async () => {
+    const listingId = await listHolding();
+
+    const [purchase, cancel] = await Promise.all([
+      purchaseListing("buyer-1", listingId),
+      cancelListing("seller", listingId),
+    ]);
+
+    expect(purchase.success).not.toBe(cancel.success);
+    if (purchase.success) {
+      expect(holding()).toMatchObject({ userId: "buyer-1", status: "HOLDING" });
+      expect(balance("seller")).toBe(1500);
+    } else {
+      expect(holding()).toMatchObject({ userId: "seller", status: "HOLDING" });
+      expect(balance("buyer-1")).toBe(5000);
+    }
+  });
+});
+
+describe("Listing Expiry", () => {
+  it("should close expired listings and return the holding", async () => {
+    const listingId = await listHolding(new Date(Date.now() + 60_000));
+
+    expect(await expireListings({ now: new Date(Date.now() + 120_000) })).toBe(1);
+
+    expect(store.listings.get(listingId)!.status).toBe("EXPIRED");
+    expect(holding().status).toBe("HOLDING");
+    expect(item().status).toBe("ASSIGNED");
+  });
+
+  it("should leave unexpired listings and other sellers alone", async () => {
+    await listHolding(new Date(Date.now() + 60_000));
+    const later = new Date(Date.now() + 120_000);
+
+    expect(await expireListings()).toBe(0);
+    expect(await expireListings({ sellerId: "buyer-1", now: later })).toBe(0);
+    expect(holding().status).toBe("LISTED");
+  });
+
+  it("should expire lazily when listings are read or bought", async () => {
+    const listingId = await listHolding(new Date(Date.now() - 1000));
+
+    expect((await getActiveListings()).items).toEqual([]);
+    expect(holding().status).toBe("HOLDING");
+    expect(await purchaseListing("buyer-1", listingId)).toEqual({
+      success: false,
+      error: "Listing is no longer available",
+    });
+    expect(balance("buyer-1")).toBe(5000);
+  });
+
+  it("should let the seller list the holding again once expired", async () => {
+    await listHolding(new Date(Date.now() - 1000));
+
+    expect((await createListing({ sellerId: "seller", holdingId: "holding-1", askingPrice: 900 })).success).toBe(true);
+    expect(holding().status).toBe("LISTED");
+  });
+});
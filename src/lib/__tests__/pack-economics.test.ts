@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from "vitest";
+import { computePackEconomics, type PackEconomicsInput } from "../pack-economics";
+
+vi.mock("@/lib/prisma", () => ({ default: {}, prisma: {} }));
+
+/**
+ * Pack Economics Tests
+ */
+
+const common = { name: "Common" };
+const rare = { name: "Rare" };
+
+// Common items worth 5 and 15, rare items worth 100
+const items = [
+  { tierId: "common", estimatedValue: 5 },
+  { tierId: "common", estimatedValue: 15 },
+  { tierId: "rare", estimatedValue: 100 },
+];
+
+function input(overrides: Partial<PackEconomicsInput> = {}): PackEconomicsInput {
+  return {
+    packProductId: "pack",
+    priceInCents: 20,
+    config: {
+      itemsPerPack: 1,
+      guarantees: [],
+      tierWeights: [
+        { tierId: "common", weight: 90, tier: common },
+        { tierId: "rare", weight: 10, tier: rare },
+      ],
+    },
+    items,
+    ...overrides,
+  };
+}
+
+describe("Pack Economics", () => {
+  it("should compute exact EV, RTP and profit probability for a single slot", () => {
+    const economics = computePackEconomics(input());
+
+    // 0.9 * 10 + 0.1 * 100
+    expect(economics.expectedValue).toBe(19);
+    expect(economics.rtp).toBeCloseTo(0.95);
+    // Only the rare tier beats the price
+    expect(economics.profitProbability).toBeCloseTo(0.1);
+    expect(economics.profitProbabilityMethod).toBe("exact");
+    // E[X^2] = 0.9 * 125 + 0.1 * 10000 = 1112.5, minus 19^2
+    expect(economics.standardDeviation).toBe(Math.round(Math.sqrt(1112.5 - 361)));
+  });
+
+  it("should renormalise weights over tiers that have items", () => {
+    const economics = computePackEconomics(
+      input({ items: items.filter((i) => i.tierId === "common") })
+    );
+
+    expect(economics.expectedValue).toBe(10);
+    expect(economics.tiers.find((t) => t.tierId === "common")?.weightedProbability).toBe(1);
+    expect(economics.tiers.find((t) => t.tierId === "rare")?.weightedProbability).toBe(0);
+  });
+
+  it("should add guaranteed slots and approximate profit for multi-item packs", () => {
+    const economics = computePackEconomics(
+      input({
+        config: {
+          itemsPerPack: 3,
+          guarantees: [{ tierId: "rare", minCount: 1, tier: rare }],
+          tierWeights: [{ tierId: "common", weight: 1, tier: common }],
+        },
+        priceInCents: 100,
+      })
+    );
+
+    // 100 guaranteed + 2 * 10
+    expect(economics.expectedValue).toBe(120);
+    expect(economics.rtp).toBeCloseTo(1.2);
+    // Two common slots with variance 25 each
+    expect(economics.standardDeviation).toBe(7);
+    expect(economics.profitProbabilityMethod).toBe("normal");
+    expect(economics.profitProbability).toBeGreaterThan(0.99);
+  });
+
+  it("should flag RTP outside the configured limits", () => {
+    const below = computePackEconomics(input({ limits: { floor: 1, ceiling: null } }));
+    expect(below.withinLimits).toBe(false);
+    expect(below.warnings[0]).toContain("below the 100.0% floor");
+
+    const above = computePackEconomics(input({ limits: { floor: null, ceiling: 0.9 } }));
+    expect(above.withinLimits).toBe(false);
+
+    const within = computePackEconomics(input({ limits: { floor: 0.9, ceiling: 1 } }));
+    expect(within.withinLimits).toBe(true);
+  });
+});
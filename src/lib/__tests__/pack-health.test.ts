@@ -1,4 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { computePackHealth, hasGuaranteeCapacity } from "../pack-health";
+
+vi.mock("@/lib/prisma", () => ({ default: {}, prisma: {} }));
 
 /**
  * Pack Health Calculator Tests
@@ -442,6 +445,108 @@ describe("Weighted Random Selection", () => {
   });
 });
 
+describe("computePackHealth", () => {
+  // Same function the admin pack builder uses for unsaved configs
+  const rare = { name: "Rare" };
+  const common = { name: "Common" };
+
+  const baseInput = {
+    packProductId: "pack-1",
+    maxSupply: 10,
+    soldCount: 0,
+    config: {
+      itemsPerPack: 3,
+      guarantees: [{ tierId: "rare", minCount: 1, tier: rare }],
+      tierWeights: [{ tierId: "common", weight: 100, tier: common }],
+    },
+  };
+
+  it("should be sellable when every remaining pack can be filled", () => {
+    const health = computePackHealth({
+      ...baseInput,
+      tierAvailability: { rare: 10, common: 30 },
+    });
+
+    expect(health.canSellOne).toBe(true);
+    expect(health.status).toBe("SELLABLE");
+    expect(health.remainingPacks).toBe(10);
+  });
+
+  it("should block sales when guarantees exceed the pack size", () => {
+    const health = computePackHealth({
+      ...baseInput,
+      config: {
+        ...baseInput.config,
+        itemsPerPack: 1,
+        guarantees: [{ tierId: "rare", minCount: 2, tier: rare }],
+      },
+      tierAvailability: { rare: 20, common: 30 },
+    });
+
+    expect(health.canSellOne).toBe(false);
+    expect(health.warnings).toContain("Guarantees require 2 items but the pack holds 1");
+  });
+
+  it("should block sales when the pool cannot fill one pack", () => {
+    const health = computePackHealth({
+      ...baseInput,
+      maxSupply: 1,
+      tierAvailability: { rare: 1, common: 1 },
+    });
+
+    expect(health.canSellOne).toBe(false);
+    expect(health.status).toBe("OUT_OF_STOCK");
+  });
+
+  it("should report a missing config as out of stock", () => {
+    const health = computePackHealth({
+      ...baseInput,
+      config: null,
+      tierAvailability: {},
+    });
+
+    expect(health.canSellOne).toBe(false);
+    expect(health.warnings).toEqual(["Pack has no configuration"]);
+  });
+});
+
+describe("hasGuaranteeCapacity", () => {
+  const rare = { name: "Rare" };
+  const common = { name: "Common" };
+
+  const health = (maxSupply: number | null, tierAvailability: Record<string, number>) =>
+    computePackHealth({
+      packProductId: "pack-1",
+      maxSupply,
+      soldCount: 0,
+      config: {
+        itemsPerPack: 3,
+        guarantees: [{ tierId: "rare", minCount: 1, tier: rare }],
+        tierWeights: [{ tierId: "common", weight: 100, tier: common }],
+      },
+      tierAvailability,
+    });
 
+  it("should admit draws up to the remaining supply", () => {
+    const limited = health(4, { rare: 4, common: 20 });
 
+    expect(hasGuaranteeCapacity(limited, 4)).toBe(true);
+    expect(hasGuaranteeCapacity(limited, 5)).toBe(false);
+  });
 
+  it("should not admit more draws than the pool can fill", () => {
+    // Guarantees cover all ten packs, but the commons fill only two
+    const limited = health(10, { rare: 10, common: 2 });
+
+    expect(limited.canSellOne).toBe(true);
+    expect(hasGuaranteeCapacity(limited, 4)).toBe(true);
+    expect(hasGuaranteeCapacity(limited, 5)).toBe(false);
+  });
+
+  it("should need every guaranteed tier to cover all draws with unlimited supply", () => {
+    const unlimited = health(null, { rare: 3, common: 30 });
+
+    expect(hasGuaranteeCapacity(unlimited, 3)).toBe(true);
+    expect(hasGuaranteeCapacity(unlimited, 4)).toBe(false);
+  });
+});
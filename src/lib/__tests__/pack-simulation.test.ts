@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from "vitest";
+import { runPackSimulation, type SimulationInput } from "../pack-simulation";
+
+vi.mock("@/lib/prisma", () => ({ default: {}, prisma: {} }));
+
+/**
+ * Pack Simulation Tests
+ */
+
+const tierNames = { common: "Common", rare: "Rare", epic: "Epic" };
+
+const items = [
+  { id: "c1", tierId: "common", estimatedValue: 10 },
+  { id: "c2", tierId: "common", estimatedValue: 20 },
+  { id: "c3", tierId: "common", estimatedValue: 30 },
+  { id: "r1", tierId: "rare", estimatedValue: 100 },
+];
+
+// Deterministic rolls so runs are repeatable
+function seededRandom(seed = 1): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 48271) % 2147483647;
+    return state / 2147483647;
+  };
+}
+
+function input(overrides: Partial<SimulationInput> = {}): SimulationInput {
+  return {
+    packProductId: "pack",
+    mode: "deplete",
+    packs: null,
+    config: {
+      itemsPerPack: 1,
+      guarantees: [],
+      tierWeights: [
+        { tierId: "common", weight: 50 },
+        { tierId: "rare", weight: 50 },
+      ],
+    },
+    items,
+    tierNames,
+    random: seededRandom(),
+    ...overrides,
+  };
+}
+
+describe("Pack Simulation", () => {
+  it("should draw every item exactly once when depleting the pool", () => {
+    const result = runPackSimulation(input());
+
+    expect(result.totalSimulations).toBe(4);
+    expect(result.totalValue).toBe(160);
+    expect(result.minValue).toBe(10);
+    expect(result.maxValue).toBe(100);
+    // Both tiers empty out, the last one on the final pack
+    expect(result.depletedTiers.map((t) => t.tierId).sort()).toEqual(["common", "rare"]);
+    expect(Math.max(...result.depletedTiers.map((t) => t.afterPacks))).toBe(4);
+    expect(result.issues).toContain("Pack has no max supply - the pool runs out after 4 packs");
+  });
+
+  it("should report when the pool runs out before the remaining supply", () => {
+    const result = runPackSimulation(input({ packs: 10 }));
+
+    expect(result.totalSimulations).toBe(4);
+    expect(result.issues).toContain("Pool runs out after 4 of 10 remaining packs");
+  });
+
+  it("should stop when a guarantee can no longer be met", () => {
+    const result = runPackSimulation(
+      input({
+        packs: 2,
+        config: {
+          itemsPerPack: 2,
+          guarantees: [{ tierId: "rare", minCount: 1 }],
+          tierWeights: [{ tierId: "common", weight: 1 }],
+        },
+      })
+    );
+
+    expect(result.totalSimulations).toBe(1);
+    expect(result.guaranteesMet).toBe(false);
+    expect(result.issues[0]).toBe("Rare guarantee cannot be met after 1 packs");
+    expect(result.results.find((r) => r.tierId === "rare")?.expectedPercentage).toBe(50);
+  });
+
+  it("should renormalise weights over tiers that have items", () => {
+    const result = runPackSimulation(
+      input({
+        mode: "independent",
+        packs: 200,
+        config: {
+          itemsPerPack: 1,
+          guarantees: [],
+          tierWeights: [
+            { tierId: "common", weight: 50 },
+            { tierId: "epic", weight: 50 },
+          ],
+        },
+      })
+    );
+
+    expect(result.totalSimulations).toBe(200);
+    expect(result.guaranteesMet).toBe(true);
+    expect(result.issues).toEqual([]);
+    const common = result.results.find((r) => r.tierId === "common");
+    expect(common?.count).toBe(200);
+    expect(common?.expectedPercentage).toBe(100);
+    // Independent packs never shrink the pool
+    expect(result.depletedTiers).toEqual([]);
+  });
+
+  it("should put each independent pack's items back before the next", () => {
+    const result = runPackSimulation(
+      input({
+        mode: "independent",
+        packs: 50,
+        config: {
+          itemsPerPack: 4,
+          guarantees: [{ tierId: "rare", minCount: 1 }],
+          tierWeights: [{ tierId: "common", weight: 1 }],
+        },
+      })
+    );
+
+    // Every pack empties the whole pool, so each needs all of it back
+    expect(result.issues).toEqual([]);
+    expect(result.totalSimulations).toBe(50);
+    expect(result.minValue).toBe(160);
+    expect(result.maxValue).toBe(160);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { PERMISSIONS, ROLE_PERMISSIONS, hasPermission } from "../permissions";
+
+/**
+ * Permission Matrix Tests
+ *
+ * Each role grants a fixed set of permissions; SUPER_ADMIN is the only
+ * role that can manage other admins
+ */
+
+describe("Permission Matrix", () => {
+  it("should let operators fulfil shipments but not edit packs", () => {
+    expect(hasPermission("OPERATOR", "shipments:fulfil")).toBe(true);
+    expect(hasPermission("OPERATOR", "packs:read")).toBe(true);
+    expect(hasPermission("OPERATOR", "packs:write")).toBe(false);
+    expect(hasPermission("OPERATOR", "balances:adjust")).toBe(false);
+    expect(hasPermission("OPERATOR", "inventory:revalue")).toBe(false);
+  });
+
+  it("should keep admin management to super admins", () => {
+    expect(hasPermission("SUPER_ADMIN", "admins:manage")).toBe(true);
+    expect(hasPermission("ADMIN", "admins:manage")).toBe(false);
+    expect(hasPermission("OPERATOR", "admins:manage")).toBe(false);
+  });
+
+  it("should give super admins every permission", () => {
+    for (const permission of PERMISSIONS) {
+      expect(hasPermission("SUPER_ADMIN", permission)).toBe(true);
+    }
+  });
+
+  it("should nest each role's permissions inside the role above", () => {
+    for (const permission of ROLE_PERMISSIONS.OPERATOR) {
+      expect(hasPermission("ADMIN", permission)).toBe(true);
+    }
+    for (const permission of ROLE_PERMISSIONS.ADMIN) {
+      expect(hasPermission("SUPER_ADMIN", permission)).toBe(true);
+    }
+  });
+});
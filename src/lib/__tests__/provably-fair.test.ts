@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({ default: {}, prisma: {} }));
+
+import {
+  computeRoll,
+  computeSlotRolls,
+  hashServerSeed,
+  replaySlot,
+  checkSlotProof,
+} from "../provably-fair";
+import { groupItemsByTier, pickWeightedTier, selectItem } from "../item-selection";
+
+/**
+ * Provably Fair Tests
+ *
+ * A published seed pair must always replay to the same draw
+ */
+
+const SERVER_SEED = "a".repeat(64);
+const CLIENT_SEED = "client-seed";
+
+describe("Provably Fair Rolls", () => {
+  it("should derive the same roll from the same inputs", () => {
+    const first = computeRoll(SERVER_SEED, CLIENT_SEED, 7, 0);
+    const second = computeRoll(SERVER_SEED, CLIENT_SEED, 7, 0);
+
+    expect(first).toBe(second);
+  });
+
+  it("should change the roll when nonce or round changes", () => {
+    const base = computeRoll(SERVER_SEED, CLIENT_SEED, 0, 0);
+
+    expect(computeRoll(SERVER_SEED, CLIENT_SEED, 1, 0)).not.toBe(base);
+    expect(computeRoll(SERVER_SEED, CLIENT_SEED, 0, 1)).not.toBe(base);
+    expect(computeRoll(SERVER_SEED, "other", 0, 0)).not.toBe(base);
+  });
+
+  it("should keep rolls within [0, 1)", () => {
+    for (let nonce = 0; nonce < 200; nonce++) {
+      const roll = computeRoll(SERVER_SEED, CLIENT_SEED, nonce, 0);
+      expect(roll).toBeGreaterThanOrEqual(0);
+      expect(roll).toBeLessThan(1);
+    }
+  });
+
+  it("should use rounds 2N and 2N+1 for slot N", () => {
+    const rolls = computeSlotRolls(SERVER_SEED, CLIENT_SEED, 3, 2);
+
+    expect(rolls.tierRoll).toBe(computeRoll(SERVER_SEED, CLIENT_SEED, 3, 4));
+    expect(rolls.itemRoll).toBe(computeRoll(SERVER_SEED, CLIENT_SEED, 3, 5));
+  });
+
+  it("should commit to the server seed with SHA-256", () => {
+    expect(hashServerSeed("abc")).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+  });
+});
+
+describe("Weighted Selection", () => {
+  const items = [
+    { id: "c3", tierId: "common", estimatedValue: 100 },
+    { id: "c1", tierId: "common", estimatedValue: 100 },
+    { id: "r1", tierId: "rare", estimatedValue: 1000 },
+  ];
+
+  it("should pick tiers by cumulative weight", () => {
+    const weights = [
+      { tierId: "common", weight: 80 },
+      { tierId: "rare", weight: 20 },
+    ];
+
+    expect(pickWeightedTier(weights, 0)).toBe("common");
+    expect(pickWeightedTier(weights, 0.7999)).toBe("common");
+    expect(pickWeightedTier(weights, 0.8)).toBe("rare");
+    expect(pickWeightedTier(weights, 0.9999)).toBe("rare");
+  });
+
+  it("should renormalise over tiers that have items", () => {
+    const outcome = selectItem(
+      groupItemsByTier(items),
+      [
+        { tierId: "common", weight: 50 },
+        { tierId: "legendary", weight: 50 },
+      ],
+      { tierRoll: 0.99, itemRoll: 0 }
+    );
+
+    expect(outcome?.selectedTierId).toBe("common");
+    expect(outcome?.activeWeights).toEqual([{ tierId: "common", weight: 50 }]);
+  });
+
+  it("should order items by id within a tier", () => {
+    const outcome = selectItem(
+      groupItemsByTier(items),
+      [{ tierId: "common", weight: 1 }],
+      { tierRoll: 0, itemRoll: 0 }
+    );
+
+    expect(outcome?.item.id).toBe("c1");
+    expect(outcome?.candidateCount).toBe(2);
+  });
+
+  it("should replay a stored proof to the same selection", () => {
+    const rolls = computeSlotRolls(SERVER_SEED, CLIENT_SEED, 11, 0);
+    const outcome = selectItem(
+      groupItemsByTier(items),
+      [
+        { tierId: "common", weight: 70 },
+        { tierId: "rare", weight: 30 },
+      ],
+      rolls
+    )!;
+
+    const replayed = replaySlot(
+      {
+        slot: 0,
+        guaranteed: false,
+        ...rolls,
+        activeWeights: outcome.activeWeights,
+        selectedTierId: outcome.selectedTierId,
+        candidateCount: outcome.candidateCount,
+        itemIndex: outcome.itemIndex,
+      },
+      rolls
+    );
+
+    expect(replayed.selectedTierId).toBe(outcome.selectedTierId);
+    expect(replayed.itemIndex).toBe(outcome.itemIndex);
+  });
+
+  it("should only accept a proof that lands on the assigned item in its tier", () => {
+    const rolls = computeSlotRolls(SERVER_SEED, CLIENT_SEED, 12, 0);
+    const outcome = selectItem(groupItemsByTier(items), [{ tierId: "common", weight: 1 }], rolls)!;
+    const proof = {
+      slot: 0,
+      guaranteed: false,
+      ...rolls,
+      activeWeights: outcome.activeWeights,
+      selectedTierId: outcome.selectedTierId,
+      candidateCount: outcome.candidateCount,
+      candidateIds: outcome.candidateIds,
+      itemIndex: outcome.itemIndex,
+    };
+    const otherId = outcome.candidateIds.find((id) => id !== outcome.item.id)!;
+
+    expect(checkSlotProof(proof, rolls, { itemId: outcome.item.id, inSelectedTier: true }).valid).toBe(true);
+    // The rolls replay, but the server handed out a different item
+    expect(checkSlotProof(proof, rolls, { itemId: otherId, inSelectedTier: true }).valid).toBe(false);
+    expect(checkSlotProof(proof, rolls, { itemId: outcome.item.id, inSelectedTier: false }).valid).toBe(false);
+
+    // Older proofs carry no candidates, so the item cannot be checked
+    const legacy = { ...proof, candidateIds: undefined };
+    expect(checkSlotProof(legacy, rolls, { itemId: otherId, inSelectedTier: true }).valid).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { applyTokenBucket } from "../redis";
+
+vi.mock("@/lib/prisma", () => ({ default: {}, prisma: {} }));
+
+import { RATE_LIMITS, checkRateLimit, withRateLimit } from "../rate-limit";
+
+/**
+ * Rate Limit Tests
+ *
+ * A bucket allows a burst of limit requests, then refills evenly over the
+ * window; the in-memory fallback follows the same arithmetic as Redis
+ */
+
+describe("Token Bucket", () => {
+  it("should allow a full burst and refuse the next request", () => {
+    let state = null;
+    for (let i = 0; i < 5; i++) {
+      const step = applyTokenBucket(state, 0, 5, 60_000);
+      expect(step.result.allowed).toBe(true);
+      state = step.state;
+    }
+
+    const refused = applyTokenBucket(state, 0, 5, 60_000);
+    expect(refused.result.allowed).toBe(false);
+    expect(refused.result.retryAfterMs).toBe(12_000);
+  });
+
+  it("should refill in proportion to elapsed time", () => {
+    const empty = { tokens: 0, updatedAt: 0 };
+
+    expect(applyTokenBucket(empty, 11_999, 5, 60_000).result.allowed).toBe(false);
+    expect(applyTokenBucket(empty, 12_000, 5, 60_000).result.allowed).toBe(true);
+
+    const partial = applyTokenBucket(empty, 6_000, 5, 60_000).result;
+    expect(partial.retryAfterMs).toBe(6_000);
+  });
+
+  it("should never refill beyond capacity", () => {
+    const { result } = applyTokenBucket({ tokens: 1, updatedAt: 0 }, 10 * 60_000, 5, 60_000);
+    expect(result.remaining).toBe(4);
+  });
+});
+
+describe("Route Limits", () => {
+  it("should limit each caller separately", async () => {
+    const { limit } = RATE_LIMITS.register;
+
+    for (let i = 0; i < limit; i++) {
+      expect((await checkRateLimit("register", "ip:10.0.0.1")).allowed).toBe(true);
+    }
+
+    const refused = await checkRateLimit("register", "ip:10.0.0.1");
+    expect(refused.allowed).toBe(false);
+    expect(refused.retryAfterSeconds).toBeGreaterThan(0);
+
+    expect((await checkRateLimit("register", "ip:10.0.0.2")).allowed).toBe(true);
+  });
+
+  it("should not share one bucket between callers with no trusted IP", async () => {
+    const handler = withRateLimit("admin-login", async () => new Response("ok"));
+    const send = (headers: Record<string, string>) =>
+      handler(new NextRequest("http://localhost/api/admin/login", { headers }), undefined);
+
+    for (let i = 0; i <= RATE_LIMITS["admin-login"].limit; i++) {
+      expect((await send({})).status).toBe(200);
+    }
+
+    for (let i = 0; i < RATE_LIMITS["admin-login"].limit; i++) {
+      expect((await send({ "x-forwarded-for": "10.3.0.1" })).status).toBe(200);
+    }
+    expect((await send({ "x-forwarded-for": "10.3.0.1" })).status).toBe(429);
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import Stripe from "stripe";
+
+/**
+ * Refund Tests
+ *
+ * Card openings go back through Stripe under one idempotency key per
+ * opening, balance openings are credited through the ledger, and a
+ * refunded opening is never paid twice. Only thrown errors are retried.
+ */
+
+interface FakeOpening {
+  id: string;
+  userId: string;
+  status: string;
+  amountPaid: number;
+  stripeSessionId: string | null;
+  stripePaymentId: string | null;
+  paidAt: Date | null;
+  stripeRefundId: string | null;
+  refundAttempts: number;
+  lastRefundError: string | null;
+  packProduct: { name: string };
+}
+
+const { store, mocks } = vi.hoisted(() => ({
+  store: { openings: new Map<string, FakeOpening>() },
+  mocks: {
+    createRefund: vi.fn(),
+    postBalanceChange: vi.fn(),
+  },
+}));
+
+vi.mock("@/lib/prisma", () => {
+  const base = {
+    packOpening: {
+      findUnique: async ({ where }: { where: { id: string } }) => {
+        const opening = store.openings.get(where.id);
+        return opening ? { ...opening } : null;
+      },
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { id: string; status: string | { in: string[] } };
+        data: Partial<FakeOpening>;
+      }) => {
+        const opening = store.openings.get(where.id);
+        const statuses = typeof where.status === "string" ? [where.status] : where.status.in;
+        if (!opening || !statuses.includes(opening.status)) {
+          return { count: 0 };
+        }
+        Object.assign(opening, data);
+        return { count: 1 };
+      },
+      update: async ({
+        where,
+        data,
+      }: {
+        where: { id: string };
+        data: { refundAttempts: { increment: number }; lastRefundError: string };
+      }) => {
+        const opening = store.openings.get(where.id)!;
+        opening.refundAttempts += data.refundAttempts.increment;
+        opening.lastRefundError = data.lastRefundError;
+        return opening;
+      },
+    },
+  };
+  const client = {
+    ...base,
+    $transaction: async <T>(fn: (tx: typeof base) => Promise<T>) => fn(base),
+  };
+  return { default: client, prisma: client };
+});
+
+vi.mock("../stripe", () => ({ createRefund: mocks.createRefund }));
+vi.mock("../ledger", () => ({ postBalanceChange: mocks.postBalanceChange }));
+
+import { refundOpening, refundOpeningWithRetry, failAndRefundOpening } from "../refunds";
+
+function addOpening(overrides: Partial<FakeOpening> = {}): FakeOpening {
+  const opening: FakeOpening = {
+    id: "opening-1",
+    userId: "user-1",
+    status: "FAILED",
+    amountPaid: 2500,
+    stripeSessionId: "cs_1",
+    stripePaymentId: "pi_1",
+    paidAt: new Date(),
+    stripeRefundId: null,
+    refundAttempts: 0,
+    lastRefundError: null,
+    packProduct: { name: "Starter Pack" },
+    ...overrides,
+  };
+  store.openings.set(opening.id, opening);
+  return opening;
+}
+
+beforeEach(() => {
+  store.openings.clear();
+  mocks.createRefund.mockReset().mockResolvedValue({ id: "re_1" });
+  mocks.postBalanceChange.mockReset().mockResolvedValue(undefined);
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("Card Refunds", () => {
+  it("should refund the payment intent and mark the opening REFUNDED", async () => {
+    const opening = addOpening();
+
+    expect(await refundOpening("opening-1", "Assignment failed")).toEqual({
+      success: true,
+      alreadyRefunded: false,
+    });
+
+    expect(mocks.createRefund).toHaveBeenCalledWith("pi_1", undefined, "refund:opening-1");
+    expect(mocks.postBalanceChange).not.toHaveBeenCalled();
+    expect(opening).toMatchObject({ status: "REFUNDED", stripeRefundId: "re_1" });
+  });
+
+  it("should send the same request on every retry", async () => {
+    addOpening();
+    mocks.createRefund
+      .mockRejectedValueOnce(new Error("Connection reset"))
+      .mockResolvedValueOnce({ id: "re_1" });
+
+    const result = await refundOpeningWithRetry("opening-1", "Assignment failed", { baseDelayMs: 0 });
+
+    expect(result.success).toBe(true);
+    expect(mocks.createRefund).toHaveBeenCalledTimes(2);
+    expect(mocks.createRefund.mock.calls[0]).toEqual(mocks.createRefund.mock.calls[1]);
+  });
+
+  it("should treat a charge Stripe already refunded as done", async () => {
+    const opening = addOpening();
+    mocks.createRefund.mockRejectedValue(
+      new Stripe.errors.StripeInvalidRequestError({
+        type: "invalid_request_error",
+        code: "charge_already_refunded",
+        message: "Charge has already been refunded",
+      })
+    );
+
+    expect((await refundOpening("opening-1", "Assignment failed")).success).toBe(true);
+    expect(opening.status).toBe("REFUNDED");
+    expect(opening.stripeRefundId).toBeFalsy();
+  });
+
+  it("should not refund a card opening that was never paid", async () => {
+    const opening = addOpening({ stripePaymentId: null, paidAt: null });
+
+    expect(await refundOpening("opening-1", "Assignment failed")).toEqual({
+      success: false,
+      error: "Opening has no payment to refund",
+    });
+    expect(mocks.createRefund).not.toHaveBeenCalled();
+    expect(opening.status).toBe("FAILED");
+  });
+});
+
+describe("Balance Refunds", () => {
+  it("should credit the amount back through the ledger", async () => {
+    const opening = addOpening({ stripeSessionId: null, stripePaymentId: null, paidAt: null });
+
+    expect(await refundOpening("opening-1", "Assignment failed")).toEqual({ success: true });
+
+    expect(mocks.createRefund).not.toHaveBeenCalled();
+    expect(mocks.postBalanceChange).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        userId: "user-1",
+        amountCents: 2500,
+        type: "REFUND",
+        referenceType: "PackOpening",
+        referenceId: "opening-1",
+      })
+    );
+    expect(opening.status).toBe("REFUNDED");
+  });
+});
+
+describe("Already Refunded Openings", () => {
+  it("should not pay a refunded opening again", async () => {
+    addOpening({ status: "REFUNDED" });
+
+    expect(await refundOpening("opening-1", "Assignment failed")).toEqual({
+      success: true,
+      alreadyRefunded: true,
+    });
+    expect(mocks.createRefund).not.toHaveBeenCalled();
+    expect(mocks.postBalanceChange).not.toHaveBeenCalled();
+  });
+
+  it("should not credit a balance twice when two refunds race", async () => {
+    addOpening({ stripeSessionId: null, stripePaymentId: null, paidAt: null });
+
+    const results = await Promise.all([
+      refundOpening("opening-1", "Assignment failed"),
+      refundOpening("opening-1", "Assignment failed"),
+    ]);
+
+    expect(results.filter((result) => result.alreadyRefunded)).toHaveLength(1);
+    expect(mocks.postBalanceChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("should refuse openings that are not FAILED", async () => {
+    addOpening({ status: "COMPLETED" });
+
+    expect(await refundOpening("opening-1", "Assignment failed")).toEqual({
+      success: false,
+      error: "Opening is not refundable: COMPLETED",
+    });
+  });
+});
+
+describe("Refund Retries", () => {
+  it("should retry thrown errors and record each failed attempt", async () => {
+    const opening = addOpening();
+    mocks.createRefund.mockRejectedValue(new Error("Stripe unavailable"));
+
+    const result = await refundOpeningWithRetry("opening-1", "Assignment failed", {
+      maxAttempts: 3,
+      baseDelayMs: 0,
+    });
+
+    expect(result).toEqual({ success: false, error: "Stripe unavailable" });
+    expect(mocks.createRefund).toHaveBeenCalledTimes(3);
+    expect(opening).toMatchObject({
+      status: "FAILED",
+      refundAttempts: 3,
+      lastRefundError: "Stripe unavailable",
+    });
+  });
+
+  it("should not retry a returned failure", async () => {
+    const opening = addOpening({ stripePaymentId: null, paidAt: null });
+
+    const result = await refundOpeningWithRetry("opening-1", "Assignment failed", { baseDelayMs: 0 });
+
+    expect(result).toEqual({ success: false, error: "Opening has no payment to refund" });
+    expect(opening.refundAttempts).toBe(0);
+  });
+
+  it("should fail a stuck opening before refunding it", async () => {
+    const opening = addOpening({ status: "PROCESSING" });
+
+    expect((await failAndRefundOpening("opening-1", "Assignment failed")).success).toBe(true);
+    expect(opening.status).toBe("REFUNDED");
+  });
+});
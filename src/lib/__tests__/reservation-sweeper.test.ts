@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+/**
+ * Reservation Sweeper Tests
+ *
+ * Run against the in-memory backend: an expired reservation's item goes
+ * back to the pool, a live one stays, and an item reserved again between
+ * the sweep's read and its write is left alone.
+ */
+
+const { items } = vi.hoisted(() => ({
+  items: new Map<string, { id: string; status: string; updatedAt: Date }>(),
+}));
+
+vi.mock("@/lib/prisma", () => {
+  const client = {
+    item: {
+      // Ignores updatedAt, like a read taken before the item changed
+      findMany: async ({ cursor }: { cursor?: { id: string } }) =>
+        cursor ? [] : [...items.values()].filter((item) => item.status === "RESERVED"),
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { id: string; status: string; updatedAt: { lte: Date } };
+        data: { status: string };
+      }) => {
+        const item = items.get(where.id);
+        if (!item || item.status !== where.status || item.updatedAt > where.updatedAt.lte) {
+          return { count: 0 };
+        }
+        item.status = data.status;
+        return { count: 1 };
+      },
+    },
+  };
+  return { default: client, prisma: client };
+});
+
+vi.mock("@/lib/pack-health", () => ({
+  invalidatePackHealth: async () => {},
+  invalidatePackHealthForItem: async () => {},
+  holdGuaranteeCapacity: async () => true,
+  releaseGuaranteeCapacity: async () => {},
+  updatePackStatusFromHealth: async () => {},
+}));
+
+import { sweepExpiredReservations } from "../reservation-sweeper";
+import { itemReservationKey } from "../assignment-engine";
+import { redis } from "../redis";
+
+const longAgo = new Date(Date.now() - 3600_000);
+
+beforeEach(() => {
+  items.clear();
+  items.set("item-expired", { id: "item-expired", status: "RESERVED", updatedAt: longAgo });
+  items.set("item-live", { id: "item-live", status: "RESERVED", updatedAt: longAgo });
+});
+
+describe("Reservation Sweeper", () => {
+  it("should release items whose reservation expired", async () => {
+    await redis.set(itemReservationKey("item-live"), "opening-1", "EX", 60);
+
+    const result = await sweepExpiredReservations();
+
+    expect(result.checked).toBe(2);
+    expect(result.released).toEqual(["item-expired"]);
+    expect(items.get("item-expired")!.status).toBe("AVAILABLE");
+    expect(items.get("item-live")!.status).toBe("RESERVED");
+  });
+
+  it("should leave an item that was reserved again since the read", async () => {
+    await redis.set(itemReservationKey("item-live"), "opening-1", "EX", 60);
+    items.get("item-expired")!.updatedAt = new Date();
+
+    const result = await sweepExpiredReservations();
+
+    expect(result.released).toEqual([]);
+    expect(items.get("item-expired")!.status).toBe("RESERVED");
+  });
+});
@@ -0,0 +1,260 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+/**
+ * Shipping Tests
+ *
+ * A shipment request locks the holding, the lifecycle only moves along
+ * allowed transitions, and delivery or failure settle the holding and
+ * item. Rejected requests leave everything as it was.
+ */
+
+interface FakeShipment {
+  id: string;
+  vaultHoldingId: string;
+  userId: string;
+  status: string;
+  carrier: string | null;
+  trackingNumber: string | null;
+  shippedAt?: Date;
+  deliveredAt?: Date;
+}
+
+const { store, activity } = vi.hoisted(() => ({
+  store: {
+    holdings: new Map<string, { id: string; userId: string; itemId: string; status: string; disputed: boolean }>(),
+    items: new Map<string, { id: string; status: string }>(),
+    shipments: new Map<string, FakeShipment>(),
+  },
+  activity: { recordUserActivity: vi.fn() },
+}));
+
+vi.mock("@/lib/prisma", () => {
+  type Undo = Array<() => void>;
+
+  const makeClient = (undo: Undo | null) => {
+    const write = <T extends object>(row: T, data: Partial<T>) => {
+      const before = { ...row };
+      Object.assign(row, data);
+      undo?.push(() => Object.assign(row, before));
+    };
+
+    return {
+      vaultHolding: {
+        findFirst: async ({ where }: { where: { id: string; userId: string } }) => {
+          const holding = store.holdings.get(where.id);
+          if (!holding || holding.userId !== where.userId) return null;
+          return {
+            id: holding.id,
+            itemId: holding.itemId,
+            assignment: { opening: { disputedAt: holding.disputed ? new Date() : null } },
+          };
+        },
+        update: async ({ where, data }: { where: { id: string }; data: { status: string } }) => {
+          write(store.holdings.get(where.id)!, data);
+        },
+        updateMany: async ({ where, data }: { where: { id: string; status: string }; data: { status: string } }) => {
+          const holding = store.holdings.get(where.id);
+          if (!holding || holding.status !== where.status) return { count: 0 };
+          write(holding, data);
+          return { count: 1 };
+        },
+      },
+      item: {
+        update: async ({ where, data }: { where: { id: string }; data: { status: string } }) => {
+          write(store.items.get(where.id)!, data);
+        },
+      },
+      shipmentRequest: {
+        create: async ({ data }: { data: Omit<FakeShipment, "id" | "status" | "carrier" | "trackingNumber"> }) => {
+          const shipment: FakeShipment = {
+            id: `shipment-${store.shipments.size + 1}`,
+            status: "PENDING",
+            carrier: null,
+            trackingNumber: null,
+            ...data,
+          };
+          store.shipments.set(shipment.id, shipment);
+          undo?.push(() => store.shipments.delete(shipment.id));
+          return { ...shipment };
+        },
+        findUnique: async ({ where }: { where: { id: string } }) => {
+          const shipment = store.shipments.get(where.id);
+          return shipment
+            ? { ...shipment, vaultHolding: { itemId: store.holdings.get(shipment.vaultHoldingId)!.itemId } }
+            : null;
+        },
+        findUniqueOrThrow: async ({ where }: { where: { id: string } }) => ({ ...store.shipments.get(where.id)! }),
+        updateMany: async ({ where, data }: { where: { id: string; status: string }; data: Partial<FakeShipment> }) => {
+          const shipment = store.shipments.get(where.id);
+          if (!shipment || shipment.status !== where.status) return { count: 0 };
+          write(shipment, data);
+          return { count: 1 };
+        },
+      },
+    };
+  };
+
+  const client = {
+    ...makeClient(null),
+    $transaction: async <T,>(fn: (tx: ReturnType<typeof makeClient>) => Promise<T>) => {
+      const undo: Undo = [];
+      try {
+        return await fn(makeClient(undo));
+      } catch (error) {
+        undo.reverse().forEach((revert) => revert());
+        throw error;
+      }
+    },
+  };
+
+  return { default: client, prisma: client };
+});
+
+vi.mock("../user-activity", () => activity);
+
+import { requestShipment, updateShipmentStatus, shippingAddressSchema, getTrackingUrl } from "../shipping";
+
+const address = shippingAddressSchema.parse({
+  recipientName: "Ada Lovelace",
+  addressLine1: "1 Main St",
+  city: "Springfield",
+  state: "IL",
+  postalCode: "62701",
+});
+
+const holding = () => store.holdings.get("holding-1")!;
+const item = () => store.items.get("item-1")!;
+
+async function shipmentInStatus(...statuses: Array<"PROCESSING" | "SHIPPED">) {
+  const { data } = await requestShipment({ userId: "user-1", holdingId: "holding-1", address });
+  for (const status of statuses) {
+    await updateShipmentStatus({ shipmentId: data!.id, status, carrier: "USPS", trackingNumber: "9400" });
+  }
+  return data!.id;
+}
+
+beforeEach(() => {
+  store.holdings.clear();
+  store.items.clear();
+  store.shipments.clear();
+  activity.recordUserActivity.mockReset();
+
+  store.holdings.set("holding-1", {
+    id: "holding-1",
+    userId: "user-1",
+    itemId: "item-1",
+    status: "HOLDING",
+    disputed: false,
+  });
+  store.items.set("item-1", { id: "item-1", status: "ASSIGNED" });
+});
+
+describe("Shipment Requests", () => {
+  it("should lock the holding and record the request", async () => {
+    const result = await requestShipment({ userId: "user-1", holdingId: "holding-1", address });
+
+    expect(result.data).toMatchObject({ status: "PENDING", recipientName: "Ada Lovelace", country: "US" });
+    expect(holding().status).toBe("SHIPPING");
+    expect(item().status).toBe("SHIPPING");
+    expect(activity.recordUserActivity).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ userId: "user-1", type: "SHIPMENT_REQUEST" })
+    );
+  });
+
+  it("should reject another user's holding", async () => {
+    expect(await requestShipment({ userId: "user-2", holdingId: "holding-1", address })).toEqual({
+      success: false,
+      error: "Holding not found",
+    });
+  });
+
+  it("should reject a holding that is listed or already shipping", async () => {
+    holding().status = "LISTED";
+
+    expect(await requestShipment({ userId: "user-1", holdingId: "holding-1", address })).toEqual({
+      success: false,
+      error: "Holding is not available for shipping",
+    });
+    expect(store.shipments.size).toBe(0);
+  });
+
+  it("should keep items with a disputed payment in the vault", async () => {
+    holding().disputed = true;
+
+    expect(await requestShipment({ userId: "user-1", holdingId: "holding-1", address })).toEqual({
+      success: false,
+      error: "Item cannot be shipped while its payment is disputed",
+    });
+    expect(holding().status).toBe("HOLDING");
+  });
+
+  it("should validate the address", () => {
+    const parsed = shippingAddressSchema.safeParse({ ...address, country: "USA", recipientName: " " });
+
+    expect(parsed.success).toBe(false);
+    expect(parsed.error!.issues.map((issue) => issue.path[0]).sort()).toEqual(["country", "recipientName"]);
+  });
+});
+
+describe("Shipment Lifecycle", () => {
+  it("should move the holding out of the system on delivery", async () => {
+    const shipmentId = await shipmentInStatus("PROCESSING", "SHIPPED");
+
+    const result = await updateShipmentStatus({ shipmentId, status: "DELIVERED" });
+
+    expect(result.data).toMatchObject({ status: "DELIVERED", carrier: "USPS", trackingNumber: "9400" });
+    expect(holding().status).toBe("SHIPPED");
+    expect(item().status).toBe("SHIPPED");
+  });
+
+  it("should return the holding to the vault on failure", async () => {
+    const shipmentId = await shipmentInStatus("PROCESSING");
+
+    expect((await updateShipmentStatus({ shipmentId, status: "FAILED" })).success).toBe(true);
+
+    expect(holding().status).toBe("HOLDING");
+    expect(item().status).toBe("ASSIGNED");
+  });
+
+  it("should reject transitions that skip or leave a final state", async () => {
+    const shipmentId = await shipmentInStatus();
+
+    expect(await updateShipmentStatus({ shipmentId, status: "DELIVERED" })).toEqual({
+      success: false,
+      error: "Cannot move shipment from PENDING to DELIVERED",
+    });
+
+    await updateShipmentStatus({ shipmentId, status: "FAILED" });
+    expect(await updateShipmentStatus({ shipmentId, status: "PROCESSING" })).toEqual({
+      success: false,
+      error: "Cannot move shipment from FAILED to PROCESSING",
+    });
+  });
+
+  it("should require tracking details to ship", async () => {
+    const { data } = await requestShipment({ userId: "user-1", holdingId: "holding-1", address });
+    await updateShipmentStatus({ shipmentId: data!.id, status: "PROCESSING" });
+
+    expect(await updateShipmentStatus({ shipmentId: data!.id, status: "SHIPPED" })).toEqual({
+      success: false,
+      error: "Carrier and tracking number are required to ship",
+    });
+    expect(store.shipments.get(data!.id)!.status).toBe("PROCESSING");
+  });
+
+  it("should reject unknown shipments", async () => {
+    expect(await updateShipmentStatus({ shipmentId: "missing", status: "PROCESSING" })).toEqual({
+      success: false,
+      error: "Shipment not found",
+    });
+  });
+});
+
+describe("Tracking URLs", () => {
+  it("should build links for known carriers only", () => {
+    expect(getTrackingUrl(" UPS ", "1Z 999")).toBe("https://www.ups.com/track?tracknum=1Z%20999");
+    expect(getTrackingUrl("Pigeon", "42")).toBeNull();
+    expect(getTrackingUrl("usps", null)).toBeNull();
+  });
+});
@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type Stripe from "stripe";
+
+/**
+ * Stripe Webhook Tests
+ *
+ * The event store: a duplicate delivery is handled once, a FAILED event
+ * can be redelivered or replayed, and events arriving out of order never
+ * undo a later state of the opening.
+ */
+
+interface StoredEvent {
+  id: string;
+  type: string;
+  payload: unknown;
+  status: string;
+  attempts: number;
+  error: string | null;
+  updatedAt: Date;
+}
+
+interface FakeOpening {
+  id: string;
+  status: string;
+  stripeSessionId: string | null;
+  stripePaymentId: string | null;
+}
+
+const { store, engine } = vi.hoisted(() => ({
+  store: {
+    events: new Map<string, StoredEvent>(),
+    openings: new Map<string, FakeOpening>(),
+  },
+  engine: {
+    handlePaymentConfirmed: vi.fn(),
+    handlePaymentFailed: vi.fn(),
+    failAndRefundOpening: vi.fn(),
+  },
+}));
+
+vi.mock("@/lib/prisma", async () => {
+  const { Prisma } = await import("@prisma/client");
+
+  const matches = (row: Record<string, unknown>, where: Record<string, unknown>): boolean =>
+    Object.entries(where).every(([key, filter]) => {
+      if (key === "OR") {
+        return (filter as Record<string, unknown>[]).some((branch) => matches(row, branch));
+      }
+      if (filter instanceof Object && "lt" in filter) {
+        return (row[key] as Date) < (filter as { lt: Date }).lt;
+      }
+      return row[key] === filter;
+    });
+
+  const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+  const client = {
+    webhookEvent: {
+      create: async ({ data }: { data: { id: string; type: string; payload: unknown } }) => {
+        await tick();
+        if (store.events.has(data.id)) {
+          throw new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+            code: "P2002",
+            clientVersion: "5.22.0",
+          });
+        }
+        const event = { ...data, status: "PROCESSING", attempts: 1, error: null, updatedAt: new Date() };
+        store.events.set(data.id, event);
+        return event;
+      },
+      findUnique: async ({ where }: { where: { id: string } }) => store.events.get(where.id) ?? null,
+      update: async ({ where, data }: { where: { id: string }; data: Partial<StoredEvent> }) =>
+        Object.assign(store.events.get(where.id)!, data, { updatedAt: new Date() }),
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: Record<string, unknown>;
+        data: Partial<StoredEvent> & { attempts?: { increment: number } };
+      }) => {
+        await tick();
+        const event = store.events.get(where.id as string);
+        if (!event || !matches(event as unknown as Record<string, unknown>, where)) {
+          return { count: 0 };
+        }
+        const { attempts, ...rest } = data;
+        Object.assign(event, rest, {
+          attempts: event.attempts + (attempts?.increment ?? 0),
+          updatedAt: new Date(),
+        });
+        return { count: 1 };
+      },
+    },
+    packOpening: {
+      findFirst: async ({ where }: { where: Record<string, unknown> }) =>
+        [...store.openings.values()].find((opening) =>
+          matches(opening as unknown as Record<string, unknown>, where)
+        ) ?? null,
+    },
+  };
+
+  return { default: client, prisma: client };
+});
+
+vi.mock("../assignment-engine", () => ({
+  handlePaymentConfirmed: engine.handlePaymentConfirmed,
+  handlePaymentFailed: engine.handlePaymentFailed,
+}));
+vi.mock("../refunds", () => ({ failAndRefundOpening: engine.failAndRefundOpening }));
+
+import { recordAndProcessEvent, replayWebhookEvent } from "../stripe-webhooks";
+
+function checkoutEvent(
+  id: string,
+  type: "checkout.session.completed" | "checkout.session.expired",
+  session: { id: string; openingId?: string }
+): Stripe.Event {
+  return {
+    id,
+    type,
+    data: {
+      object: {
+        id: session.id,
+        payment_intent: "pi_1",
+        metadata: session.openingId ? { openingId: session.openingId } : {},
+      },
+    },
+  } as unknown as Stripe.Event;
+}
+
+beforeEach(() => {
+  store.events.clear();
+  store.openings.clear();
+  store.openings.set("opening-1", {
+    id: "opening-1",
+    status: "PENDING",
+    stripeSessionId: "cs_1",
+    stripePaymentId: null,
+  });
+
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+
+  engine.handlePaymentConfirmed.mockReset().mockImplementation(async (openingId: string) => {
+    const opening = store.openings.get(openingId)!;
+    if (opening.status !== "PENDING") return null;
+    Object.assign(opening, { status: "COMPLETED", stripePaymentId: "pi_1" });
+    return { items: [] };
+  });
+  engine.handlePaymentFailed.mockReset();
+  engine.failAndRefundOpening.mockReset();
+});
+
+describe("Webhook Event Store", () => {
+  it("should handle a redelivered event once", async () => {
+    const event = checkoutEvent("evt_1", "checkout.session.completed", { id: "cs_1" });
+
+    expect(await recordAndProcessEvent(event)).toEqual({ status: "processed" });
+    expect(await recordAndProcessEvent(event)).toEqual({ status: "duplicate" });
+
+    expect(engine.handlePaymentConfirmed).toHaveBeenCalledTimes(1);
+    expect(store.events.get("evt_1")!.status).toBe("PROCESSED");
+  });
+
+  it("should handle concurrent deliveries of one event once", async () => {
+    const event = checkoutEvent("evt_1", "checkout.session.completed", { id: "cs_1" });
+
+    const outcomes = await Promise.all([recordAndProcessEvent(event), recordAndProcessEvent(event)]);
+
+    expect(outcomes.map((outcome) => outcome.status).sort()).toEqual(["duplicate", "processed"]);
+    expect(engine.handlePaymentConfirmed).toHaveBeenCalledTimes(1);
+  });
+
+  it("should keep a failed event and retry it on redelivery", async () => {
+    const event = checkoutEvent("evt_1", "checkout.session.completed", { id: "cs_unknown" });
+
+    expect(await recordAndProcessEvent(event)).toEqual({
+      status: "failed",
+      error: "Opening not found for session: cs_unknown",
+    });
+    expect(store.events.get("evt_1")!.status).toBe("FAILED");
+
+    // The opening turns up, and Stripe delivers again
+    store.openings.get("opening-1")!.stripeSessionId = "cs_unknown";
+    expect(await recordAndProcessEvent(event)).toEqual({ status: "processed" });
+    expect(store.events.get("evt_1")).toMatchObject({ status: "PROCESSED", attempts: 2, error: null });
+  });
+
+  it("should replay failed events only", async () => {
+    const event = checkoutEvent("evt_1", "checkout.session.completed", { id: "cs_unknown" });
+    await recordAndProcessEvent(event);
+
+    store.openings.get("opening-1")!.stripeSessionId = "cs_unknown";
+    expect(await replayWebhookEvent("evt_1")).toEqual({ success: true });
+    expect(engine.handlePaymentConfirmed).toHaveBeenCalledTimes(1);
+
+    expect(await replayWebhookEvent("evt_1")).toEqual({
+      success: false,
+      error: "Event cannot be replayed while PROCESSED",
+    });
+    expect(await replayWebhookEvent("evt_missing")).toEqual({
+      success: false,
+      error: "Webhook event not found",
+    });
+  });
+
+  it("should find an opening whose session id was never stored", async () => {
+    store.openings.get("opening-1")!.stripeSessionId = null;
+    const event = checkoutEvent("evt_1", "checkout.session.completed", {
+      id: "cs_1",
+      openingId: "opening-1",
+    });
+
+    expect(await recordAndProcessEvent(event)).toEqual({ status: "processed" });
+    expect(engine.handlePaymentConfirmed).toHaveBeenCalledWith("opening-1", "pi_1");
+  });
+});
+
+describe("Out-of-Order Delivery", () => {
+  it("should not fail an opening when its expiry arrives after payment", async () => {
+    await recordAndProcessEvent(checkoutEvent("evt_1", "checkout.session.completed", { id: "cs_1" }));
+    await recordAndProcessEvent(checkoutEvent("evt_2", "checkout.session.expired", { id: "cs_1" }));
+
+    expect(engine.handlePaymentFailed).not.toHaveBeenCalled();
+    expect(store.openings.get("opening-1")!.status).toBe("COMPLETED");
+  });
+
+  it("should ignore a payment failure that arrives after payment", async () => {
+    await recordAndProcessEvent(checkoutEvent("evt_1", "checkout.session.completed", { id: "cs_1" }));
+    await recordAndProcessEvent({
+      id: "evt_2",
+      type: "payment_intent.payment_failed",
+      data: { object: { id: "pi_1" } },
+    } as unknown as Stripe.Event);
+
+    expect(engine.handlePaymentFailed).not.toHaveBeenCalled();
+    expect(store.events.get("evt_2")!.status).toBe("PROCESSED");
+  });
+
+  it("should handle the completion once when it is redelivered after a later event", async () => {
+    const completed = checkoutEvent("evt_1", "checkout.session.completed", { id: "cs_1" });
+
+    await recordAndProcessEvent(completed);
+    await recordAndProcessEvent(checkoutEvent("evt_2", "checkout.session.expired", { id: "cs_1" }));
+    expect(await recordAndProcessEvent(completed)).toEqual({ status: "duplicate" });
+
+    expect(engine.handlePaymentConfirmed).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from "vitest";
+import { classifyValue, validateTierBands } from "../tiering";
+
+vi.mock("@/lib/prisma", () => ({ default: {}, prisma: {} }));
+
+/**
+ * Tier Band Tests
+ *
+ * Bands are inclusive cents ranges - the seed bands must classify every
+ * value from the lowest minValue up without ambiguity
+ */
+
+const seedBands = [
+  { id: "legendary", name: "Legendary", minValue: 50000, maxValue: null },
+  { id: "epic", name: "Epic", minValue: 10000, maxValue: 49999 },
+  { id: "rare", name: "Rare", minValue: 2500, maxValue: 9999 },
+  { id: "common", name: "Common", minValue: 100, maxValue: 2499 },
+];
+
+describe("Value Classification", () => {
+  it("should include both band edges", () => {
+    expect(classifyValue(2500, seedBands)?.id).toBe("rare");
+    expect(classifyValue(9999, seedBands)?.id).toBe("rare");
+    expect(classifyValue(10000, seedBands)?.id).toBe("epic");
+  });
+
+  it("should treat a null maxValue as unbounded", () => {
+    expect(classifyValue(10_000_000, seedBands)?.id).toBe("legendary");
+  });
+
+  it("should return null below every band", () => {
+    expect(classifyValue(99, seedBands)).toBeNull();
+  });
+});
+
+describe("Band Validation", () => {
+  it("should accept the seed bands", () => {
+    expect(validateTierBands(seedBands)).toEqual({ valid: true, overlaps: [], gaps: [] });
+  });
+
+  it("should reject overlapping bands", () => {
+    const bands = seedBands.map((b) => (b.id === "rare" ? { ...b, maxValue: 10000 } : b));
+    const result = validateTierBands(bands);
+    expect(result.valid).toBe(false);
+    expect(result.overlaps).toEqual(["Rare and Epic overlap"]);
+  });
+
+  it("should reject an unbounded band below another band", () => {
+    const bands = seedBands.map((b) => (b.id === "epic" ? { ...b, maxValue: null } : b));
+    expect(validateTierBands(bands).valid).toBe(false);
+  });
+
+  it("should report gaps without failing", () => {
+    const bands = seedBands.map((b) => (b.id === "common" ? { ...b, maxValue: 1999 } : b));
+    const result = validateTierBands(bands);
+    expect(result.valid).toBe(true);
+    expect(result.gaps).toHaveLength(1);
+  });
+});
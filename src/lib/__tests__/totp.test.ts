@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  base32Decode,
+  base32Encode,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  hashRecoveryCode,
+  totpProvisioningUri,
+  totpStep,
+  verifyTotp,
+} from "../totp";
+
+/**
+ * TOTP Tests
+ *
+ * Codes must match RFC 6238 (SHA1 test vectors, last 6 digits) so any
+ * authenticator app agrees with the server
+ */
+
+// RFC 6238 appendix B secret: ASCII "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("TOTP Codes", () => {
+  it("should match the RFC 6238 test vectors", () => {
+    expect(RFC_SECRET).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(generateTotp(RFC_SECRET, totpStep(59_000))).toBe("287082");
+    expect(generateTotp(RFC_SECRET, totpStep(1_111_111_109_000))).toBe("081804");
+    expect(generateTotp(RFC_SECRET, totpStep(1_234_567_890_000))).toBe("005924");
+    expect(generateTotp(RFC_SECRET, totpStep(2_000_000_000_000))).toBe("279037");
+  });
+
+  it("should accept one step of drift and nothing further", () => {
+    const now = 1_234_567_890_000;
+    const code = generateTotp(RFC_SECRET, totpStep(now));
+
+    expect(verifyTotp(RFC_SECRET, code, { timeMs: now })).toBe(totpStep(now));
+    expect(verifyTotp(RFC_SECRET, code, { timeMs: now + 30_000 })).toBe(totpStep(now));
+    expect(verifyTotp(RFC_SECRET, code, { timeMs: now + 60_000 })).toBeNull();
+  });
+
+  it("should refuse a code from an already used step", () => {
+    const now = 1_234_567_890_000;
+    const code = generateTotp(RFC_SECRET, totpStep(now));
+
+    expect(verifyTotp(RFC_SECRET, code, { timeMs: now, lastStep: totpStep(now) })).toBeNull();
+  });
+
+  it("should reject malformed codes", () => {
+    expect(verifyTotp(RFC_SECRET, "12345")).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abcdef")).toBeNull();
+  });
+});
+
+describe("Secrets and Recovery Codes", () => {
+  it("should round-trip base32", () => {
+    const secret = generateTotpSecret();
+    expect(base32Encode(base32Decode(secret))).toBe(secret);
+    expect(base32Decode(secret)).toHaveLength(20);
+  });
+
+  it("should build an otpauth URI authenticator apps can read", () => {
+    const uri = new URL(totpProvisioningUri(RFC_SECRET, "admin@courtyard.io", "Courtyard Admin"));
+
+    expect(uri.protocol).toBe("otpauth:");
+    expect(uri.host).toBe("totp");
+    expect(decodeURIComponent(uri.pathname)).toBe("/Courtyard Admin:admin@courtyard.io");
+    expect(uri.searchParams.get("secret")).toBe(RFC_SECRET);
+    expect(uri.searchParams.get("issuer")).toBe("Courtyard Admin");
+  });
+
+  it("should hash recovery codes regardless of formatting", () => {
+    const [code] = generateRecoveryCodes(1);
+
+    expect(code).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/);
+    expect(hashRecoveryCode(code.toUpperCase().replace("-", " "))).toBe(hashRecoveryCode(code));
+  });
+});
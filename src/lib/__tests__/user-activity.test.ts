@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Prisma, UserActivityType } from "@prisma/client";
+
+/**
+ * User Activity Tests
+ *
+ * Activity is written inside the caller's transaction, so a rolled-back
+ * action leaves no entry; reads are scoped to one user, newest first,
+ * with clamped paging.
+ */
+
+interface FakeActivity {
+  id: string;
+  userId: string;
+  type: UserActivityType;
+  entityType: string;
+  entityId?: string;
+  details?: unknown;
+  createdAt: Date;
+}
+
+const { store } = vi.hoisted(() => ({
+  store: { activity: [] as FakeActivity[] },
+}));
+
+vi.mock("@/lib/prisma", () => {
+  type Undo = Array<() => void>;
+  type Where = { userId: string; type?: UserActivityType };
+
+  const select = (where: Where) =>
+    store.activity.filter(
+      (entry) => entry.userId === where.userId && (!where.type || entry.type === where.type)
+    );
+
+  const makeClient = (undo: Undo | null) => ({
+    userActivityLog: {
+      create: async ({ data }: { data: Omit<FakeActivity, "id" | "createdAt"> }) => {
+        const entry = {
+          id: `activity-${store.activity.length + 1}`,
+          createdAt: new Date(Date.now() + store.activity.length),
+          ...data,
+        };
+        store.activity.push(entry);
+        undo?.push(() => store.activity.splice(store.activity.indexOf(entry), 1));
+        return entry;
+      },
+      findMany: async ({ where, skip, take }: { where: Where; skip: number; take: number }) =>
+        select(where)
+          .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+          .slice(skip, skip + take),
+      count: async ({ where }: { where: Where }) => select(where).length,
+    },
+  });
+
+  const client = {
+    ...makeClient(null),
+    $transaction: async <T,>(fn: (tx: ReturnType<typeof makeClient>) => Promise<T>) => {
+      const undo: Undo = [];
+      try {
+        return await fn(makeClient(undo));
+      } catch (error) {
+        undo.reverse().forEach((revert) => revert());
+        throw error;
+      }
+    },
+  };
+
+  return { default: client, prisma: client };
+});
+
+import prisma from "@/lib/prisma";
+import { recordUserActivity, getUserActivity } from "../user-activity";
+
+function record(userId: string, type: UserActivityType, entityId?: string) {
+  return prisma.$transaction((tx: Prisma.TransactionClient) =>
+    recordUserActivity(tx, { userId, type, entityType: "Listing", entityId })
+  );
+}
+
+beforeEach(() => {
+  store.activity.length = 0;
+});
+
+describe("Recording Activity", () => {
+  it("should record an activity with its details", async () => {
+    await prisma.$transaction((tx: Prisma.TransactionClient) =>
+      recordUserActivity(tx, {
+        userId: "user-1",
+        type: "LISTING_CREATE",
+        entityType: "Listing",
+        entityId: "listing-1",
+        details: { askingPrice: 1500 },
+      })
+    );
+
+    expect(store.activity).toEqual([
+      expect.objectContaining({
+        userId: "user-1",
+        type: "LISTING_CREATE",
+        entityId: "listing-1",
+        details: { askingPrice: 1500 },
+      }),
+    ]);
+  });
+
+  it("should not keep activity of an action that rolled back", async () => {
+    await expect(
+      prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        await recordUserActivity(tx, { userId: "user-1", type: "BUYBACK", entityType: "VaultHolding" });
+        throw new Error("Holding is not available for buyback");
+      })
+    ).rejects.toThrow("Holding is not available for buyback");
+
+    expect(store.activity).toEqual([]);
+  });
+});
+
+describe("Reading Activity", () => {
+  it("should return only the user's own activity, newest first", async () => {
+    await record("user-1", "LISTING_CREATE", "first");
+    await record("user-2", "LISTING_PURCHASE", "other");
+    await record("user-1", "LISTING_SALE", "second");
+
+    const result = await getUserActivity("user-1");
+
+    expect(result.items.map((entry) => entry.entityId)).toEqual(["second", "first"]);
+    expect(result.total).toBe(2);
+  });
+
+  it("should filter by type", async () => {
+    await record("user-1", "LISTING_CREATE");
+    await record("user-1", "LISTING_SALE");
+
+    const result = await getUserActivity("user-1", { type: "LISTING_SALE" });
+
+    expect(result.items.map((entry) => entry.type)).toEqual(["LISTING_SALE"]);
+  });
+
+  it("should clamp out-of-range paging", async () => {
+    for (let i = 0; i < 3; i++) {
+      await record("user-1", "PACK_PURCHASE");
+    }
+
+    expect(await getUserActivity("user-1", { page: -4, pageSize: 0 })).toMatchObject({
+      page: 1,
+      pageSize: 1,
+      total: 3,
+      totalPages: 3,
+    });
+    expect((await getUserActivity("user-1", { pageSize: 5000 })).pageSize).toBe(100);
+  });
+
+  it("should return an empty page for a user with no activity", async () => {
+    expect(await getUserActivity("nobody")).toEqual({
+      items: [],
+      total: 0,
+      page: 1,
+      pageSize: 25,
+      totalPages: 0,
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from "vitest";
+import { mkdtemp, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { parseCsv } from "../csv";
+import { parsePriceSheet } from "../valuation";
+import { createFixturePriceSource } from "../price-sources";
+
+vi.mock("@/lib/prisma", () => ({ default: {}, prisma: {} }));
+
+/**
+ * Revaluation Tests
+ */
+
+describe("Price Sheet Parsing", () => {
+  it("should map rows to updates by SKU", () => {
+    const { updates, errors } = parsePriceSheet(
+      parseCsv("sku,estimatedValue\nLEG-0001,52000\nCOM-0001,1150\n")
+    );
+
+    expect(errors).toEqual([]);
+    expect(updates).toEqual([
+      { row: 2, sku: "LEG-0001", valueInCents: 52000 },
+      { row: 3, sku: "COM-0001", valueInCents: 1150 },
+    ]);
+  });
+
+  it("should reject non-integer and missing values per row", () => {
+    const { updates, errors } = parsePriceSheet(
+      parseCsv("sku,estimatedValue\nA,12.50\n,100\nB,\nC,0\n")
+    );
+
+    expect(updates).toEqual([]);
+    expect(errors.map((e) => e.row)).toEqual([2, 3, 4, 5]);
+  });
+});
+
+describe("Fixture Price Source", () => {
+  it("should return prices only for known SKUs with valid values", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "prices-"));
+    const file = path.join(dir, "prices.json");
+    await writeFile(file, JSON.stringify({ A: 100, B: "200", C: -5, D: 400 }));
+
+    const prices = await createFixturePriceSource(file).getPrices(["A", "B", "C", "X"]);
+
+    expect([...prices]).toEqual([["A", 100]]);
+  });
+
+  it("should read the bundled fixture by default", async () => {
+    const prices = await createFixturePriceSource().getPrices(["LEG-0001", "NOPE"]);
+    expect(prices.get("LEG-0001")).toBe(52000);
+    expect(prices.has("NOPE")).toBe(false);
+  });
+});
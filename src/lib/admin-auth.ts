@@ -1,7 +1,23 @@
-import { cookies } from "next/headers";
+import { cookies, headers } from "next/headers";
 import { SignJWT, jwtVerify } from "jose";
 import bcrypt from "bcryptjs";
 import prisma from "./prisma";
+import { verifySecondFactor, type SecondFactorInput } from "./admin-two-factor";
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  createAdminAuthSession,
+  isAdminAuthSessionRevoked,
+  revokeAdminAuthSession,
+  revokeAllAdminAuthSessions,
+  rotateRefreshToken,
+} from "./admin-sessions";
+import {
+  ADMIN_2FA_TOKEN_NAME,
+  ADMIN_REFRESH_TOKEN_NAME,
+  ADMIN_TOKEN_NAME,
+} from "./admin-cookies";
+import { clearLoginLockout, getLoginLockout, recordLoginFailure } from "./login-lockout";
+import { resolveClientIp } from "./client-ip";
 import type { AdminUser, AdminRole } from "@prisma/client";
 
 /**
@@ -9,9 +25,24 @@ import type { AdminUser, AdminRole } from "@prisma/client";
  * 
  * Separate authentication system for admin users
  * Uses JWT stored in httpOnly cookies
+ *
+ * Admins with two-factor enabled sign in in two steps: the password check
+ * sets a short-lived pending cookie, and the admin token is only issued
+ * once completeAdminTwoFactor accepts a code for that pending login.
+ *
+ * Each login is a server-side session (see admin-sessions). The access
+ * token lives 15 minutes and names its session, which is checked against
+ * the revocation list on every request; the refresh token cookie renews
+ * it (refreshAdminSession) and rotates on each use.
+ *
+ * Failed passwords and second factors count towards a lockout per email
+ * and per IP (see login-lockout); a locked login is refused with
+ * lockedUntil before the password is checked.
  */
 
-const ADMIN_TOKEN_NAME = "admin_token";
+const ACCESS_PURPOSE = "admin_access";
+const TWO_FACTOR_PURPOSE = "admin_2fa";
+const TWO_FACTOR_TTL_SECONDS = 5 * 60;
 const JWT_SECRET = new TextEncoder().encode(
   process.env.NEXTAUTH_SECRET || "admin-secret-key"
 );
@@ -21,85 +52,332 @@ export interface AdminSession {
   email: string;
   name: string | null;
   role: AdminRole;
+  sessionId: string;
 }
 
+export interface AdminLoginResult {
+  success: boolean;
+  requiresTwoFactor?: boolean;
+  error?: string;
+  lockedUntil?: Date;
+}
+
+const LOCKED_OUT_ERROR = "Too many failed sign-in attempts";
+
 /**
  * Create admin JWT token
  */
-async function createAdminToken(admin: AdminUser): Promise<string> {
+async function createAdminToken(admin: AdminUser, sessionId: string): Promise<string> {
   return new SignJWT({
     id: admin.id,
     email: admin.email,
     name: admin.name,
     role: admin.role,
+    sid: sessionId,
+    purpose: ACCESS_PURPOSE,
   })
     .setProtectedHeader({ alg: "HS256" })
     .setIssuedAt()
-    .setExpirationTime("24h")
+    .setExpirationTime(`${ACCESS_TOKEN_TTL_SECONDS}s`)
     .sign(JWT_SECRET);
 }
 
 /**
  * Verify admin JWT token
  */
-async function verifyAdminToken(token: string): Promise<AdminSession | null> {
+async function verifyAdminToken(
+  token: string
+): Promise<{ id: string; sessionId: string } | null> {
   try {
     const { payload } = await jwtVerify(token, JWT_SECRET);
-    return payload as unknown as AdminSession;
+    if (
+      payload.purpose !== ACCESS_PURPOSE ||
+      typeof payload.id !== "string" ||
+      typeof payload.sid !== "string"
+    ) {
+      return null;
+    }
+    return { id: payload.id, sessionId: payload.sid };
   } catch {
     return null;
   }
 }
 
+/**
+ * Create the short-lived token for a login waiting on its second factor
+ */
+async function createTwoFactorToken(adminId: string): Promise<string> {
+  return new SignJWT({ id: adminId, purpose: TWO_FACTOR_PURPOSE })
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuedAt()
+    .setExpirationTime(`${TWO_FACTOR_TTL_SECONDS}s`)
+    .sign(JWT_SECRET);
+}
+
 /**
  * Admin login
+ *
+ * With two-factor enabled the password alone does not sign in:
+ * requiresTwoFactor is returned and completeAdminTwoFactor finishes it.
  */
 export async function adminLogin(
   email: string,
   password: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<AdminLoginResult> {
+  const client = await getRequestClient();
+  const lockedUntil = await getLoginLockout(email, client.ipAddress);
+
+  if (lockedUntil) {
+    return { success: false, error: LOCKED_OUT_ERROR, lockedUntil };
+  }
+
   const admin = await prisma.adminUser.findUnique({
     where: { email },
   });
 
   if (!admin || !admin.isActive) {
-    return { success: false, error: "Invalid credentials" };
+    return loginFailed({ email, adminId: admin?.id, client });
   }
 
   const isValid = await bcrypt.compare(password, admin.passwordHash);
 
   if (!isValid) {
+    return loginFailed({ email, adminId: admin.id, client });
+  }
+
+  const cookieStore = await cookies();
+
+  if (admin.totpEnabledAt) {
+    cookieStore.set(ADMIN_2FA_TOKEN_NAME, await createTwoFactorToken(admin.id), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      maxAge: TWO_FACTOR_TTL_SECONDS,
+      path: "/",
+    });
+
+    return { success: true, requiresTwoFactor: true };
+  }
+
+  await clearLoginLockout(email);
+  await startAdminSession(admin);
+
+  return { success: true };
+}
+
+/**
+ * Second login step for admins with two-factor enabled
+ */
+export async function completeAdminTwoFactor(
+  input: SecondFactorInput
+): Promise<AdminLoginResult> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(ADMIN_2FA_TOKEN_NAME)?.value;
+
+  let adminId: string | null = null;
+  if (token) {
+    try {
+      const { payload } = await jwtVerify(token, JWT_SECRET);
+      if (payload.purpose === TWO_FACTOR_PURPOSE && typeof payload.id === "string") {
+        adminId = payload.id;
+      }
+    } catch {
+      adminId = null;
+    }
+  }
+
+  if (!adminId) {
+    return { success: false, error: "Login expired - sign in again" };
+  }
+
+  const admin = await prisma.adminUser.findUnique({
+    where: { id: adminId },
+  });
+
+  if (!admin || !admin.isActive) {
     return { success: false, error: "Invalid credentials" };
   }
 
+  const client = await getRequestClient();
+  const lockedUntil = await getLoginLockout(admin.email, client.ipAddress);
+
+  if (lockedUntil) {
+    cookieStore.delete(ADMIN_2FA_TOKEN_NAME);
+    return { success: false, error: LOCKED_OUT_ERROR, lockedUntil };
+  }
+
+  if (!(await verifySecondFactor(admin.id, input))) {
+    return loginFailed({ email: admin.email, adminId: admin.id, client }, "Invalid code");
+  }
+
+  cookieStore.delete(ADMIN_2FA_TOKEN_NAME);
+  await clearLoginLockout(admin.email);
+  await startAdminSession(admin);
+
+  return { success: true };
+}
+
+/**
+ * Count a failed attempt; reports the lockout if this one caused it
+ */
+async function loginFailed(
+  attempt: {
+    email: string;
+    adminId?: string;
+    client: { ipAddress: string | null; userAgent?: string };
+  },
+  error = "Invalid credentials"
+): Promise<AdminLoginResult> {
+  const lockedUntil = await recordLoginFailure({
+    email: attempt.email,
+    ip: attempt.client.ipAddress,
+    adminId: attempt.adminId,
+    userAgent: attempt.client.userAgent,
+  });
+
+  return lockedUntil
+    ? { success: false, error: LOCKED_OUT_ERROR, lockedUntil }
+    : { success: false, error };
+}
+
+async function getRequestClient(): Promise<{ ipAddress: string | null; userAgent?: string }> {
+  const headerStore = await headers();
+  return {
+    ipAddress: resolveClientIp(headerStore),
+    userAgent: headerStore.get("user-agent") || undefined,
+  };
+}
+
+/**
+ * Record the login, open a session and set its cookies
+ */
+async function startAdminSession(admin: AdminUser): Promise<void> {
   // Update last login
   await prisma.adminUser.update({
     where: { id: admin.id },
     data: { lastLoginAt: new Date() },
   });
 
-  // Create token
-  const token = await createAdminToken(admin);
+  const client = await getRequestClient();
+  const { session, refreshToken } = await createAdminAuthSession(admin.id, {
+    ipAddress: client.ipAddress ?? undefined,
+    userAgent: client.userAgent,
+  });
+
+  await setSessionCookies(admin, session.id, refreshToken, session.expiresAt);
+}
 
-  // Set cookie
+/**
+ * Set the access and refresh token cookies
+ */
+async function setSessionCookies(
+  admin: AdminUser,
+  sessionId: string,
+  refreshToken: string,
+  expiresAt: Date
+): Promise<void> {
+  const token = await createAdminToken(admin, sessionId);
   const cookieStore = await cookies();
-  cookieStore.set(ADMIN_TOKEN_NAME, token, {
+  const options = {
     httpOnly: true,
     secure: process.env.NODE_ENV === "production",
-    sameSite: "lax",
-    maxAge: 60 * 60 * 24, // 24 hours
+    sameSite: "lax" as const,
     path: "/",
+  };
+
+  cookieStore.set(ADMIN_TOKEN_NAME, token, {
+    ...options,
+    maxAge: ACCESS_TOKEN_TTL_SECONDS,
+  });
+  cookieStore.set(ADMIN_REFRESH_TOKEN_NAME, refreshToken, {
+    ...options,
+    expires: expiresAt,
   });
+}
 
-  return { success: true };
+async function clearSessionCookies(): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.delete(ADMIN_TOKEN_NAME);
+  cookieStore.delete(ADMIN_REFRESH_TOKEN_NAME);
+  cookieStore.delete(ADMIN_2FA_TOKEN_NAME);
 }
 
 /**
  * Admin logout
+ *
+ * Revokes the current session, not just the cookies, so a copied token
+ * stops working too
  */
 export async function adminLogout(): Promise<void> {
   const cookieStore = await cookies();
-  cookieStore.delete(ADMIN_TOKEN_NAME);
+  const token = cookieStore.get(ADMIN_TOKEN_NAME)?.value;
+  const refreshToken = cookieStore.get(ADMIN_REFRESH_TOKEN_NAME)?.value;
+
+  const sessionId =
+    (token && (await verifyAdminToken(token))?.sessionId) || refreshToken?.split(".")[0];
+
+  if (sessionId) {
+    await revokeAdminAuthSession(sessionId);
+  }
+
+  await clearSessionCookies();
+}
+
+/**
+ * Sign an admin out of every session, this one included
+ */
+export async function adminLogoutEverywhere(adminId: string): Promise<number> {
+  const revoked = await revokeAllAdminAuthSessions(adminId);
+  await clearSessionCookies();
+  return revoked;
+}
+
+/**
+ * Renew the access token with the refresh token cookie
+ *
+ * Rotates the refresh token. Sets cookies, so it can only run in route
+ * handlers - pages are sent through /api/admin/session/refresh by the
+ * middleware instead.
+ */
+export async function refreshAdminSession(): Promise<AdminSession | null> {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get(ADMIN_REFRESH_TOKEN_NAME)?.value;
+
+  if (!refreshToken) {
+    return null;
+  }
+
+  const outcome = await rotateRefreshToken(refreshToken);
+
+  if (outcome.status === "superseded") {
+    // A parallel request rotated it and is setting the new cookies
+    return null;
+  }
+
+  if (outcome.status === "invalid") {
+    await clearSessionCookies();
+    return null;
+  }
+
+  const admin = await prisma.adminUser.findUnique({
+    where: { id: outcome.session.adminUserId },
+  });
+
+  if (!admin || !admin.isActive) {
+    await revokeAdminAuthSession(outcome.session.id);
+    await clearSessionCookies();
+    return null;
+  }
+
+  await setSessionCookies(admin, outcome.session.id, outcome.refreshToken, outcome.session.expiresAt);
+
+  return {
+    id: admin.id,
+    email: admin.email,
+    name: admin.name,
+    role: admin.role,
+    sessionId: outcome.session.id,
+  };
 }
 
 /**
@@ -115,21 +393,28 @@ export async function getAdminSession(): Promise<AdminSession | null> {
 
   const session = await verifyAdminToken(token);
 
-  if (!session) {
+  if (!session || (await isAdminAuthSessionRevoked(session.sessionId))) {
     return null;
   }
 
-  // Verify admin still exists and is active
+  // Verify admin still exists and is active. Role and profile come from
+  // the database so a role change applies without signing in again.
   const admin = await prisma.adminUser.findUnique({
     where: { id: session.id },
-    select: { id: true, isActive: true },
+    select: { id: true, email: true, name: true, role: true, isActive: true },
   });
 
   if (!admin || !admin.isActive) {
     return null;
   }
 
-  return session;
+  return {
+    id: admin.id,
+    email: admin.email,
+    name: admin.name,
+    role: admin.role,
+    sessionId: session.sessionId,
+  };
 }
 
 /**
@@ -160,39 +445,6 @@ export async function requireAdminRole(
   return session;
 }
 
-/**
- * Create audit log entry
- */
-export async function createAuditLog({
-  adminId,
-  action,
-  entityType,
-  entityId,
-  details,
-  ipAddress,
-  userAgent,
-}: {
-  adminId: string;
-  action: string;
-  entityType: string;
-  entityId?: string;
-  details?: Record<string, unknown>;
-  ipAddress?: string;
-  userAgent?: string;
-}): Promise<void> {
-  await prisma.auditLog.create({
-    data: {
-      adminUserId: adminId,
-      action,
-      entityType,
-      entityId,
-      details: details as object,
-      ipAddress,
-      userAgent,
-    },
-  });
-}
-
 /**
  * Hash password for admin
  */
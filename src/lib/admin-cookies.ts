@@ -0,0 +1,9 @@
+/**
+ * Admin Cookie Names
+ *
+ * Kept free of server-only imports so middleware can read them too
+ */
+
+export const ADMIN_TOKEN_NAME = "admin_token"; // Short-lived access token
+export const ADMIN_REFRESH_TOKEN_NAME = "admin_refresh"; // Rotating refresh token
+export const ADMIN_2FA_TOKEN_NAME = "admin_2fa_token"; // Login waiting on its second factor
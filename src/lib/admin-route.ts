@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminSession, refreshAdminSession, type AdminSession } from "./admin-auth";
+import { createAuditLog, summarizeForLog } from "./audit-log";
+import { getClientIp } from "./client-ip";
+import { hasPermission, type Permission } from "./permissions";
+
+/**
+ * Admin Route Wrapper
+ *
+ * Every admin API handler is exported through adminRoute, which resolves
+ * the session, enforces the route's permission and audits the call.
+ *
+ * Rules:
+ * - An expired access token is renewed from the refresh token cookie
+ * - No session: 401 before the handler runs
+ * - Role lacks the permission: 403, and the denial is written to the
+ *   audit log as PERMISSION_DENIED. Routes without a permission (the
+ *   admin's own account) only need a session
+ * - Routes with an audit action get an entry after a successful response,
+ *   with the request body (redacted and truncated) as details. The entity
+ *   id comes from the route's [id] param, or from the response via
+ *   getEntityId for creates
+ */
+
+export interface AdminRouteOptions {
+  // Omitted for routes any admin may use on their own account
+  permission?: Permission;
+  audit?: {
+    action: string;
+    entityType: string;
+    getEntityId?: (responseBody: Record<string, unknown>) => string | undefined;
+  };
+}
+
+export type AdminRouteHandler<C> = (
+  request: NextRequest,
+  context: C,
+  admin: AdminSession
+) => Promise<Response>;
+
+export function adminRoute<C>(
+  options: AdminRouteOptions,
+  handler: AdminRouteHandler<C>
+): (request: NextRequest, context: C) => Promise<Response> {
+  return async (request, context) => {
+    const admin = (await getAdminSession()) ?? (await refreshAdminSession());
+    if (!admin) {
+      return NextResponse.json(
+        { error: "Admin authentication required" },
+        { status: 401 }
+      );
+    }
+
+    if (options.permission && !hasPermission(admin.role, options.permission)) {
+      await recordAudit(request, admin, {
+        action: "PERMISSION_DENIED",
+        entityType: "AdminUser",
+        entityId: admin.id,
+        details: {
+          permission: options.permission,
+          role: admin.role,
+          method: request.method,
+          path: request.nextUrl.pathname,
+        },
+      });
+
+      return NextResponse.json(
+        { error: "Insufficient permissions" },
+        { status: 403 }
+      );
+    }
+
+    const { audit } = options;
+    if (!audit) {
+      return handler(request, context, admin);
+    }
+
+    const body = await request
+      .clone()
+      .json()
+      .catch(() => undefined);
+
+    const response = await handler(request, context, admin);
+
+    if (!response.ok) {
+      return response;
+    }
+
+    const params = await (context as { params?: Promise<Record<string, string>> })?.params;
+    let entityId = params?.id;
+
+    if (!entityId && audit.getEntityId) {
+      const responseBody = await response
+        .clone()
+        .json()
+        .catch(() => null);
+      entityId = responseBody ? audit.getEntityId(responseBody) : undefined;
+    }
+
+    await recordAudit(request, admin, {
+      action: audit.action,
+      entityType: audit.entityType,
+      entityId,
+      details: {
+        method: request.method,
+        path: request.nextUrl.pathname,
+        ...(body !== undefined && { request: summarizeForLog(body) }),
+      },
+    });
+
+    return response;
+  };
+}
+
+async function recordAudit(
+  request: NextRequest,
+  admin: AdminSession,
+  entry: {
+    action: string;
+    entityType: string;
+    entityId?: string;
+    details: Record<string, unknown>;
+  }
+): Promise<void> {
+  try {
+    await createAuditLog({
+      adminId: admin.id,
+      ...entry,
+      ipAddress: getClientIp(request) ?? undefined,
+      userAgent: request.headers.get("user-agent") || undefined,
+    });
+  } catch (error) {
+    // The response is decided already - report the gap, keep the response
+    console.error("Audit log error:", error);
+  }
+}
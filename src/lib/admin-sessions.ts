@@ -0,0 +1,203 @@
+import { createHash, randomBytes } from "crypto";
+import prisma from "./prisma";
+import { cacheGet, cacheSet } from "./redis";
+import type { AdminAuthSession } from "@prisma/client";
+
+/**
+ * Admin Sessions
+ *
+ * Every admin sign-in is a row here. The short-lived access token names
+ * its session; the refresh token is the session's long-lived credential.
+ *
+ * Lifecycle:
+ *   created at login -> rotated on each refresh -> revoked | expired
+ *
+ * Rules:
+ * - A refresh token works once; rotating it issues the next one. The
+ *   token it replaced is tolerated for a few seconds (parallel requests
+ *   refreshing together); presenting it later means it was copied, and
+ *   the session is revoked
+ * - Sessions expire after an idle period and at an absolute limit
+ * - Revoking writes the session id to a Redis denylist (cacheSet) that
+ *   outlives any access token already issued for it, so revocation takes
+ *   effect on the next request rather than at token expiry
+ */
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const SESSION_IDLE_TTL_MS = 24 * 60 * 60 * 1000;
+const SESSION_MAX_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const ROTATION_GRACE_MS = 30 * 1000;
+const REFRESH_TOKEN_BYTES = 32;
+
+export type RefreshOutcome =
+  | { status: "rotated"; session: AdminAuthSession; refreshToken: string }
+  | { status: "superseded" }
+  | { status: "invalid" };
+
+/**
+ * Start a session and return its first refresh token
+ */
+export async function createAdminAuthSession(
+  adminUserId: string,
+  client: { ipAddress?: string; userAgent?: string }
+): Promise<{ session: AdminAuthSession; refreshToken: string }> {
+  const secret = newRefreshSecret();
+  const now = Date.now();
+
+  const session = await prisma.adminAuthSession.create({
+    data: {
+      adminUserId,
+      refreshTokenHash: hashToken(secret),
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+      expiresAt: new Date(now + SESSION_IDLE_TTL_MS),
+    },
+  });
+
+  return { session, refreshToken: `${session.id}.${secret}` };
+}
+
+/**
+ * Exchange a refresh token for the next one
+ */
+export async function rotateRefreshToken(refreshToken: string): Promise<RefreshOutcome> {
+  const [sessionId, secret] = refreshToken.split(".");
+  if (!sessionId || !secret) {
+    return { status: "invalid" };
+  }
+
+  const session = await prisma.adminAuthSession.findUnique({
+    where: { id: sessionId },
+  });
+
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    return { status: "invalid" };
+  }
+
+  const presentedHash = hashToken(secret);
+
+  if (presentedHash !== session.refreshTokenHash) {
+    if (presentedHash === session.previousTokenHash) {
+      if (Date.now() - session.lastUsedAt.getTime() <= ROTATION_GRACE_MS) {
+        return { status: "superseded" };
+      }
+
+      // An old token came back after its replacement was in use
+      console.error("Admin refresh token reuse, revoking session:", session.id);
+      await revokeAdminAuthSession(session.id);
+    }
+    return { status: "invalid" };
+  }
+
+  const nextSecret = newRefreshSecret();
+  const now = Date.now();
+  const expiresAt = new Date(
+    Math.min(now + SESSION_IDLE_TTL_MS, session.createdAt.getTime() + SESSION_MAX_TTL_MS)
+  );
+
+  // Conditional on the hash we checked - a parallel rotation wins once
+  const rotated = await prisma.adminAuthSession.updateMany({
+    where: { id: session.id, refreshTokenHash: presentedHash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashToken(nextSecret),
+      previousTokenHash: presentedHash,
+      lastUsedAt: new Date(now),
+      expiresAt,
+    },
+  });
+
+  if (rotated.count === 0) {
+    return { status: "superseded" };
+  }
+
+  return {
+    status: "rotated",
+    session: { ...session, lastUsedAt: new Date(now), expiresAt },
+    refreshToken: `${session.id}.${nextSecret}`,
+  };
+}
+
+/**
+ * Whether access tokens for a session must be refused
+ */
+export async function isAdminAuthSessionRevoked(sessionId: string): Promise<boolean> {
+  return (await cacheGet<boolean>(revokedKey(sessionId))) === true;
+}
+
+/**
+ * Revoke one session
+ *
+ * Scoped to an admin when adminUserId is given, so admins can only end
+ * their own sessions. Returns false if no live session matched.
+ */
+export async function revokeAdminAuthSession(
+  sessionId: string,
+  adminUserId?: string
+): Promise<boolean> {
+  const revoked = await prisma.adminAuthSession.updateMany({
+    where: { id: sessionId, revokedAt: null, ...(adminUserId && { adminUserId }) },
+    data: { revokedAt: new Date() },
+  });
+
+  if (revoked.count === 0) {
+    return false;
+  }
+
+  await cacheSet(revokedKey(sessionId), true, ACCESS_TOKEN_TTL_SECONDS);
+  return true;
+}
+
+/**
+ * Revoke every live session of an admin ("sign out everywhere")
+ *
+ * Returns how many sessions were ended.
+ */
+export async function revokeAllAdminAuthSessions(adminUserId: string): Promise<number> {
+  const live = await prisma.adminAuthSession.findMany({
+    where: { adminUserId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: { id: true },
+  });
+
+  let revoked = 0;
+  for (const { id } of live) {
+    if (await revokeAdminAuthSession(id)) {
+      revoked++;
+    }
+  }
+
+  return revoked;
+}
+
+/**
+ * An admin's live sessions, most recently used first
+ */
+export async function listAdminAuthSessions(
+  adminUserId: string
+): Promise<
+  Pick<AdminAuthSession, "id" | "ipAddress" | "userAgent" | "lastUsedAt" | "expiresAt" | "createdAt">[]
+> {
+  return prisma.adminAuthSession.findMany({
+    where: { adminUserId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: {
+      id: true,
+      ipAddress: true,
+      userAgent: true,
+      lastUsedAt: true,
+      expiresAt: true,
+      createdAt: true,
+    },
+    orderBy: { lastUsedAt: "desc" },
+  });
+}
+
+function revokedKey(sessionId: string): string {
+  return `admin-session:revoked:${sessionId}`;
+}
+
+function newRefreshSecret(): string {
+  return randomBytes(REFRESH_TOKEN_BYTES).toString("base64url");
+}
+
+function hashToken(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
@@ -0,0 +1,276 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import prisma from "./prisma";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  totpProvisioningUri,
+  verifyTotp,
+} from "./totp";
+import { Prisma } from "@prisma/client";
+
+/**
+ * Admin Two-Factor Authentication
+ *
+ * Lifecycle:
+ *   not enrolled -> secret issued (beginTotpEnrollment)
+ *     -> enabled (confirmTotpEnrollment, first valid code)
+ *     -> reset by a SUPER_ADMIN (resetTwoFactor) -> not enrolled
+ *
+ * Rules:
+ * - Login asks for a second factor only once 2FA is enabled
+ * - Each TOTP step is accepted once; the claim on totpLastStep is
+ *   conditional so two requests with the same code cannot both pass
+ * - Recovery codes are single-use and replaced as a set
+ *
+ * Secrets are encrypted with ADMIN_TOTP_KEY (AES-256-GCM), so a copy of
+ * the database alone is not enough to generate codes.
+ */
+
+const TOTP_ISSUER = process.env.ADMIN_TOTP_ISSUER || "Courtyard Admin";
+const TOTP_KEY = createHash("sha256")
+  .update(process.env.ADMIN_TOTP_KEY || process.env.NEXTAUTH_SECRET || "admin-totp-key")
+  .digest();
+const RECOVERY_CODE_COUNT = 10;
+
+export interface SecondFactorInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface TwoFactorResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * Expected business failure - rolls back the transaction and is
+ * reported to the caller instead of being rethrown
+ */
+class TwoFactorError extends Error {}
+
+async function runTwoFactorTransaction<T>(
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<TwoFactorResult<T>> {
+  try {
+    const data = await prisma.$transaction(fn);
+    return { success: true, data };
+  } catch (error) {
+    if (error instanceof TwoFactorError) {
+      return { success: false, error: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Issue a new secret for an admin without 2FA
+ *
+ * Replaces any earlier unconfirmed secret. Returns the secret and its
+ * provisioning URI for the authenticator app.
+ */
+export async function beginTotpEnrollment(
+  adminId: string
+): Promise<TwoFactorResult<{ secret: string; uri: string }>> {
+  const secret = generateTotpSecret();
+
+  return runTwoFactorTransaction(async (tx) => {
+    const admin = await tx.adminUser.findUnique({
+      where: { id: adminId },
+      select: { email: true, totpEnabledAt: true },
+    });
+
+    if (!admin) {
+      throw new TwoFactorError("Admin not found");
+    }
+
+    if (admin.totpEnabledAt) {
+      throw new TwoFactorError("Two-factor authentication is already enabled");
+    }
+
+    await tx.adminUser.update({
+      where: { id: adminId },
+      data: { totpSecret: encryptSecret(secret), totpLastStep: null },
+    });
+
+    return { secret, uri: totpProvisioningUri(secret, admin.email, TOTP_ISSUER) };
+  });
+}
+
+/**
+ * Turn 2FA on with a code from the newly enrolled app
+ *
+ * Returns the recovery codes; they are not stored in readable form and
+ * cannot be shown again.
+ */
+export async function confirmTotpEnrollment(
+  adminId: string,
+  code: string
+): Promise<TwoFactorResult<{ recoveryCodes: string[] }>> {
+  return runTwoFactorTransaction(async (tx) => {
+    const admin = await tx.adminUser.findUnique({
+      where: { id: adminId },
+      select: { totpSecret: true, totpEnabledAt: true },
+    });
+
+    if (!admin) {
+      throw new TwoFactorError("Admin not found");
+    }
+
+    if (admin.totpEnabledAt) {
+      throw new TwoFactorError("Two-factor authentication is already enabled");
+    }
+
+    if (!admin.totpSecret) {
+      throw new TwoFactorError("Start two-factor setup first");
+    }
+
+    const step = verifyTotp(decryptSecret(admin.totpSecret), code);
+    if (step === null) {
+      throw new TwoFactorError("Invalid code");
+    }
+
+    const enabled = await tx.adminUser.updateMany({
+      where: { id: adminId, totpEnabledAt: null },
+      data: { totpEnabledAt: new Date(), totpLastStep: step },
+    });
+
+    if (enabled.count === 0) {
+      throw new TwoFactorError("Two-factor authentication is already enabled");
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(tx, adminId);
+    return { recoveryCodes };
+  });
+}
+
+/**
+ * Replace an admin's recovery codes, confirmed with a current TOTP code
+ */
+export async function regenerateRecoveryCodes(
+  adminId: string,
+  code: string
+): Promise<TwoFactorResult<{ recoveryCodes: string[] }>> {
+  return runTwoFactorTransaction(async (tx) => {
+    if (!(await consumeTotpCode(tx, adminId, code))) {
+      throw new TwoFactorError("Invalid code");
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(tx, adminId);
+    return { recoveryCodes };
+  });
+}
+
+/**
+ * Remove an admin's 2FA so they can enroll again
+ */
+export async function resetTwoFactor(adminId: string): Promise<TwoFactorResult<void>> {
+  return runTwoFactorTransaction(async (tx) => {
+    const reset = await tx.adminUser.updateMany({
+      where: { id: adminId },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null },
+    });
+
+    if (reset.count === 0) {
+      throw new TwoFactorError("Admin not found");
+    }
+
+    await tx.adminRecoveryCode.deleteMany({ where: { adminUserId: adminId } });
+  });
+}
+
+/**
+ * Check the second login step - a TOTP code or an unused recovery code
+ *
+ * Either is consumed when it passes.
+ */
+export async function verifySecondFactor(
+  adminId: string,
+  input: SecondFactorInput
+): Promise<boolean> {
+  if (input.code) {
+    return consumeTotpCode(prisma, adminId, input.code);
+  }
+
+  if (input.recoveryCode) {
+    const used = await prisma.adminRecoveryCode.updateMany({
+      where: {
+        adminUserId: adminId,
+        codeHash: hashRecoveryCode(input.recoveryCode),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+    return used.count > 0;
+  }
+
+  return false;
+}
+
+async function consumeTotpCode(
+  tx: Prisma.TransactionClient,
+  adminId: string,
+  code: string
+): Promise<boolean> {
+  const admin = await tx.adminUser.findUnique({
+    where: { id: adminId },
+    select: { totpSecret: true, totpEnabledAt: true, totpLastStep: true },
+  });
+
+  if (!admin?.totpSecret || !admin.totpEnabledAt) {
+    return false;
+  }
+
+  const step = verifyTotp(decryptSecret(admin.totpSecret), code, {
+    lastStep: admin.totpLastStep,
+  });
+
+  if (step === null) {
+    return false;
+  }
+
+  const claimed = await tx.adminUser.updateMany({
+    where: {
+      id: adminId,
+      OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }],
+    },
+    data: { totpLastStep: step },
+  });
+
+  return claimed.count > 0;
+}
+
+async function replaceRecoveryCodes(
+  tx: Prisma.TransactionClient,
+  adminId: string
+): Promise<string[]> {
+  const codes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+
+  await tx.adminRecoveryCode.deleteMany({ where: { adminUserId: adminId } });
+  await tx.adminRecoveryCode.createMany({
+    data: codes.map((code) => ({
+      adminUserId: adminId,
+      codeHash: hashRecoveryCode(code),
+    })),
+  });
+
+  return codes;
+}
+
+// Stored as iv.tag.ciphertext, each base64url
+function encryptSecret(secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", TOTP_KEY, iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((b) => b.toString("base64url")).join(".");
+}
+
+function decryptSecret(stored: string): string {
+  const [iv, tag, ciphertext] = stored.split(".").map((p) => Buffer.from(p, "base64url"));
+  const decipher = createDecipheriv("aes-256-gcm", TOTP_KEY, iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+}
@@ -0,0 +1,288 @@
+import { createHash, randomBytes } from "crypto";
+import prisma from "./prisma";
+import { hashAdminPassword } from "./admin-auth";
+import { revokeAllAdminAuthSessions } from "./admin-sessions";
+import { clearLoginLockout } from "./login-lockout";
+import { AdminRole, Prisma } from "@prisma/client";
+import type { AdminUserSummary, PendingAdminInvite } from "@/types";
+import { z } from "zod";
+
+/**
+ * Admin User Management
+ *
+ * SUPER_ADMINs invite new admins, change roles and deactivate accounts.
+ *
+ * Lifecycle:
+ *   invited -> accepted (AdminUser created) | expired
+ *   active <-> deactivated
+ *
+ * Rules:
+ * - Invites carry a random token shown once; only its hash is stored
+ * - Inviting an email again replaces its pending invite
+ * - Admins cannot change their own role or deactivate themselves
+ * - Deactivating an admin ends all their sessions
+ * - Unlocking an admin clears their login lockout; a locked IP stays
+ *   locked until it expires
+ * - There is always at least one active SUPER_ADMIN
+ */
+
+const INVITE_TOKEN_BYTES = 32;
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const adminUserSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  isActive: true,
+  lastLoginAt: true,
+  totpEnabledAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.AdminUserSelect;
+
+export const inviteAdminSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Invalid email address"),
+  name: z.string().trim().min(1).optional(),
+  role: z.enum(AdminRole),
+});
+
+export const acceptInviteSchema = z.object({
+  token: z.string().min(1, "Invite token is required"),
+  password: z.string().min(12, "Password must be at least 12 characters"),
+  name: z.string().trim().min(1).optional(),
+});
+
+export const updateAdminSchema = z
+  .object({
+    role: z.enum(AdminRole).optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((data) => data.role !== undefined || data.isActive !== undefined, {
+    message: "Nothing to update",
+  });
+
+export type InviteAdminInput = z.infer<typeof inviteAdminSchema>;
+export type AcceptInviteInput = z.infer<typeof acceptInviteSchema>;
+export type UpdateAdminInput = z.infer<typeof updateAdminSchema>;
+
+export interface AdminUsersResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * Expected business failure - rolls back the transaction and is
+ * reported to the caller instead of being rethrown
+ */
+class AdminUsersError extends Error {}
+
+async function runAdminUsersTransaction<T>(
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<AdminUsersResult<T>> {
+  try {
+    const data = await prisma.$transaction(fn);
+    return { success: true, data };
+  } catch (error) {
+    if (error instanceof AdminUsersError) {
+      return { success: false, error: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * All admins and the invites still waiting to be accepted
+ */
+export async function listAdminUsers(): Promise<{
+  admins: AdminUserSummary[];
+  invites: PendingAdminInvite[];
+}> {
+  const [admins, invites] = await Promise.all([
+    prisma.adminUser.findMany({
+      select: adminUserSelect,
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.adminInvite.findMany({
+      where: { acceptedAt: null, expiresAt: { gt: new Date() } },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        invitedById: true,
+        invitedBy: { select: { id: true, email: true } },
+        expiresAt: true,
+        acceptedAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: "desc" },
+    }),
+  ]);
+
+  return { admins, invites };
+}
+
+/**
+ * Invite a new admin
+ *
+ * Returns the invite token. It is not stored and cannot be shown again.
+ */
+export async function inviteAdmin(
+  invitedById: string,
+  input: InviteAdminInput
+): Promise<AdminUsersResult<{ inviteId: string; token: string; expiresAt: Date }>> {
+  const token = randomBytes(INVITE_TOKEN_BYTES).toString("base64url");
+  const expiresAt = new Date(Date.now() + INVITE_TTL_MS);
+
+  return runAdminUsersTransaction(async (tx) => {
+    const existing = await tx.adminUser.findUnique({
+      where: { email: input.email },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new AdminUsersError("An admin with this email already exists");
+    }
+
+    await tx.adminInvite.deleteMany({
+      where: { email: input.email, acceptedAt: null },
+    });
+
+    const invite = await tx.adminInvite.create({
+      data: {
+        email: input.email,
+        name: input.name,
+        role: input.role,
+        tokenHash: hashInviteToken(token),
+        invitedById,
+        expiresAt,
+      },
+    });
+
+    return { inviteId: invite.id, token, expiresAt };
+  });
+}
+
+/**
+ * Accept an invite and create the admin account
+ */
+export async function acceptAdminInvite(
+  input: AcceptInviteInput
+): Promise<AdminUsersResult<AdminUserSummary>> {
+  const passwordHash = await hashAdminPassword(input.password);
+
+  return runAdminUsersTransaction(async (tx) => {
+    const invite = await tx.adminInvite.findUnique({
+      where: { tokenHash: hashInviteToken(input.token) },
+    });
+
+    // Claim the invite - only one accept can win
+    const claimed = invite
+      ? await tx.adminInvite.updateMany({
+          where: { id: invite.id, acceptedAt: null, expiresAt: { gt: new Date() } },
+          data: { acceptedAt: new Date() },
+        })
+      : { count: 0 };
+
+    if (!invite || claimed.count === 0) {
+      throw new AdminUsersError("Invite is invalid or has expired");
+    }
+
+    const existing = await tx.adminUser.findUnique({
+      where: { email: invite.email },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new AdminUsersError("An admin with this email already exists");
+    }
+
+    return tx.adminUser.create({
+      data: {
+        email: invite.email,
+        name: input.name ?? invite.name,
+        role: invite.role,
+        passwordHash,
+      },
+      select: adminUserSelect,
+    });
+  });
+}
+
+/**
+ * Change an admin's role or active flag
+ */
+export async function updateAdminUser(
+  actorId: string,
+  adminId: string,
+  input: UpdateAdminInput
+): Promise<AdminUsersResult<AdminUserSummary>> {
+  if (actorId === adminId) {
+    if (input.role !== undefined) {
+      return { success: false, error: "You cannot change your own role" };
+    }
+    if (input.isActive === false) {
+      return { success: false, error: "You cannot deactivate yourself" };
+    }
+  }
+
+  const result = await runAdminUsersTransaction(async (tx) => {
+    const target = await tx.adminUser.findUnique({
+      where: { id: adminId },
+      select: { id: true },
+    });
+
+    if (!target) {
+      throw new AdminUsersError("Admin not found");
+    }
+
+    const updated = await tx.adminUser.update({
+      where: { id: adminId },
+      data: input,
+      select: adminUserSelect,
+    });
+
+    // Checked after the write so it sees the result, not the request
+    const superAdmins = await tx.adminUser.count({
+      where: { role: AdminRole.SUPER_ADMIN, isActive: true },
+    });
+
+    if (superAdmins === 0) {
+      throw new AdminUsersError("At least one active super admin is required");
+    }
+
+    return updated;
+  });
+
+  if (result.success && input.isActive === false) {
+    await revokeAllAdminAuthSessions(adminId);
+  }
+
+  return result;
+}
+
+/**
+ * Lift a login lockout on an admin's email
+ */
+export async function unlockAdminUser(
+  adminId: string
+): Promise<AdminUsersResult<{ email: string }>> {
+  const admin = await prisma.adminUser.findUnique({
+    where: { id: adminId },
+    select: { email: true },
+  });
+
+  if (!admin) {
+    return { success: false, error: "Admin not found" };
+  }
+
+  await clearLoginLockout(admin.email);
+
+  return { success: true, data: { email: admin.email } };
+}
+
+function hashInviteToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
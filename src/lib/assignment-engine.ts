@@ -1,8 +1,17 @@
 import prisma from "./prisma";
-import { invalidatePackHealth, invalidatePackHealthForItem, canSellPack, updatePackStatusFromHealth } from "./pack-health";
-import { redis, withLock } from "./redis";
-import { ItemStatus, OpeningStatus, PackStatus, HoldingStatus } from "@prisma/client";
-import type { PackOpeningResult, ItemWithTier } from "@/types";
+import {
+  invalidatePackHealth,
+  invalidatePackHealthForItem,
+  holdGuaranteeCapacity,
+  releaseGuaranteeCapacity,
+  updatePackStatusFromHealth,
+} from "./pack-health";
+import { redis } from "./redis";
+import { planSlots, selectPackItems, type SelectionRolls, type SlotSelection } from "./item-selection";
+import { computeSlotRolls } from "./provably-fair";
+import { recordUserActivity } from "./user-activity";
+import { ItemStatus, OpeningStatus, HoldingStatus, Prisma } from "@prisma/client";
+import type { PackOpeningResult, AssignedItemResult, ItemWithTier, FairnessSlotProof } from "@/types";
 
 /**
  * Assignment Engine
@@ -12,22 +21,71 @@ import type { PackOpeningResult, ItemWithTier } from "@/types";
  * CRITICAL: This is the core business logic that ensures:
  * 1. Items are only assigned once (no double-assignment)
  * 2. Pack health is respected (no overselling)
- * 3. All operations are atomic (no partial states)
+ * 3. Guarantees are delivered (minCount items of each guaranteed tier)
+ * 4. All operations are atomic (no partial states)
+ * 
+ * There is no pack-wide lock: concurrent draws run side by side and each
+ * item is claimed with a conditional update on its status. A draw that
+ * loses an item to another sale rolls back, re-reads the pool and draws
+ * again with the same rolls.
  * 
  * The flow:
- * 1. Acquire distributed lock for the pack
- * 2. Verify pack health allows sale
- * 3. Select item using weighted random from available pool
- * 4. Update item status to ASSIGNED
- * 5. Create Assignment record
- * 6. Create VaultHolding record
- * 7. Increment pack soldCount
+ * 1. Hold guarantee capacity for the draw (see pack-health), unless the
+ *    opening's checkout reservation already holds its items
+ * 2. Draw every slot using provably fair rolls from the available pool
+ *    plus the opening's own reserved items - guaranteed tiers first,
+ *    weighted selection for the remaining slots
+ * 3. Claim the drawn items AVAILABLE/RESERVED -> ASSIGNED; if any was
+ *    taken meanwhile, roll back and go again from 2
+ * 4. Create one Assignment record per slot
+ * 5. Create a VaultHolding per item
+ * 6. Increment pack soldCount, only while below maxSupply
+ * 7. Release the capacity hold and any reserved items not drawn
  * 8. Update pack health/status
- * 9. Release lock
  */
 
+const MAX_CLAIM_ATTEMPTS = 5;
+const CLAIM_RETRY_DELAY_MS = 20;
+
+/**
+ * Another sale claimed an item first - the draw is retried
+ */
+class ClaimConflictError extends Error {}
+
 /**
- * Assign an item to a pack opening
+ * Run a draw-and-claim, retrying when it loses an item to another sale
+ *
+ * Retries back off with jitter so colliding draws spread out.
+ */
+async function retryOnClaimConflict<T>(fn: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (!(error instanceof ClaimConflictError) || attempt >= MAX_CLAIM_ATTEMPTS) {
+        throw error;
+      }
+      const delayMs = CLAIM_RETRY_DELAY_MS * attempt * (0.5 + Math.random());
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Items a draw may claim: available ones, and those reserved for the
+ * opening being drawn
+ */
+function claimableItemsWhere(reservedItemIds: string[]): Prisma.ItemWhereInput {
+  return {
+    OR: [
+      { status: ItemStatus.AVAILABLE },
+      { status: ItemStatus.RESERVED, id: { in: reservedItemIds } },
+    ],
+  };
+}
+
+/**
+ * Assign items to a pack opening
  * 
  * This is called AFTER payment is confirmed
  */
@@ -38,7 +96,8 @@ export async function assignItemToOpening(
   const opening = await prisma.packOpening.findUnique({
     where: { id: openingId },
     include: {
-      assignment: true,
+      assignments: { select: { id: true } },
+      fairnessSeed: true,
       packProduct: {
         include: {
           config: {
@@ -60,122 +119,182 @@ export async function assignItemToOpening(
     throw new Error(`Opening is not in PROCESSING state: ${opening.status}`);
   }
 
-  if (opening.assignment) {
-    throw new Error(`Opening already has an assignment`);
+  if (opening.assignments.length > 0) {
+    throw new Error(`Opening already has assignments`);
   }
 
   const pack = opening.packProduct;
-  const lockKey = `pack:${pack.id}:assignment`;
-
-  // Execute with distributed lock
-  return withLock(lockKey, async () => {
-    // Double-check pack health inside lock
-    const canSell = await canSellPack(pack.id);
-    if (!canSell) {
-      throw new Error("Pack is out of stock");
-    }
 
-    // Select item using weighted random from available pool
-    const selectedItem = await selectItemFromPool(pack.id, pack.config);
-
-    if (!selectedItem) {
-      throw new Error("No available items in pack pool");
-    }
+  // Items held for this opening's card checkout join its pool. Such a
+  // reservation already covers a whole pack, so it needs no capacity hold.
+  const reservedItemIds = (await getReservation(openingId))?.itemIds ?? [];
+  const holdsCapacity = reservedItemIds.length === 0;
 
-    // Execute atomic transaction
-    const result = await prisma.$transaction(async (tx) => {
-      // Lock the item row for update
-      const item = await tx.item.findUnique({
-        where: { id: selectedItem.id },
-        include: { tier: true },
-      });
+  if (holdsCapacity && !(await holdGuaranteeCapacity(pack.id))) {
+    throw new Error("Pack is out of stock");
+  }
 
-      if (!item || item.status !== ItemStatus.AVAILABLE) {
-        throw new Error(`Item ${selectedItem.id} is no longer available`);
-      }
+  // Rolls come from the seed pair committed at purchase; openings
+  // created before provably fair rolls fall back to Math.random
+  const seed = opening.fairnessSeed;
+  const nonce = opening.nonce;
+  const rollsForSlot = (slot: number): SelectionRolls =>
+    seed && nonce !== null
+      ? computeSlotRolls(seed.serverSeed, seed.clientSeed, nonce, slot)
+      : { tierRoll: Math.random(), itemRoll: Math.random() };
+
+  let result: PackOpeningResult;
+
+  try {
+    result = await retryOnClaimConflict(async () => {
+      // Draw every slot from the pool as it is now
+      const selections = await selectItemsFromPool(
+        pack.id,
+        pack.config,
+        rollsForSlot,
+        reservedItemIds
+      );
+      const itemIds = selections.map((selection) => selection.item.id);
+
+      return prisma.$transaction(async (tx) => {
+        // Claim every drawn item - only if none was taken meanwhile
+        const claimed = await tx.item.updateMany({
+          where: { id: { in: itemIds }, ...claimableItemsWhere(reservedItemIds) },
+          data: { status: ItemStatus.ASSIGNED },
+        });
+
+        if (claimed.count !== itemIds.length) {
+          throw new ClaimConflictError("An item was claimed by another sale");
+        }
+
+        const claimedItems = await tx.item.findMany({
+          where: { id: { in: itemIds } },
+          include: { tier: true },
+        });
+        const itemsById = new Map(claimedItems.map((item) => [item.id, item]));
+
+        const items: AssignedItemResult[] = [];
+
+        for (const selection of selections) {
+          const item = itemsById.get(selection.item.id)!;
+
+          const fairnessProof: FairnessSlotProof = {
+            slot: selection.slot,
+            guaranteed: selection.guaranteed,
+            ...selection.rolls,
+            activeWeights: selection.activeWeights,
+            selectedTierId: selection.selectedTierId,
+            candidateCount: selection.candidateCount,
+            candidateIds: selection.candidateIds,
+            itemIndex: selection.itemIndex,
+          };
+
+          // Create immutable Assignment record
+          const assignment = await tx.assignment.create({
+            data: {
+              openingId,
+              itemId: item.id,
+              slot: selection.slot,
+              valueAtAssignment: item.estimatedValue,
+              tierAtAssignment: item.tier.name,
+              fairnessProof: fairnessProof as object,
+            },
+          });
+
+          // Create VaultHolding for the user
+          await tx.vaultHolding.create({
+            data: {
+              userId: opening.userId,
+              itemId: item.id,
+              assignmentId: assignment.id,
+              status: HoldingStatus.HOLDING,
+            },
+          });
+
+          items.push({
+            assignmentId: assignment.id,
+            slot: selection.slot,
+            item: item as ItemWithTier,
+            tier: item.tier,
+            estimatedValue: item.estimatedValue,
+          });
+        }
+
+        // Update opening status
+        await tx.packOpening.update({
+          where: { id: openingId },
+          data: {
+            status: OpeningStatus.COMPLETED,
+            assignedAt: new Date(),
+          },
+        });
+
+        // Count the sale against supply last, so the pack row is locked
+        // only briefly before commit
+        const sold = await tx.packProduct.updateMany({
+          where: {
+            id: pack.id,
+            ...(pack.maxSupply !== null && { soldCount: { lt: pack.maxSupply } }),
+          },
+          data: { soldCount: { increment: 1 } },
+        });
 
-      // Update item status to ASSIGNED
-      await tx.item.update({
-        where: { id: item.id },
-        data: { status: ItemStatus.ASSIGNED },
-      });
+        if (sold.count === 0) {
+          throw new Error("Pack is out of stock");
+        }
 
-      // Create immutable Assignment record
-      const assignment = await tx.assignment.create({
-        data: {
+        return {
           openingId,
-          itemId: item.id,
-          valueAtAssignment: item.estimatedValue,
-          tierAtAssignment: item.tier.name,
-        },
-      });
-
-      // Create VaultHolding for the user
-      await tx.vaultHolding.create({
-        data: {
-          userId: opening.userId,
-          itemId: item.id,
-          assignmentId: assignment.id,
-          status: HoldingStatus.HOLDING,
-        },
+          items,
+          totalValue: items.reduce((sum, i) => sum + i.estimatedValue, 0),
+        };
       });
-
-      // Update opening status
-      await tx.packOpening.update({
-        where: { id: openingId },
-        data: {
-          status: OpeningStatus.COMPLETED,
-          assignedAt: new Date(),
-        },
-      });
-
-      // Increment pack sold count
-      await tx.packProduct.update({
-        where: { id: pack.id },
-        data: { soldCount: { increment: 1 } },
-      });
-
-      return {
-        openingId,
-        item: item as ItemWithTier,
-        assignmentId: assignment.id,
-        tier: item.tier,
-        estimatedValue: item.estimatedValue,
-      };
     });
 
-    // Invalidate health cache (outside transaction)
+    // Invalidate health cache (outside transaction) before the hold goes,
+    // so the next draw is admitted on health that includes this sale
     await invalidatePackHealth(pack.id);
-    await invalidatePackHealthForItem(selectedItem.id);
+    for (const assigned of result.items) {
+      await invalidatePackHealthForItem(assigned.item.id);
+    }
+  } finally {
+    if (holdsCapacity) {
+      await releaseGuaranteeCapacity(pack.id);
+    }
+    // Reserved items that were not drawn go back to the pool
+    await releaseReservation(openingId);
+  }
 
-    // Check if pack should be marked out of stock
-    await updatePackStatusFromHealth(pack.id);
+  // Check if pack should be marked out of stock
+  await updatePackStatusFromHealth(pack.id);
 
-    return result;
-  }, { ttlSeconds: 30, maxRetries: 3, retryDelayMs: 200 });
+  return result;
 }
 
 /**
- * Select an item from the pack pool using weighted random selection
+ * Draw every slot of a pack from its available pool
  */
-async function selectItemFromPool(
+async function selectItemsFromPool(
   packProductId: string,
   config: {
+    itemsPerPack: number;
     guarantees: { tierId: string; minCount: number; tier: { name: string } }[];
     tierWeights: { tierId: string; weight: number; tier: { name: string } }[];
-  } | null
-): Promise<{ id: string; tierId: string } | null> {
+  } | null,
+  rollsForSlot: (slot: number) => SelectionRolls,
+  reservedItemIds: string[]
+): Promise<SlotSelection[]> {
   if (!config) {
     throw new Error("Pack has no configuration");
   }
 
-  // Get available items grouped by tier
+  // Get available items in the pool
   const availableItems = await prisma.item.findMany({
     where: {
       packPoolItems: {
         some: { packProductId },
       },
-      status: ItemStatus.AVAILABLE,
+      ...claimableItemsWhere(reservedItemIds),
     },
     select: {
       id: true,
@@ -184,133 +303,131 @@ async function selectItemFromPool(
     },
   });
 
-  if (availableItems.length === 0) {
+  return selectPackItems(availableItems, config, rollsForSlot);
+}
+
+/**
+ * Reserve inventory for one pack during card checkout
+ * 
+ * Holds one item per slot (guaranteed tiers first) so that concurrent
+ * checkouts cannot sell stock that is waiting on a payment. The paid
+ * opening draws from the pool with these items in it, and any it does
+ * not draw are returned afterwards.
+ * 
+ * Returns the reserved item IDs, or null if the pool cannot fill a pack
+ */
+export async function reserveItemForCheckout(
+  packProductId: string,
+  sessionId: string,
+  ttlSeconds: number = 300 // 5 minutes
+): Promise<string[] | null> {
+  const config = await prisma.packConfig.findUnique({
+    where: { packProductId },
+    include: { guarantees: true },
+  });
+
+  if (!config) {
     return null;
   }
 
-  // Group by tier
-  const itemsByTier: Record<string, typeof availableItems> = {};
-  for (const item of availableItems) {
-    if (!itemsByTier[item.tierId]) {
-      itemsByTier[item.tierId] = [];
-    }
-    itemsByTier[item.tierId].push(item);
-  }
+  const slots = planSlots(config.guarantees, config.itemsPerPack);
 
-  // Calculate total weight (only for tiers that have items)
-  let totalWeight = 0;
-  const activeWeights: { tierId: string; weight: number }[] = [];
+  // Claimed like a draw - a conflict with another sale picks again
+  const itemIds = await retryOnClaimConflict(() =>
+    prisma.$transaction(async (tx) => {
+      const reserved: string[] = [];
 
-  for (const tw of config.tierWeights) {
-    if (itemsByTier[tw.tierId]?.length > 0) {
-      totalWeight += tw.weight;
-      activeWeights.push({ tierId: tw.tierId, weight: tw.weight });
-    }
-  }
+      for (const tierId of slots) {
+        const item = await tx.item.findFirst({
+          where: {
+            packPoolItems: {
+              some: { packProductId },
+            },
+            status: ItemStatus.AVAILABLE,
+            id: { notIn: reserved },
+            ...(tierId && { tierId }),
+          },
+          select: { id: true },
+        });
 
-  if (totalWeight === 0 || activeWeights.length === 0) {
-    // Fallback: select from any available item
-    const randomIndex = Math.floor(Math.random() * availableItems.length);
-    return availableItems[randomIndex];
-  }
+        if (!item) {
+          return null;
+        }
+        reserved.push(item.id);
+      }
 
-  // Select tier based on weighted random
-  const roll = Math.random() * totalWeight;
-  let cumulative = 0;
-  let selectedTierId: string | null = null;
+      // Reserve the items
+      const updated = await tx.item.updateMany({
+        where: { id: { in: reserved }, status: ItemStatus.AVAILABLE },
+        data: { status: ItemStatus.RESERVED },
+      });
 
-  for (const tw of activeWeights) {
-    cumulative += tw.weight;
-    if (roll < cumulative) {
-      selectedTierId = tw.tierId;
-      break;
-    }
-  }
+      if (updated.count !== reserved.length) {
+        throw new ClaimConflictError("An item was claimed by another sale");
+      }
+
+      return reserved;
+    })
+  );
 
-  // Fallback to last tier if somehow not selected
-  if (!selectedTierId) {
-    selectedTierId = activeWeights[activeWeights.length - 1].tierId;
+  if (!itemIds) {
+    return null;
   }
 
-  // Select random item from the chosen tier
-  const tierItems = itemsByTier[selectedTierId];
-  if (!tierItems || tierItems.length === 0) {
-    // Shouldn't happen, but fallback
-    const randomIndex = Math.floor(Math.random() * availableItems.length);
-    return availableItems[randomIndex];
+  // Store reservation in Redis with TTL, plus a marker per item so the
+  // reservation sweeper can tell live reservations from leaked ones
+  await redis.set(
+    `reservation:${sessionId}`,
+    JSON.stringify({ itemIds, packProductId }),
+    "EX",
+    ttlSeconds
+  );
+  for (const itemId of itemIds) {
+    await redis.set(itemReservationKey(itemId), sessionId, "EX", ttlSeconds);
   }
 
-  const randomIndex = Math.floor(Math.random() * tierItems.length);
-  return tierItems[randomIndex];
+  await invalidatePackHealth(packProductId);
+
+  return itemIds;
 }
 
 /**
- * Reserve an item temporarily during checkout
- * 
- * This prevents race conditions where multiple users
- * try to buy the last available item
+ * Redis key marking an item as held by a live reservation
  */
-export async function reserveItemForCheckout(
-  packProductId: string,
-  sessionId: string,
-  ttlSeconds: number = 300 // 5 minutes
-): Promise<string | null> {
-  const lockKey = `pack:${packProductId}:reserve`;
-
-  return withLock(lockKey, async () => {
-    // Find an available item
-    const item = await prisma.item.findFirst({
-      where: {
-        packPoolItems: {
-          some: { packProductId },
-        },
-        status: ItemStatus.AVAILABLE,
-      },
-      select: { id: true },
-    });
-
-    if (!item) {
-      return null;
-    }
-
-    // Reserve the item
-    await prisma.item.update({
-      where: { id: item.id },
-      data: { status: ItemStatus.RESERVED },
-    });
-
-    // Store reservation in Redis with TTL
-    await redis.set(
-      `reservation:${sessionId}`,
-      JSON.stringify({ itemId: item.id, packProductId }),
-      "EX",
-      ttlSeconds
-    );
+export function itemReservationKey(itemId: string): string {
+  return `reservation:item:${itemId}`;
+}
 
-    return item.id;
-  });
+async function getReservation(
+  sessionId: string
+): Promise<{ itemIds: string[]; packProductId: string } | null> {
+  const reservationData = await redis.get(`reservation:${sessionId}`);
+  return reservationData ? JSON.parse(reservationData) : null;
 }
 
 /**
- * Release a reserved item if checkout fails/expires
+ * Release reserved items if checkout fails/expires, or after the draw
  */
 export async function releaseReservation(sessionId: string): Promise<void> {
-  const reservationData = await redis.get(`reservation:${sessionId}`);
+  const reservation = await getReservation(sessionId);
   
-  if (!reservationData) {
+  if (!reservation) {
     return;
   }
 
-  const { itemId, packProductId } = JSON.parse(reservationData);
+  const { itemIds, packProductId } = reservation;
 
-  // Release the item back to available
-  await prisma.item.update({
-    where: { id: itemId },
+  // Release the items back to available - only those still reserved
+  await prisma.item.updateMany({
+    where: { id: { in: itemIds }, status: ItemStatus.RESERVED },
     data: { status: ItemStatus.AVAILABLE },
   });
 
   // Delete the reservation
   await redis.del(`reservation:${sessionId}`);
+  for (const itemId of itemIds) {
+    await redis.del(itemReservationKey(itemId));
+  }
 
   // Invalidate health cache
   await invalidatePackHealth(packProductId);
@@ -319,44 +436,116 @@ export async function releaseReservation(sessionId: string): Promise<void> {
 /**
  * Handle payment confirmed webhook
  * 
- * This is the entry point from Stripe webhooks
+ * This is the entry point from Stripe webhooks. The PENDING -> PROCESSING
+ * move is conditional, so concurrent deliveries of the same payment
+ * assign items only once; the losers get null.
  */
 export async function handlePaymentConfirmed(
-  openingId: string
-): Promise<PackOpeningResult> {
+  openingId: string,
+  stripePaymentId?: string
+): Promise<PackOpeningResult | null> {
   // Update opening to PROCESSING
-  await prisma.packOpening.update({
-    where: { id: openingId },
-    data: { 
-      status: OpeningStatus.PROCESSING,
-      paidAt: new Date(),
-    },
+  const claimed = await prisma.$transaction(async (tx) => {
+    const updated = await tx.packOpening.updateMany({
+      where: { id: openingId, status: OpeningStatus.PENDING },
+      data: { 
+        status: OpeningStatus.PROCESSING,
+        paidAt: new Date(),
+        ...(stripePaymentId && { stripePaymentId }),
+      },
+    });
+
+    if (updated.count === 0) {
+      return false;
+    }
+
+    const opening = await tx.packOpening.findUniqueOrThrow({
+      where: { id: openingId },
+      select: {
+        userId: true,
+        packProductId: true,
+        amountPaid: true,
+        packProduct: { select: { name: true } },
+      },
+    });
+
+    await recordUserActivity(tx, {
+      userId: opening.userId,
+      type: "PACK_PURCHASE",
+      entityType: "PackOpening",
+      entityId: openingId,
+      details: {
+        packProductId: opening.packProductId,
+        packName: opening.packProduct.name,
+        amountPaid: opening.amountPaid,
+        paymentMethod: "card",
+      },
+    });
+
+    return true;
   });
 
-  // Assign item
+  if (!claimed) {
+    return null;
+  }
+
+  // Assign items
   return assignItemToOpening(openingId);
 }
 
 /**
  * Handle payment failed webhook
+ *
+ * Only a PENDING opening can fail. A late or replayed failure for an
+ * opening that already completed is a no-op, so it keeps its items.
  */
 export async function handlePaymentFailed(openingId: string): Promise<void> {
-  await prisma.packOpening.update({
-    where: { id: openingId },
+  const failed = await prisma.packOpening.updateMany({
+    where: { id: openingId, status: OpeningStatus.PENDING },
     data: { status: OpeningStatus.FAILED },
   });
+
+  if (failed.count === 0) {
+    return;
+  }
+
+  await releaseReservation(openingId);
 }
 
 /**
  * Mark opening as revealed (user has seen the result)
+ *
+ * Only the opening's owner can reveal it. Revealing twice is a no-op.
+ * Returns false when the user has no completed opening with this id.
  */
-export async function markOpeningRevealed(openingId: string): Promise<void> {
-  await prisma.packOpening.update({
-    where: { id: openingId },
-    data: {
-      status: OpeningStatus.REVEALED,
-      revealedAt: new Date(),
-    },
+export async function markOpeningRevealed(
+  openingId: string,
+  userId: string
+): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    const revealed = await tx.packOpening.updateMany({
+      where: { id: openingId, userId, status: OpeningStatus.COMPLETED },
+      data: {
+        status: OpeningStatus.REVEALED,
+        revealedAt: new Date(),
+      },
+    });
+
+    if (revealed.count === 0) {
+      const alreadyRevealed = await tx.packOpening.count({
+        where: { id: openingId, userId, status: OpeningStatus.REVEALED },
+      });
+      return alreadyRevealed > 0;
+    }
+
+    await recordUserActivity(tx, {
+      userId,
+      type: "PACK_REVEAL",
+      entityType: "PackOpening",
+      entityId: openingId,
+    });
+
+    return true;
   });
 }
 
@@ -376,27 +565,32 @@ export async function getOpeningResult(
       },
     },
     include: {
-      assignment: {
+      assignments: {
         include: {
           item: {
             include: { tier: true },
           },
         },
+        orderBy: { slot: "asc" },
       },
     },
   });
 
-  if (!opening || !opening.assignment) {
+  if (!opening || opening.assignments.length === 0) {
     return null;
   }
 
+  const items = opening.assignments.map((a) => ({
+    assignmentId: a.id,
+    slot: a.slot,
+    item: a.item as ItemWithTier,
+    tier: a.item.tier,
+    estimatedValue: a.item.estimatedValue,
+  }));
+
   return {
     openingId: opening.id,
-    item: opening.assignment.item as ItemWithTier,
-    assignmentId: opening.assignment.id,
-    tier: opening.assignment.item.tier,
-    estimatedValue: opening.assignment.item.estimatedValue,
+    items,
+    totalValue: items.reduce((sum, i) => sum + i.estimatedValue, 0),
   };
 }
-
-
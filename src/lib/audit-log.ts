@@ -0,0 +1,562 @@
+import { createHmac } from "crypto";
+import prisma from "./prisma";
+import { Prisma } from "@prisma/client";
+import type { PaginatedResponse } from "@/types";
+
+/**
+ * Audit Log
+ *
+ * Every admin mutation is recorded through adminRoute. Entries form a
+ * hash chain: each entry's hash is an HMAC over its own fields and the
+ * previous entry's hash.
+ *
+ * Rules:
+ * - Entries are append-only; sequence numbers are 1-based with no gaps
+ * - Appends are serialised by the unique sequence - a writer that loses
+ *   the race re-reads the head and tries again
+ * - Verification recomputes every hash and checks the links; the head it
+ *   saw is stored so entries removed from the end are caught next run
+ * - Entries written before the chain existed have no sequence or hash
+ *   until backfillAuditChain chains them in a legacy chain of their own
+ *   (epoch 0), so the live chain (epoch 1) is never rewritten;
+ *   verification fails until then
+ *
+ * The HMAC key (AUDIT_LOG_SECRET) is outside the database, so someone with
+ * only database access cannot rewrite the chain to hide an edit. Changing
+ * the key invalidates every existing hash.
+ */
+
+const AUDIT_SECRET =
+  process.env.AUDIT_LOG_SECRET || process.env.NEXTAUTH_SECRET || "audit-secret-key";
+const MAX_APPEND_ATTEMPTS = 5;
+const VERIFY_BATCH_SIZE = 1000;
+const BACKFILL_TIMEOUT_MS = 10 * 60 * 1000;
+const LIVE_EPOCH = 1;
+const LEGACY_EPOCH = 0;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Request body keys never written to the log
+const REDACTED_KEYS = new Set([
+  "password",
+  "newpassword",
+  "token",
+  "secret",
+  "code",
+  "recoverycode",
+]);
+const MAX_LOGGED_STRING = 500;
+const MAX_LOGGED_ARRAY = 50;
+
+export interface AuditEntryInput {
+  adminId: string | null; // Null for system entries
+  action: string;
+  entityType: string;
+  entityId?: string;
+  details?: Record<string, unknown>;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// The fields an entry's hash covers
+export interface AuditHashFields {
+  epoch?: number; // Live chain when omitted
+  sequence: number;
+  adminUserId: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  details: unknown;
+  ipAddress: string | null;
+  userAgent: string | null;
+  prevHash: string | null;
+  createdAt: Date;
+}
+
+export interface AuditChainEntry extends AuditHashFields {
+  hash: string;
+}
+
+export interface AuditLogFilters {
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  adminUserId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export type AuditLogEntry = Prisma.AuditLogGetPayload<{
+  include: { adminUser: { select: { id: true; email: true; name: true } } };
+}>;
+
+export interface AuditChainBackfill {
+  entriesChained: number;
+  report: AuditVerificationReport;
+}
+
+// A pass over the stored chains, before anything is recorded
+interface AuditChainInspection {
+  problems: string[];
+  entriesChecked: number;
+  liveHead: { sequence: number; hash: string } | null;
+  legacyHead: { sequence: number; hash: string } | null;
+  unchained: number;
+}
+
+export interface AuditVerificationReport {
+  valid: boolean;
+  entriesChecked: number;
+  headSequence: number | null;
+  headHash: string | null;
+  problems: string[];
+  verifiedAt: Date;
+}
+
+/**
+ * HMAC of an entry's fields, chained to the previous entry
+ */
+export function computeAuditHash(fields: AuditHashFields): string {
+  // Listed explicitly so a stored entry (with its own hash) hashes the same
+  const payload = canonicalJson({
+    // Left out for the live chain, so its entries hash as they did
+    // before epochs existed
+    epoch: fields.epoch === undefined || fields.epoch === LIVE_EPOCH ? undefined : fields.epoch,
+    sequence: fields.sequence,
+    adminUserId: fields.adminUserId,
+    action: fields.action,
+    entityType: fields.entityType,
+    entityId: fields.entityId,
+    details: fields.details,
+    ipAddress: fields.ipAddress,
+    userAgent: fields.userAgent,
+    prevHash: fields.prevHash,
+    createdAt: fields.createdAt.toISOString(),
+  });
+
+  return createHmac("sha256", AUDIT_SECRET).update(payload).digest("hex");
+}
+
+/**
+ * Check a run of consecutive entries against each other and the entry
+ * before them
+ *
+ * Pure - the verification job feeds it one batch at a time
+ */
+export function checkAuditChain(
+  entries: AuditChainEntry[],
+  previous: { sequence: number; hash: string } | null
+): string[] {
+  const problems: string[] = [];
+  let prev = previous;
+
+  for (const entry of entries) {
+    const expectedSequence = (prev?.sequence ?? 0) + 1;
+
+    if (entry.sequence !== expectedSequence) {
+      problems.push(
+        entry.sequence === expectedSequence + 1
+          ? `Entry ${expectedSequence} is missing`
+          : `Entries ${expectedSequence}-${entry.sequence - 1} are missing`
+      );
+    } else if (entry.prevHash !== (prev?.hash ?? null)) {
+      problems.push(`Entry ${entry.sequence} does not link to entry ${expectedSequence - 1}`);
+    }
+
+    if (computeAuditHash(entry) !== entry.hash) {
+      problems.push(`Entry ${entry.sequence} has been modified`);
+    }
+
+    prev = { sequence: entry.sequence, hash: entry.hash };
+  }
+
+  return problems;
+}
+
+/**
+ * Append an entry to the chain
+ */
+export async function createAuditLog(entry: AuditEntryInput): Promise<void> {
+  // Store details the way they read back from JSON, so the hash verifies
+  const details =
+    entry.details === undefined ? null : JSON.parse(JSON.stringify(entry.details));
+
+  for (let attempt = 1; ; attempt++) {
+    const head = await prisma.auditLog.findFirst({
+      where: { epoch: LIVE_EPOCH, sequence: { not: null } },
+      orderBy: { sequence: "desc" },
+      select: { sequence: true, hash: true },
+    });
+
+    const fields: AuditHashFields = {
+      sequence: (head?.sequence ?? 0) + 1,
+      adminUserId: entry.adminId,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId ?? null,
+      details,
+      ipAddress: entry.ipAddress ?? null,
+      userAgent: entry.userAgent ?? null,
+      prevHash: head?.hash ?? null,
+      createdAt: new Date(),
+    };
+
+    try {
+      await prisma.auditLog.create({
+        data: {
+          ...fields,
+          details: details ?? Prisma.DbNull,
+          hash: computeAuditHash(fields),
+        },
+      });
+      return;
+    } catch (error) {
+      // Another entry took this sequence number - chain onto it instead
+      if (isUniqueViolation(error) && attempt < MAX_APPEND_ATTEMPTS) {
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Browse entries, newest first
+ */
+export async function listAuditLogs({
+  page = 1,
+  pageSize = DEFAULT_PAGE_SIZE,
+  ...filters
+}: AuditLogFilters & {
+  page?: number;
+  pageSize?: number;
+} = {}): Promise<PaginatedResponse<AuditLogEntry>> {
+  const take = Math.min(Math.max(1, pageSize), MAX_PAGE_SIZE);
+  const currentPage = Math.max(1, page);
+
+  const where: Prisma.AuditLogWhereInput = {
+    ...(filters.action && { action: filters.action }),
+    ...(filters.entityType && { entityType: filters.entityType }),
+    ...(filters.entityId && { entityId: filters.entityId }),
+    ...(filters.adminUserId && { adminUserId: filters.adminUserId }),
+    ...((filters.from || filters.to) && {
+      createdAt: {
+        ...(filters.from && { gte: filters.from }),
+        ...(filters.to && { lte: filters.to }),
+      },
+    }),
+  };
+
+  const [items, total] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      include: { adminUser: { select: { id: true, email: true, name: true } } },
+      orderBy: [
+        { epoch: "desc" },
+        { sequence: { sort: "desc", nulls: "last" } },
+        { createdAt: "desc" },
+      ],
+      skip: (currentPage - 1) * take,
+      take,
+    }),
+    prisma.auditLog.count({ where }),
+  ]);
+
+  return {
+    items,
+    total,
+    page: currentPage,
+    pageSize: take,
+    totalPages: Math.ceil(total / take),
+  };
+}
+
+/**
+ * Most recent verification result, if the job has run
+ */
+export async function getLatestAuditVerification() {
+  return prisma.auditVerification.findFirst({
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Verify the whole chain and record the result
+ */
+export async function verifyAuditLog(): Promise<AuditVerificationReport> {
+  const inspection = await inspectAuditChains(prisma);
+  const { problems, entriesChecked, liveHead } = inspection;
+
+  if (inspection.unchained > 0) {
+    problems.push(
+      `${inspection.unchained} entries are not chained yet - run npm run audit:backfill`
+    );
+  }
+
+  const report: AuditVerificationReport = {
+    valid: problems.length === 0,
+    entriesChecked,
+    headSequence: liveHead?.sequence ?? null,
+    headHash: liveHead?.hash ?? null,
+    problems,
+    verifiedAt: new Date(),
+  };
+
+  await prisma.auditVerification.create({
+    data: {
+      valid: report.valid,
+      entriesChecked,
+      headSequence: report.headSequence,
+      headHash: report.headHash,
+      problems,
+      createdAt: report.verifiedAt,
+    },
+  });
+
+  if (!report.valid) {
+    console.error("Audit log verification failed:", problems);
+  }
+
+  return report;
+}
+
+/**
+ * Check both stored chains without recording anything
+ *
+ * Covers every chained entry and the live head seen by the last
+ * verification; entries with no sequence are only counted
+ */
+async function inspectAuditChains(
+  client: Prisma.TransactionClient
+): Promise<AuditChainInspection> {
+  const legacy = await checkStoredChain(client, LEGACY_EPOCH);
+  const live = await checkStoredChain(client, LIVE_EPOCH);
+  const problems = [
+    ...legacy.problems.map((problem) => `Legacy chain: ${problem}`),
+    ...live.problems,
+  ];
+
+  // The head seen last time must still be in the chain, unchanged
+  const lastRun = await client.auditVerification.findFirst({
+    where: { headSequence: { not: null } },
+    orderBy: { createdAt: "desc" },
+  });
+
+  if (lastRun?.headSequence) {
+    const lastHead = await client.auditLog.findUnique({
+      where: { epoch_sequence: { epoch: LIVE_EPOCH, sequence: lastRun.headSequence } },
+      select: { hash: true },
+    });
+
+    if (!lastHead) {
+      problems.push(
+        `Entry ${lastRun.headSequence} was present at the last verification and is now missing`
+      );
+    } else if (lastHead.hash !== lastRun.headHash) {
+      problems.push(`Entry ${lastRun.headSequence} changed since the last verification`);
+    }
+  }
+
+  return {
+    problems,
+    entriesChecked: legacy.entriesChecked + live.entriesChecked,
+    liveHead: live.head,
+    legacyHead: legacy.head,
+    unchained: await client.auditLog.count({ where: { sequence: null } }),
+  };
+}
+
+/**
+ * Walk one epoch's chain in batches
+ */
+async function checkStoredChain(client: Prisma.TransactionClient, epoch: number) {
+  const problems: string[] = [];
+  let head: { sequence: number; hash: string } | null = null;
+  let entriesChecked = 0;
+
+  for (;;) {
+    const rows = await client.auditLog.findMany({
+      where: { epoch, sequence: head ? { gt: head.sequence } : { not: null } },
+      orderBy: { sequence: "asc" },
+      take: VERIFY_BATCH_SIZE,
+      select: {
+        epoch: true,
+        sequence: true,
+        adminUserId: true,
+        action: true,
+        entityType: true,
+        entityId: true,
+        details: true,
+        ipAddress: true,
+        userAgent: true,
+        prevHash: true,
+        hash: true,
+        createdAt: true,
+      },
+    });
+
+    if (rows.length === 0) {
+      break;
+    }
+
+    // Chained entries always have both a sequence and a hash
+    const batch = rows as AuditChainEntry[];
+
+    problems.push(...checkAuditChain(batch, head));
+    entriesChecked += batch.length;
+
+    const last = batch[batch.length - 1];
+    head = { sequence: last.sequence, hash: last.hash };
+  }
+
+  return { problems, entriesChecked, head };
+}
+
+/**
+ * Chain the entries written before the hash chain existed
+ *
+ * They go in the legacy chain, oldest first, after any legacy entries
+ * chained by an earlier run; the live chain is left as it is. Refused
+ * while the stored chains fail verification, and for unchained entries
+ * newer than the live chain's first entry - those can only be live
+ * entries someone unchained, and chaining them would hide the edit.
+ */
+export async function backfillAuditChain(): Promise<AuditChainBackfill> {
+  const entriesChained = await prisma.$transaction(
+    async (tx) => {
+      await tx.$executeRaw`LOCK TABLE audit_logs IN SHARE ROW EXCLUSIVE MODE`;
+
+      const inspection = await inspectAuditChains(tx);
+
+      if (inspection.problems.length > 0) {
+        throw new Error(
+          `Audit log fails verification, not backfilling: ${inspection.problems.join("; ")}`
+        );
+      }
+
+      if (inspection.unchained === 0) {
+        return 0;
+      }
+
+      const genesis = await tx.auditLog.findUnique({
+        where: { epoch_sequence: { epoch: LIVE_EPOCH, sequence: 1 } },
+        select: { createdAt: true },
+      });
+
+      if (genesis) {
+        const tampered = await tx.auditLog.count({
+          where: { sequence: null, createdAt: { gte: genesis.createdAt } },
+        });
+        if (tampered > 0) {
+          throw new Error(
+            `${tampered} unchained entries are newer than the hash chain, not backfilling`
+          );
+        }
+      }
+
+      let previous = inspection.legacyHead;
+      let chained = 0;
+
+      for (;;) {
+        const entries = await tx.auditLog.findMany({
+          where: { sequence: null },
+          orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+          take: VERIFY_BATCH_SIZE,
+          select: {
+            id: true,
+            adminUserId: true,
+            action: true,
+            entityType: true,
+            entityId: true,
+            details: true,
+            ipAddress: true,
+            userAgent: true,
+            createdAt: true,
+          },
+        });
+
+        if (entries.length === 0) {
+          break;
+        }
+
+        for (const entry of entries) {
+          const fields: AuditHashFields = {
+            ...entry,
+            epoch: LEGACY_EPOCH,
+            sequence: (previous?.sequence ?? 0) + 1,
+            prevHash: previous?.hash ?? null,
+          };
+          const hash = computeAuditHash(fields);
+
+          await tx.auditLog.update({
+            where: { id: entry.id },
+            data: {
+              epoch: LEGACY_EPOCH,
+              sequence: fields.sequence,
+              prevHash: fields.prevHash,
+              hash,
+            },
+          });
+          previous = { sequence: fields.sequence, hash };
+          chained++;
+        }
+      }
+
+      return chained;
+    },
+    { timeout: BACKFILL_TIMEOUT_MS }
+  );
+
+  return { entriesChained, report: await verifyAuditLog() };
+}
+
+/**
+ * Copy of a request body fit for the log: secrets redacted, long strings
+ * and arrays (CSV uploads, pool lists) cut down
+ */
+export function summarizeForLog(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value.length > MAX_LOGGED_STRING ? `[${value.length} characters]` : value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.length > MAX_LOGGED_ARRAY
+      ? `[${value.length} entries]`
+      : value.map(summarizeForLog);
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [
+        key,
+        REDACTED_KEYS.has(key.toLowerCase()) ? "[redacted]" : summarizeForLog(v),
+      ])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * JSON with object keys sorted, so equal values always hash the same
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+
+  return JSON.stringify(value ?? null);
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002"
+  );
+}
@@ -0,0 +1,63 @@
+import type { NextRequest } from "next/server";
+
+/**
+ * Client IP
+ *
+ * Rate limits, login lockouts and the audit log key on the caller's IP,
+ * so it must come from something the caller cannot write. Each proxy
+ * appends the address it received the request from to X-Forwarded-For;
+ * entries left of those added by our own proxies came from the client
+ * and can say anything.
+ *
+ * Rules:
+ * - The address the platform reports (request.ip) wins when present
+ * - Otherwise the client is the X-Forwarded-For entry TRUSTED_PROXY_COUNT
+ *   places from the right (default 1: the entry our proxy appended)
+ * - A header with fewer entries than trusted proxies did not come through
+ *   them and is ignored
+ * - X-Real-IP is only read when there is no X-Forwarded-For
+ * - TRUSTED_PROXY_COUNT=0 (no proxy in front) ignores both headers
+ */
+
+const TRUSTED_PROXY_COUNT = parseProxyCount(process.env.TRUSTED_PROXY_COUNT);
+
+interface HeaderSource {
+  get(name: string): string | null;
+}
+
+/**
+ * Client IP from the headers our proxies set, or null if they do not say
+ */
+export function resolveClientIp(
+  headers: HeaderSource,
+  trustedProxies = TRUSTED_PROXY_COUNT
+): string | null {
+  if (trustedProxies === 0) {
+    return null;
+  }
+
+  const forwarded = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  if (forwarded.length > 0) {
+    return forwarded.length >= trustedProxies
+      ? forwarded[forwarded.length - trustedProxies]
+      : null;
+  }
+
+  return headers.get("x-real-ip")?.trim() || null;
+}
+
+/**
+ * Client IP of a route request, or null if it cannot be trusted
+ */
+export function getClientIp(request: NextRequest): string | null {
+  return request.ip || resolveClientIp(request.headers);
+}
+
+function parseProxyCount(value: string | undefined): number {
+  const count = Number(value);
+  return value && Number.isInteger(count) && count >= 0 ? count : 1;
+}
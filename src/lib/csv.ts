@@ -0,0 +1,103 @@
+/**
+ * CSV Parsing
+ *
+ * Minimal RFC 4180 reader for admin uploads (inventory batches, price
+ * sheets). Handles quoted fields, escaped quotes ("") and newlines inside
+ * quotes. The first row is the header.
+ */
+
+export interface CsvRow {
+  // 1-based row number, the header is row 1
+  row: number;
+  values: Record<string, string>;
+}
+
+/**
+ * Split CSV text into records of raw field values
+ */
+export function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Unterminated quoted field");
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
+
+/**
+ * Parse CSV text with a header row into keyed rows
+ *
+ * Header names are trimmed and lower-cased; blank lines are skipped
+ */
+export function parseCsv(text: string): CsvRow[] {
+  const records = parseCsvRecords(text);
+  if (records.length === 0) {
+    return [];
+  }
+
+  const header = records[0].map((name) => name.trim().toLowerCase());
+  const rows: CsvRow[] = [];
+
+  for (let i = 1; i < records.length; i++) {
+    const record = records[i];
+    if (record.every((value) => value.trim() === "")) {
+      continue;
+    }
+
+    const values: Record<string, string> = {};
+    header.forEach((name, index) => {
+      values[name] = (record[index] ?? "").trim();
+    });
+
+    rows.push({ row: i + 1, values });
+  }
+
+  return rows;
+}
@@ -0,0 +1,533 @@
+import prisma from "./prisma";
+import { invalidatePackHealth, invalidatePackHealthForItem } from "./pack-health";
+import { classifyValue, type TierBand } from "./tiering";
+import { recordValuations } from "./valuation";
+import { ItemStatus, PackStatus, Prisma } from "@prisma/client";
+import type { CreateItemInput } from "@/types";
+import { z } from "zod";
+
+/**
+ * Inventory Management
+ *
+ * Admin creation, editing and retirement of items, and bulk import
+ *
+ * Rules:
+ * - SKUs are unique across all items, including retired ones
+ * - Items without a tier get the one whose value band covers them
+ * - Value changes are written to the item's price history
+ * - Only AVAILABLE items can be retired; anything reserved, assigned or
+ *   shipped belongs to a user flow
+ * - Imports are all-or-nothing: every row is validated first, and a
+ *   single bad row means nothing is written, so a corrected file can be
+ *   re-uploaded as-is
+ */
+
+export const MAX_IMPORT_ROWS = 2000;
+
+// Separator for multi-value columns (images, packs) in CSV imports
+const LIST_SEPARATOR = "|";
+
+export const itemInputSchema = z.object({
+  sku: z.string().trim().min(1, "SKU is required").max(64),
+  name: z.string().trim().min(1, "Name is required").max(200),
+  description: z.string().trim().optional(),
+  images: z.array(z.string().trim().url("Images must be URLs")).default([]),
+  tierId: z.string().min(1).optional(),
+  collection: z.string().trim().optional(),
+  category: z.string().trim().optional(),
+  condition: z.string().trim().optional(),
+  gradeInfo: z.string().trim().optional(),
+  serialNumber: z.string().trim().optional(),
+  estimatedValue: z.number().int().positive("Estimated value must be positive"),
+});
+
+export interface InventoryResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export interface ImportRowError {
+  row: number;
+  sku?: string;
+  error: string;
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  itemIds: string[];
+  errors: ImportRowError[];
+}
+
+/**
+ * One row from a CSV upload or JSON array, keys lower-cased
+ */
+export interface RawImportRow {
+  row: number;
+  values: Record<string, unknown>;
+}
+
+export interface MappedImportRow {
+  row: number;
+  input: CreateItemInput & { tierId: string };
+  packProductIds: string[];
+}
+
+/**
+ * Expected business failure - rolls back the transaction and is
+ * reported to the caller instead of being rethrown
+ */
+class InventoryError extends Error {}
+
+async function runInventoryTransaction<T>(
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<InventoryResult<T>> {
+  try {
+    const data = await prisma.$transaction(fn);
+    return { success: true, data };
+  } catch (error) {
+    if (error instanceof InventoryError) {
+      return { success: false, error: error.message };
+    }
+    if (isUniqueViolation(error)) {
+      return { success: false, error: "SKU already exists" };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create a single AVAILABLE item, optionally adding it to pack pools
+ */
+export async function createItem(
+  input: CreateItemInput,
+  packProductIds: string[] = []
+): Promise<InventoryResult<{ id: string }>> {
+  packProductIds = [...new Set(packProductIds)];
+
+  const result = await runInventoryTransaction(async (tx) => {
+    const tierId = await resolveTierId(tx, input);
+    await assertPacksAcceptItems(tx, packProductIds);
+
+    const item = await tx.item.create({
+      data: { ...input, tierId },
+      select: { id: true },
+    });
+
+    await recordValuations(tx, [
+      { itemId: item.id, valueInCents: input.estimatedValue, source: "initial" },
+    ]);
+
+    if (packProductIds.length > 0) {
+      await tx.packPoolItem.createMany({
+        data: packProductIds.map((packProductId) => ({
+          packProductId,
+          itemId: item.id,
+        })),
+      });
+    }
+
+    return item;
+  });
+
+  if (result.success) {
+    await Promise.all(packProductIds.map((id) => invalidatePackHealth(id)));
+  }
+
+  return result;
+}
+
+/**
+ * Edit an item's details
+ */
+export async function updateItem(
+  itemId: string,
+  input: CreateItemInput,
+  { adminUserId }: { adminUserId?: string } = {}
+): Promise<InventoryResult<{ id: string }>> {
+  const result = await runInventoryTransaction(async (tx) => {
+    const item = await tx.item.findUnique({
+      where: { id: itemId },
+      select: { id: true, estimatedValue: true },
+    });
+
+    if (!item) {
+      throw new InventoryError("Item not found");
+    }
+
+    const tierId = await resolveTierId(tx, input);
+
+    await tx.item.update({
+      where: { id: itemId },
+      data: {
+        ...input,
+        tierId,
+        // Clear optional fields that were removed in the form
+        description: input.description ?? null,
+        collection: input.collection ?? null,
+        category: input.category ?? null,
+        condition: input.condition ?? null,
+        gradeInfo: input.gradeInfo ?? null,
+        serialNumber: input.serialNumber ?? null,
+      },
+    });
+
+    if (input.estimatedValue !== item.estimatedValue) {
+      await recordValuations(tx, [
+        {
+          itemId,
+          valueInCents: input.estimatedValue,
+          previousValue: item.estimatedValue,
+          source: "manual",
+          adminUserId,
+        },
+      ]);
+    }
+
+    return { id: item.id };
+  });
+
+  // Tier changes move the item between guarantee buckets
+  if (result.success) {
+    await invalidatePackHealthForItem(itemId);
+  }
+
+  return result;
+}
+
+/**
+ * Withdraw an AVAILABLE item from inventory and from every pack pool
+ */
+export async function retireItem(
+  itemId: string
+): Promise<InventoryResult<{ id: string }>> {
+  const packProductIds: string[] = [];
+
+  const result = await runInventoryTransaction(async (tx) => {
+    const item = await tx.item.findUnique({
+      where: { id: itemId },
+      select: { id: true, status: true },
+    });
+
+    if (!item) {
+      throw new InventoryError("Item not found");
+    }
+
+    // Conditional so an item reserved by a checkout meanwhile is left alone
+    const updated = await tx.item.updateMany({
+      where: { id: itemId, status: ItemStatus.AVAILABLE },
+      data: { status: ItemStatus.RETIRED },
+    });
+
+    if (updated.count === 0) {
+      throw new InventoryError(`Cannot retire an item that is ${item.status}`);
+    }
+
+    const poolItems = await tx.packPoolItem.findMany({
+      where: { itemId },
+      select: { packProductId: true },
+    });
+    packProductIds.push(...poolItems.map((pi) => pi.packProductId));
+
+    await tx.packPoolItem.deleteMany({ where: { itemId } });
+
+    return { id: itemId };
+  });
+
+  if (result.success) {
+    await Promise.all(packProductIds.map((id) => invalidatePackHealth(id)));
+  }
+
+  return result;
+}
+
+/**
+ * Map one import row to item input
+ *
+ * Columns: sku, name, description, images, tier (name or id, derived from
+ * estimatedValue when blank), collection,
+ * category, condition, gradeInfo, serialNumber, estimatedValue (cents),
+ * packs (pack ids). Multi-value columns are separated by "|" in CSV or
+ * given as arrays in JSON.
+ */
+export function mapImportRow(
+  raw: RawImportRow,
+  tiers: TierBand[]
+): MappedImportRow | ImportRowError {
+  const text = (key: string) => {
+    const value = raw.values[key.toLowerCase()];
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    const trimmed = String(value).trim();
+    return trimmed === "" ? undefined : trimmed;
+  };
+  const list = (key: string) => {
+    const value = raw.values[key.toLowerCase()];
+    if (Array.isArray(value)) {
+      return value.map((v) => String(v).trim()).filter(Boolean);
+    }
+    return (text(key) ?? "")
+      .split(LIST_SEPARATOR)
+      .map((v) => v.trim())
+      .filter(Boolean);
+  };
+
+  const sku = text("sku");
+  const tierRef = text("tier") ?? text("tierId");
+  const tier = tierRef
+    ? tiers.find((t) => t.id === tierRef || t.name.toLowerCase() === tierRef.toLowerCase())
+    : undefined;
+
+  if (tierRef && !tier) {
+    return { row: raw.row, sku, error: `Unknown tier: ${tierRef}` };
+  }
+
+  const valueText = text("estimatedValue");
+  const value = valueText === undefined ? undefined : Number(valueText);
+  const parsed = itemInputSchema.safeParse({
+    sku,
+    name: text("name"),
+    description: text("description"),
+    images: list("images"),
+    tierId: tier?.id ?? (value !== undefined ? classifyValue(value, tiers)?.id : undefined),
+    collection: text("collection"),
+    category: text("category"),
+    condition: text("condition"),
+    gradeInfo: text("gradeInfo"),
+    serialNumber: text("serialNumber"),
+    estimatedValue: value,
+  });
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const field = issue.path.join(".");
+    return { row: raw.row, sku, error: field ? `${field}: ${issue.message}` : issue.message };
+  }
+
+  const { tierId } = parsed.data;
+  if (!tierId) {
+    return {
+      row: raw.row,
+      sku,
+      error: `No tier band covers a value of ${parsed.data.estimatedValue} cents`,
+    };
+  }
+
+  return {
+    row: raw.row,
+    input: { ...parsed.data, tierId },
+    packProductIds: [...new Set(list("packs"))],
+  };
+}
+
+/**
+ * Validate and import a batch of items
+ *
+ * Checks every row (fields, tier, SKU unique in the file and the
+ * database, packs exist) before writing anything
+ */
+export async function importItems({
+  rows,
+  packProductIds = [],
+  dryRun = false,
+}: {
+  rows: RawImportRow[];
+  // Added to every row's packs
+  packProductIds?: string[];
+  dryRun?: boolean;
+}): Promise<InventoryResult<ImportResult>> {
+  if (rows.length === 0) {
+    return { success: false, error: "Import has no rows" };
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return {
+      success: false,
+      error: `Import has ${rows.length} rows, the limit is ${MAX_IMPORT_ROWS}`,
+    };
+  }
+
+  const tiers = await prisma.itemTier.findMany({
+    select: { id: true, name: true, minValue: true, maxValue: true },
+  });
+  const errors: ImportRowError[] = [];
+  const mapped: MappedImportRow[] = [];
+  const seenSkus = new Map<string, number>();
+
+  for (const raw of rows) {
+    const result = mapImportRow(raw, tiers);
+    if ("error" in result) {
+      errors.push(result);
+      continue;
+    }
+
+    const firstRow = seenSkus.get(result.input.sku);
+    if (firstRow !== undefined) {
+      errors.push({
+        row: raw.row,
+        sku: result.input.sku,
+        error: `Duplicate SKU, first seen on row ${firstRow}`,
+      });
+      continue;
+    }
+    seenSkus.set(result.input.sku, raw.row);
+
+    result.packProductIds = [...new Set([...result.packProductIds, ...packProductIds])];
+    mapped.push(result);
+  }
+
+  const existing = await prisma.item.findMany({
+    where: { sku: { in: mapped.map((m) => m.input.sku) } },
+    select: { sku: true },
+  });
+  const existingSkus = new Set(existing.map((i) => i.sku));
+
+  const referencedPacks = [...new Set(mapped.flatMap((m) => m.packProductIds))];
+  const packs = await prisma.packProduct.findMany({
+    where: { id: { in: referencedPacks } },
+    select: { id: true, status: true },
+  });
+  const packStatus = new Map(packs.map((p) => [p.id, p.status]));
+
+  const valid: MappedImportRow[] = [];
+  for (const row of mapped) {
+    if (existingSkus.has(row.input.sku)) {
+      errors.push({ row: row.row, sku: row.input.sku, error: "SKU already exists" });
+      continue;
+    }
+
+    const badPack = row.packProductIds.find(
+      (id) => !packStatus.has(id) || packStatus.get(id) === PackStatus.RETIRED
+    );
+    if (badPack) {
+      errors.push({
+        row: row.row,
+        sku: row.input.sku,
+        error: packStatus.has(badPack)
+          ? `Pack ${badPack} is retired`
+          : `Unknown pack: ${badPack}`,
+      });
+      continue;
+    }
+
+    valid.push(row);
+  }
+
+  errors.sort((a, b) => a.row - b.row);
+
+  if (dryRun || errors.length > 0) {
+    return {
+      success: true,
+      data: { dryRun, total: rows.length, created: 0, itemIds: [], errors },
+    };
+  }
+
+  const result = await runInventoryTransaction(async (tx) => {
+    const created = await tx.item.createManyAndReturn({
+      data: valid.map((row) => row.input),
+      select: { id: true, sku: true },
+    });
+    const idBySku = new Map(created.map((item) => [item.sku, item.id]));
+
+    const poolLinks = valid.flatMap((row) =>
+      row.packProductIds.map((packProductId) => ({
+        packProductId,
+        itemId: idBySku.get(row.input.sku)!,
+      }))
+    );
+
+    if (poolLinks.length > 0) {
+      await tx.packPoolItem.createMany({ data: poolLinks });
+    }
+
+    await recordValuations(
+      tx,
+      valid.map((row) => ({
+        itemId: idBySku.get(row.input.sku)!,
+        valueInCents: row.input.estimatedValue,
+        source: "initial",
+      }))
+    );
+
+    return created.map((item) => item.id);
+  });
+
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error };
+  }
+
+  // Restocked pools - adding items within a tier does not change tier odds
+  await Promise.all(referencedPacks.map((id) => invalidatePackHealth(id)));
+
+  return {
+    success: true,
+    data: {
+      dryRun: false,
+      total: rows.length,
+      created: result.data.length,
+      itemIds: result.data,
+      errors: [],
+    },
+  };
+}
+
+/**
+ * The given tier if it exists, otherwise the tier whose band covers the
+ * item's value
+ */
+async function resolveTierId(
+  tx: Prisma.TransactionClient,
+  input: CreateItemInput
+): Promise<string> {
+  if (input.tierId) {
+    const tier = await tx.itemTier.findUnique({
+      where: { id: input.tierId },
+      select: { id: true },
+    });
+
+    if (!tier) {
+      throw new InventoryError("Unknown tier");
+    }
+    return tier.id;
+  }
+
+  const tiers = await tx.itemTier.findMany({
+    select: { id: true, name: true, minValue: true, maxValue: true },
+  });
+  const tier = classifyValue(input.estimatedValue, tiers);
+
+  if (!tier) {
+    throw new InventoryError(`No tier band covers a value of ${input.estimatedValue} cents`);
+  }
+  return tier.id;
+}
+
+async function assertPacksAcceptItems(
+  tx: Prisma.TransactionClient,
+  packProductIds: string[]
+): Promise<void> {
+  if (packProductIds.length === 0) {
+    return;
+  }
+
+  const count = await tx.packProduct.count({
+    where: {
+      id: { in: packProductIds },
+      status: { not: PackStatus.RETIRED },
+    },
+  });
+
+  if (count !== new Set(packProductIds).size) {
+    throw new InventoryError("Unknown or retired pack");
+  }
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2002"
+  );
+}
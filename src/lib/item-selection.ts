@@ -0,0 +1,285 @@
+/**
+ * Item Selection Core
+ *
+ * Pure weighted selection shared by the assignment engine and the
+ * fairness verifier. Randomness is passed in as rolls in [0, 1), so the
+ * same rolls against the same pool always select the same item.
+ *
+ * Rules:
+ * 1. Only tiers with weight > 0 AND at least one available item take part;
+ *    weights are renormalised over those tiers
+ * 2. The tier roll picks a tier by cumulative weight
+ * 3. The item roll picks an item within the tier, items ordered by id
+ * 4. If no weighted tier has items, the item roll picks from the whole pool
+ *
+ * A pack of N items is drawn slot by slot: guaranteed tiers fill the first
+ * slots (minCount each), weighted selection fills the rest. An item drawn
+ * for one slot is removed from the pool before the next slot.
+ */
+
+export interface PoolItem {
+  id: string;
+  tierId: string;
+  estimatedValue: number;
+}
+
+export interface TierWeightInput {
+  tierId: string;
+  weight: number;
+}
+
+export interface SelectionRolls {
+  tierRoll: number;
+  itemRoll: number;
+}
+
+export interface GuaranteeInput {
+  tierId: string;
+  minCount: number;
+}
+
+export interface SelectionOutcome<T extends PoolItem = PoolItem> {
+  item: T;
+  selectedTierId: string | null;
+  activeWeights: TierWeightInput[];
+  candidateCount: number;
+  candidateIds: string[]; // The items the roll picked from, in order
+  itemIndex: number;
+}
+
+export interface SlotSelection<T extends PoolItem = PoolItem> extends SelectionOutcome<T> {
+  slot: number;
+  guaranteed: boolean;
+  rolls: SelectionRolls;
+}
+
+/**
+ * Group items by tier, each group ordered by item id
+ */
+export function groupItemsByTier<T extends PoolItem>(
+  items: T[]
+): Record<string, T[]> {
+  const itemsByTier: Record<string, T[]> = {};
+
+  for (const item of items) {
+    if (!itemsByTier[item.tierId]) {
+      itemsByTier[item.tierId] = [];
+    }
+    itemsByTier[item.tierId].push(item);
+  }
+
+  for (const tierItems of Object.values(itemsByTier)) {
+    tierItems.sort(compareById);
+  }
+
+  return itemsByTier;
+}
+
+/**
+ * Weighted tiers that can actually produce an item
+ */
+export function getActiveTierWeights(
+  tierWeights: TierWeightInput[],
+  itemsByTier: Record<string, PoolItem[]>
+): TierWeightInput[] {
+  return tierWeights
+    .filter((tw) => tw.weight > 0 && itemsByTier[tw.tierId]?.length > 0)
+    .map((tw) => ({ tierId: tw.tierId, weight: tw.weight }));
+}
+
+/**
+ * Pick a tier by cumulative weight
+ */
+export function pickWeightedTier(
+  activeWeights: TierWeightInput[],
+  roll: number
+): string {
+  const totalWeight = activeWeights.reduce((sum, tw) => sum + tw.weight, 0);
+  const target = roll * totalWeight;
+  let cumulative = 0;
+
+  for (const tw of activeWeights) {
+    cumulative += tw.weight;
+    if (target < cumulative) {
+      return tw.tierId;
+    }
+  }
+
+  // Floating point edge - fall back to the last tier
+  return activeWeights[activeWeights.length - 1].tierId;
+}
+
+/**
+ * Pick an index in [0, count) from a roll
+ */
+export function pickIndex(count: number, roll: number): number {
+  return Math.min(Math.floor(roll * count), count - 1);
+}
+
+/**
+ * Select one item from a grouped pool
+ *
+ * Returns null when the pool is empty
+ */
+export function selectItem<T extends PoolItem>(
+  itemsByTier: Record<string, T[]>,
+  tierWeights: TierWeightInput[],
+  rolls: SelectionRolls
+): SelectionOutcome<T> | null {
+  const activeWeights = getActiveTierWeights(tierWeights, itemsByTier);
+
+  if (activeWeights.length === 0) {
+    // Fallback: select from any available item
+    const allItems = Object.values(itemsByTier).flat().sort(compareById);
+    if (allItems.length === 0) {
+      return null;
+    }
+
+    const itemIndex = pickIndex(allItems.length, rolls.itemRoll);
+    return {
+      item: allItems[itemIndex],
+      selectedTierId: null,
+      activeWeights,
+      candidateCount: allItems.length,
+      candidateIds: allItems.map((item) => item.id),
+      itemIndex,
+    };
+  }
+
+  const selectedTierId = pickWeightedTier(activeWeights, rolls.tierRoll);
+  const tierItems = itemsByTier[selectedTierId];
+  const itemIndex = pickIndex(tierItems.length, rolls.itemRoll);
+
+  return {
+    item: tierItems[itemIndex],
+    selectedTierId,
+    activeWeights,
+    candidateCount: tierItems.length,
+    candidateIds: tierItems.map((item) => item.id),
+    itemIndex,
+  };
+}
+
+/**
+ * Lay out the slots of one pack
+ *
+ * Returns the guaranteed tier for each slot, or null for a weighted slot
+ */
+export function planSlots(
+  guarantees: GuaranteeInput[],
+  itemsPerPack: number
+): (string | null)[] {
+  const guaranteedSlots = guarantees.flatMap((g) =>
+    Array<string>(Math.max(g.minCount, 0)).fill(g.tierId)
+  );
+
+  if (guaranteedSlots.length > itemsPerPack) {
+    throw new Error(
+      `Guarantees require ${guaranteedSlots.length} items but the pack holds ${itemsPerPack}`
+    );
+  }
+
+  return [
+    ...guaranteedSlots,
+    ...Array<null>(itemsPerPack - guaranteedSlots.length).fill(null),
+  ];
+}
+
+/**
+ * Draw every slot of one pack from the available pool
+ *
+ * Throws when the pool cannot fill a slot - callers should have checked
+ * pack health first
+ */
+export function selectPackItems<T extends PoolItem>(
+  items: T[],
+  config: {
+    itemsPerPack: number;
+    guarantees: GuaranteeInput[];
+    tierWeights: TierWeightInput[];
+  },
+  rollsForSlot: (slot: number) => SelectionRolls
+): SlotSelection<T>[] {
+  return drawPackItems(groupItemsByTier(items), config, rollsForSlot);
+}
+
+/**
+ * Draw every slot of one pack from an already grouped pool
+ *
+ * Drawn items are removed from itemsByTier, so repeated calls deplete the
+ * pool across packs. Throws like selectPackItems.
+ */
+export function drawPackItems<T extends PoolItem>(
+  itemsByTier: Record<string, T[]>,
+  config: {
+    itemsPerPack: number;
+    guarantees: GuaranteeInput[];
+    tierWeights: TierWeightInput[];
+  },
+  rollsForSlot: (slot: number) => SelectionRolls
+): SlotSelection<T>[] {
+  const slots = planSlots(config.guarantees, config.itemsPerPack);
+  const selections: SlotSelection<T>[] = [];
+
+  slots.forEach((guaranteedTierId, slot) => {
+    const rolls = rollsForSlot(slot);
+    let outcome: SelectionOutcome<T> | null;
+
+    if (guaranteedTierId) {
+      const tierItems = itemsByTier[guaranteedTierId] ?? [];
+      if (tierItems.length === 0) {
+        throw new Error(`Not enough items in tier ${guaranteedTierId} to fill guarantee`);
+      }
+      // Single-tier draw so the proof replays with the generic verifier
+      outcome = selectItem(
+        { [guaranteedTierId]: tierItems },
+        [{ tierId: guaranteedTierId, weight: 1 }],
+        rolls
+      );
+    } else {
+      outcome = selectItem(itemsByTier, config.tierWeights, rolls);
+    }
+
+    if (!outcome) {
+      throw new Error("No available items in pack pool");
+    }
+
+    // Drawn items leave the pool for the remaining slots
+    const tierItems = itemsByTier[outcome.item.tierId];
+    tierItems.splice(tierItems.indexOf(outcome.item), 1);
+
+    selections.push({ ...outcome, slot, guaranteed: guaranteedTierId !== null, rolls });
+  });
+
+  return selections;
+}
+
+/**
+ * Put items drawn by drawPackItems back into the pool they came from
+ *
+ * Each goes back to its place in id order, so the pool is as it was
+ * before the draw. Cheaper than drawing from a copy of a large pool.
+ */
+export function returnDrawnItems<T extends PoolItem>(
+  itemsByTier: Record<string, T[]>,
+  selections: SlotSelection<T>[]
+): void {
+  for (const { item } of selections) {
+    const tierItems = (itemsByTier[item.tierId] ??= []);
+    let low = 0;
+    let high = tierItems.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (compareById(tierItems[mid], item) < 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    tierItems.splice(low, 0, item);
+  }
+}
+
+function compareById(a: { id: string }, b: { id: string }): number {
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
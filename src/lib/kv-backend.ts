@@ -0,0 +1,420 @@
+import type Redis from "ioredis";
+
+/**
+ * Key-Value Backends
+ *
+ * The storage behind redis.ts: caching, counters, token buckets, locks
+ * and fencing tokens. Two implementations - Redis for anything with more
+ * than one process, and an in-process Map for local development and
+ * tests. KV_BACKEND picks one; unset, it is redis when REDIS_URL is set
+ * and memory otherwise, except in production, which refuses to start
+ * with neither KV_BACKEND nor REDIS_URL set.
+ *
+ * Rules both backends follow (the contract tests hold them to it):
+ * - An expired key is gone: reads miss, NX writes succeed, deletes
+ *   report nothing deleted
+ * - A set without a TTL keeps the key until deleted, clearing any TTL
+ *   it had
+ * - Every operation other than get/set/delete is atomic, so concurrent
+ *   callers never see each other's half-done updates
+ * - Values are strings; callers serialise
+ */
+
+export interface SetOptions {
+  ttlMs?: number;
+  nx?: boolean; // Only set if the key does not exist
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number; // ms
+}
+
+export interface TokenBucketResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+export interface KeyValueBackend {
+  // Whether other processes see the same keys
+  readonly shared: boolean;
+
+  get(key: string): Promise<string | null>;
+  // False when nx is set and the key exists
+  set(key: string, value: string, options?: SetOptions): Promise<boolean>;
+  // False when there was nothing to delete
+  delete(key: string): Promise<boolean>;
+
+  // Add to a counter that never drops below zero, restarting its TTL
+  incrementCounter(key: string, delta: number, ttlMs: number): Promise<number>;
+  // Take one token from a bucket (see applyTokenBucket)
+  takeToken(key: string, capacity: number, windowMs: number): Promise<TokenBucketResult>;
+
+  // Take a free lock and return the next fencing token, or null if held
+  acquireLock(key: string, fenceKey: string, owner: string, ttlMs: number): Promise<number | null>;
+  extendLock(key: string, owner: string, ttlMs: number): Promise<boolean>;
+  releaseLock(key: string, owner: string): Promise<boolean>;
+  // Record a token unless a higher one has been recorded
+  acceptFencingToken(key: string, token: number): Promise<boolean>;
+
+  close(): Promise<void>;
+}
+
+export type KeyValueConfig =
+  | { backend: "memory" }
+  | { backend: "redis"; url: string };
+
+/**
+ * Read the backend choice from the environment
+ *
+ * KV_BACKEND is "memory" or "redis", which needs REDIS_URL. Unset, it is
+ * redis when REDIS_URL is set and memory otherwise - except in
+ * production, which must not fall back to per-process state silently.
+ */
+export function resolveKeyValueConfig(
+  env: Record<string, string | undefined> = process.env
+): KeyValueConfig {
+  const backend = env.KV_BACKEND || (env.REDIS_URL ? "redis" : defaultBackend(env));
+
+  if (backend === "memory") {
+    return { backend };
+  }
+
+  if (backend === "redis") {
+    if (!env.REDIS_URL) {
+      throw new Error("KV_BACKEND=redis requires REDIS_URL");
+    }
+    return { backend, url: env.REDIS_URL };
+  }
+
+  throw new Error(`Unknown KV_BACKEND: ${backend}`);
+}
+
+function defaultBackend(env: Record<string, string | undefined>): "memory" {
+  if (env.NODE_ENV === "production") {
+    throw new Error("Set REDIS_URL, or KV_BACKEND=memory to run on one process");
+  }
+  return "memory";
+}
+
+export function createKeyValueBackend(config: KeyValueConfig): KeyValueBackend {
+  return config.backend === "redis" ? new RedisBackend(config.url) : new MemoryBackend();
+}
+
+/**
+ * Token bucket step
+ *
+ * The bucket holds up to capacity tokens and refills evenly, capacity per
+ * window. A request takes one token; with none left it is refused and
+ * told how long until the next token. A missing bucket is full.
+ *
+ * TOKEN_BUCKET_SCRIPT runs the same arithmetic inside Redis.
+ */
+export function applyTokenBucket(
+  state: TokenBucketState | null,
+  now: number,
+  capacity: number,
+  windowMs: number
+): { state: TokenBucketState; result: TokenBucketResult } {
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  let tokens = state
+    ? Math.min(capacity, state.tokens + (elapsed * capacity) / windowMs)
+    : capacity;
+
+  let allowed = false;
+  let retryAfterMs = 0;
+
+  if (tokens >= 1) {
+    tokens -= 1;
+    allowed = true;
+  } else {
+    retryAfterMs = Math.ceil(((1 - tokens) * windowMs) / capacity);
+  }
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: { allowed, remaining: Math.floor(tokens), retryAfterMs },
+  };
+}
+
+const MEMORY_SWEEP_SIZE = 10000;
+
+/**
+ * In-process backend
+ *
+ * Expiry is checked on read. Nothing awaits between a read and its
+ * write, which is what makes each operation atomic here.
+ */
+export class MemoryBackend implements KeyValueBackend {
+  readonly shared = false;
+  private entries = new Map<string, { value: string; expiresAt: number | null }>();
+
+  async get(key: string): Promise<string | null> {
+    return this.read(key);
+  }
+
+  async set(key: string, value: string, options: SetOptions = {}): Promise<boolean> {
+    if (options.nx && this.read(key) !== null) {
+      return false;
+    }
+    this.write(key, value, options.ttlMs);
+    return true;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const existed = this.read(key) !== null;
+    this.entries.delete(key);
+    return existed;
+  }
+
+  async incrementCounter(key: string, delta: number, ttlMs: number): Promise<number> {
+    const value = Math.max(0, Number(this.read(key) ?? 0) + delta);
+    this.write(key, String(value), ttlMs);
+    return value;
+  }
+
+  async takeToken(key: string, capacity: number, windowMs: number): Promise<TokenBucketResult> {
+    const stored = this.read(key);
+    const { state, result } = applyTokenBucket(
+      stored ? (JSON.parse(stored) as TokenBucketState) : null,
+      Date.now(),
+      capacity,
+      windowMs
+    );
+    // An idle bucket refills completely within one window - drop it then
+    this.write(key, JSON.stringify(state), windowMs);
+    return result;
+  }
+
+  async acquireLock(
+    key: string,
+    fenceKey: string,
+    owner: string,
+    ttlMs: number
+  ): Promise<number | null> {
+    if (this.read(key) !== null) {
+      return null;
+    }
+    this.write(key, owner, ttlMs);
+    const token = Number(this.read(fenceKey) ?? 0) + 1;
+    this.write(fenceKey, String(token));
+    return token;
+  }
+
+  async extendLock(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    if (this.read(key) !== owner) {
+      return false;
+    }
+    this.write(key, owner, ttlMs);
+    return true;
+  }
+
+  async releaseLock(key: string, owner: string): Promise<boolean> {
+    if (this.read(key) !== owner) {
+      return false;
+    }
+    this.entries.delete(key);
+    return true;
+  }
+
+  async acceptFencingToken(key: string, token: number): Promise<boolean> {
+    if (token < Number(this.read(key) ?? 0)) {
+      return false;
+    }
+    this.write(key, String(token));
+    return true;
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+  }
+
+  private read(key: string): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  private write(key: string, value: string, ttlMs?: number): void {
+    if (this.entries.size >= MEMORY_SWEEP_SIZE && !this.entries.has(key)) {
+      const now = Date.now();
+      for (const [entryKey, entry] of this.entries) {
+        if (entry.expiresAt !== null && entry.expiresAt <= now) this.entries.delete(entryKey);
+      }
+    }
+    this.entries.set(key, {
+      value,
+      expiresAt: ttlMs === undefined ? null : Date.now() + ttlMs,
+    });
+  }
+}
+
+// Atomic add that never goes below zero, restarting the TTL
+const INCREMENT_COUNTER_SCRIPT = `
+  local value = redis.call("INCRBY", KEYS[1], ARGV[1])
+  if value < 0 then
+    redis.call("SET", KEYS[1], 0)
+    value = 0
+  end
+  redis.call("PEXPIRE", KEYS[1], ARGV[2])
+  return value
+`;
+
+// Atomic token bucket on a hash; uses the Redis clock so app servers with
+// drifting clocks share one notion of time
+const TOKEN_BUCKET_SCRIPT = `
+  local capacity = tonumber(ARGV[1])
+  local window_ms = tonumber(ARGV[2])
+  local time = redis.call("TIME")
+  local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+  local state = redis.call("HMGET", KEYS[1], "tokens", "updatedAt")
+  local tokens = tonumber(state[1])
+  local updated_at = tonumber(state[2])
+
+  if tokens == nil or updated_at == nil then
+    tokens = capacity
+  else
+    tokens = math.min(capacity, tokens + math.max(0, now - updated_at) * capacity / window_ms)
+  end
+
+  local allowed = 0
+  local retry_after_ms = 0
+  if tokens >= 1 then
+    tokens = tokens - 1
+    allowed = 1
+  else
+    retry_after_ms = math.ceil((1 - tokens) * window_ms / capacity)
+  end
+
+  redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "updatedAt", tostring(now))
+  redis.call("PEXPIRE", KEYS[1], window_ms)
+  return { allowed, math.floor(tokens), retry_after_ms }
+`;
+
+// Take the lock and, only if it was free, issue the next fencing token
+const ACQUIRE_LOCK_SCRIPT = `
+  if redis.call("SET", KEYS[1], ARGV[1], "PX", ARGV[2], "NX") then
+    return redis.call("INCR", KEYS[2])
+  end
+  return 0
+`;
+
+const EXTEND_LOCK_SCRIPT = `
+  if redis.call("GET", KEYS[1]) == ARGV[1] then
+    return redis.call("PEXPIRE", KEYS[1], ARGV[2])
+  end
+  return 0
+`;
+
+const RELEASE_LOCK_SCRIPT = `
+  if redis.call("GET", KEYS[1]) == ARGV[1] then
+    return redis.call("DEL", KEYS[1])
+  end
+  return 0
+`;
+
+const ACCEPT_FENCING_TOKEN_SCRIPT = `
+  local highest = tonumber(redis.call("GET", KEYS[1]) or "0")
+  if tonumber(ARGV[1]) < highest then
+    return 0
+  end
+  redis.call("SET", KEYS[1], ARGV[1])
+  return 1
+`;
+
+/**
+ * Redis backend over ioredis
+ *
+ * Compound operations are Lua scripts, so each runs atomically on the
+ * server. The client connects on first use.
+ */
+export class RedisBackend implements KeyValueBackend {
+  readonly shared = true;
+  private client: Promise<Redis> | null = null;
+
+  constructor(private url: string) {}
+
+  async get(key: string): Promise<string | null> {
+    return (await this.connect()).get(key);
+  }
+
+  async set(key: string, value: string, options: SetOptions = {}): Promise<boolean> {
+    const args: (string | number)[] = [key, value];
+    if (options.ttlMs !== undefined) args.push("PX", options.ttlMs);
+    if (options.nx) args.push("NX");
+
+    return (await (await this.connect()).call("SET", ...args)) === "OK";
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return (await (await this.connect()).del(key)) > 0;
+  }
+
+  async incrementCounter(key: string, delta: number, ttlMs: number): Promise<number> {
+    return (await this.eval(INCREMENT_COUNTER_SCRIPT, [key], [delta, ttlMs])) as number;
+  }
+
+  async takeToken(key: string, capacity: number, windowMs: number): Promise<TokenBucketResult> {
+    const [allowed, remaining, retryAfterMs] = (await this.eval(
+      TOKEN_BUCKET_SCRIPT,
+      [key],
+      [capacity, windowMs]
+    )) as [number, number, number];
+
+    return { allowed: allowed === 1, remaining, retryAfterMs };
+  }
+
+  async acquireLock(
+    key: string,
+    fenceKey: string,
+    owner: string,
+    ttlMs: number
+  ): Promise<number | null> {
+    const token = (await this.eval(ACQUIRE_LOCK_SCRIPT, [key, fenceKey], [owner, ttlMs])) as number;
+    return token === 0 ? null : token;
+  }
+
+  async extendLock(key: string, owner: string, ttlMs: number): Promise<boolean> {
+    return (await this.eval(EXTEND_LOCK_SCRIPT, [key], [owner, ttlMs])) === 1;
+  }
+
+  async releaseLock(key: string, owner: string): Promise<boolean> {
+    return (await this.eval(RELEASE_LOCK_SCRIPT, [key], [owner])) === 1;
+  }
+
+  async acceptFencingToken(key: string, token: number): Promise<boolean> {
+    return (await this.eval(ACCEPT_FENCING_TOKEN_SCRIPT, [key], [token])) === 1;
+  }
+
+  async close(): Promise<void> {
+    if (this.client) {
+      await (await this.client).quit();
+      this.client = null;
+    }
+  }
+
+  private async eval(script: string, keys: string[], args: (string | number)[]): Promise<unknown> {
+    return (await this.connect()).eval(script, keys.length, ...keys, ...args);
+  }
+
+  private connect(): Promise<Redis> {
+    if (!this.client) {
+      this.client = import("ioredis").then(
+        ({ default: RedisClient }) =>
+          new RedisClient(this.url, {
+            maxRetriesPerRequest: 3,
+            enableReadyCheck: true,
+            connectTimeout: 10000,
+            lazyConnect: true,
+          })
+      );
+    }
+    return this.client;
+  }
+}
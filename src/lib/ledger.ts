@@ -0,0 +1,327 @@
+import prisma from "./prisma";
+import { LedgerAccount, LedgerEntryType, Prisma } from "@prisma/client";
+
+/**
+ * Balance Ledger
+ *
+ * Every change to User.balanceCents goes through this module so there is
+ * a record of why the money moved.
+ *
+ * Double-entry rules:
+ * - Each movement is one ledger transaction of two or more legs
+ * - The legs of a transaction always sum to zero
+ * - USER_BALANCE legs carry the userId and the balance after the change
+ * - The other leg is the platform account the money came from or went to
+ *
+ * Postings take a transaction client and must be called inside the same
+ * prisma.$transaction as the business change they pay for.
+ */
+
+type UserPostingType = Exclude<LedgerEntryType, "MARKETPLACE_SALE">;
+
+// Platform account on the other side of a user balance change
+const CONTRA_ACCOUNTS: Record<UserPostingType, LedgerAccount> = {
+  DEPOSIT: LedgerAccount.DEPOSITS,
+  PACK_PURCHASE: LedgerAccount.PACK_REVENUE,
+  BUYBACK_CREDIT: LedgerAccount.BUYBACK_EXPENSE,
+  REFUND: LedgerAccount.REFUNDS,
+  ADMIN_ADJUSTMENT: LedgerAccount.ADJUSTMENTS,
+};
+
+interface PostingReference {
+  referenceType?: string;
+  referenceId?: string;
+  description?: string;
+}
+
+/**
+ * Thrown when a debit would take a balance below zero
+ */
+export class InsufficientBalanceError extends Error {
+  constructor(public readonly requiredCents: number) {
+    super(`Insufficient balance. Need $${(requiredCents / 100).toFixed(2)}`);
+  }
+}
+
+/**
+ * Apply a signed amount to a user's balance, never going below zero
+ *
+ * Returns the balance after the change
+ */
+async function applyToBalance(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  amountCents: number
+): Promise<number> {
+  if (amountCents < 0) {
+    const debited = await tx.user.updateMany({
+      where: { id: userId, balanceCents: { gte: -amountCents } },
+      data: { balanceCents: { increment: amountCents } },
+    });
+
+    if (debited.count === 0) {
+      throw new InsufficientBalanceError(-amountCents);
+    }
+
+    const user = await tx.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { balanceCents: true },
+    });
+    return user.balanceCents;
+  }
+
+  const user = await tx.user.update({
+    where: { id: userId },
+    data: { balanceCents: { increment: amountCents } },
+    select: { balanceCents: true },
+  });
+  return user.balanceCents;
+}
+
+/**
+ * Credit or debit a user's balance against a platform account
+ *
+ * Positive amounts credit the user, negative amounts debit them
+ */
+export async function postBalanceChange(
+  tx: Prisma.TransactionClient,
+  {
+    userId,
+    amountCents,
+    type,
+    ...reference
+  }: {
+    userId: string;
+    amountCents: number;
+    type: UserPostingType;
+  } & PostingReference
+): Promise<number> {
+  if (!Number.isInteger(amountCents) || amountCents === 0) {
+    throw new Error(`Invalid ledger amount: ${amountCents}`);
+  }
+
+  const balanceAfter = await applyToBalance(tx, userId, amountCents);
+  const transactionId = crypto.randomUUID();
+
+  await tx.ledgerEntry.createMany({
+    data: [
+      {
+        transactionId,
+        type,
+        account: LedgerAccount.USER_BALANCE,
+        userId,
+        amountCents,
+        balanceAfter,
+        ...reference,
+      },
+      {
+        transactionId,
+        type,
+        account: CONTRA_ACCOUNTS[type],
+        amountCents: -amountCents,
+        ...reference,
+      },
+    ],
+  });
+
+  return balanceAfter;
+}
+
+/**
+ * Move funds from one user's balance to another's
+ */
+export async function postTransfer(
+  tx: Prisma.TransactionClient,
+  {
+    fromUserId,
+    toUserId,
+    amountCents,
+    type,
+    ...reference
+  }: {
+    fromUserId: string;
+    toUserId: string;
+    amountCents: number;
+    type: LedgerEntryType;
+  } & PostingReference
+): Promise<void> {
+  if (!Number.isInteger(amountCents) || amountCents <= 0) {
+    throw new Error(`Invalid transfer amount: ${amountCents}`);
+  }
+
+  const fromBalance = await applyToBalance(tx, fromUserId, -amountCents);
+  const toBalance = await applyToBalance(tx, toUserId, amountCents);
+  const transactionId = crypto.randomUUID();
+
+  await tx.ledgerEntry.createMany({
+    data: [
+      {
+        transactionId,
+        type,
+        account: LedgerAccount.USER_BALANCE,
+        userId: fromUserId,
+        amountCents: -amountCents,
+        balanceAfter: fromBalance,
+        ...reference,
+      },
+      {
+        transactionId,
+        type,
+        account: LedgerAccount.USER_BALANCE,
+        userId: toUserId,
+        amountCents,
+        balanceAfter: toBalance,
+        ...reference,
+      },
+    ],
+  });
+}
+
+export interface OpeningBalanceBackfill {
+  checkedUsers: number;
+  backfilled: { userId: string; amountCents: number }[];
+}
+
+/**
+ * Post an opening deposit for every balance that predates the ledger
+ *
+ * Users with a balance but no USER_BALANCE legs get one DEPOSIT for the
+ * whole balance, so reconciliation starts from zero differences. Users
+ * with any ledger history are left alone - a gap there is a real
+ * mismatch. Safe to run again.
+ */
+export async function backfillOpeningBalances(): Promise<OpeningBalanceBackfill> {
+  const users = await prisma.user.findMany({
+    where: {
+      balanceCents: { not: 0 },
+      ledgerEntries: { none: { account: LedgerAccount.USER_BALANCE } },
+    },
+    select: { id: true },
+  });
+
+  const backfilled: OpeningBalanceBackfill["backfilled"] = [];
+
+  for (const { id: userId } of users) {
+    const amountCents = await prisma.$transaction(async (tx) => {
+      // Lock the user so a posting cannot land between the check and
+      // the opening entry
+      await tx.$queryRaw`SELECT id FROM users WHERE id = ${userId} FOR UPDATE`;
+
+      const [user, legs] = await Promise.all([
+        tx.user.findUniqueOrThrow({
+          where: { id: userId },
+          select: { balanceCents: true },
+        }),
+        tx.ledgerEntry.count({
+          where: { userId, account: LedgerAccount.USER_BALANCE },
+        }),
+      ]);
+
+      if (legs > 0 || user.balanceCents === 0) {
+        return null;
+      }
+
+      const transactionId = crypto.randomUUID();
+      const reference = {
+        referenceType: "OpeningBalance",
+        referenceId: userId,
+        description: "Opening balance",
+      };
+
+      await tx.ledgerEntry.createMany({
+        data: [
+          {
+            transactionId,
+            type: LedgerEntryType.DEPOSIT,
+            account: LedgerAccount.USER_BALANCE,
+            userId,
+            amountCents: user.balanceCents,
+            balanceAfter: user.balanceCents,
+            ...reference,
+          },
+          {
+            transactionId,
+            type: LedgerEntryType.DEPOSIT,
+            account: CONTRA_ACCOUNTS.DEPOSIT,
+            amountCents: -user.balanceCents,
+            ...reference,
+          },
+        ],
+      });
+
+      return user.balanceCents;
+    });
+
+    if (amountCents !== null) {
+      backfilled.push({ userId, amountCents });
+    }
+  }
+
+  return { checkedUsers: users.length, backfilled };
+}
+
+export interface BalanceMismatch {
+  userId: string;
+  email: string;
+  balanceCents: number;
+  ledgerCents: number;
+  differenceCents: number;
+}
+
+export interface ReconciliationReport {
+  checkedUsers: number;
+  mismatches: BalanceMismatch[];
+  unbalancedTransactions: { transactionId: string; sumCents: number }[];
+  reconciledAt: Date;
+}
+
+/**
+ * Check every user's balance against the sum of their ledger entries
+ *
+ * Also flags ledger transactions whose legs do not sum to zero
+ */
+export async function reconcileBalances(): Promise<ReconciliationReport> {
+  const [users, ledgerSums, unbalanced] = await Promise.all([
+    prisma.user.findMany({
+      select: { id: true, email: true, balanceCents: true },
+    }),
+    prisma.ledgerEntry.groupBy({
+      by: ["userId"],
+      where: { account: LedgerAccount.USER_BALANCE },
+      _sum: { amountCents: true },
+    }),
+    prisma.ledgerEntry.groupBy({
+      by: ["transactionId"],
+      _sum: { amountCents: true },
+      having: { amountCents: { _sum: { not: 0 } } },
+    }),
+  ]);
+
+  const ledgerByUser = new Map(
+    ledgerSums.map((s) => [s.userId, s._sum.amountCents ?? 0])
+  );
+
+  const mismatches: BalanceMismatch[] = [];
+  for (const user of users) {
+    const ledgerCents = ledgerByUser.get(user.id) ?? 0;
+    if (ledgerCents !== user.balanceCents) {
+      mismatches.push({
+        userId: user.id,
+        email: user.email,
+        balanceCents: user.balanceCents,
+        ledgerCents,
+        differenceCents: user.balanceCents - ledgerCents,
+      });
+    }
+  }
+
+  return {
+    checkedUsers: users.length,
+    mismatches,
+    unbalancedTransactions: unbalanced.map((t) => ({
+      transactionId: t.transactionId,
+      sumCents: t._sum.amountCents ?? 0,
+    })),
+    reconciledAt: new Date(),
+  };
+}
@@ -0,0 +1,190 @@
+import { cacheDelete, cacheGet, cacheSet } from "./redis";
+import { createAuditLog } from "./audit-log";
+
+/**
+ * Admin Login Lockout
+ *
+ * Failed admin sign-ins (wrong password or wrong second factor) are
+ * counted per email and per IP. Too many inside the window locks that
+ * email or IP out; each further lockout lasts twice as long as the last.
+ *
+ * Rules:
+ * - A locked email or IP is refused before the password is checked
+ * - Without a trusted client IP (see client-ip) only the email is
+ *   counted - a shared fallback key would let anyone lock every admin out
+ * - A successful sign-in clears the email's record; the IP's record is
+ *   left alone so one good account cannot launder an IP's failures
+ * - Lockout history is kept for a day, which is how long the backoff
+ *   remembers earlier lockouts
+ * - Every new lockout is written to the audit log
+ *
+ * Counters live in Redis and are read-modify-write, so parallel failures
+ * can undercount slightly; the per-IP rate limit on the login routes
+ * bounds how far.
+ */
+
+export interface LockoutPolicy {
+  threshold: number; // Failures that trigger a lockout
+  windowMs: number; // Failures older than this are forgotten
+  baseLockMs: number; // First lockout; doubles with each repeat
+  maxLockMs: number;
+}
+
+export interface LockoutState {
+  failures: number;
+  firstFailureAt: number | null;
+  lockouts: number;
+  lockedUntil: number | null;
+}
+
+export type LockoutScope = "email" | "ip";
+
+export const LOCKOUT_POLICIES: Record<LockoutScope, LockoutPolicy> = {
+  email: { threshold: 5, windowMs: 15 * 60 * 1000, baseLockMs: 60 * 1000, maxLockMs: 60 * 60 * 1000 },
+  ip: { threshold: 20, windowMs: 15 * 60 * 1000, baseLockMs: 60 * 1000, maxLockMs: 60 * 60 * 1000 },
+};
+
+const STATE_TTL_SECONDS = 24 * 60 * 60;
+
+const EMPTY_STATE: LockoutState = {
+  failures: 0,
+  firstFailureAt: null,
+  lockouts: 0,
+  lockedUntil: null,
+};
+
+/**
+ * Count one failure against a state
+ *
+ * Returns the new state and, when this failure triggers a lockout, when
+ * it ends.
+ */
+export function applyLoginFailure(
+  state: LockoutState,
+  now: number,
+  policy: LockoutPolicy
+): { state: LockoutState; lockedUntil: number | null } {
+  const inWindow = state.firstFailureAt !== null && now - state.firstFailureAt < policy.windowMs;
+  const failures = inWindow ? state.failures + 1 : 1;
+  const firstFailureAt = inWindow ? state.firstFailureAt : now;
+
+  if (failures < policy.threshold) {
+    return { state: { ...state, failures, firstFailureAt }, lockedUntil: null };
+  }
+
+  const lockouts = state.lockouts + 1;
+  const lockedUntil = now + Math.min(policy.baseLockMs * 2 ** (lockouts - 1), policy.maxLockMs);
+
+  return {
+    state: { failures: 0, firstFailureAt: null, lockouts, lockedUntil },
+    lockedUntil,
+  };
+}
+
+/**
+ * When the email or IP is locked out until, or null if neither is
+ */
+export async function getLoginLockout(email: string, ip: string | null): Promise<Date | null> {
+  const [emailState, ipState] = await Promise.all([
+    readState("email", email),
+    ip === null ? EMPTY_STATE : readState("ip", ip),
+  ]);
+
+  const lockedUntil = Math.max(emailState.lockedUntil ?? 0, ipState.lockedUntil ?? 0);
+  return lockedUntil > Date.now() ? new Date(lockedUntil) : null;
+}
+
+/**
+ * Record a failed sign-in
+ *
+ * adminId is the account the email belongs to, if any, so its lockout is
+ * audited against it. Returns the lockout end if this failure caused one.
+ */
+export async function recordLoginFailure({
+  email,
+  ip,
+  adminId,
+  userAgent,
+}: {
+  email: string;
+  ip: string | null;
+  adminId?: string;
+  userAgent?: string;
+}): Promise<Date | null> {
+  const now = Date.now();
+  let latest: number | null = null;
+  const scopes: Array<[LockoutScope, string]> = [["email", email]];
+  if (ip !== null) {
+    scopes.push(["ip", ip]);
+  }
+
+  for (const [scope, value] of scopes) {
+    const { state, lockedUntil } = applyLoginFailure(
+      await readState(scope, value),
+      now,
+      LOCKOUT_POLICIES[scope]
+    );
+    await cacheSet(stateKey(scope, value), state, STATE_TTL_SECONDS);
+
+    if (lockedUntil !== null) {
+      latest = Math.max(latest ?? 0, lockedUntil);
+      await auditLockout({
+        scope,
+        email,
+        ip,
+        adminId: scope === "email" ? adminId : undefined,
+        userAgent,
+        lockouts: state.lockouts,
+        lockedUntil,
+      });
+    }
+  }
+
+  return latest === null ? null : new Date(latest);
+}
+
+/**
+ * Forget an email's failures and lockouts - after a successful sign-in,
+ * or when a SUPER_ADMIN unlocks the account
+ */
+export async function clearLoginLockout(email: string): Promise<void> {
+  await cacheDelete(stateKey("email", email));
+}
+
+async function readState(scope: LockoutScope, value: string): Promise<LockoutState> {
+  return (await cacheGet<LockoutState>(stateKey(scope, value))) ?? EMPTY_STATE;
+}
+
+function stateKey(scope: LockoutScope, value: string): string {
+  return `login-lockout:${scope}:${scope === "email" ? value.trim().toLowerCase() : value}`;
+}
+
+async function auditLockout(lockout: {
+  scope: LockoutScope;
+  email: string;
+  ip: string | null;
+  adminId?: string;
+  userAgent?: string;
+  lockouts: number;
+  lockedUntil: number;
+}): Promise<void> {
+  try {
+    await createAuditLog({
+      adminId: lockout.adminId ?? null,
+      action: "ADMIN_LOGIN_LOCKOUT",
+      entityType: lockout.adminId ? "AdminUser" : "LoginAttempt",
+      entityId: lockout.adminId,
+      details: {
+        scope: lockout.scope,
+        email: lockout.email,
+        lockouts: lockout.lockouts,
+        lockedUntil: new Date(lockout.lockedUntil).toISOString(),
+      },
+      ipAddress: lockout.ip ?? undefined,
+      userAgent: lockout.userAgent,
+    });
+  } catch (error) {
+    // The lockout holds regardless - report the gap
+    console.error("Audit log error:", error);
+  }
+}
@@ -0,0 +1,372 @@
+import prisma from "./prisma";
+import { postTransfer, InsufficientBalanceError } from "./ledger";
+import { recordUserActivity } from "./user-activity";
+import { HoldingStatus, ItemStatus, ListingStatus, Prisma } from "@prisma/client";
+import type { Listing, ListingWithDetails, PaginatedResponse } from "@/types";
+
+/**
+ * Marketplace
+ *
+ * Peer-to-peer resale of vault holdings, settled in internal balance
+ *
+ * State rules:
+ * - Listing a holding moves the holding and its item to LISTED, so it
+ *   cannot be bought back, shipped or listed twice while the listing is live
+ * - Cancelling returns the holding to HOLDING and the item to ASSIGNED
+ * - Buying moves the holding to the buyer, debits the buyer, credits the
+ *   seller and returns the item to ASSIGNED, all in one transaction
+ * - A listing past its expiresAt is closed as EXPIRED and returned like a
+ *   cancel. There is no timer: expired listings are closed lazily, before
+ *   anything reads or changes listings
+ *
+ * Every state change is a conditional update on the expected status, so two
+ * concurrent buyers (or a buyer racing a cancel) cannot both succeed.
+ */
+
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 100;
+
+export interface MarketplaceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * Expected business failure - rolls back the transaction and is
+ * reported to the caller instead of being rethrown
+ */
+class MarketplaceError extends Error {}
+
+async function runMarketplaceTransaction<T>(
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<MarketplaceResult<T>> {
+  try {
+    const data = await prisma.$transaction(fn);
+    return { success: true, data };
+  } catch (error) {
+    if (error instanceof MarketplaceError || error instanceof InsufficientBalanceError) {
+      return { success: false, error: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * List a vault holding for sale at an asking price
+ */
+export async function createListing({
+  sellerId,
+  holdingId,
+  askingPrice,
+  expiresAt,
+}: {
+  sellerId: string;
+  holdingId: string;
+  askingPrice: number;
+  expiresAt?: Date;
+}): Promise<MarketplaceResult<Listing>> {
+  await expireListings({ sellerId });
+
+  return runMarketplaceTransaction(async (tx) => {
+    const holding = await tx.vaultHolding.findFirst({
+      where: { id: holdingId, userId: sellerId },
+      select: { id: true, itemId: true, status: true },
+    });
+
+    if (!holding) {
+      throw new MarketplaceError("Holding not found");
+    }
+
+    // Claim the holding - fails if it was listed, shipped or sold meanwhile
+    const claimed = await tx.vaultHolding.updateMany({
+      where: { id: holding.id, status: HoldingStatus.HOLDING },
+      data: { status: HoldingStatus.LISTED },
+    });
+
+    if (claimed.count === 0) {
+      throw new MarketplaceError("Holding is not available for listing");
+    }
+
+    await tx.item.update({
+      where: { id: holding.itemId },
+      data: { status: ItemStatus.LISTED },
+    });
+
+    const listing = await tx.listing.create({
+      data: {
+        vaultHoldingId: holding.id,
+        sellerId,
+        askingPrice,
+        expiresAt,
+      },
+    });
+
+    await recordUserActivity(tx, {
+      userId: sellerId,
+      type: "LISTING_CREATE",
+      entityType: "Listing",
+      entityId: listing.id,
+      details: { holdingId: holding.id, itemId: holding.itemId, askingPrice },
+    });
+
+    return listing;
+  });
+}
+
+/**
+ * Cancel an active listing and return the holding to the seller's vault
+ */
+export async function cancelListing(
+  sellerId: string,
+  listingId: string
+): Promise<MarketplaceResult<Listing>> {
+  return runMarketplaceTransaction(async (tx) => {
+    const cancelled = await tx.listing.updateMany({
+      where: { id: listingId, sellerId, status: ListingStatus.ACTIVE },
+      data: { status: ListingStatus.CANCELLED },
+    });
+
+    if (cancelled.count === 0) {
+      throw new MarketplaceError("Listing not found or no longer active");
+    }
+
+    const listing = await tx.listing.findUniqueOrThrow({
+      where: { id: listingId },
+      include: { vaultHolding: { select: { itemId: true } } },
+    });
+
+    await tx.vaultHolding.update({
+      where: { id: listing.vaultHoldingId },
+      data: { status: HoldingStatus.HOLDING },
+    });
+
+    await tx.item.update({
+      where: { id: listing.vaultHolding.itemId },
+      data: { status: ItemStatus.ASSIGNED },
+    });
+
+    await recordUserActivity(tx, {
+      userId: sellerId,
+      type: "LISTING_CANCEL",
+      entityType: "Listing",
+      entityId: listing.id,
+      details: { holdingId: listing.vaultHoldingId, itemId: listing.vaultHolding.itemId },
+    });
+
+    return listing;
+  });
+}
+
+/**
+ * Buy an active listing with internal balance
+ */
+export async function purchaseListing(
+  buyerId: string,
+  listingId: string
+): Promise<MarketplaceResult<Listing>> {
+  await expireListings();
+
+  return runMarketplaceTransaction(async (tx) => {
+    const listing = await tx.listing.findUnique({
+      where: { id: listingId },
+      include: { vaultHolding: { select: { itemId: true } } },
+    });
+
+    if (!listing || listing.status !== ListingStatus.ACTIVE) {
+      throw new MarketplaceError("Listing is no longer available");
+    }
+
+    if (listing.sellerId === buyerId) {
+      throw new MarketplaceError("You cannot buy your own listing");
+    }
+
+    const now = new Date();
+
+    if (listing.expiresAt && listing.expiresAt <= now) {
+      throw new MarketplaceError("Listing has expired");
+    }
+
+    // Claim the listing first - a concurrent buyer, cancel or expiry loses here
+    const claimed = await tx.listing.updateMany({
+      where: {
+        id: listing.id,
+        status: ListingStatus.ACTIVE,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+      },
+      data: {
+        status: ListingStatus.SOLD,
+        buyerId,
+        soldAt: now,
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new MarketplaceError("Listing is no longer available");
+    }
+
+    // Debit buyer (fails if they cannot cover the price) and credit seller
+    await postTransfer(tx, {
+      fromUserId: buyerId,
+      toUserId: listing.sellerId,
+      amountCents: listing.askingPrice,
+      type: "MARKETPLACE_SALE",
+      referenceType: "Listing",
+      referenceId: listing.id,
+    });
+
+    // Move the holding into the buyer's vault
+    await tx.vaultHolding.update({
+      where: { id: listing.vaultHoldingId },
+      data: {
+        userId: buyerId,
+        status: HoldingStatus.HOLDING,
+        acquiredAt: now,
+      },
+    });
+
+    await tx.item.update({
+      where: { id: listing.vaultHolding.itemId },
+      data: { status: ItemStatus.ASSIGNED },
+    });
+
+    const details = {
+      holdingId: listing.vaultHoldingId,
+      itemId: listing.vaultHolding.itemId,
+      price: listing.askingPrice,
+    };
+    await recordUserActivity(tx, {
+      userId: buyerId,
+      type: "LISTING_PURCHASE",
+      entityType: "Listing",
+      entityId: listing.id,
+      details,
+    });
+    await recordUserActivity(tx, {
+      userId: listing.sellerId,
+      type: "LISTING_SALE",
+      entityType: "Listing",
+      entityId: listing.id,
+      details,
+    });
+
+    return {
+      ...listing,
+      status: ListingStatus.SOLD,
+      buyerId,
+      soldAt: now,
+    };
+  });
+}
+
+/**
+ * Close ACTIVE listings past their expiry and return their holdings
+ *
+ * Each listing is closed on its own conditional update, so a purchase or
+ * cancel that gets there first wins. Returns the number closed.
+ */
+export async function expireListings({
+  sellerId,
+  now = new Date(),
+}: {
+  sellerId?: string;
+  now?: Date;
+} = {}): Promise<number> {
+  const expired = await prisma.listing.findMany({
+    where: {
+      status: ListingStatus.ACTIVE,
+      expiresAt: { lte: now },
+      ...(sellerId && { sellerId }),
+    },
+    include: { vaultHolding: { select: { itemId: true } } },
+  });
+
+  let closed = 0;
+
+  for (const listing of expired) {
+    const didClose = await prisma.$transaction(async (tx) => {
+      const updated = await tx.listing.updateMany({
+        where: { id: listing.id, status: ListingStatus.ACTIVE },
+        data: { status: ListingStatus.EXPIRED },
+      });
+
+      if (updated.count === 0) {
+        return false;
+      }
+
+      await tx.vaultHolding.updateMany({
+        where: { id: listing.vaultHoldingId, status: HoldingStatus.LISTED },
+        data: { status: HoldingStatus.HOLDING },
+      });
+
+      await tx.item.update({
+        where: { id: listing.vaultHolding.itemId },
+        data: { status: ItemStatus.ASSIGNED },
+      });
+
+      return true;
+    });
+
+    if (didClose) {
+      closed++;
+    }
+  }
+
+  return closed;
+}
+
+/**
+ * Browse active, unexpired listings
+ */
+export async function getActiveListings({
+  page = 1,
+  pageSize = DEFAULT_PAGE_SIZE,
+  tierId,
+  sellerId,
+}: {
+  page?: number;
+  pageSize?: number;
+  tierId?: string;
+  sellerId?: string;
+} = {}): Promise<PaginatedResponse<ListingWithDetails>> {
+  const take = Math.min(Math.max(1, pageSize), MAX_PAGE_SIZE);
+  const currentPage = Math.max(1, page);
+
+  await expireListings();
+
+  const where: Prisma.ListingWhereInput = {
+    status: ListingStatus.ACTIVE,
+    OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+    ...(sellerId && { sellerId }),
+    ...(tierId && { vaultHolding: { item: { tierId } } }),
+  };
+
+  const [items, total] = await Promise.all([
+    prisma.listing.findMany({
+      where,
+      include: {
+        vaultHolding: {
+          include: {
+            item: { include: { tier: true } },
+          },
+        },
+        seller: {
+          select: { id: true, name: true },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+      skip: (currentPage - 1) * take,
+      take,
+    }),
+    prisma.listing.count({ where }),
+  ]);
+
+  return {
+    items,
+    total,
+    page: currentPage,
+    pageSize: take,
+    totalPages: Math.ceil(total / take),
+  };
+}
+
@@ -0,0 +1,405 @@
+import prisma from "./prisma";
+import { calculatePackHealth, computePackHealth, invalidatePackHealth } from "./pack-health";
+import { calculatePackEconomics, computePackEconomics, getRtpLimits } from "./pack-economics";
+import { ItemStatus, PackStatus, Prisma } from "@prisma/client";
+import type { CreatePackInput, PackEconomics, PackHealth } from "@/types";
+import { z } from "zod";
+
+/**
+ * Pack Builder
+ *
+ * Admin creation and editing of pack products
+ *
+ * Lifecycle:
+ *   DRAFT -> ACTIVE (publish, only if the pack can be sold)
+ *   ACTIVE / OUT_OF_STOCK -> PAUSED -> ACTIVE
+ *
+ * Rules:
+ * - Packs are created as DRAFT
+ * - Config, odds and pool can only change while DRAFT or PAUSED, so the
+ *   odds never move under an open checkout
+ * - Publishing runs the same health check as the purchase flow, and
+ *   refuses packs whose RTP is outside the configured limits
+ */
+
+const EDITABLE_STATUSES: PackStatus[] = [PackStatus.DRAFT, PackStatus.PAUSED];
+const PUBLISHABLE_STATUSES: PackStatus[] = [PackStatus.DRAFT, PackStatus.PAUSED];
+const PAUSABLE_STATUSES: PackStatus[] = [PackStatus.ACTIVE, PackStatus.OUT_OF_STOCK];
+
+export const packInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(120),
+  description: z.string().trim().optional(),
+  images: z.array(z.string().trim().url("Images must be URLs")).default([]),
+  priceInCents: z.number().int().positive("Price must be positive"),
+  maxSupply: z.number().int().positive("Max supply must be positive").optional(),
+  itemsPerPack: z.number().int().min(1).max(20).default(1),
+  guarantees: z
+    .array(
+      z.object({
+        tierId: z.string().min(1),
+        minCount: z.number().int().min(1, "Guarantee count must be at least 1"),
+      })
+    )
+    .default([]),
+  tierWeights: z
+    .array(
+      z.object({
+        tierId: z.string().min(1),
+        weight: z.number().int().min(0, "Weights cannot be negative"),
+      })
+    )
+    .default([]),
+  poolItemIds: z.array(z.string().min(1)).default([]),
+});
+
+export interface PackBuilderResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * Expected business failure - rolls back the transaction and is
+ * reported to the caller instead of being rethrown
+ */
+class PackBuilderError extends Error {}
+
+async function runPackBuilderTransaction<T>(
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<PackBuilderResult<T>> {
+  try {
+    const data = await prisma.$transaction(fn);
+    return { success: true, data };
+  } catch (error) {
+    if (error instanceof PackBuilderError) {
+      return { success: false, error: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create a DRAFT pack with its config and pool
+ */
+export async function createPack(
+  input: CreatePackInput
+): Promise<PackBuilderResult<{ id: string }>> {
+  return runPackBuilderTransaction(async (tx) => {
+    await validatePackInput(tx, input);
+
+    const pack = await tx.packProduct.create({
+      data: {
+        name: input.name,
+        description: input.description,
+        images: input.images,
+        priceInCents: input.priceInCents,
+        maxSupply: input.maxSupply ?? null,
+        status: PackStatus.DRAFT,
+        config: {
+          create: {
+            itemsPerPack: input.itemsPerPack ?? 1,
+            guarantees: { create: input.guarantees },
+            tierWeights: { create: input.tierWeights },
+          },
+        },
+      },
+      select: { id: true },
+    });
+
+    if (input.poolItemIds.length > 0) {
+      await tx.packPoolItem.createMany({
+        data: input.poolItemIds.map((itemId) => ({
+          packProductId: pack.id,
+          itemId,
+        })),
+      });
+    }
+
+    return pack;
+  });
+}
+
+/**
+ * Replace a pack's details, config and pool
+ */
+export async function updatePack(
+  packProductId: string,
+  input: CreatePackInput
+): Promise<PackBuilderResult<{ id: string }>> {
+  const result = await runPackBuilderTransaction(async (tx) => {
+    const pack = await tx.packProduct.findUnique({
+      where: { id: packProductId },
+      select: { status: true, soldCount: true },
+    });
+
+    if (!pack) {
+      throw new PackBuilderError("Pack not found");
+    }
+
+    await validatePackInput(tx, input);
+
+    if (input.maxSupply !== undefined && input.maxSupply < pack.soldCount) {
+      throw new PackBuilderError(
+        `Max supply cannot be below the ${pack.soldCount} packs already sold`
+      );
+    }
+
+    // Conditional so a pack published while the form was open is not edited
+    const updated = await tx.packProduct.updateMany({
+      where: { id: packProductId, status: { in: EDITABLE_STATUSES } },
+      data: {
+        name: input.name,
+        description: input.description ?? null,
+        images: input.images,
+        priceInCents: input.priceInCents,
+        maxSupply: input.maxSupply ?? null,
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new PackBuilderError("Pause the pack before editing it");
+    }
+
+    const config = await tx.packConfig.upsert({
+      where: { packProductId },
+      create: { packProductId, itemsPerPack: input.itemsPerPack ?? 1 },
+      update: { itemsPerPack: input.itemsPerPack ?? 1 },
+      select: { id: true },
+    });
+
+    await tx.packGuarantee.deleteMany({ where: { packConfigId: config.id } });
+    await tx.packTierWeight.deleteMany({ where: { packConfigId: config.id } });
+    await tx.packGuarantee.createMany({
+      data: input.guarantees.map((g) => ({ packConfigId: config.id, ...g })),
+    });
+    await tx.packTierWeight.createMany({
+      data: input.tierWeights.map((w) => ({ packConfigId: config.id, ...w })),
+    });
+
+    // Keep links for items that stay in the pool
+    await tx.packPoolItem.deleteMany({
+      where: { packProductId, itemId: { notIn: input.poolItemIds } },
+    });
+    await tx.packPoolItem.createMany({
+      data: input.poolItemIds.map((itemId) => ({ packProductId, itemId })),
+      skipDuplicates: true,
+    });
+
+    return { id: packProductId };
+  });
+
+  if (result.success) {
+    await invalidatePackHealth(packProductId);
+  }
+
+  return result;
+}
+
+/**
+ * Health of an unsaved pack configuration
+ *
+ * Counts the selected pool items that are AVAILABLE now; when editing,
+ * packs already sold count against max supply
+ */
+export async function previewPackHealth(
+  input: CreatePackInput,
+  packProductId?: string
+): Promise<PackHealth> {
+  const [tiers, availableByTier, pack] = await Promise.all([
+    prisma.itemTier.findMany({ select: { id: true, name: true } }),
+    prisma.item.groupBy({
+      by: ["tierId"],
+      where: {
+        id: { in: input.poolItemIds },
+        status: ItemStatus.AVAILABLE,
+      },
+      _count: { id: true },
+    }),
+    packProductId
+      ? prisma.packProduct.findUnique({
+          where: { id: packProductId },
+          select: { soldCount: true },
+        })
+      : null,
+  ]);
+
+  const tierNames = new Map(tiers.map((t) => [t.id, t.name]));
+  const tier = (tierId: string) => ({ name: tierNames.get(tierId) ?? "Unknown" });
+
+  const tierAvailability: Record<string, number> = {};
+  for (const group of availableByTier) {
+    tierAvailability[group.tierId] = group._count.id;
+  }
+
+  return computePackHealth({
+    packProductId: packProductId ?? "preview",
+    maxSupply: input.maxSupply ?? null,
+    soldCount: pack?.soldCount ?? 0,
+    config: {
+      itemsPerPack: input.itemsPerPack ?? 1,
+      guarantees: input.guarantees.map((g) => ({ ...g, tier: tier(g.tierId) })),
+      tierWeights: input.tierWeights.map((w) => ({ ...w, tier: tier(w.tierId) })),
+    },
+    tierAvailability,
+  });
+}
+
+/**
+ * Expected value and RTP for an unsaved configuration
+ */
+export async function previewPackEconomics(
+  input: CreatePackInput,
+  packProductId?: string
+): Promise<PackEconomics> {
+  const [tiers, items] = await Promise.all([
+    prisma.itemTier.findMany({ select: { id: true, name: true } }),
+    prisma.item.findMany({
+      where: {
+        id: { in: input.poolItemIds },
+        status: ItemStatus.AVAILABLE,
+      },
+      select: { tierId: true, estimatedValue: true },
+    }),
+  ]);
+
+  const tierNames = new Map(tiers.map((t) => [t.id, t.name]));
+  const tier = (tierId: string) => ({ name: tierNames.get(tierId) ?? "Unknown" });
+
+  return computePackEconomics({
+    packProductId: packProductId ?? "preview",
+    priceInCents: input.priceInCents,
+    config: {
+      itemsPerPack: input.itemsPerPack ?? 1,
+      guarantees: input.guarantees.map((g) => ({ ...g, tier: tier(g.tierId) })),
+      tierWeights: input.tierWeights.map((w) => ({ ...w, tier: tier(w.tierId) })),
+    },
+    items,
+    limits: getRtpLimits(),
+  });
+}
+
+/**
+ * Put a DRAFT or PAUSED pack on sale
+ *
+ * Refused while the pack cannot be sold, with the health warnings as the
+ * reason, or while its RTP is outside the configured limits
+ */
+export async function publishPack(
+  packProductId: string
+): Promise<PackBuilderResult<PackHealth>> {
+  // Recompute from the database rather than trusting a cached value
+  await invalidatePackHealth(packProductId);
+
+  const pack = await prisma.packProduct.findUnique({
+    where: { id: packProductId },
+    select: { status: true },
+  });
+
+  if (!pack) {
+    return { success: false, error: "Pack not found" };
+  }
+
+  if (!PUBLISHABLE_STATUSES.includes(pack.status)) {
+    return { success: false, error: `Cannot publish a pack that is ${pack.status}` };
+  }
+
+  const health = await calculatePackHealth(packProductId);
+
+  if (!health.canSellOne) {
+    return {
+      success: false,
+      error: `Pack cannot be sold: ${health.warnings.join("; ")}`,
+      data: health,
+    };
+  }
+
+  const economics = await calculatePackEconomics(packProductId);
+
+  if (!economics.withinLimits) {
+    return {
+      success: false,
+      error: `Pack odds are outside RTP limits: ${economics.warnings.join("; ")}`,
+      data: health,
+    };
+  }
+
+  const updated = await prisma.packProduct.updateMany({
+    where: { id: packProductId, status: pack.status },
+    data: { status: PackStatus.ACTIVE },
+  });
+
+  if (updated.count === 0) {
+    return { success: false, error: "Pack was updated by someone else, please retry" };
+  }
+
+  return { success: true, data: health };
+}
+
+/**
+ * Take a pack off sale so it can be edited
+ */
+export async function pausePack(
+  packProductId: string
+): Promise<PackBuilderResult<{ id: string }>> {
+  const updated = await prisma.packProduct.updateMany({
+    where: { id: packProductId, status: { in: PAUSABLE_STATUSES } },
+    data: { status: PackStatus.PAUSED },
+  });
+
+  if (updated.count === 0) {
+    const exists = await prisma.packProduct.count({ where: { id: packProductId } });
+    return {
+      success: false,
+      error: exists ? "Only active packs can be paused" : "Pack not found",
+    };
+  }
+
+  return { success: true, data: { id: packProductId } };
+}
+
+/**
+ * Checks the schema cannot express - referenced tiers and items exist
+ */
+async function validatePackInput(
+  tx: Prisma.TransactionClient,
+  input: CreatePackInput
+): Promise<void> {
+  const guaranteedTiers = input.guarantees.map((g) => g.tierId);
+  const weightedTiers = input.tierWeights.map((w) => w.tierId);
+
+  if (new Set(guaranteedTiers).size !== guaranteedTiers.length) {
+    throw new PackBuilderError("Each tier can only be guaranteed once");
+  }
+  if (new Set(weightedTiers).size !== weightedTiers.length) {
+    throw new PackBuilderError("Each tier can only be weighted once");
+  }
+
+  const itemsPerPack = input.itemsPerPack ?? 1;
+  const guaranteedSlots = input.guarantees.reduce((sum, g) => sum + g.minCount, 0);
+  if (guaranteedSlots > itemsPerPack) {
+    throw new PackBuilderError(
+      `Guarantees require ${guaranteedSlots} items but the pack holds ${itemsPerPack}`
+    );
+  }
+
+  const totalWeight = input.tierWeights.reduce((sum, w) => sum + w.weight, 0);
+  if (guaranteedSlots < itemsPerPack && totalWeight === 0) {
+    throw new PackBuilderError("At least one tier needs a weight to fill unguaranteed slots");
+  }
+
+  const tierIds = [...new Set([...guaranteedTiers, ...weightedTiers])];
+  const tierCount = await tx.itemTier.count({ where: { id: { in: tierIds } } });
+  if (tierCount !== tierIds.length) {
+    throw new PackBuilderError("Unknown tier in guarantees or weights");
+  }
+
+  const poolItemIds = [...new Set(input.poolItemIds)];
+  if (poolItemIds.length !== input.poolItemIds.length) {
+    throw new PackBuilderError("Pool contains duplicate items");
+  }
+
+  const itemCount = await tx.item.count({ where: { id: { in: poolItemIds } } });
+  if (itemCount !== poolItemIds.length) {
+    throw new PackBuilderError("Unknown item in pool");
+  }
+}
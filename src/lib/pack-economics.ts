@@ -0,0 +1,298 @@
+import prisma from "./prisma";
+import { ItemStatus } from "@prisma/client";
+import type { PackEconomics, TierEconomics } from "@/types";
+
+/**
+ * Pack Economics
+ *
+ * Companion to pack health: health says whether a pack CAN be sold,
+ * economics says whether it SHOULD be - what a buyer gets back on
+ * average for the price.
+ *
+ * Model (matches the selection core in item-selection.ts):
+ * - Guaranteed slots draw uniformly from the AVAILABLE items of their tier
+ * - Weighted slots pick a tier by weight, renormalised over tiers that
+ *   have items, then an item uniformly within the tier; with no weighted
+ *   tier in stock they draw from the whole pool
+ * - Slots are treated as independent draws from the current pool. The
+ *   draw is without replacement, which only matters for very small pools.
+ *
+ * RTP (return to player) = expected value / price. Optional limits from
+ * PACK_RTP_FLOOR / PACK_RTP_CEILING (ratios, e.g. 0.85 and 1.25) block
+ * publishing packs outside them.
+ */
+
+export interface RtpLimits {
+  floor: number | null;
+  ceiling: number | null;
+}
+
+export interface PackEconomicsInput {
+  packProductId: string;
+  priceInCents: number;
+  config: {
+    itemsPerPack: number;
+    guarantees: { tierId: string; minCount: number; tier: { name: string } }[];
+    tierWeights: { tierId: string; weight: number; tier: { name: string } }[];
+  } | null;
+  // AVAILABLE items in the pool
+  items: { tierId: string; estimatedValue: number }[];
+  limits?: RtpLimits;
+}
+
+interface SlotDistribution {
+  mean: number;
+  variance: number;
+  // P(slot value > price), only used for single-item packs
+  aboveProbability: number;
+}
+
+/**
+ * RTP limits from the environment; unset or invalid values mean no limit
+ */
+export function getRtpLimits(): RtpLimits {
+  const parse = (value: string | undefined) => {
+    const n = value ? Number(value) : NaN;
+    return Number.isFinite(n) && n > 0 ? n : null;
+  };
+
+  return {
+    floor: parse(process.env.PACK_RTP_FLOOR),
+    ceiling: parse(process.env.PACK_RTP_CEILING),
+  };
+}
+
+/**
+ * Compute expected value, RTP, spread and probability of profit
+ *
+ * Pure - given the config and pool, no database access
+ */
+export function computePackEconomics({
+  packProductId,
+  priceInCents,
+  config,
+  items,
+  limits = { floor: null, ceiling: null },
+}: PackEconomicsInput): PackEconomics {
+  const warnings: string[] = [];
+
+  if (!config) {
+    return emptyEconomics(packProductId, priceInCents, 0, ["Pack has no configuration"]);
+  }
+
+  if (items.length === 0) {
+    return emptyEconomics(packProductId, priceInCents, config.itemsPerPack, [
+      "Pool has no available items",
+    ]);
+  }
+
+  // Per-tier value stats
+  const valuesByTier = new Map<string, number[]>();
+  for (const item of items) {
+    const values = valuesByTier.get(item.tierId) ?? [];
+    values.push(item.estimatedValue);
+    valuesByTier.set(item.tierId, values);
+  }
+
+  const uniform = (values: number[]): SlotDistribution => {
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    const above = values.filter((v) => v > priceInCents).length / values.length;
+    return { mean, variance, aboveProbability: above };
+  };
+
+  // Weighted slot: a mixture of the in-stock weighted tiers
+  const activeWeights = config.tierWeights.filter(
+    (tw) => tw.weight > 0 && (valuesByTier.get(tw.tierId)?.length ?? 0) > 0
+  );
+  const totalWeight = activeWeights.reduce((sum, tw) => sum + tw.weight, 0);
+  const tierProbability = new Map(
+    activeWeights.map((tw) => [tw.tierId, tw.weight / totalWeight])
+  );
+
+  let weightedSlot: SlotDistribution;
+  if (activeWeights.length === 0) {
+    weightedSlot = uniform(items.map((i) => i.estimatedValue));
+  } else {
+    let mean = 0;
+    let secondMoment = 0;
+    let above = 0;
+    for (const tw of activeWeights) {
+      const p = tierProbability.get(tw.tierId)!;
+      const tier = uniform(valuesByTier.get(tw.tierId)!);
+      mean += p * tier.mean;
+      secondMoment += p * (tier.variance + tier.mean ** 2);
+      above += p * tier.aboveProbability;
+    }
+    weightedSlot = { mean, variance: secondMoment - mean ** 2, aboveProbability: above };
+  }
+
+  // Lay out the pack: guaranteed slots first, weighted slots fill the rest
+  const slots: SlotDistribution[] = [];
+  for (const guarantee of config.guarantees) {
+    const values = valuesByTier.get(guarantee.tierId);
+    if (!values || values.length === 0) {
+      warnings.push(`Guaranteed tier ${guarantee.tier.name} has no available items`);
+      continue;
+    }
+    for (let i = 0; i < guarantee.minCount; i++) {
+      slots.push(uniform(values));
+    }
+  }
+  while (slots.length < config.itemsPerPack) {
+    slots.push(weightedSlot);
+  }
+
+  const expectedValue = slots.reduce((sum, s) => sum + s.mean, 0);
+  const variance = slots.reduce((sum, s) => sum + s.variance, 0);
+  const standardDeviation = Math.sqrt(Math.max(variance, 0));
+
+  // Exact for a single slot; a sum of several slots is approximated
+  // as normal
+  const exact = slots.length === 1;
+  const profitProbability = exact
+    ? slots[0].aboveProbability
+    : normalAbove(priceInCents, expectedValue, standardDeviation);
+
+  const rtp = priceInCents > 0 ? expectedValue / priceInCents : 0;
+
+  if (limits.floor !== null && rtp < limits.floor) {
+    warnings.push(
+      `RTP ${formatPercent(rtp)} is below the ${formatPercent(limits.floor)} floor`
+    );
+  }
+  if (limits.ceiling !== null && rtp > limits.ceiling) {
+    warnings.push(
+      `RTP ${formatPercent(rtp)} is above the ${formatPercent(limits.ceiling)} ceiling`
+    );
+  }
+
+  const tierIds = [
+    ...new Set([
+      ...config.guarantees.map((g) => g.tierId),
+      ...config.tierWeights.map((tw) => tw.tierId),
+    ]),
+  ];
+  const tierNames = new Map(
+    [...config.guarantees, ...config.tierWeights].map((t) => [t.tierId, t.tier.name])
+  );
+
+  const tiers: TierEconomics[] = tierIds.map((tierId) => {
+    const values = valuesByTier.get(tierId) ?? [];
+    return {
+      tierId,
+      tierName: tierNames.get(tierId) ?? "Unknown",
+      available: values.length,
+      avgValue: values.length > 0 ? Math.round(uniform(values).mean) : 0,
+      weightedProbability: tierProbability.get(tierId) ?? 0,
+      guaranteedSlots: config.guarantees
+        .filter((g) => g.tierId === tierId)
+        .reduce((sum, g) => sum + g.minCount, 0),
+    };
+  });
+
+  return {
+    packProductId,
+    priceInCents,
+    itemsPerPack: config.itemsPerPack,
+    expectedValue: Math.round(expectedValue),
+    rtp,
+    standardDeviation: Math.round(standardDeviation),
+    profitProbability,
+    profitProbabilityMethod: exact ? "exact" : "normal",
+    tiers,
+    withinLimits:
+      (limits.floor === null || rtp >= limits.floor) &&
+      (limits.ceiling === null || rtp <= limits.ceiling),
+    warnings,
+    calculatedAt: new Date(),
+  };
+}
+
+/**
+ * Economics of a pack from its current AVAILABLE pool
+ */
+export async function calculatePackEconomics(
+  packProductId: string
+): Promise<PackEconomics> {
+  const pack = await prisma.packProduct.findUnique({
+    where: { id: packProductId },
+    include: {
+      config: {
+        include: {
+          guarantees: { include: { tier: true } },
+          tierWeights: { include: { tier: true } },
+        },
+      },
+    },
+  });
+
+  if (!pack) {
+    throw new Error(`Pack product not found: ${packProductId}`);
+  }
+
+  const items = await prisma.item.findMany({
+    where: {
+      packPoolItems: { some: { packProductId } },
+      status: ItemStatus.AVAILABLE,
+    },
+    select: { tierId: true, estimatedValue: true },
+  });
+
+  return computePackEconomics({
+    packProductId,
+    priceInCents: pack.priceInCents,
+    config: pack.config,
+    items,
+    limits: getRtpLimits(),
+  });
+}
+
+function emptyEconomics(
+  packProductId: string,
+  priceInCents: number,
+  itemsPerPack: number,
+  warnings: string[]
+): PackEconomics {
+  return {
+    packProductId,
+    priceInCents,
+    itemsPerPack,
+    expectedValue: 0,
+    rtp: 0,
+    standardDeviation: 0,
+    profitProbability: 0,
+    profitProbabilityMethod: "exact",
+    tiers: [],
+    // Nothing to judge - health blocks selling an empty pack anyway
+    withinLimits: true,
+    warnings,
+    calculatedAt: new Date(),
+  };
+}
+
+/**
+ * P(X > threshold) for X ~ Normal(mean, sd)
+ */
+function normalAbove(threshold: number, mean: number, sd: number): number {
+  if (sd === 0) {
+    return mean > threshold ? 1 : 0;
+  }
+  return 1 - normalCdf((threshold - mean) / sd);
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function formatPercent(ratio: number): string {
+  return `${(ratio * 100).toFixed(1)}%`;
+}
@@ -1,5 +1,5 @@
 import prisma from "./prisma";
-import { cacheGet, cacheSet, cacheDelete } from "./redis";
+import { cacheGet, cacheSet, cacheDelete, incrementCounter } from "./redis";
 import type { PackHealth, TierHealth, PackHealthStatus } from "@/types";
 import { ItemStatus, PackStatus } from "@prisma/client";
 
@@ -12,24 +12,36 @@ import { ItemStatus, PackStatus } from "@prisma/client";
  * 1. Hard guarantees - MUST be satisfiable for all remaining packs
  * 2. Tier availability - At least one item per tier with non-zero weight
  * 3. Supply limits - Cannot exceed maxSupply
+ * 4. Pack size - Enough items in the pool to fill every slot of one pack,
+ *    and guarantees that fit within itemsPerPack
  * 
  * The "math must work" requirement:
  * - If we have N packs remaining and guarantee G items of tier T per pack,
  *   we need at least N * G items of tier T available in the pool.
+ *
+ * Draws are not serialised per pack, so health alone would let several
+ * concurrent draws pass on capacity for one. Each draw therefore holds
+ * guarantee capacity until it commits (holdGuaranteeCapacity), and a
+ * draw is only admitted if health covers every draw in flight.
  */
 
 const CACHE_TTL_SECONDS = 60; // Cache health for 1 minute
+const CAPACITY_HOLD_TTL_SECONDS = 60; // Forgets holds leaked by a crashed draw
 const LOW_STOCK_THRESHOLD = 0.2; // 20% buffer before warning
 
 /**
  * Calculate the health status of a pack product
+ *
+ * Served from cache for up to a minute unless fresh is set. A fresh
+ * result is read from the database and refreshes the cache.
  */
 export async function calculatePackHealth(
-  packProductId: string
+  packProductId: string,
+  { fresh = false }: { fresh?: boolean } = {}
 ): Promise<PackHealth> {
   // Check cache first
   const cacheKey = `pack_health:${packProductId}`;
-  const cached = await cacheGet<PackHealth>(cacheKey);
+  const cached = fresh ? null : await cacheGet<PackHealth>(cacheKey);
   
   if (cached) {
     return cached;
@@ -74,25 +86,76 @@ export async function calculatePackHealth(
     tierAvailability[tier.tierId] = tier._count.id;
   }
 
+  const health = computePackHealth({
+    packProductId,
+    maxSupply: pack.maxSupply,
+    soldCount: pack.soldCount,
+    config: pack.config,
+    tierAvailability,
+  });
+
+  // Misconfigured packs are not cached so a fix shows up immediately
+  if (!pack.config) {
+    return health;
+  }
+
+  // Cache the result
+  await cacheSet(cacheKey, health, CACHE_TTL_SECONDS);
+
+  return health;
+}
+
+export interface PackHealthInput {
+  packProductId: string;
+  maxSupply: number | null;
+  soldCount: number;
+  config: {
+    itemsPerPack: number;
+    guarantees: { tierId: string; minCount: number; tier: { name: string } }[];
+    tierWeights: { tierId: string; weight: number; tier: { name: string } }[];
+  } | null;
+  // Available items in the pool, by tier
+  tierAvailability: Record<string, number>;
+}
+
+/**
+ * Compute pack health from a config and pool availability
+ * 
+ * Pure - used by calculatePackHealth and by the admin pack builder to
+ * preview unsaved edits
+ */
+export function computePackHealth({
+  packProductId,
+  maxSupply,
+  soldCount,
+  config,
+  tierAvailability,
+}: PackHealthInput): PackHealth {
   // Calculate remaining packs
-  const remainingPacks = pack.maxSupply 
-    ? pack.maxSupply - pack.soldCount 
+  const remainingPacks = maxSupply 
+    ? maxSupply - soldCount 
     : Infinity;
 
+  const totalAvailable = Object.values(tierAvailability).reduce(
+    (sum, count) => sum + count,
+    0
+  );
+
   // If no config, pack is misconfigured
-  if (!pack.config) {
-    const health: PackHealth = {
+  if (!config) {
+    return {
       packProductId,
       status: "OUT_OF_STOCK",
       remainingPacks: remainingPacks === Infinity ? -1 : remainingPacks,
-      maxSupply: pack.maxSupply,
-      soldCount: pack.soldCount,
+      maxSupply: maxSupply,
+      soldCount: soldCount,
       tierHealth: [],
+      itemsPerPack: 0,
+      totalAvailable,
       canSellOne: false,
       warnings: ["Pack has no configuration"],
       calculatedAt: new Date(),
     };
-    return health;
   }
 
   // Build tier health array
@@ -101,7 +164,7 @@ export async function calculatePackHealth(
   let canSellOne = true;
 
   // Check hard guarantees
-  for (const guarantee of pack.config.guarantees) {
+  for (const guarantee of config.guarantees) {
     const available = tierAvailability[guarantee.tierId] || 0;
     const requiredTotal = remainingPacks === Infinity 
       ? guarantee.minCount 
@@ -115,6 +178,7 @@ export async function calculatePackHealth(
     tierHealth.push({
       tierId: guarantee.tierId,
       tierName: guarantee.tier.name,
+      guaranteed: true,
       available,
       required: requiredTotal === Infinity ? guarantee.minCount : requiredTotal,
       healthy,
@@ -134,7 +198,7 @@ export async function calculatePackHealth(
   }
 
   // Check tier weights - ensure at least 1 item exists for non-zero weighted tiers
-  for (const weight of pack.config.tierWeights) {
+  for (const weight of config.tierWeights) {
     if (weight.weight > 0) {
       const available = tierAvailability[weight.tierId] || 0;
       
@@ -148,6 +212,7 @@ export async function calculatePackHealth(
       tierHealth.push({
         tierId: weight.tierId,
         tierName: weight.tier.name,
+        guaranteed: false,
         available,
         required: 1, // At least 1 for weighted selection
         healthy,
@@ -164,8 +229,29 @@ export async function calculatePackHealth(
     }
   }
 
+  // Check the pack can be filled - guaranteed slots must fit in the pack,
+  // and the pool must hold enough items for every slot
+  const itemsPerPack = config.itemsPerPack;
+  const guaranteedSlots = config.guarantees.reduce(
+    (sum, g) => sum + g.minCount,
+    0
+  );
+  if (guaranteedSlots > itemsPerPack) {
+    canSellOne = false;
+    warnings.push(
+      `Guarantees require ${guaranteedSlots} items but the pack holds ${itemsPerPack}`
+    );
+  }
+
+  if (totalAvailable < itemsPerPack) {
+    canSellOne = false;
+    warnings.push(
+      `Insufficient items to fill a pack: ${totalAvailable} available, ${itemsPerPack} required`
+    );
+  }
+
   // Check if max supply reached
-  if (pack.maxSupply && pack.soldCount >= pack.maxSupply) {
+  if (maxSupply && soldCount >= maxSupply) {
     canSellOne = false;
     warnings.push("Maximum supply reached");
   }
@@ -185,22 +271,19 @@ export async function calculatePackHealth(
     }
   }
 
-  const health: PackHealth = {
+  return {
     packProductId,
     status,
     remainingPacks: remainingPacks === Infinity ? -1 : remainingPacks,
-    maxSupply: pack.maxSupply,
-    soldCount: pack.soldCount,
+    maxSupply: maxSupply,
+    soldCount: soldCount,
     tierHealth,
+    itemsPerPack,
+    totalAvailable,
     canSellOne,
     warnings,
     calculatedAt: new Date(),
   };
-
-  // Cache the result
-  await cacheSet(cacheKey, health, CACHE_TTL_SECONDS);
-
-  return health;
 }
 
 /**
@@ -213,6 +296,62 @@ export async function canSellPack(packProductId: string): Promise<boolean> {
   return health.canSellOne;
 }
 
+/**
+ * Whether health covers a number of concurrent draws
+ *
+ * Health only checks the pool can fill one pack, so every draw in flight
+ * needs a full pack's worth of available items. With limited supply,
+ * health already covers the guarantees of every remaining pack, so the
+ * draws only have to fit the remaining supply. With unlimited supply
+ * each guaranteed tier must fill all of them at once.
+ */
+export function hasGuaranteeCapacity(health: PackHealth, draws: number): boolean {
+  if (!health.canSellOne) {
+    return false;
+  }
+
+  if (health.totalAvailable < health.itemsPerPack * draws) {
+    return false;
+  }
+
+  if (health.remainingPacks !== -1) {
+    return health.remainingPacks >= draws;
+  }
+
+  return health.tierHealth.every(
+    (th) => !th.guaranteed || th.available >= th.required * draws
+  );
+}
+
+/**
+ * Hold guarantee capacity for one draw
+ *
+ * Returns false, holding nothing, if the pack cannot cover this draw on
+ * top of those already in flight. A successful hold must be released
+ * with releaseGuaranteeCapacity once the draw commits or fails. Health
+ * is read fresh - a cached copy can predate sales that used up capacity.
+ */
+export async function holdGuaranteeCapacity(packProductId: string): Promise<boolean> {
+  const key = capacityHoldKey(packProductId);
+  const draws = await incrementCounter(key, 1, CAPACITY_HOLD_TTL_SECONDS);
+  const health = await calculatePackHealth(packProductId, { fresh: true });
+
+  if (!hasGuaranteeCapacity(health, draws)) {
+    await incrementCounter(key, -1, CAPACITY_HOLD_TTL_SECONDS);
+    return false;
+  }
+
+  return true;
+}
+
+export async function releaseGuaranteeCapacity(packProductId: string): Promise<void> {
+  await incrementCounter(capacityHoldKey(packProductId), -1, CAPACITY_HOLD_TTL_SECONDS);
+}
+
+function capacityHoldKey(packProductId: string): string {
+  return `pack_capacity:${packProductId}:draws`;
+}
+
 /**
  * Invalidate health cache for a pack
  * 
@@ -282,123 +421,3 @@ export async function getAllPacksHealth(): Promise<PackHealth[]> {
 
   return Promise.all(packs.map(p => calculatePackHealth(p.id)));
 }
-
-/**
- * Simulate pack openings to validate distribution
- * 
- * FOR ADMIN QA ONLY - Does not actually assign items
- */
-export async function simulatePackOpenings(
-  packProductId: string,
-  count: number = 10000
-): Promise<{
-  tierId: string;
-  tierName: string;
-  count: number;
-  percentage: number;
-  expectedPercentage: number;
-  avgValue: number;
-}[]> {
-  const pack = await prisma.packProduct.findUnique({
-    where: { id: packProductId },
-    include: {
-      config: {
-        include: {
-          guarantees: { include: { tier: true } },
-          tierWeights: { include: { tier: true } },
-        },
-      },
-      poolItems: {
-        include: {
-          item: {
-            include: { tier: true },
-          },
-        },
-      },
-    },
-  });
-
-  if (!pack || !pack.config) {
-    throw new Error("Pack or config not found");
-  }
-
-  // Get available items grouped by tier
-  const itemsByTier: Record<string, { id: string; value: number }[]> = {};
-  for (const poolItem of pack.poolItems) {
-    if (poolItem.item.status === ItemStatus.AVAILABLE) {
-      const tierId = poolItem.item.tierId;
-      if (!itemsByTier[tierId]) {
-        itemsByTier[tierId] = [];
-      }
-      itemsByTier[tierId].push({
-        id: poolItem.item.id,
-        value: poolItem.item.estimatedValue,
-      });
-    }
-  }
-
-  // Calculate total weights
-  const totalWeight = pack.config.tierWeights.reduce(
-    (sum, tw) => sum + tw.weight,
-    0
-  );
-
-  // Run simulation
-  const results: Record<string, { count: number; totalValue: number }> = {};
-  
-  for (let i = 0; i < count; i++) {
-    // Select tier based on weights
-    const roll = Math.random() * totalWeight;
-    let cumulative = 0;
-    let selectedTierId: string | null = null;
-
-    for (const tw of pack.config.tierWeights) {
-      cumulative += tw.weight;
-      if (roll < cumulative && itemsByTier[tw.tierId]?.length > 0) {
-        selectedTierId = tw.tierId;
-        break;
-      }
-    }
-
-    // Fallback to first available tier if selected is empty
-    if (!selectedTierId) {
-      selectedTierId = Object.keys(itemsByTier)[0];
-    }
-
-    if (selectedTierId && itemsByTier[selectedTierId]) {
-      const items = itemsByTier[selectedTierId];
-      const item = items[Math.floor(Math.random() * items.length)];
-      
-      if (!results[selectedTierId]) {
-        results[selectedTierId] = { count: 0, totalValue: 0 };
-      }
-      results[selectedTierId].count++;
-      results[selectedTierId].totalValue += item.value;
-    }
-  }
-
-  // Format results
-  const tierMap = new Map(
-    pack.config.tierWeights.map(tw => [tw.tierId, tw])
-  );
-
-  return Object.entries(results).map(([tierId, data]) => {
-    const tw = tierMap.get(tierId);
-    const expectedPercentage = tw 
-      ? (tw.weight / totalWeight) * 100 
-      : 0;
-
-    return {
-      tierId,
-      tierName: tw?.tier.name || "Unknown",
-      count: data.count,
-      percentage: (data.count / count) * 100,
-      expectedPercentage,
-      avgValue: data.totalValue / data.count,
-    };
-  });
-}
-
-
-
-
@@ -0,0 +1,251 @@
+import prisma from "./prisma";
+import {
+  drawPackItems,
+  getActiveTierWeights,
+  groupItemsByTier,
+  planSlots,
+  returnDrawnItems,
+} from "./item-selection";
+import type { PoolItem } from "./item-selection";
+import { ItemStatus } from "@prisma/client";
+import type { SimulationMode, SimulationResult } from "@/types";
+
+/**
+ * Pack Simulation
+ *
+ * FOR ADMIN QA ONLY - Does not actually assign items
+ *
+ * Opens packs against a copy of the pool using the same selection core as
+ * the assignment engine, so simulated odds are the odds buyers get.
+ *
+ * Modes:
+ * - independent: every pack draws from the current pool, as the next
+ *   pack sold would, and its items go back before the next draw. Shows
+ *   the odds as they stand today.
+ * - deplete: packs draw from a shared pool that shrinks as they open,
+ *   across the remaining supply. Shows which tiers run out first and
+ *   whether guarantees hold until the pack sells out.
+ */
+
+export const DEFAULT_SIMULATIONS = 10000;
+
+export interface SimulationInput {
+  packProductId: string;
+  mode: SimulationMode;
+  // Independent: number of packs to open. Deplete: remaining supply,
+  // null to open until the pool cannot fill a pack.
+  packs: number | null;
+  config: {
+    itemsPerPack: number;
+    guarantees: { tierId: string; minCount: number }[];
+    tierWeights: { tierId: string; weight: number }[];
+  };
+  items: PoolItem[];
+  tierNames: Record<string, string>;
+  // Defaults to Math.random; injectable for tests
+  random?: () => number;
+}
+
+/**
+ * Run a simulation against an in-memory pool
+ */
+export function runPackSimulation({
+  packProductId,
+  mode,
+  packs,
+  config,
+  items,
+  tierNames,
+  random = Math.random,
+}: SimulationInput): SimulationResult {
+  const issues: string[] = [];
+  const depletedTiers: SimulationResult["depletedTiers"] = [];
+  const drawn: Record<string, { count: number; totalValue: number }> = {};
+  const packValues: number[] = [];
+  let guaranteesMet = true;
+
+  const tierName = (tierId: string) => tierNames[tierId] ?? "Unknown";
+  const pool = groupItemsByTier(items);
+  const expected = expectedPercentages(config, pool);
+
+  // Without a supply limit a depleting run ends when the pool does
+  const target = packs ?? Infinity;
+
+  while (packValues.length < target) {
+    const opened = packValues.length;
+
+    const shortGuarantee = config.guarantees.find(
+      (g) => (pool[g.tierId]?.length ?? 0) < g.minCount
+    );
+    if (shortGuarantee) {
+      guaranteesMet = false;
+      issues.push(
+        `${tierName(shortGuarantee.tierId)} guarantee cannot be met ${
+          mode === "deplete" ? `after ${opened} packs` : "from the current pool"
+        }`
+      );
+      break;
+    }
+
+    let selections;
+    try {
+      selections = drawPackItems(pool, config, () => ({
+        tierRoll: random(),
+        itemRoll: random(),
+      }));
+    } catch (error) {
+      issues.push(
+        `Pool cannot fill a pack${mode === "deplete" ? ` after ${opened} packs` : ""}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      break;
+    }
+
+    let packValue = 0;
+    for (const { item } of selections) {
+      drawn[item.tierId] ??= { count: 0, totalValue: 0 };
+      drawn[item.tierId].count++;
+      drawn[item.tierId].totalValue += item.estimatedValue;
+      packValue += item.estimatedValue;
+    }
+    packValues.push(packValue);
+
+    // Independent packs each see the full pool
+    if (mode === "independent") {
+      returnDrawnItems(pool, selections);
+    }
+
+    if (mode === "deplete") {
+      for (const tierId of new Set(selections.map((s) => s.item.tierId))) {
+        if (pool[tierId].length === 0) {
+          depletedTiers.push({ tierId, tierName: tierName(tierId), afterPacks: opened + 1 });
+        }
+      }
+    }
+  }
+
+  if (mode === "deplete" && packs !== null && packValues.length < packs) {
+    issues.push(`Pool runs out after ${packValues.length} of ${packs} remaining packs`);
+  }
+  if (mode === "deplete" && packs === null) {
+    issues.push(`Pack has no max supply - the pool runs out after ${packValues.length} packs`);
+  }
+
+  const totalDrawn = Object.values(drawn).reduce((sum, d) => sum + d.count, 0);
+  const totalValue = packValues.reduce((sum, v) => sum + v, 0);
+
+  const tierIds = [
+    ...new Set([...Object.keys(expected), ...Object.keys(drawn)]),
+  ];
+
+  return {
+    packProductId,
+    mode,
+    totalSimulations: packValues.length,
+    results: tierIds.map((tierId) => {
+      const data = drawn[tierId] ?? { count: 0, totalValue: 0 };
+      return {
+        tierId,
+        tierName: tierName(tierId),
+        count: data.count,
+        percentage: totalDrawn > 0 ? (data.count / totalDrawn) * 100 : 0,
+        expectedPercentage: expected[tierId] ?? 0,
+        avgValue: data.count > 0 ? data.totalValue / data.count : 0,
+      };
+    }),
+    totalValue,
+    avgValuePerPack: packValues.length > 0 ? totalValue / packValues.length : 0,
+    minValue: packValues.length > 0 ? packValues.reduce((a, b) => Math.min(a, b)) : 0,
+    maxValue: packValues.length > 0 ? packValues.reduce((a, b) => Math.max(a, b)) : 0,
+    guaranteesMet,
+    depletedTiers,
+    issues,
+  };
+}
+
+/**
+ * Simulate openings of a pack against its current AVAILABLE pool
+ *
+ * Returns null when the pack or its config does not exist
+ */
+export async function simulatePackOpenings(
+  packProductId: string,
+  {
+    mode = "independent",
+    count = DEFAULT_SIMULATIONS,
+  }: { mode?: SimulationMode; count?: number } = {}
+): Promise<SimulationResult | null> {
+  const pack = await prisma.packProduct.findUnique({
+    where: { id: packProductId },
+    include: {
+      config: {
+        include: {
+          guarantees: { include: { tier: true } },
+          tierWeights: { include: { tier: true } },
+        },
+      },
+      poolItems: {
+        where: { item: { status: ItemStatus.AVAILABLE } },
+        include: {
+          item: {
+            select: {
+              id: true,
+              tierId: true,
+              estimatedValue: true,
+              tier: { select: { name: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!pack || !pack.config) {
+    return null;
+  }
+
+  const items = pack.poolItems.map((pi) => pi.item);
+  const tierNames: Record<string, string> = {};
+  for (const t of [...pack.config.guarantees, ...pack.config.tierWeights, ...items]) {
+    tierNames[t.tierId] = t.tier.name;
+  }
+
+  const remaining =
+    pack.maxSupply !== null ? Math.max(pack.maxSupply - pack.soldCount, 0) : null;
+
+  return runPackSimulation({
+    packProductId,
+    mode,
+    packs: mode === "deplete" ? remaining : count,
+    config: pack.config,
+    items: items.map(({ id, tierId, estimatedValue }) => ({ id, tierId, estimatedValue })),
+    tierNames,
+  });
+}
+
+/**
+ * Share of drawn items expected from each tier, from the pool as it is now
+ */
+function expectedPercentages(
+  config: SimulationInput["config"],
+  pool: Record<string, PoolItem[]>
+): Record<string, number> {
+  const slots = planSlots(config.guarantees, config.itemsPerPack);
+  const weightedSlots = slots.filter((tierId) => tierId === null).length;
+  const activeWeights = getActiveTierWeights(config.tierWeights, pool);
+  const totalWeight = activeWeights.reduce((sum, tw) => sum + tw.weight, 0);
+  const expected: Record<string, number> = {};
+
+  for (const tierId of slots) {
+    if (tierId) {
+      expected[tierId] = (expected[tierId] ?? 0) + 100 / slots.length;
+    }
+  }
+  for (const tw of activeWeights) {
+    expected[tw.tierId] =
+      (expected[tw.tierId] ?? 0) + (tw.weight / totalWeight) * (weightedSlots / slots.length) * 100;
+  }
+
+  return expected;
+}
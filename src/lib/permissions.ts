@@ -0,0 +1,55 @@
+import type { AdminRole } from "@prisma/client";
+
+/**
+ * Admin Permissions
+ *
+ * What each admin role may do. Routes declare the permission they need
+ * (see adminRoute); nothing checks roles directly.
+ *
+ * Roles:
+ * - SUPER_ADMIN: everything, including managing other admins
+ * - ADMIN: runs the catalogue, money and integrations
+ * - OPERATOR: day-to-day fulfilment - can see packs and inventory and
+ *   move shipments along, but not change odds, values or balances
+ */
+
+export const PERMISSIONS = [
+  "packs:read", // View packs, preview health, run simulations
+  "packs:write", // Create packs, edit config, odds and pools
+  "packs:publish", // Put packs on sale or pause them
+  "inventory:read",
+  "inventory:write", // Create, edit, retire and import items; tier bands
+  "inventory:revalue", // Change item values
+  "shipments:read",
+  "shipments:fulfil", // Advance shipment status
+  "refunds:write", // Refund openings, retry failed refunds
+  "balances:adjust", // Credit or debit user balances
+  "ledger:read", // Reconciliation reports
+  "webhooks:read",
+  "webhooks:replay",
+  "audit:read",
+  "audit:verify",
+  "admins:manage", // Invite, deactivate and change roles of admins
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+const OPERATOR_PERMISSIONS: Permission[] = [
+  "packs:read",
+  "inventory:read",
+  "shipments:read",
+  "shipments:fulfil",
+];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  SUPER_ADMIN: PERMISSIONS,
+  ADMIN: PERMISSIONS.filter((p) => p !== "admins:manage"),
+  OPERATOR: OPERATOR_PERMISSIONS,
+};
+
+/**
+ * Whether a role grants a permission
+ */
+export function hasPermission(role: AdminRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
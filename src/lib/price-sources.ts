@@ -0,0 +1,61 @@
+import { readFile } from "fs/promises";
+import path from "path";
+
+/**
+ * Price Sources
+ *
+ * Market prices for revaluation come from a PriceSource. Each source
+ * returns current values in cents keyed by SKU; SKUs it has no price for
+ * are left out and the item keeps its value.
+ *
+ * Sources:
+ * - fixture: a local JSON file of { "<sku>": <cents> }, for development
+ *   and offline testing (PRICE_FIXTURE_PATH, defaults to
+ *   prisma/fixtures/prices.json)
+ *
+ * Add a source by implementing PriceSource and registering it below.
+ */
+
+export interface PriceSource {
+  name: string;
+  getPrices(skus: string[]): Promise<Map<string, number>>;
+}
+
+const DEFAULT_FIXTURE_PATH = path.join(process.cwd(), "prisma", "fixtures", "prices.json");
+
+/**
+ * Price source backed by a local JSON file
+ */
+export function createFixturePriceSource(
+  filePath: string = process.env.PRICE_FIXTURE_PATH || DEFAULT_FIXTURE_PATH
+): PriceSource {
+  return {
+    name: "fixture",
+    async getPrices(skus) {
+      const fixture = JSON.parse(await readFile(filePath, "utf8")) as Record<string, unknown>;
+      const prices = new Map<string, number>();
+
+      for (const sku of skus) {
+        const value = fixture[sku];
+        if (typeof value === "number" && Number.isInteger(value) && value > 0) {
+          prices.set(sku, value);
+        }
+      }
+
+      return prices;
+    },
+  };
+}
+
+const PRICE_SOURCES: Record<string, () => PriceSource> = {
+  fixture: () => createFixturePriceSource(),
+};
+
+export function getPriceSource(name: string): PriceSource | null {
+  const factory = PRICE_SOURCES[name];
+  return factory ? factory() : null;
+}
+
+export function listPriceSources(): string[] {
+  return Object.keys(PRICE_SOURCES);
+}
@@ -0,0 +1,356 @@
+import { createHash, createHmac, randomBytes } from "crypto";
+import prisma from "./prisma";
+import { pickIndex, pickWeightedTier, type SelectionRolls } from "./item-selection";
+import { OpeningStatus, Prisma } from "@prisma/client";
+import type {
+  FairnessCommitment,
+  FairnessSlotProof,
+  FairnessVerification,
+} from "@/types";
+
+/**
+ * Provably Fair Randomness
+ *
+ * Commit/reveal scheme for pack openings:
+ * 1. Each user has an active seed pair: a secret server seed, published
+ *    only as its SHA-256 hash, and a client seed the user controls
+ * 2. Every opening claims the next nonce at purchase time, before any
+ *    item is drawn
+ * 3. Rolls are HMAC-SHA256(serverSeed, "clientSeed:nonce:round") mapped
+ *    to [0, 1); slot N of an opening uses round 2N for the tier and
+ *    round 2N+1 for the item
+ * 4. Rotating the pair reveals the old server seed, so the user can check
+ *    it against the hash and replay every roll made with it
+ * 5. Each slot's proof lists the candidates its item roll picked from, so
+ *    the replayed index must land on the assigned item, and that item
+ *    must have been in the selected tier
+ */
+
+const SERVER_SEED_BYTES = 32;
+const CLIENT_SEED_BYTES = 16;
+
+// 52 bits fit exactly in a double's mantissa
+const ROLL_HEX_CHARS = 13;
+const ROLL_DIVISOR = 2 ** 52;
+
+export function generateServerSeed(): string {
+  return randomBytes(SERVER_SEED_BYTES).toString("hex");
+}
+
+export function generateClientSeed(): string {
+  return randomBytes(CLIENT_SEED_BYTES).toString("hex");
+}
+
+export function hashServerSeed(serverSeed: string): string {
+  return createHash("sha256").update(serverSeed).digest("hex");
+}
+
+/**
+ * Derive a roll in [0, 1) for one round of an opening
+ */
+export function computeRoll(
+  serverSeed: string,
+  clientSeed: string,
+  nonce: number,
+  round: number
+): number {
+  const digest = createHmac("sha256", serverSeed)
+    .update(`${clientSeed}:${nonce}:${round}`)
+    .digest("hex");
+
+  return parseInt(digest.slice(0, ROLL_HEX_CHARS), 16) / ROLL_DIVISOR;
+}
+
+/**
+ * Tier and item rolls for one slot of an opening
+ */
+export function computeSlotRolls(
+  serverSeed: string,
+  clientSeed: string,
+  nonce: number,
+  slot: number
+): SelectionRolls {
+  return {
+    tierRoll: computeRoll(serverSeed, clientSeed, nonce, slot * 2),
+    itemRoll: computeRoll(serverSeed, clientSeed, nonce, slot * 2 + 1),
+  };
+}
+
+/**
+ * Replay a stored slot proof against its rolls
+ */
+export function replaySlot(
+  proof: FairnessSlotProof,
+  rolls: SelectionRolls
+): { selectedTierId: string | null; itemIndex: number } {
+  const selectedTierId = proof.activeWeights.length > 0
+    ? pickWeightedTier(proof.activeWeights, rolls.tierRoll)
+    : null;
+
+  return {
+    selectedTierId,
+    itemIndex: pickIndex(proof.candidateCount, rolls.itemRoll),
+  };
+}
+
+/**
+ * Replay a stored slot proof and check it produced the assigned item
+ *
+ * valid is null for proofs stored before candidate lists were: their
+ * rolls replay, but nothing ties them to the item.
+ */
+export function checkSlotProof(
+  proof: FairnessSlotProof,
+  rolls: SelectionRolls,
+  assigned: { itemId: string; inSelectedTier: boolean }
+): { replayed: ReturnType<typeof replaySlot>; valid: boolean | null } {
+  const replayed = replaySlot(proof, rolls);
+  const replays =
+    rolls.tierRoll === proof.tierRoll &&
+    rolls.itemRoll === proof.itemRoll &&
+    replayed.selectedTierId === proof.selectedTierId &&
+    replayed.itemIndex === proof.itemIndex;
+
+  if (!replays) {
+    return { replayed, valid: false };
+  }
+
+  if (!proof.candidateIds) {
+    return { replayed, valid: null };
+  }
+
+  return {
+    replayed,
+    valid:
+      proof.candidateIds.length === proof.candidateCount &&
+      proof.candidateIds[replayed.itemIndex] === assigned.itemId &&
+      assigned.inSelectedTier,
+  };
+}
+
+/**
+ * Get the user's active seed pair, creating one if needed
+ *
+ * Parallel first purchases race to create the pair. activeUserId is
+ * unique, so only one insert lands; the others skip and read it back.
+ */
+async function getOrCreateActiveSeed(
+  tx: Prisma.TransactionClient,
+  userId: string
+) {
+  const findActive = () =>
+    tx.fairnessSeed.findFirst({
+      where: { userId, active: true },
+      orderBy: { createdAt: "asc" },
+    });
+
+  const existing = await findActive();
+
+  if (existing) {
+    return existing;
+  }
+
+  // ON CONFLICT DO NOTHING - a duplicate would abort the transaction
+  const serverSeed = generateServerSeed();
+  await tx.fairnessSeed.createMany({
+    data: [
+      {
+        userId,
+        activeUserId: userId,
+        serverSeed,
+        serverSeedHash: hashServerSeed(serverSeed),
+        clientSeed: generateClientSeed(),
+      },
+    ],
+    skipDuplicates: true,
+  });
+
+  const created = await findActive();
+
+  if (!created) {
+    throw new Error(`Failed to create fairness seed for user ${userId}`);
+  }
+
+  return created;
+}
+
+/**
+ * Current commitment shown to the user before they buy
+ */
+export async function getActiveCommitment(
+  userId: string
+): Promise<FairnessCommitment> {
+  const seed = await prisma.$transaction((tx) =>
+    getOrCreateActiveSeed(tx, userId)
+  );
+
+  return {
+    serverSeedHash: seed.serverSeedHash,
+    clientSeed: seed.clientSeed,
+    nonce: seed.nonce,
+  };
+}
+
+/**
+ * Claim the next nonce for a new opening
+ *
+ * Call inside the transaction that creates the opening
+ */
+export async function claimNonce(
+  tx: Prisma.TransactionClient,
+  userId: string
+): Promise<{ fairnessSeedId: string; nonce: number }> {
+  const seed = await getOrCreateActiveSeed(tx, userId);
+
+  const updated = await tx.fairnessSeed.update({
+    where: { id: seed.id },
+    data: { nonce: { increment: 1 } },
+    select: { nonce: true },
+  });
+
+  return { fairnessSeedId: seed.id, nonce: updated.nonce - 1 };
+}
+
+/**
+ * Reveal the active server seed and start a new pair
+ *
+ * Refused while openings that use the active seed are still waiting for
+ * their draw - revealing early would let the user predict them.
+ */
+export async function rotateSeed(
+  userId: string,
+  clientSeed?: string
+): Promise<{
+  success: boolean;
+  error?: string;
+  revealed?: FairnessCommitment & { serverSeed: string };
+  next?: FairnessCommitment;
+}> {
+  return prisma.$transaction(async (tx) => {
+    const current = await getOrCreateActiveSeed(tx, userId);
+
+    const undrawn = await tx.packOpening.count({
+      where: {
+        fairnessSeedId: current.id,
+        status: { in: [OpeningStatus.PENDING, OpeningStatus.PROCESSING] },
+      },
+    });
+
+    if (undrawn > 0) {
+      return {
+        success: false,
+        error: "Seed cannot be rotated while openings are still in progress",
+      };
+    }
+
+    // Conditional so a concurrent rotation cannot reveal twice
+    const deactivated = await tx.fairnessSeed.updateMany({
+      where: { id: current.id, active: true },
+      data: { active: false, activeUserId: null, revealedAt: new Date() },
+    });
+
+    if (deactivated.count === 0) {
+      return { success: false, error: "Seed was already rotated" };
+    }
+
+    const serverSeed = generateServerSeed();
+    const next = await tx.fairnessSeed.create({
+      data: {
+        userId,
+        activeUserId: userId,
+        serverSeed,
+        serverSeedHash: hashServerSeed(serverSeed),
+        clientSeed: clientSeed || generateClientSeed(),
+      },
+    });
+
+    return {
+      success: true,
+      revealed: {
+        serverSeed: current.serverSeed,
+        serverSeedHash: current.serverSeedHash,
+        clientSeed: current.clientSeed,
+        nonce: current.nonce,
+      },
+      next: {
+        serverSeedHash: next.serverSeedHash,
+        clientSeed: next.clientSeed,
+        nonce: next.nonce,
+      },
+    };
+  });
+}
+
+/**
+ * Replay the draw of an opening
+ *
+ * Before the seed is revealed only the commitment is returned
+ */
+export async function verifyOpening(
+  openingId: string
+): Promise<FairnessVerification | null> {
+  const opening = await prisma.packOpening.findUnique({
+    where: { id: openingId },
+    include: {
+      fairnessSeed: true,
+      assignments: { orderBy: { slot: "asc" } },
+    },
+  });
+
+  if (!opening || !opening.fairnessSeed || opening.nonce === null) {
+    return null;
+  }
+
+  const seed = opening.fairnessSeed;
+  const revealed = seed.revealedAt !== null;
+
+  // Assignments record the tier by name, as it was when drawn
+  const selectedTierIds = opening.assignments.flatMap((a) => {
+    const tierId = (a.fairnessProof as unknown as FairnessSlotProof | null)?.selectedTierId;
+    return tierId ? [tierId] : [];
+  });
+  const tiers = await prisma.itemTier.findMany({
+    where: { id: { in: selectedTierIds } },
+    select: { id: true, name: true },
+  });
+  const tierNames = new Map(tiers.map((tier) => [tier.id, tier.name]));
+
+  const slots = opening.assignments
+    .filter((a) => a.fairnessProof !== null)
+    .map((a) => {
+      const stored = a.fairnessProof as unknown as FairnessSlotProof;
+
+      if (!revealed) {
+        return { slot: stored.slot, assignedItemId: a.itemId, stored, replayed: null, valid: null };
+      }
+
+      const rolls = computeSlotRolls(seed.serverSeed, seed.clientSeed, opening.nonce!, stored.slot);
+      const { replayed, valid } = checkSlotProof(stored, rolls, {
+        itemId: a.itemId,
+        inSelectedTier:
+          stored.selectedTierId === null ||
+          tierNames.get(stored.selectedTierId) === a.tierAtAssignment,
+      });
+
+      return {
+        slot: stored.slot,
+        assignedItemId: a.itemId,
+        stored,
+        replayed: { ...rolls, ...replayed },
+        valid,
+      };
+    });
+
+  return {
+    openingId: opening.id,
+    revealed,
+    commitment: {
+      serverSeedHash: seed.serverSeedHash,
+      clientSeed: seed.clientSeed,
+      nonce: opening.nonce,
+    },
+    serverSeed: revealed ? seed.serverSeed : null,
+    hashMatches: revealed ? hashServerSeed(seed.serverSeed) === seed.serverSeedHash : null,
+    slots,
+  };
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "./auth";
+import { takeToken } from "./redis";
+import { getClientIp } from "./client-ip";
+
+/**
+ * Rate Limiting
+ *
+ * Token buckets (see takeToken in redis) per route and caller. Routes
+ * opt in by exporting their handler through withRateLimit with a name
+ * from RATE_LIMITS.
+ *
+ * Rules:
+ * - "user" limits key on the signed-in user, falling back to the IP for
+ *   anonymous callers; "ip" limits always key on the IP (see client-ip)
+ * - A caller with no trusted IP is not limited by IP - one shared bucket
+ *   for all of them would let anyone exhaust it for everyone
+ * - A refused request gets 429 with Retry-After and never reaches the
+ *   handler
+ * - If the limiter itself fails the request is let through - an outage of
+ *   Redis must not take checkout down with it
+ */
+
+export interface RateLimitConfig {
+  limit: number; // Requests allowed in a burst
+  windowSeconds: number; // Time for an empty bucket to refill
+  by: "user" | "ip";
+}
+
+export const RATE_LIMITS = {
+  checkout: { limit: 10, windowSeconds: 60, by: "user" },
+  register: { limit: 5, windowSeconds: 60 * 60, by: "ip" },
+  "admin-login": { limit: 10, windowSeconds: 15 * 60, by: "ip" },
+  "admin-login-verify": { limit: 10, windowSeconds: 15 * 60, by: "ip" },
+  "add-balance": { limit: 5, windowSeconds: 60, by: "user" },
+} satisfies Record<string, RateLimitConfig>;
+
+export type RateLimitedRoute = keyof typeof RATE_LIMITS;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Take one request from the caller's bucket for a route
+ */
+export async function checkRateLimit(
+  route: RateLimitedRoute,
+  identity: string
+): Promise<RateLimitResult> {
+  const config: RateLimitConfig = RATE_LIMITS[route];
+  const result = await takeToken(
+    `ratelimit:${route}:${identity}`,
+    config.limit,
+    config.windowSeconds
+  );
+
+  return {
+    allowed: result.allowed,
+    limit: config.limit,
+    remaining: result.remaining,
+    retryAfterSeconds: Math.ceil(result.retryAfterMs / 1000),
+  };
+}
+
+/**
+ * Wrap a route handler with a rate limit
+ */
+export function withRateLimit<C>(
+  route: RateLimitedRoute,
+  handler: (request: NextRequest, context: C) => Promise<Response>
+): (request: NextRequest, context: C) => Promise<Response> {
+  return async (request, context) => {
+    let result: RateLimitResult | null = null;
+
+    try {
+      const identity = await resolveIdentity(route, request);
+      if (identity) {
+        result = await checkRateLimit(route, identity);
+      }
+    } catch (error) {
+      console.error("Rate limit error:", error);
+    }
+
+    if (result && !result.allowed) {
+      return NextResponse.json(
+        { error: "Too many requests - try again later" },
+        {
+          status: 429,
+          headers: {
+            "Retry-After": String(Math.max(1, result.retryAfterSeconds)),
+            "X-RateLimit-Limit": String(result.limit),
+            "X-RateLimit-Remaining": "0",
+          },
+        }
+      );
+    }
+
+    const response = await handler(request, context);
+
+    if (result) {
+      response.headers.set("X-RateLimit-Limit", String(result.limit));
+      response.headers.set("X-RateLimit-Remaining", String(result.remaining));
+    }
+
+    return response;
+  };
+}
+
+/**
+ * Bucket key for the caller, or null if nothing identifies them
+ */
+async function resolveIdentity(
+  route: RateLimitedRoute,
+  request: NextRequest
+): Promise<string | null> {
+  if (RATE_LIMITS[route].by === "user") {
+    const session = await getServerSession(authOptions);
+    if (session?.user?.id) {
+      return `user:${session.user.id}`;
+    }
+  }
+
+  const ip = getClientIp(request);
+  return ip ? `ip:${ip}` : null;
+}
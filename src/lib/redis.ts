@@ -1,194 +1,234 @@
+import {
+  createKeyValueBackend,
+  resolveKeyValueConfig,
+  type KeyValueBackend,
+  type TokenBucketResult,
+} from "./kv-backend";
+
+export { applyTokenBucket, type TokenBucketResult, type TokenBucketState } from "./kv-backend";
+
 /**
- * Redis Client with In-Memory Fallback
- * 
+ * Redis Helpers
+ *
  * Used for:
- * - Distributed locks during pack assignment
+ * - Distributed locks with lease renewal and fencing tokens
  * - Caching pack health calculations
  * - Rate limiting
- * 
- * Falls back to in-memory implementation for local development
+ *
+ * Runs on the key-value backend chosen by KV_BACKEND (see kv-backend):
+ * Redis in production, an in-process store for local development
  */
 
-// In-memory storage for development without Redis
-const memoryStore = new Map<string, { value: string; expiresAt: number | null }>();
-const memoryLocks = new Map<string, string>();
-
-// Check if we should use real Redis
-const useRealRedis = !!process.env.REDIS_URL && process.env.REDIS_URL !== "redis://localhost:6379";
-
-let redisClient: import("ioredis").default | null = null;
-
-async function getRedisClient() {
-  if (!useRealRedis) return null;
-  
-  if (!redisClient) {
-    const Redis = (await import("ioredis")).default;
-    redisClient = new Redis(process.env.REDIS_URL!, {
-      maxRetriesPerRequest: 3,
-      enableReadyCheck: true,
-      connectTimeout: 10000,
-      lazyConnect: true,
-    });
+let backend: KeyValueBackend | null = null;
+
+function getBackend(): KeyValueBackend {
+  if (!backend) {
+    backend = createKeyValueBackend(resolveKeyValueConfig());
+
+    if (!backend.shared && process.env.NODE_ENV === "production") {
+      console.warn("KV_BACKEND is memory - locks, rate limits and caches are per process");
+    }
   }
-  return redisClient;
+  return backend;
 }
 
 /**
- * In-memory lock implementation for local development
+ * Whether keys are shared across processes
+ *
+ * The in-memory backend is per process, so a separate script cannot see
+ * keys written by the app server
  */
-class InMemoryLock {
-  private key: string;
-  private value: string;
-  
-  constructor(key: string) {
-    this.key = `lock:${key}`;
-    this.value = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
-  }
-  
-  acquire(): boolean {
-    if (memoryLocks.has(this.key)) {
-      return false;
-    }
-    memoryLocks.set(this.key, this.value);
-    // Auto-expire after 30 seconds
-    setTimeout(() => {
-      if (memoryLocks.get(this.key) === this.value) {
-        memoryLocks.delete(this.key);
-      }
-    }, 30000);
-    return true;
-  }
-  
-  release(): boolean {
-    if (memoryLocks.get(this.key) === this.value) {
-      memoryLocks.delete(this.key);
-      return true;
-    }
-    return false;
-  }
+export function isSharedRedis(): boolean {
+  return getBackend().shared;
+}
+
+export interface LockMetrics {
+  acquired: number;
+  contended: number; // Acquire attempts that found the lock taken
+  timedOut: number; // withLock calls that gave up waiting
+  extended: number;
+  lost: number; // Leases that expired or were taken while held
+  released: number;
+  releaseFailed: number; // Release calls that errored - the lease expires on its own
+}
+
+const lockMetrics: LockMetrics = {
+  acquired: 0,
+  contended: 0,
+  timedOut: 0,
+  extended: 0,
+  lost: 0,
+  released: 0,
+  releaseFailed: 0,
+};
+
+/**
+ * Lock counters for this process since it started
+ */
+export function getLockMetrics(): LockMetrics {
+  return { ...lockMetrics };
 }
 
 /**
- * Distributed Lock for Pack Assignment
+ * Distributed Lock
+ *
+ * A lease on a key: it expires after ttlSeconds unless extended, so a
+ * crashed holder cannot block others forever. Each successful acquire
+ * gets a fencing token, higher than every token issued for the key
+ * before. A holder whose lease ran out can still be mid-write, so the
+ * resource it writes to should refuse stale tokens (see
+ * acceptFencingToken).
  */
 export class DistributedLock {
   private lockKey: string;
+  private fenceKey: string;
   private lockValue: string;
-  private ttlSeconds: number;
-  
+  private ttlMs: number;
+  private token: number | null = null;
+
   constructor(key: string, ttlSeconds = 30) {
     this.lockKey = `lock:${key}`;
+    this.fenceKey = `lock:${key}:fence`;
     this.lockValue = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
-    this.ttlSeconds = ttlSeconds;
+    this.ttlMs = Math.ceil(ttlSeconds * 1000);
+  }
+
+  /**
+   * Fencing token of the current lease, or null if never acquired
+   */
+  get fencingToken(): number | null {
+    return this.token;
   }
-  
+
   async acquire(): Promise<boolean> {
-    const client = await getRedisClient();
-    
-    if (!client) {
-      // Use in-memory lock
-      if (memoryLocks.has(this.lockKey)) {
-        return false;
-      }
-      memoryLocks.set(this.lockKey, this.lockValue);
-      setTimeout(() => {
-        if (memoryLocks.get(this.lockKey) === this.lockValue) {
-          memoryLocks.delete(this.lockKey);
-        }
-      }, this.ttlSeconds * 1000);
-      return true;
-    }
-    
-    const result = await client.set(
+    const token = await getBackend().acquireLock(
       this.lockKey,
+      this.fenceKey,
       this.lockValue,
-      "EX",
-      this.ttlSeconds,
-      "NX"
+      this.ttlMs
     );
-    return result === "OK";
+
+    if (token === null) {
+      lockMetrics.contended++;
+      return false;
+    }
+
+    this.token = token;
+    lockMetrics.acquired++;
+    return true;
+  }
+
+  /**
+   * Restart the lease's TTL - false if it was already lost
+   */
+  async extend(): Promise<boolean> {
+    const extended = await getBackend().extendLock(this.lockKey, this.lockValue, this.ttlMs);
+
+    if (extended) {
+      lockMetrics.extended++;
+    } else {
+      lockMetrics.lost++;
+    }
+    return extended;
   }
-  
+
   async release(): Promise<boolean> {
-    const client = await getRedisClient();
-    
-    if (!client) {
-      if (memoryLocks.get(this.lockKey) === this.lockValue) {
-        memoryLocks.delete(this.lockKey);
-        return true;
-      }
-      return false;
+    let released: boolean;
+    try {
+      released = await getBackend().releaseLock(this.lockKey, this.lockValue);
+    } catch (error) {
+      lockMetrics.releaseFailed++;
+      throw error;
+    }
+
+    if (released) {
+      lockMetrics.released++;
     }
-    
-    const luaScript = `
-      if redis.call("get", KEYS[1]) == ARGV[1] then
-        return redis.call("del", KEYS[1])
-      else
-        return 0
-      end
-    `;
-    
-    const result = await client.eval(luaScript, 1, this.lockKey, this.lockValue);
-    return result === 1;
+    return released;
   }
 }
 
+export interface LockLease {
+  fencingToken: number;
+  signal: AbortSignal; // Aborted if the lease is lost while the callback runs
+}
+
 /**
  * Execute a function with a distributed lock
+ *
+ * The lease is extended every third of its TTL for as long as fn runs,
+ * so slow work keeps the lock. fn gets the fencing token to pass to what
+ * it writes, and a signal that aborts if renewal finds the lease lost.
+ * A failed release is logged, not thrown, so it never replaces fn's
+ * result or error.
  */
 export async function withLock<T>(
   key: string,
-  fn: () => Promise<T>,
+  fn: (lease: LockLease) => Promise<T>,
   options: { ttlSeconds?: number; maxRetries?: number; retryDelayMs?: number } = {}
 ): Promise<T> {
   const { ttlSeconds = 30, maxRetries = 5, retryDelayMs = 100 } = options;
-  
+
   const lock = new DistributedLock(key, ttlSeconds);
   let retries = 0;
-  
+
   while (retries < maxRetries) {
     const acquired = await lock.acquire();
-    
+
     if (acquired) {
+      const controller = new AbortController();
+      const renewal = setInterval(async () => {
+        try {
+          if (!(await lock.extend())) {
+            clearInterval(renewal);
+            controller.abort(new Error(`Lost lock for key: ${key}`));
+          }
+        } catch (error) {
+          // The lease may still be valid - try again next interval
+          console.error("Lock renewal error:", error);
+        }
+      }, (ttlSeconds * 1000) / 3);
+
       try {
-        return await fn();
+        return await fn({ fencingToken: lock.fencingToken!, signal: controller.signal });
       } finally {
-        await lock.release();
+        clearInterval(renewal);
+        try {
+          await lock.release();
+        } catch (error) {
+          console.error(`Lock release error for key: ${key}:`, error);
+        }
       }
     }
-    
+
     retries++;
     if (retries < maxRetries) {
       await new Promise((resolve) => setTimeout(resolve, retryDelayMs * retries));
     }
   }
-  
+
+  lockMetrics.timedOut++;
   throw new Error(`Failed to acquire lock for key: ${key} after ${maxRetries} retries`);
 }
 
+/**
+ * Check a fencing token against a resource
+ *
+ * Returns false if the resource has already accepted a higher token - the
+ * caller's lease was superseded and it must not write. Tokens from one
+ * lock key are comparable; resource names whatever the lock protects.
+ */
+export async function acceptFencingToken(resource: string, token: number): Promise<boolean> {
+  return getBackend().acceptFencingToken(`fence:${resource}`, token);
+}
+
 /**
  * Cache helper with TTL
  */
 export async function cacheGet<T>(key: string): Promise<T | null> {
-  const client = await getRedisClient();
-  
-  if (!client) {
-    const entry = memoryStore.get(key);
-    if (!entry) return null;
-    if (entry.expiresAt && entry.expiresAt < Date.now()) {
-      memoryStore.delete(key);
-      return null;
-    }
-    try {
-      return JSON.parse(entry.value) as T;
-    } catch {
-      return null;
-    }
-  }
-  
-  const value = await client.get(key);
+  const value = await getBackend().get(key);
   if (!value) return null;
-  
+
   try {
     return JSON.parse(value) as T;
   } catch {
@@ -201,78 +241,50 @@ export async function cacheSet<T>(
   value: T,
   ttlSeconds: number
 ): Promise<void> {
-  const client = await getRedisClient();
-  
-  if (!client) {
-    memoryStore.set(key, {
-      value: JSON.stringify(value),
-      expiresAt: Date.now() + ttlSeconds * 1000,
-    });
-    return;
-  }
-  
-  await client.set(key, JSON.stringify(value), "EX", ttlSeconds);
+  await getBackend().set(key, JSON.stringify(value), { ttlMs: ttlSeconds * 1000 });
 }
 
 export async function cacheDelete(key: string): Promise<void> {
-  const client = await getRedisClient();
-  
-  if (!client) {
-    memoryStore.delete(key);
-    return;
-  }
-  
-  await client.del(key);
+  await getBackend().delete(key);
 }
 
-// Export a mock redis object for compatibility
+/**
+ * Add to a counter, creating it at zero if missing
+ *
+ * The counter never drops below zero and expires ttlSeconds after its
+ * last change, so increments lost to a crash cannot pin it forever.
+ * Returns the new value.
+ */
+export async function incrementCounter(
+  key: string,
+  delta: number,
+  ttlSeconds: number
+): Promise<number> {
+  return getBackend().incrementCounter(key, delta, ttlSeconds * 1000);
+}
+
+/**
+ * Take one token from a bucket, creating it full if missing
+ */
+export async function takeToken(
+  key: string,
+  capacity: number,
+  windowSeconds: number
+): Promise<TokenBucketResult> {
+  return getBackend().takeToken(key, capacity, windowSeconds * 1000);
+}
+
+// Redis-style string commands for callers that store raw strings
 export const redis = {
-  get: async (key: string) => {
-    const client = await getRedisClient();
-    if (!client) {
-      const entry = memoryStore.get(key);
-      if (!entry) return null;
-      if (entry.expiresAt && entry.expiresAt < Date.now()) {
-        memoryStore.delete(key);
-        return null;
-      }
-      return entry.value;
-    }
-    return client.get(key);
-  },
+  get: (key: string) => getBackend().get(key),
   set: async (key: string, value: string, mode?: string, ttlValue?: number, nx?: string) => {
-    const client = await getRedisClient();
-    if (!client) {
-      let ttl: number | null = null;
-      if (mode === "EX" && typeof ttlValue === "number") {
-        ttl = ttlValue * 1000;
-      }
-      // Handle NX (only set if not exists) - check for locks
-      if (nx === "NX" && memoryStore.has(key)) {
-        return null;
-      }
-      memoryStore.set(key, {
-        value,
-        expiresAt: ttl ? Date.now() + ttl : null,
-      });
-      return "OK";
-    }
-    if (mode === "EX" && ttlValue !== undefined) {
-      if (nx === "NX") {
-        return client.set(key, value, "EX", ttlValue, "NX");
-      }
-      return client.set(key, value, "EX", ttlValue);
-    }
-    return client.set(key, value);
-  },
-  del: async (key: string) => {
-    const client = await getRedisClient();
-    if (!client) {
-      memoryStore.delete(key);
-      return 1;
-    }
-    return client.del(key);
+    const stored = await getBackend().set(key, value, {
+      ttlMs: mode === "EX" && typeof ttlValue === "number" ? ttlValue * 1000 : undefined,
+      nx: nx === "NX",
+    });
+    return stored ? "OK" : null;
   },
+  del: async (key: string) => ((await getBackend().delete(key)) ? 1 : 0),
 };
 
 export default redis;
@@ -0,0 +1,226 @@
+import prisma from "./prisma";
+import { createRefund } from "./stripe";
+import { postBalanceChange } from "./ledger";
+import { OpeningStatus } from "@prisma/client";
+import Stripe from "stripe";
+
+/**
+ * Refunds
+ *
+ * Pays back openings that were charged but could not be assigned.
+ *
+ * Rules:
+ * - Only FAILED openings are refunded, and only once: the move to REFUNDED
+ *   is a conditional update, so a retry that races a success is a no-op
+ * - Card openings are refunded through Stripe with an idempotency key per
+ *   opening, so retrying after a partial failure returns the same refund
+ * - Balance openings are credited back through the ledger in the same
+ *   transaction that marks them REFUNDED
+ * - Card openings that never received a payment have nothing to refund
+ *   and stay FAILED
+ */
+
+const MAX_ATTEMPTS = 3;
+const BASE_DELAY_MS = 500;
+
+export interface RefundResult {
+  success: boolean;
+  alreadyRefunded?: boolean;
+  error?: string;
+}
+
+/**
+ * Refund a single FAILED opening
+ *
+ * Safe to call repeatedly
+ */
+export async function refundOpening(
+  openingId: string,
+  reason: string
+): Promise<RefundResult> {
+  const opening = await prisma.packOpening.findUnique({
+    where: { id: openingId },
+    include: { packProduct: { select: { name: true } } },
+  });
+
+  if (!opening) {
+    return { success: false, error: "Opening not found" };
+  }
+
+  if (opening.status === OpeningStatus.REFUNDED) {
+    return { success: true, alreadyRefunded: true };
+  }
+
+  if (opening.status !== OpeningStatus.FAILED) {
+    return { success: false, error: `Opening is not refundable: ${opening.status}` };
+  }
+
+  // Card purchase - refund the payment intent
+  if (opening.stripeSessionId) {
+    if (!opening.stripePaymentId || !opening.paidAt) {
+      return { success: false, error: "Opening has no payment to refund" };
+    }
+
+    const refund = await createStripeRefund(opening.stripePaymentId, openingId);
+
+    const updated = await prisma.packOpening.updateMany({
+      where: { id: openingId, status: OpeningStatus.FAILED },
+      data: {
+        status: OpeningStatus.REFUNDED,
+        stripeRefundId: refund?.id,
+        refundedAt: new Date(),
+        lastRefundError: null,
+      },
+    });
+
+    return { success: true, alreadyRefunded: updated.count === 0 };
+  }
+
+  // Balance purchase - credit the amount back
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.packOpening.updateMany({
+      where: { id: openingId, status: OpeningStatus.FAILED },
+      data: {
+        status: OpeningStatus.REFUNDED,
+        refundedAt: new Date(),
+        lastRefundError: null,
+      },
+    });
+
+    if (updated.count === 0) {
+      return { success: true, alreadyRefunded: true };
+    }
+
+    await postBalanceChange(tx, {
+      userId: opening.userId,
+      amountCents: opening.amountPaid,
+      type: "REFUND",
+      referenceType: "PackOpening",
+      referenceId: openingId,
+      description: `Refund for ${opening.packProduct.name}: ${reason}`,
+    });
+
+    return { success: true };
+  });
+}
+
+/**
+ * Refund with retries and exponential backoff
+ *
+ * Each failed attempt is recorded on the opening so stuck refunds show up
+ * for admins and for retryFailedRefunds
+ */
+export async function refundOpeningWithRetry(
+  openingId: string,
+  reason: string,
+  { maxAttempts = MAX_ATTEMPTS, baseDelayMs = BASE_DELAY_MS } = {}
+): Promise<RefundResult> {
+  let lastError = "Refund failed";
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    if (attempt > 0) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, baseDelayMs * 2 ** (attempt - 1))
+      );
+    }
+
+    try {
+      // Returned errors are validation failures that a retry cannot fix;
+      // only thrown errors (Stripe or database) are retried
+      return await refundOpening(openingId, reason);
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      console.error(`Refund attempt ${attempt + 1} failed for opening ${openingId}:`, error);
+    }
+
+    await prisma.packOpening.update({
+      where: { id: openingId },
+      data: {
+        refundAttempts: { increment: 1 },
+        lastRefundError: lastError,
+      },
+    });
+  }
+
+  return { success: false, error: lastError };
+}
+
+/**
+ * Mark an opening FAILED after its assignment threw, then refund it
+ *
+ * Used by both the balance checkout and the Stripe webhook
+ */
+export async function failAndRefundOpening(
+  openingId: string,
+  reason: string
+): Promise<RefundResult> {
+  await prisma.packOpening.updateMany({
+    where: {
+      id: openingId,
+      status: { in: [OpeningStatus.PENDING, OpeningStatus.PROCESSING] },
+    },
+    data: { status: OpeningStatus.FAILED },
+  });
+
+  return refundOpeningWithRetry(openingId, reason);
+}
+
+/**
+ * Retry every paid opening that failed without being refunded
+ */
+export async function retryFailedRefunds(): Promise<{
+  attempted: number;
+  refunded: number;
+  failed: { openingId: string; error: string }[];
+}> {
+  const openings = await prisma.packOpening.findMany({
+    where: {
+      status: OpeningStatus.FAILED,
+      // Balance purchases, or card purchases that were actually paid
+      OR: [
+        { stripeSessionId: null },
+        { stripePaymentId: { not: null }, paidAt: { not: null } },
+      ],
+    },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  let refunded = 0;
+  const failed: { openingId: string; error: string }[] = [];
+
+  for (const opening of openings) {
+    const result = await refundOpeningWithRetry(opening.id, "Automatic refund retry");
+    if (result.success) {
+      refunded++;
+    } else {
+      failed.push({ openingId: opening.id, error: result.error ?? "Refund failed" });
+    }
+  }
+
+  return { attempted: openings.length, refunded, failed };
+}
+
+/**
+ * Refund through Stripe, treating an already-refunded charge as done
+ *
+ * Request parameters must not vary between retries - Stripe rejects an
+ * idempotency key reused with different parameters - so the default
+ * reason is always sent
+ */
+async function createStripeRefund(
+  paymentIntentId: string,
+  openingId: string
+): Promise<Stripe.Refund | null> {
+  try {
+    return await createRefund(paymentIntentId, undefined, `refund:${openingId}`);
+  } catch (error) {
+    if (
+      error instanceof Stripe.errors.StripeInvalidRequestError &&
+      error.code === "charge_already_refunded"
+    ) {
+      return null;
+    }
+    throw error;
+  }
+}
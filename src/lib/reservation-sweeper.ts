@@ -0,0 +1,104 @@
+import prisma from "./prisma";
+import { redis, withLock, type LockLease } from "./redis";
+import { itemReservationKey } from "./assignment-engine";
+import { invalidatePackHealthForItem } from "./pack-health";
+import { ItemStatus } from "@prisma/client";
+
+/**
+ * Reservation Sweeper
+ *
+ * Checkout reservations live in Redis with a TTL, but the matching
+ * Item.status = RESERVED lives in the database. When a reservation
+ * expires without being released, nothing else returns the item to its
+ * pack pool - this sweeper does.
+ *
+ * An item is released when:
+ * 1. It is RESERVED
+ * 2. Its per-item reservation key is gone from Redis
+ * 3. It has not changed for at least the grace period, so a reservation
+ *    that is still being written is never swept
+ *
+ * One sweep runs at a time (the cron route and the script share a lock),
+ * and a sweep that loses its lease stops at the next item. The lock only
+ * saves duplicate work: a sweep can lose its lease between its checks
+ * and its write, so each release is a conditional update that repeats
+ * the checks in the database, and an item reserved again since the read
+ * is left alone whichever sweep gets there.
+ */
+
+const DEFAULT_GRACE_SECONDS = 60;
+const BATCH_SIZE = 200;
+const SWEEP_LOCK_KEY = "reservation-sweep";
+const SWEEP_LOCK_TTL_SECONDS = 30;
+
+export interface SweepResult {
+  checked: number;
+  released: string[];
+  sweptAt: Date;
+}
+
+/**
+ * Release RESERVED items that no longer have a live reservation
+ */
+export async function sweepExpiredReservations({
+  graceSeconds = DEFAULT_GRACE_SECONDS,
+}: { graceSeconds?: number } = {}): Promise<SweepResult> {
+  const cutoff = new Date(Date.now() - graceSeconds * 1000);
+
+  return withLock(SWEEP_LOCK_KEY, (lease) => sweep(cutoff, lease), {
+    ttlSeconds: SWEEP_LOCK_TTL_SECONDS,
+  });
+}
+
+async function sweep(cutoff: Date, lease: LockLease): Promise<SweepResult> {
+  const released: string[] = [];
+  let checked = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const items = await prisma.item.findMany({
+      where: {
+        status: ItemStatus.RESERVED,
+        updatedAt: { lte: cutoff },
+      },
+      select: { id: true },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+
+    if (items.length === 0) {
+      break;
+    }
+    cursor = items[items.length - 1].id;
+    checked += items.length;
+
+    for (const item of items) {
+      const live = await redis.get(itemReservationKey(item.id));
+      if (live) {
+        continue;
+      }
+
+      if (lease.signal.aborted) {
+        throw new Error("Reservation sweep lost its lock to another sweep");
+      }
+
+      // Conditional so an item reserved again since the read is left alone
+      const updated = await prisma.item.updateMany({
+        where: {
+          id: item.id,
+          status: ItemStatus.RESERVED,
+          updatedAt: { lte: cutoff },
+        },
+        data: { status: ItemStatus.AVAILABLE },
+      });
+
+      if (updated.count > 0) {
+        released.push(item.id);
+        await invalidatePackHealthForItem(item.id);
+      }
+    }
+  }
+
+  return { checked, released, sweptAt: new Date() };
+}
@@ -0,0 +1,243 @@
+import prisma from "./prisma";
+import { recordUserActivity } from "./user-activity";
+import { HoldingStatus, ItemStatus, Prisma, ShipmentStatus } from "@prisma/client";
+import type { ShipmentRequest, ShippingAddressInput } from "@/types";
+import { z } from "zod";
+
+/**
+ * Shipping
+ *
+ * Moves items out of the vault to the user's doorstep
+ *
+ * Lifecycle:
+ *   PENDING -> PROCESSING -> SHIPPED -> DELIVERED
+ *   Any non-final state can move to FAILED
+ *
+ * Holding/item status follows the shipment:
+ * - Requested: holding and item move to SHIPPING
+ * - DELIVERED: holding and item move to SHIPPED (out of the system)
+ * - FAILED: holding returns to HOLDING and the item to ASSIGNED
+ */
+
+const ALLOWED_TRANSITIONS: Record<ShipmentStatus, ShipmentStatus[]> = {
+  PENDING: [ShipmentStatus.PROCESSING, ShipmentStatus.FAILED],
+  PROCESSING: [ShipmentStatus.SHIPPED, ShipmentStatus.FAILED],
+  SHIPPED: [ShipmentStatus.DELIVERED, ShipmentStatus.FAILED],
+  DELIVERED: [],
+  FAILED: [],
+};
+
+const TRACKING_URLS: Record<string, (trackingNumber: string) => string> = {
+  usps: (n) => `https://tools.usps.com/go/TrackConfirmAction?tLabels=${n}`,
+  ups: (n) => `https://www.ups.com/track?tracknum=${n}`,
+  fedex: (n) => `https://www.fedex.com/fedextrack/?trknbr=${n}`,
+  dhl: (n) => `https://www.dhl.com/us-en/home/tracking.html?tracking-id=${n}`,
+};
+
+export const shippingAddressSchema = z.object({
+  recipientName: z.string().trim().min(1, "Recipient name is required"),
+  addressLine1: z.string().trim().min(1, "Address is required"),
+  addressLine2: z.string().trim().optional(),
+  city: z.string().trim().min(1, "City is required"),
+  state: z.string().trim().min(1, "State is required"),
+  postalCode: z.string().trim().min(3, "Postal code is required").max(12),
+  country: z
+    .string()
+    .trim()
+    .length(2, "Country must be a 2-letter code")
+    .transform((c) => c.toUpperCase())
+    .default("US"),
+  phone: z.string().trim().optional(),
+});
+
+export interface ShippingResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * Expected business failure - rolls back the transaction and is
+ * reported to the caller instead of being rethrown
+ */
+class ShippingError extends Error {}
+
+async function runShippingTransaction<T>(
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<ShippingResult<T>> {
+  try {
+    const data = await prisma.$transaction(fn);
+    return { success: true, data };
+  } catch (error) {
+    if (error instanceof ShippingError) {
+      return { success: false, error: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Request delivery of a vault holding
+ */
+export async function requestShipment({
+  userId,
+  holdingId,
+  address,
+}: {
+  userId: string;
+  holdingId: string;
+  address: ShippingAddressInput;
+}): Promise<ShippingResult<ShipmentRequest>> {
+  return runShippingTransaction(async (tx) => {
+    const holding = await tx.vaultHolding.findFirst({
+      where: { id: holdingId, userId },
+      select: {
+        id: true,
+        itemId: true,
+        assignment: { select: { opening: { select: { disputedAt: true } } } },
+      },
+    });
+
+    if (!holding) {
+      throw new ShippingError("Holding not found");
+    }
+
+    // Items paid for with a disputed card payment stay in the vault
+    if (holding.assignment.opening.disputedAt) {
+      throw new ShippingError("Item cannot be shipped while its payment is disputed");
+    }
+
+    // Claim the holding - fails if it was listed, sold or already shipping
+    const claimed = await tx.vaultHolding.updateMany({
+      where: { id: holding.id, status: HoldingStatus.HOLDING },
+      data: { status: HoldingStatus.SHIPPING },
+    });
+
+    if (claimed.count === 0) {
+      throw new ShippingError("Holding is not available for shipping");
+    }
+
+    await tx.item.update({
+      where: { id: holding.itemId },
+      data: { status: ItemStatus.SHIPPING },
+    });
+
+    const shipment = await tx.shipmentRequest.create({
+      data: {
+        vaultHoldingId: holding.id,
+        userId,
+        ...address,
+      },
+    });
+
+    await recordUserActivity(tx, {
+      userId,
+      type: "SHIPMENT_REQUEST",
+      entityType: "ShipmentRequest",
+      entityId: shipment.id,
+      details: { holdingId: holding.id, itemId: holding.itemId },
+    });
+
+    return shipment;
+  });
+}
+
+/**
+ * Advance a shipment through its lifecycle (admin)
+ */
+export async function updateShipmentStatus({
+  shipmentId,
+  status,
+  carrier,
+  trackingNumber,
+}: {
+  shipmentId: string;
+  status: ShipmentStatus;
+  carrier?: string;
+  trackingNumber?: string;
+}): Promise<ShippingResult<ShipmentRequest>> {
+  return runShippingTransaction(async (tx) => {
+    const shipment = await tx.shipmentRequest.findUnique({
+      where: { id: shipmentId },
+      include: { vaultHolding: { select: { itemId: true } } },
+    });
+
+    if (!shipment) {
+      throw new ShippingError("Shipment not found");
+    }
+
+    if (!ALLOWED_TRANSITIONS[shipment.status].includes(status)) {
+      throw new ShippingError(
+        `Cannot move shipment from ${shipment.status} to ${status}`
+      );
+    }
+
+    const nextCarrier = carrier ?? shipment.carrier;
+    const nextTrackingNumber = trackingNumber ?? shipment.trackingNumber;
+
+    if (status === ShipmentStatus.SHIPPED && (!nextCarrier || !nextTrackingNumber)) {
+      throw new ShippingError("Carrier and tracking number are required to ship");
+    }
+
+    const now = new Date();
+
+    // Conditional on the status we validated against, so concurrent
+    // updates cannot both apply
+    const updated = await tx.shipmentRequest.updateMany({
+      where: { id: shipment.id, status: shipment.status },
+      data: {
+        status,
+        carrier: nextCarrier,
+        trackingNumber: nextTrackingNumber,
+        ...(status === ShipmentStatus.SHIPPED && { shippedAt: now }),
+        ...(status === ShipmentStatus.DELIVERED && { deliveredAt: now }),
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new ShippingError("Shipment was updated by someone else, please retry");
+    }
+
+    if (status === ShipmentStatus.DELIVERED) {
+      await tx.vaultHolding.update({
+        where: { id: shipment.vaultHoldingId },
+        data: { status: HoldingStatus.SHIPPED },
+      });
+      await tx.item.update({
+        where: { id: shipment.vaultHolding.itemId },
+        data: { status: ItemStatus.SHIPPED },
+      });
+    }
+
+    if (status === ShipmentStatus.FAILED) {
+      // Item comes back to the vault
+      await tx.vaultHolding.update({
+        where: { id: shipment.vaultHoldingId },
+        data: { status: HoldingStatus.HOLDING },
+      });
+      await tx.item.update({
+        where: { id: shipment.vaultHolding.itemId },
+        data: { status: ItemStatus.ASSIGNED },
+      });
+    }
+
+    return tx.shipmentRequest.findUniqueOrThrow({
+      where: { id: shipment.id },
+    });
+  });
+}
+
+/**
+ * Get public tracking URL for known carriers
+ */
+export function getTrackingUrl(
+  carrier: string | null,
+  trackingNumber: string | null
+): string | null {
+  if (!carrier || !trackingNumber) {
+    return null;
+  }
+
+  const buildUrl = TRACKING_URLS[carrier.trim().toLowerCase()];
+  return buildUrl ? buildUrl(encodeURIComponent(trackingNumber)) : null;
+}
@@ -0,0 +1,355 @@
+import prisma from "./prisma";
+import { handlePaymentConfirmed, handlePaymentFailed } from "./assignment-engine";
+import { failAndRefundOpening } from "./refunds";
+import { OpeningStatus, Prisma, WebhookEventStatus } from "@prisma/client";
+import Stripe from "stripe";
+
+/**
+ * Stripe Webhook Processing
+ *
+ * Every verified event is stored in WebhookEvent before it is handled:
+ * 1. The event id is inserted as PROCESSING - a duplicate delivery hits
+ *    the primary key and short-circuits instead of racing the first one
+ * 2. The handler runs and the row moves to PROCESSED, or FAILED with the
+ *    error so an admin can replay it
+ * 3. A redelivery of a FAILED event claims it again and retries
+ *
+ * Handlers must still be safe to run twice - a replay re-runs them.
+ */
+
+// A PROCESSING row older than this is assumed to belong to a crashed
+// delivery and may be replayed
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+export type WebhookOutcome =
+  | { status: "processed" }
+  | { status: "duplicate" }
+  | { status: "failed"; error: string };
+
+/**
+ * Store and handle a verified Stripe event
+ */
+export async function recordAndProcessEvent(
+  event: Stripe.Event
+): Promise<WebhookOutcome> {
+  const claimed = await claimEvent(event);
+  if (!claimed) {
+    return { status: "duplicate" };
+  }
+
+  return runHandler(event);
+}
+
+/**
+ * Re-run a stored event that failed (or whose delivery died mid-way)
+ */
+export async function replayWebhookEvent(
+  eventId: string
+): Promise<{ success: boolean; error?: string }> {
+  const stored = await prisma.webhookEvent.findUnique({
+    where: { id: eventId },
+  });
+
+  if (!stored) {
+    return { success: false, error: "Webhook event not found" };
+  }
+
+  const claimed = await prisma.webhookEvent.updateMany({
+    where: {
+      id: eventId,
+      OR: [
+        { status: WebhookEventStatus.FAILED },
+        {
+          status: WebhookEventStatus.PROCESSING,
+          updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) },
+        },
+      ],
+    },
+    data: {
+      status: WebhookEventStatus.PROCESSING,
+      attempts: { increment: 1 },
+      error: null,
+    },
+  });
+
+  if (claimed.count === 0) {
+    return { success: false, error: `Event cannot be replayed while ${stored.status}` };
+  }
+
+  const outcome = await runHandler(stored.payload as unknown as Stripe.Event);
+
+  return outcome.status === "failed"
+    ? { success: false, error: outcome.error }
+    : { success: true };
+}
+
+/**
+ * Insert the event, or take over a FAILED copy of it
+ *
+ * Returns false when another delivery owns or finished the event
+ */
+async function claimEvent(event: Stripe.Event): Promise<boolean> {
+  try {
+    await prisma.webhookEvent.create({
+      data: {
+        id: event.id,
+        type: event.type,
+        payload: event as unknown as Prisma.InputJsonValue,
+      },
+    });
+    return true;
+  } catch (error) {
+    if (
+      !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+      error.code !== "P2002"
+    ) {
+      throw error;
+    }
+  }
+
+  // Seen before - Stripe retrying an event that failed is a free replay
+  const retried = await prisma.webhookEvent.updateMany({
+    where: { id: event.id, status: WebhookEventStatus.FAILED },
+    data: {
+      status: WebhookEventStatus.PROCESSING,
+      attempts: { increment: 1 },
+      error: null,
+    },
+  });
+
+  return retried.count > 0;
+}
+
+async function runHandler(event: Stripe.Event): Promise<WebhookOutcome> {
+  try {
+    await dispatchEvent(event);
+
+    await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: {
+        status: WebhookEventStatus.PROCESSED,
+        processedAt: new Date(),
+      },
+    });
+
+    return { status: "processed" };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Webhook ${event.id} (${event.type}) failed:`, error);
+
+    await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: {
+        status: WebhookEventStatus.FAILED,
+        error: message,
+      },
+    });
+
+    return { status: "failed", error: message };
+  }
+}
+
+async function dispatchEvent(event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    case "checkout.session.completed":
+      return handleCheckoutCompleted(event.data.object as Stripe.Checkout.Session);
+
+    case "checkout.session.expired":
+      return handleCheckoutExpired(event.data.object as Stripe.Checkout.Session);
+
+    case "payment_intent.payment_failed":
+      return handlePaymentIntentFailed(event.data.object as Stripe.PaymentIntent);
+
+    case "charge.refunded":
+      return handleChargeRefunded(event.data.object as Stripe.Charge);
+
+    case "charge.dispute.created":
+      return handleDisputeCreated(event.data.object as Stripe.Dispute);
+
+    default:
+      console.log(`Unhandled event type: ${event.type}`);
+  }
+}
+
+/**
+ * Handle successful checkout
+ */
+async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
+  console.log(`Processing checkout.session.completed: ${session.id}`);
+
+  const opening = await findSessionOpening(session);
+
+  // The customer paid - fail the event so it is kept for replay
+  if (!opening) {
+    throw new Error(`Opening not found for session: ${session.id}`);
+  }
+
+  // Process the payment and assign items
+  try {
+    const result = await handlePaymentConfirmed(
+      opening.id,
+      session.payment_intent as string
+    );
+
+    if (!result) {
+      console.log(`Opening ${opening.id} already processed, skipping`);
+      return;
+    }
+
+    console.log(
+      `Successfully assigned ${result.items.length} item(s) to opening ${opening.id}: ${result.items.map((i) => i.item.id).join(", ")}`
+    );
+  } catch (error) {
+    console.error(`Failed to assign item for opening ${opening.id}:`, error);
+
+    // Mark as failed and pay the customer back
+    const refund = await failAndRefundOpening(opening.id, "Assignment failed");
+    if (!refund.success) {
+      console.error(`Refund failed for opening ${opening.id}: ${refund.error}`);
+    }
+  }
+}
+
+/**
+ * The opening a Checkout Session paid for
+ *
+ * Found by session id, or by the openingId in the session's metadata when
+ * checkout failed before the session id was stored on the opening
+ */
+async function findSessionOpening(session: Stripe.Checkout.Session) {
+  const opening = await prisma.packOpening.findFirst({
+    where: { stripeSessionId: session.id },
+  });
+
+  if (opening || !session.metadata?.openingId) {
+    return opening;
+  }
+
+  return prisma.packOpening.findFirst({
+    where: { id: session.metadata.openingId, stripeSessionId: null },
+  });
+}
+
+/**
+ * Handle expired checkout session
+ */
+async function handleCheckoutExpired(session: Stripe.Checkout.Session) {
+  console.log(`Processing checkout.session.expired: ${session.id}`);
+
+  const opening = await findSessionOpening(session);
+
+  if (!opening) {
+    return;
+  }
+
+  // Only update if still pending - also frees the reserved inventory
+  if (opening.status === OpeningStatus.PENDING) {
+    await handlePaymentFailed(opening.id);
+  }
+}
+
+/**
+ * Handle failed payment intent
+ */
+async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent) {
+  console.log(`Processing payment_intent.payment_failed: ${paymentIntent.id}`);
+
+  const opening = await prisma.packOpening.findFirst({
+    where: { stripePaymentId: paymentIntent.id },
+  });
+
+  if (!opening || opening.status !== OpeningStatus.PENDING) {
+    return;
+  }
+
+  await handlePaymentFailed(opening.id);
+}
+
+/**
+ * Handle a refunded charge
+ *
+ * Refunds we issued have already moved the opening to REFUNDED. A refund
+ * made outside the app (e.g. from the Stripe dashboard) closes a FAILED
+ * opening; for a delivered opening it is only recorded, since the items
+ * are already in the user's vault and need a manual decision.
+ */
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  console.log(`Processing charge.refunded: ${charge.id}`);
+
+  const paymentIntentId = typeof charge.payment_intent === "string"
+    ? charge.payment_intent
+    : charge.payment_intent?.id;
+
+  if (!paymentIntentId) {
+    return;
+  }
+
+  const opening = await prisma.packOpening.findFirst({
+    where: { stripePaymentId: paymentIntentId },
+  });
+
+  if (!opening || opening.status === OpeningStatus.REFUNDED) {
+    return;
+  }
+
+  const refundId = charge.refunds?.data[0]?.id;
+
+  if (opening.status === OpeningStatus.FAILED) {
+    await prisma.packOpening.updateMany({
+      where: { id: opening.id, status: OpeningStatus.FAILED },
+      data: {
+        status: OpeningStatus.REFUNDED,
+        refundedAt: new Date(),
+        ...(refundId && { stripeRefundId: refundId }),
+      },
+    });
+    return;
+  }
+
+  await prisma.packOpening.update({
+    where: { id: opening.id },
+    data: {
+      refundedAt: new Date(),
+      ...(refundId && { stripeRefundId: refundId }),
+    },
+  });
+  console.warn(
+    `Charge ${charge.id} refunded outside the app for delivered opening ${opening.id} - review required`
+  );
+}
+
+/**
+ * Handle a chargeback
+ *
+ * Recorded on the opening; shipments of its items are blocked while the
+ * dispute is open
+ */
+async function handleDisputeCreated(dispute: Stripe.Dispute) {
+  console.log(`Processing charge.dispute.created: ${dispute.id}`);
+
+  const paymentIntentId = typeof dispute.payment_intent === "string"
+    ? dispute.payment_intent
+    : dispute.payment_intent?.id;
+
+  if (!paymentIntentId) {
+    return;
+  }
+
+  const opening = await prisma.packOpening.findFirst({
+    where: { stripePaymentId: paymentIntentId },
+  });
+
+  if (!opening) {
+    console.error(`Opening not found for disputed payment: ${paymentIntentId}`);
+    return;
+  }
+
+  await prisma.packOpening.update({
+    where: { id: opening.id },
+    data: {
+      stripeDisputeId: dispute.id,
+      disputedAt: new Date(dispute.created * 1000),
+    },
+  });
+  console.warn(`Opening ${opening.id} disputed (${dispute.reason}) - review required`);
+}
@@ -14,15 +14,28 @@ if (!process.env.STRIPE_SECRET_KEY && typeof window === "undefined" && process.e
   console.warn("STRIPE_SECRET_KEY not configured");
 }
 
+// Point the client at a local stripe-mock (or any other API host) when
+// STRIPE_API_HOST is set, e.g. STRIPE_API_HOST=localhost STRIPE_API_PORT=12111
+// STRIPE_API_PROTOCOL=http
 export const stripe = new Stripe(stripeKey, {
   apiVersion: "2025-12-15.clover",
   typescript: true,
+  ...(process.env.STRIPE_API_HOST && {
+    host: process.env.STRIPE_API_HOST,
+    port: process.env.STRIPE_API_PORT || 443,
+    protocol: process.env.STRIPE_API_PROTOCOL === "http" ? "http" : "https",
+  }),
 });
 
+// Stripe's minimum Checkout Session lifetime; inventory reserved for a
+// session must outlive it so the expiry webhook can release it
+export const CHECKOUT_SESSION_TTL_SECONDS = 30 * 60;
+
 /**
  * Create a Checkout Session for pack purchase
  */
 export async function createPackCheckoutSession({
+  openingId,
   packProductId,
   packName,
   priceInCents,
@@ -31,6 +44,7 @@ export async function createPackCheckoutSession({
   successUrl,
   cancelUrl,
 }: {
+  openingId: string;
   packProductId: string;
   packName: string;
   priceInCents: number;
@@ -45,6 +59,7 @@ export async function createPackCheckoutSession({
     customer_email: userEmail,
     client_reference_id: userId,
     metadata: {
+      openingId,
       packProductId,
       userId,
       type: "pack_purchase",
@@ -64,11 +79,26 @@ export async function createPackCheckoutSession({
     ],
     success_url: successUrl,
     cancel_url: cancelUrl,
+    expires_at: Math.floor(Date.now() / 1000) + CHECKOUT_SESSION_TTL_SECONDS,
+  }, {
+    // Retrying checkout for the same opening must not open a second session
+    idempotencyKey: `checkout:${openingId}`,
   });
 
   return session;
 }
 
+/**
+ * Expire an open Checkout Session so it can no longer be paid
+ *
+ * Fails if the session has already completed
+ */
+export async function expireCheckoutSession(
+  sessionId: string
+): Promise<Stripe.Checkout.Session> {
+  return stripe.checkout.sessions.expire(sessionId);
+}
+
 /**
  * Verify webhook signature
  */
@@ -99,7 +129,8 @@ export async function getPaymentIntent(
  */
 export async function createRefund(
   paymentIntentId: string,
-  reason?: string
+  reason?: string,
+  idempotencyKey?: string
 ): Promise<Stripe.Refund> {
   return stripe.refunds.create({
     payment_intent: paymentIntentId,
@@ -107,7 +138,7 @@ export async function createRefund(
     metadata: {
       reason: reason || "Pack opening failed",
     },
-  });
+  }, idempotencyKey ? { idempotencyKey } : undefined);
 }
 
 export default stripe;
@@ -0,0 +1,209 @@
+import prisma from "./prisma";
+import { invalidatePackHealth } from "./pack-health";
+import { ItemStatus } from "@prisma/client";
+
+/**
+ * Tier Classification
+ *
+ * ItemTier.minValue / maxValue define value bands in cents, inclusive at
+ * both ends; a null maxValue is unbounded. An item's tier should be the
+ * band its estimatedValue falls in.
+ *
+ * Rules:
+ * - Bands must not overlap, otherwise classification is ambiguous and
+ *   band edits and re-tiering are refused
+ * - Gaps are allowed but reported - values in a gap have no tier
+ * - Only AVAILABLE items are re-tiered; items already pulled keep the
+ *   tier they were opened at
+ */
+
+export interface TierBand {
+  id: string;
+  name: string;
+  minValue: number;
+  maxValue: number | null;
+}
+
+export interface BandValidation {
+  valid: boolean;
+  overlaps: string[];
+  gaps: string[];
+}
+
+export interface RetierResult {
+  dryRun: boolean;
+  checked: number;
+  changes: {
+    itemId: string;
+    sku: string;
+    fromTierId: string;
+    toTierId: string;
+  }[];
+  // Values that fall in a gap between bands
+  unclassified: string[];
+}
+
+/**
+ * Find the band a value falls in
+ */
+export function classifyValue<T extends TierBand>(
+  valueInCents: number,
+  tiers: T[]
+): T | null {
+  return (
+    tiers.find(
+      (tier) =>
+        valueInCents >= tier.minValue &&
+        (tier.maxValue === null || valueInCents <= tier.maxValue)
+    ) ?? null
+  );
+}
+
+/**
+ * Check a set of bands for overlaps and gaps
+ */
+export function validateTierBands(tiers: TierBand[]): BandValidation {
+  const overlaps: string[] = [];
+  const gaps: string[] = [];
+
+  for (const tier of tiers) {
+    if (tier.maxValue !== null && tier.maxValue < tier.minValue) {
+      overlaps.push(`${tier.name} has maxValue below minValue`);
+    }
+  }
+
+  const sorted = [...tiers].sort((a, b) => a.minValue - b.minValue);
+
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1];
+    const next = sorted[i];
+
+    if (prev.maxValue === null || next.minValue <= prev.maxValue) {
+      overlaps.push(`${prev.name} and ${next.name} overlap`);
+    } else if (next.minValue > prev.maxValue + 1) {
+      gaps.push(
+        `No tier covers ${prev.maxValue + 1}-${next.minValue - 1} cents (between ${prev.name} and ${next.name})`
+      );
+    }
+  }
+
+  return { valid: overlaps.length === 0, overlaps, gaps };
+}
+
+/**
+ * Load every tier's band
+ */
+export async function getTierBands(): Promise<TierBand[]> {
+  return prisma.itemTier.findMany({
+    select: { id: true, name: true, minValue: true, maxValue: true },
+    orderBy: { displayOrder: "asc" },
+  });
+}
+
+/**
+ * Change one tier's band, refusing edits that would overlap another tier
+ */
+export async function updateTierBand(
+  tierId: string,
+  band: { minValue: number; maxValue: number | null }
+): Promise<{ success: boolean; validation?: BandValidation; error?: string }> {
+  const tiers = await getTierBands();
+
+  if (!tiers.some((t) => t.id === tierId)) {
+    return { success: false, error: "Tier not found" };
+  }
+
+  const proposed = tiers.map((t) => (t.id === tierId ? { ...t, ...band } : t));
+  const validation = validateTierBands(proposed);
+
+  if (!validation.valid) {
+    return { success: false, validation, error: validation.overlaps.join("; ") };
+  }
+
+  await prisma.itemTier.update({
+    where: { id: tierId },
+    data: band,
+  });
+
+  return { success: true, validation };
+}
+
+/**
+ * Move AVAILABLE items into the tier their value falls in
+ *
+ * Run after bands change. Each move is conditional on the item still
+ * being AVAILABLE in its old tier, so a concurrent sale is never re-tiered.
+ */
+export async function retierItems({
+  dryRun = false,
+}: { dryRun?: boolean } = {}): Promise<{
+  success: boolean;
+  data?: RetierResult;
+  error?: string;
+}> {
+  const tiers = await getTierBands();
+  const validation = validateTierBands(tiers);
+
+  if (!validation.valid) {
+    return { success: false, error: `Fix tier bands first: ${validation.overlaps.join("; ")}` };
+  }
+
+  const items = await prisma.item.findMany({
+    where: { status: ItemStatus.AVAILABLE },
+    select: { id: true, sku: true, tierId: true, estimatedValue: true },
+  });
+
+  const changes: RetierResult["changes"] = [];
+  const unclassified: string[] = [];
+
+  for (const item of items) {
+    const expected = classifyValue(item.estimatedValue, tiers);
+    if (!expected) {
+      unclassified.push(item.sku);
+    } else if (expected.id !== item.tierId) {
+      changes.push({
+        itemId: item.id,
+        sku: item.sku,
+        fromTierId: item.tierId,
+        toTierId: expected.id,
+      });
+    }
+  }
+
+  if (dryRun || changes.length === 0) {
+    return {
+      success: true,
+      data: { dryRun, checked: items.length, changes, unclassified },
+    };
+  }
+
+  const applied: RetierResult["changes"] = [];
+
+  for (const change of changes) {
+    const updated = await prisma.item.updateMany({
+      where: {
+        id: change.itemId,
+        status: ItemStatus.AVAILABLE,
+        tierId: change.fromTierId,
+      },
+      data: { tierId: change.toTierId },
+    });
+
+    if (updated.count > 0) {
+      applied.push(change);
+    }
+  }
+
+  // Guarantee buckets changed for every pack holding a moved item
+  const poolItems = await prisma.packPoolItem.findMany({
+    where: { itemId: { in: applied.map((c) => c.itemId) } },
+    select: { packProductId: true },
+    distinct: ["packProductId"],
+  });
+  await Promise.all(poolItems.map((pi) => invalidatePackHealth(pi.packProductId)));
+
+  return {
+    success: true,
+    data: { dryRun: false, checked: items.length, changes: applied, unclassified },
+  };
+}
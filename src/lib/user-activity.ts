@@ -0,0 +1,83 @@
+import prisma from "./prisma";
+import { Prisma, UserActivityType } from "@prisma/client";
+import type { UserActivityLog } from "@prisma/client";
+import type { PaginatedResponse } from "@/types";
+
+/**
+ * User Activity Log
+ *
+ * A user's own history: purchases, reveals, buybacks, listings and
+ * shipment requests. Separate from AuditLog, which records admin actions.
+ *
+ * Entries take a transaction client and must be written inside the same
+ * prisma.$transaction as the action they record, so an activity is never
+ * logged for a change that rolled back.
+ */
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+export interface UserActivityInput {
+  userId: string;
+  type: UserActivityType;
+  entityType: string;
+  entityId?: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Record one activity inside the caller's transaction
+ */
+export async function recordUserActivity(
+  tx: Prisma.TransactionClient,
+  activity: UserActivityInput
+): Promise<void> {
+  await tx.userActivityLog.create({
+    data: {
+      ...activity,
+      details: activity.details as Prisma.InputJsonObject | undefined,
+    },
+  });
+}
+
+/**
+ * A user's activity, newest first
+ */
+export async function getUserActivity(
+  userId: string,
+  {
+    page = 1,
+    pageSize = DEFAULT_PAGE_SIZE,
+    type,
+  }: {
+    page?: number;
+    pageSize?: number;
+    type?: UserActivityType;
+  } = {}
+): Promise<PaginatedResponse<UserActivityLog>> {
+  const take = Math.min(Math.max(1, pageSize), MAX_PAGE_SIZE);
+  const currentPage = Math.max(1, page);
+
+  const where: Prisma.UserActivityLogWhereInput = {
+    userId,
+    ...(type && { type }),
+  };
+
+  const [items, total] = await Promise.all([
+    prisma.userActivityLog.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (currentPage - 1) * take,
+      take,
+    }),
+    prisma.userActivityLog.count({ where }),
+  ]);
+
+  return {
+    items,
+    total,
+    page: currentPage,
+    pageSize: take,
+    totalPages: Math.ceil(total / take),
+  };
+}
@@ -0,0 +1,320 @@
+import prisma from "./prisma";
+import type { CsvRow } from "./csv";
+import type { PriceSource } from "./price-sources";
+import { ItemStatus, Prisma } from "@prisma/client";
+
+/**
+ * Item Valuation
+ *
+ * Item.estimatedValue is the current value; ItemValuation keeps every
+ * value an item has had, with where it came from. Anything that changes
+ * estimatedValue goes through here so the two never disagree.
+ *
+ * Rules:
+ * - A revaluation is conditional on the value it was computed against,
+ *   so two concurrent revaluations cannot both apply
+ * - Bulk revaluations are all-or-nothing, like inventory imports
+ * - Items that have left the system (SHIPPED, RETIRED) are not revalued
+ *   from price sources
+ */
+
+const INACTIVE_STATUSES: ItemStatus[] = [ItemStatus.SHIPPED, ItemStatus.RETIRED];
+
+export interface ValuationResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+export interface ValuationChange {
+  itemId: string;
+  sku: string;
+  previousValue: number;
+  valueInCents: number;
+}
+
+export interface PriceUpdate {
+  row: number;
+  sku: string;
+  valueInCents: number;
+}
+
+export interface RevaluationResult {
+  dryRun: boolean;
+  total: number;
+  changed: ValuationChange[];
+  unchanged: number;
+  errors: { row: number; sku?: string; error: string }[];
+}
+
+/**
+ * Expected business failure - rolls back the transaction and is
+ * reported to the caller instead of being rethrown
+ */
+class ValuationError extends Error {}
+
+async function runValuationTransaction<T>(
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<ValuationResult<T>> {
+  try {
+    const data = await prisma.$transaction(fn);
+    return { success: true, data };
+  } catch (error) {
+    if (error instanceof ValuationError) {
+      return { success: false, error: error.message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Append history rows inside the caller's transaction
+ */
+export async function recordValuations(
+  tx: Prisma.TransactionClient,
+  entries: {
+    itemId: string;
+    valueInCents: number;
+    previousValue?: number;
+    source: string;
+    note?: string;
+    adminUserId?: string;
+  }[]
+): Promise<void> {
+  if (entries.length > 0) {
+    await tx.itemValuation.createMany({ data: entries });
+  }
+}
+
+/**
+ * Set one item's value
+ *
+ * Returns null data when the value is unchanged
+ */
+export async function revalueItem({
+  itemId,
+  valueInCents,
+  source = "manual",
+  note,
+  adminUserId,
+}: {
+  itemId: string;
+  valueInCents: number;
+  source?: string;
+  note?: string;
+  adminUserId?: string;
+}): Promise<ValuationResult<ValuationChange | null>> {
+  return runValuationTransaction(async (tx) => {
+    const item = await tx.item.findUnique({
+      where: { id: itemId },
+      select: { id: true, sku: true, estimatedValue: true },
+    });
+
+    if (!item) {
+      throw new ValuationError("Item not found");
+    }
+
+    if (item.estimatedValue === valueInCents) {
+      return null;
+    }
+
+    const change = {
+      itemId: item.id,
+      sku: item.sku,
+      previousValue: item.estimatedValue,
+      valueInCents,
+    };
+    await applyChanges(tx, [change], { source, note, adminUserId });
+
+    return change;
+  });
+}
+
+/**
+ * Map price sheet rows (sku, estimatedValue in cents) to updates
+ */
+export function parsePriceSheet(rows: CsvRow[]): {
+  updates: PriceUpdate[];
+  errors: RevaluationResult["errors"];
+} {
+  const updates: PriceUpdate[] = [];
+  const errors: RevaluationResult["errors"] = [];
+
+  for (const { row, values } of rows) {
+    const sku = values.sku;
+    const value = Number(values.estimatedvalue);
+
+    if (!sku) {
+      errors.push({ row, error: "sku: SKU is required" });
+    } else if (!values.estimatedvalue || !Number.isInteger(value) || value <= 0) {
+      errors.push({ row, sku, error: "estimatedValue: must be a positive whole number of cents" });
+    } else {
+      updates.push({ row, sku, valueInCents: value });
+    }
+  }
+
+  return { updates, errors };
+}
+
+/**
+ * Set many items' values by SKU
+ *
+ * Every update is checked before anything is written
+ */
+export async function revalueItems({
+  updates,
+  errors: parseErrors = [],
+  source,
+  note,
+  adminUserId,
+  dryRun = false,
+}: {
+  updates: PriceUpdate[];
+  // Errors found while parsing, reported with the rest
+  errors?: RevaluationResult["errors"];
+  source: string;
+  note?: string;
+  adminUserId?: string;
+  dryRun?: boolean;
+}): Promise<ValuationResult<RevaluationResult>> {
+  const total = updates.length + parseErrors.length;
+  if (total === 0) {
+    return { success: false, error: "Price sheet has no rows" };
+  }
+
+  const errors = [...parseErrors];
+  const items = await prisma.item.findMany({
+    where: { sku: { in: updates.map((u) => u.sku) } },
+    select: { id: true, sku: true, estimatedValue: true },
+  });
+  const itemsBySku = new Map(items.map((item) => [item.sku, item]));
+
+  const changed: ValuationChange[] = [];
+  const seenSkus = new Map<string, number>();
+  let unchanged = 0;
+
+  for (const update of updates) {
+    const firstRow = seenSkus.get(update.sku);
+    if (firstRow !== undefined) {
+      errors.push({
+        row: update.row,
+        sku: update.sku,
+        error: `Duplicate SKU, first seen on row ${firstRow}`,
+      });
+      continue;
+    }
+    seenSkus.set(update.sku, update.row);
+
+    const item = itemsBySku.get(update.sku);
+    if (!item) {
+      errors.push({ row: update.row, sku: update.sku, error: "Unknown SKU" });
+      continue;
+    }
+
+    if (item.estimatedValue === update.valueInCents) {
+      unchanged++;
+      continue;
+    }
+
+    changed.push({
+      itemId: item.id,
+      sku: item.sku,
+      previousValue: item.estimatedValue,
+      valueInCents: update.valueInCents,
+    });
+  }
+
+  errors.sort((a, b) => a.row - b.row);
+
+  if (dryRun || errors.length > 0 || changed.length === 0) {
+    return {
+      success: true,
+      data: {
+        dryRun,
+        total,
+        changed: errors.length > 0 ? [] : changed,
+        unchanged,
+        errors,
+      },
+    };
+  }
+
+  const result = await runValuationTransaction((tx) =>
+    applyChanges(tx, changed, { source, note, adminUserId })
+  );
+
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  return {
+    success: true,
+    data: { dryRun: false, total, changed, unchanged, errors: [] },
+  };
+}
+
+/**
+ * Revalue every item still in the system from a price source
+ */
+export async function revalueFromSource(
+  source: PriceSource,
+  { adminUserId, dryRun = false }: { adminUserId?: string; dryRun?: boolean } = {}
+): Promise<ValuationResult<RevaluationResult>> {
+  const items = await prisma.item.findMany({
+    where: { status: { notIn: INACTIVE_STATUSES } },
+    select: { sku: true },
+    orderBy: { sku: "asc" },
+  });
+
+  const prices = await source.getPrices(items.map((i) => i.sku));
+  const updates: PriceUpdate[] = [...prices].map(([sku, valueInCents], index) => ({
+    row: index + 1,
+    sku,
+    valueInCents,
+  }));
+
+  if (updates.length === 0) {
+    return {
+      success: true,
+      data: { dryRun, total: 0, changed: [], unchanged: 0, errors: [] },
+    };
+  }
+
+  return revalueItems({ updates, source: source.name, adminUserId, dryRun });
+}
+
+/**
+ * Write new values and their history rows
+ *
+ * Each update is conditional on the value the change was computed from
+ */
+async function applyChanges(
+  tx: Prisma.TransactionClient,
+  changes: ValuationChange[],
+  { source, note, adminUserId }: { source: string; note?: string; adminUserId?: string }
+): Promise<void> {
+  for (const change of changes) {
+    const updated = await tx.item.updateMany({
+      where: { id: change.itemId, estimatedValue: change.previousValue },
+      data: { estimatedValue: change.valueInCents },
+    });
+
+    if (updated.count === 0) {
+      throw new ValuationError(
+        `Value of ${change.sku} changed while revaluing, please retry`
+      );
+    }
+  }
+
+  await recordValuations(
+    tx,
+    changes.map((change) => ({
+      itemId: change.itemId,
+      valueInCents: change.valueInCents,
+      previousValue: change.previousValue,
+      source,
+      note,
+      adminUserId,
+    }))
+  );
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { decodeJwt } from "jose";
+import { ADMIN_REFRESH_TOKEN_NAME, ADMIN_TOKEN_NAME } from "@/lib/admin-cookies";
+
+/**
+ * Middleware
+ *
+ * Admin pages render in server components, which cannot set cookies, so
+ * an expired admin access token is renewed before the page runs: the
+ * request is sent through /api/admin/session/refresh, which rotates the
+ * tokens and redirects back.
+ *
+ * Only the expiry is read here; the token is fully verified by
+ * getAdminSession when the page renders.
+ */
+
+// Renew this close to expiry so the token outlives the page render
+const REFRESH_MARGIN_SECONDS = 30;
+
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (pathname.startsWith("/admin/login") || !request.cookies.has(ADMIN_REFRESH_TOKEN_NAME)) {
+    return NextResponse.next();
+  }
+
+  if (!isExpiring(request.cookies.get(ADMIN_TOKEN_NAME)?.value)) {
+    return NextResponse.next();
+  }
+
+  const refreshUrl = new URL("/api/admin/session/refresh", request.url);
+  refreshUrl.searchParams.set("next", `${pathname}${search}`);
+  return NextResponse.redirect(refreshUrl);
+}
+
+function isExpiring(token: string | undefined): boolean {
+  if (!token) {
+    return true;
+  }
+
+  try {
+    const { exp } = decodeJwt(token);
+    return !exp || exp - REFRESH_MARGIN_SECONDS <= Date.now() / 1000;
+  } catch {
+    return true;
+  }
+}
+
+export const config = {
+  matcher: ["/admin/:path*"],
+};
@@ -18,6 +18,7 @@ import type {
   Listing,
   ShipmentRequest,
   AdminUser,
+  AdminInvite,
   AuditLog,
   ItemStatus,
   PackStatus,
@@ -65,6 +66,7 @@ export type PackHealthStatus = "SELLABLE" | "LOW_STOCK" | "OUT_OF_STOCK";
 export interface TierHealth {
   tierId: string;
   tierName: string;
+  guaranteed: boolean; // A hard guarantee rather than a weighted tier
   available: number;
   required: number;
   healthy: boolean;
@@ -78,11 +80,41 @@ export interface PackHealth {
   maxSupply: number | null;
   soldCount: number;
   tierHealth: TierHealth[];
+  itemsPerPack: number;
+  totalAvailable: number; // Available pool items across all tiers
   canSellOne: boolean;
   warnings: string[];
   calculatedAt: Date;
 }
 
+// ============================================
+// PACK ECONOMICS TYPES
+// ============================================
+
+export interface TierEconomics {
+  tierId: string;
+  tierName: string;
+  available: number;
+  avgValue: number; // Cents
+  weightedProbability: number; // Chance a weighted slot lands in this tier
+  guaranteedSlots: number;
+}
+
+export interface PackEconomics {
+  packProductId: string;
+  priceInCents: number;
+  itemsPerPack: number;
+  expectedValue: number; // Cents per pack
+  rtp: number; // Expected value / price, 1 = break even
+  standardDeviation: number; // Cents per pack
+  profitProbability: number; // P(pack value > price)
+  profitProbabilityMethod: "exact" | "normal";
+  tiers: TierEconomics[];
+  withinLimits: boolean;
+  warnings: string[];
+  calculatedAt: Date;
+}
+
 // ============================================
 // API RESPONSE TYPES
 // ============================================
@@ -108,8 +140,14 @@ export interface PaginatedResponse<T> {
 
 export interface PackOpeningResult {
   openingId: string;
-  item: ItemWithTier;
+  items: AssignedItemResult[];
+  totalValue: number;
+}
+
+export interface AssignedItemResult {
   assignmentId: string;
+  slot: number;
+  item: ItemWithTier;
   tier: ItemTier;
   estimatedValue: number;
 }
@@ -131,6 +169,44 @@ export interface PackConfigWithDetails extends PackConfig {
   tierWeights: (PackTierWeight & { tier: ItemTier })[];
 }
 
+// ============================================
+// PROVABLY FAIR TYPES
+// ============================================
+
+// Stored on Assignment.fairnessProof - everything needed to replay a draw
+export interface FairnessSlotProof {
+  slot: number;
+  guaranteed: boolean;
+  tierRoll: number;
+  itemRoll: number;
+  activeWeights: { tierId: string; weight: number }[];
+  selectedTierId: string | null;
+  candidateCount: number;
+  candidateIds?: string[]; // Absent on proofs stored before candidates were
+  itemIndex: number;
+}
+
+export interface FairnessCommitment {
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+}
+
+export interface FairnessVerification {
+  openingId: string;
+  revealed: boolean;
+  commitment: FairnessCommitment;
+  serverSeed: string | null;
+  hashMatches: boolean | null;
+  slots: {
+    slot: number;
+    assignedItemId: string;
+    stored: FairnessSlotProof;
+    replayed: { tierRoll: number; itemRoll: number; selectedTierId: string | null; itemIndex: number } | null;
+    valid: boolean | null;
+  }[];
+}
+
 // ============================================
 // VAULT & HOLDINGS TYPES
 // ============================================
@@ -149,6 +225,15 @@ export interface UserVaultSummary {
   holdings: VaultHoldingWithDetails[];
 }
 
+// ============================================
+// MARKETPLACE TYPES
+// ============================================
+
+export interface ListingWithDetails extends Listing {
+  vaultHolding: VaultHolding & { item: ItemWithTier };
+  seller: Pick<User, "id" | "name">;
+}
+
 // ============================================
 // ADMIN TYPES
 // ============================================
@@ -167,15 +252,27 @@ export interface AdminDashboardStats {
 export interface PackOpeningWithUser extends PackOpening {
   user: Pick<User, "id" | "email" | "name">;
   packProduct: Pick<PackProduct, "id" | "name">;
-  assignment: (Assignment & { item: ItemWithTier }) | null;
+  assignments: (Assignment & { item: ItemWithTier })[];
+}
+
+export type AdminUserSummary = Omit<
+  AdminUser,
+  "passwordHash" | "totpSecret" | "totpLastStep"
+>;
+
+export interface PendingAdminInvite extends Omit<AdminInvite, "tokenHash"> {
+  invitedBy: Pick<AdminUser, "id" | "email">;
 }
 
 // ============================================
 // SIMULATION TYPES
 // ============================================
 
+export type SimulationMode = "independent" | "deplete";
+
 export interface SimulationResult {
   packProductId: string;
+  mode: SimulationMode;
   totalSimulations: number;
   results: {
     tierId: string;
@@ -190,6 +287,12 @@ export interface SimulationResult {
   minValue: number;
   maxValue: number;
   guaranteesMet: boolean;
+  // Tiers emptied during a depleting run, in the order they ran out
+  depletedTiers: {
+    tierId: string;
+    tierName: string;
+    afterPacks: number;
+  }[];
   issues: string[];
 }
 
@@ -202,7 +305,7 @@ export interface CreateItemInput {
   name: string;
   description?: string;
   images: string[];
-  tierId: string;
+  tierId?: string; // Derived from the value bands when omitted
   collection?: string;
   category?: string;
   condition?: string;
@@ -217,6 +320,7 @@ export interface CreatePackInput {
   images: string[];
   priceInCents: number;
   maxSupply?: number;
+  itemsPerPack?: number;
   guarantees: { tierId: string; minCount: number }[];
   tierWeights: { tierId: string; weight: number }[];
   poolItemIds: string[];